@@ -0,0 +1,27 @@
+/**
+ * Difficulty calibration
+ *
+ * Simulates every board size under each rule variant and memory model and
+ * prints the expected moves and time. Run it with `npm run calibrate`, and add
+ * `-- --write` to regenerate the par table from the results.
+ */
+
+import { writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { parseCalibrationArgs, runCalibration, formatCalibrationReport, derivePars, formatParTable } from '../functions/calibration';
+
+const parsed = parseCalibrationArgs(process.argv.slice(2));
+
+if (typeof parsed === 'string') {
+    console.error(parsed);
+    process.exit(1);
+} else {
+    const entries = runCalibration(parsed.options);
+    console.log(formatCalibrationReport(entries));
+
+    if (parsed.write) {
+        const parTablePath = fileURLToPath(new URL('../functions/par-table.ts', import.meta.url));
+        writeFileSync(parTablePath, formatParTable(derivePars(entries), parsed.options.runs));
+        console.log(`\nWrote ${parTablePath}`);
+    }
+}
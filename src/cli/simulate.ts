@@ -0,0 +1,18 @@
+/**
+ * Game simulator
+ *
+ * Plays thousands of seeded games in Node and prints the move and mismatch
+ * distributions of each strategy. Run it with `npm run simulate -- --pairs 8`.
+ */
+
+import { parseSimulationArgs, runSimulations, formatSimulationReport } from '../functions/simulation';
+
+const options = parseSimulationArgs(process.argv.slice(2));
+
+if (typeof options === 'string') {
+    console.error(options);
+    process.exit(1);
+} else {
+    const reports = runSimulations(options);
+    console.log(reports.map(formatSimulationReport).join('\n\n'));
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fixture, html } from '@open-wc/testing';
+import { AchievementGallery } from './achievement-gallery';
+import './achievement-gallery';
+import { InMemoryStorageService } from '../services/storage-service';
+import { ACHIEVEMENTS } from '../functions/achievements';
+import { saveUnlockedAchievements } from '../utils/unlocked-achievements';
+
+describe('AchievementGallery Component', () => {
+  let storage: InMemoryStorageService;
+  let element: AchievementGallery;
+
+  const open = async () => {
+    (element.shadowRoot!.querySelector('.achievements-toggle-button') as HTMLButtonElement).click();
+    await element.updateComplete;
+  };
+
+  beforeEach(async () => {
+    storage = new InMemoryStorageService();
+    element = await fixture<AchievementGallery>(html`
+      <memory-achievement-gallery .storageService=${storage}></memory-achievement-gallery>
+    `);
+  });
+
+  it('should start collapsed', () => {
+    expect(element.shadowRoot!.querySelector('.achievement-list')).toBeNull();
+  });
+
+  it('should list every achievement as locked at first', async () => {
+    await open();
+
+    const items = element.shadowRoot!.querySelectorAll('.achievement');
+    expect(items.length).toBe(ACHIEVEMENTS.length);
+    expect(element.shadowRoot!.querySelectorAll('.achievement.locked').length).toBe(ACHIEVEMENTS.length);
+    expect(element.shadowRoot!.querySelector('.achievement-count')?.textContent).toContain(`0 of ${ACHIEVEMENTS.length}`);
+  });
+
+  it('should show stored unlocks', async () => {
+    saveUnlockedAchievements(storage, ['first_win'], Date.UTC(2024, 0, 15));
+    element = await fixture<AchievementGallery>(html`
+      <memory-achievement-gallery .storageService=${storage}></memory-achievement-gallery>
+    `);
+    await open();
+
+    const unlocked = element.shadowRoot!.querySelectorAll('.achievement.unlocked');
+    expect(unlocked.length).toBe(1);
+    expect(unlocked[0].querySelector('.achievement-name')?.textContent).toBe('First Win');
+    expect(unlocked[0].querySelector('.achievement-status')?.textContent).toContain('Unlocked');
+  });
+
+  it('should update when the board reports an unlock', async () => {
+    await open();
+
+    saveUnlockedAchievements(storage, ['perfect_game']);
+    document.dispatchEvent(new CustomEvent('achievement-unlocked', { detail: ACHIEVEMENTS[1] }));
+    await element.updateComplete;
+
+    expect(element.shadowRoot!.querySelectorAll('.achievement.unlocked').length).toBe(1);
+  });
+
+  it('should list the achievements it is given', async () => {
+    element.achievements = [{ id: 'custom', name: 'Custom', description: 'Custom achievement.', isUnlocked: () => false }];
+    await element.updateComplete;
+    await open();
+
+    expect(element.shadowRoot!.querySelector('.achievement-name')?.textContent).toBe('Custom');
+  });
+});
@@ -0,0 +1,99 @@
+import { LitElement, html, unsafeCSS } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import achievementGalleryStyles from './achievement-gallery.css?inline';
+import { StorageService, defaultStorageService } from '../services/storage-service';
+import { Achievement, ACHIEVEMENTS } from '../functions/achievements';
+import { UnlockedAchievements, loadUnlockedAchievements } from '../utils/unlocked-achievements';
+
+/**
+ * Achievement gallery
+ * Lists every achievement, showing which ones are unlocked and when, and
+ * updates whenever the board reports a new unlock
+ */
+@customElement('memory-achievement-gallery')
+export class AchievementGallery extends LitElement {
+  @state() private unlocked: UnlockedAchievements = {};
+  @state() private isOpen = false;
+
+  @property({ type: Object })
+  storageService: StorageService = defaultStorageService;
+
+  @property({ type: Array })
+  achievements: Achievement[] = ACHIEVEMENTS;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.unlocked = loadUnlockedAchievements(this.storageService);
+    // The board dispatches a composed event, so it reaches the document from inside any shadow root
+    document.addEventListener('achievement-unlocked', this.handleAchievementUnlocked);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    document.removeEventListener('achievement-unlocked', this.handleAchievementUnlocked);
+  }
+
+  // Reload the unlocks when a different storage service is set
+  updated(changedProperties: Map<string, any>) {
+    if (changedProperties.has('storageService') && changedProperties.get('storageService') !== undefined) {
+      this.unlocked = loadUnlockedAchievements(this.storageService);
+    }
+  }
+
+  /**
+   * Pick up an unlock the board has just stored
+   */
+  private handleAchievementUnlocked = () => {
+    this.unlocked = loadUnlockedAchievements(this.storageService);
+  };
+
+  /**
+   * Show or hide the gallery
+   */
+  toggle() {
+    this.isOpen = !this.isOpen;
+  }
+
+  private renderGallery() {
+    const unlockedCount = this.achievements.filter(achievement => achievement.id in this.unlocked).length;
+
+    return html`
+      <div class="achievement-list">
+        <p class="achievement-count">${unlockedCount} of ${this.achievements.length} unlocked</p>
+        <ul>
+          ${this.achievements.map(achievement => {
+            const unlockedAt = this.unlocked[achievement.id];
+            return html`
+              <li class=${unlockedAt === undefined ? 'achievement locked' : 'achievement unlocked'}>
+                <p class="achievement-name">${achievement.name}</p>
+                <p class="achievement-description">${achievement.description}</p>
+                <p class="achievement-status">
+                  ${unlockedAt === undefined ? 'Locked' : `Unlocked ${new Date(unlockedAt).toLocaleDateString()}`}
+                </p>
+              </li>
+            `;
+          })}
+        </ul>
+      </div>
+    `;
+  }
+
+  render() {
+    return html`
+      <section class="achievement-gallery">
+        <button class="achievements-toggle-button" @click=${this.toggle} aria-expanded=${this.isOpen}>
+          ${this.isOpen ? 'Hide achievements' : 'Achievements'}
+        </button>
+        ${this.isOpen ? this.renderGallery() : ''}
+      </section>
+    `;
+  }
+
+  static styles = unsafeCSS(achievementGalleryStyles);
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'memory-achievement-gallery': AchievementGallery;
+  }
+}
@@ -28,6 +28,15 @@ describe('FlipCard Component', () => {
     expect(backImg.alt).toBe('Test Back');
   });
 
+  it('shows the text of a text card instead of the front image', async () => {
+    const el = await fixture<FlipCard>(html`
+      <flip-card frontImage="/test-front.jpg" frontText="Claude Monet"></flip-card>
+    `);
+
+    expect(el.shadowRoot!.querySelector('.flip-card-front img')).toBeNull();
+    expect(el.shadowRoot!.querySelector('.flip-card-front .text-face')?.textContent).toBe('Claude Monet');
+  });
+
   it('flips when clicked and emits event', async () => {
     const el = await fixture<FlipCard>(html`
       <flip-card
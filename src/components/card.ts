@@ -7,6 +7,7 @@ export class FlipCard extends LitElement {
   @property({ type: String }) frontImage = '';
   @property({ type: String }) backImage = '';
   @property({ type: String }) frontAlt = '';
+  @property({ type: String }) frontText = ''; // Text shown on the front instead of the image, for text cards
   @property({ type: String }) backAlt = '';
   @property({ type: Boolean, reflect: true }) revealed = false;
   @property({ type: Boolean, reflect: true }) matched = false;
@@ -78,7 +79,9 @@ export class FlipCard extends LitElement {
             <img src="${this.backImage}" alt="${this.backAlt}" draggable="false">
           </div>
           <div class="flip-card-front">
-            <img src="${this.frontImage}" alt="${this.frontAlt}" draggable="false">
+            ${this.frontText
+        ? html`<p class="text-face">${this.frontText}</p>`
+        : html`<img src="${this.frontImage}" alt="${this.frontAlt}" draggable="false">`}
           </div>
         </div>
       </div>
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fixture, html } from '@open-wc/testing';
+import { DeckBuilder } from './deck-builder';
+import './deck-builder';
+import { InMemoryDeckStore } from '../services/deck-store';
+import { ImageProcessor, PassThroughImageProcessor } from '../services/image-processor';
+import { CUSTOM_DECK_SIZE } from '../functions/custom-deck';
+
+describe('DeckBuilder Component', () => {
+  let store: InMemoryDeckStore;
+  let element: DeckBuilder;
+
+  const createFiles = (count: number, type = 'image/jpeg') =>
+    Array.from({ length: count }, (_, index) => new File([`photo ${index}`], `Photo ${index + 1}.jpg`, { type }));
+
+  const query = (selector: string) => element.shadowRoot!.querySelector(selector);
+
+  const open = async () => {
+    (query('.deck-builder-toggle-button') as HTMLButtonElement).click();
+    await element.updateComplete;
+  };
+
+  const renderBuilder = async (imageProcessor: ImageProcessor = new PassThroughImageProcessor()) => {
+    element = await fixture<DeckBuilder>(html`
+      <memory-deck-builder .deckStore=${store} .imageProcessor=${imageProcessor}></memory-deck-builder>
+    `);
+    await open();
+  };
+
+  beforeEach(async () => {
+    store = new InMemoryDeckStore();
+    await renderBuilder();
+  });
+
+  it('should start without a deck', () => {
+    expect(query('.saved-deck-name')?.textContent).toContain('No custom deck yet');
+    expect((query('.save-deck-button') as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('should list the problems with the chosen files', async () => {
+    element.chooseFiles(createFiles(3, 'text/plain'));
+    await element.updateComplete;
+
+    const errors = Array.from(element.shadowRoot!.querySelectorAll('.deck-errors li')).map(item => item.textContent);
+    expect(errors).toContain(`Choose exactly ${CUSTOM_DECK_SIZE} images (3 chosen)`);
+    expect(errors).toContain('Photo 1.jpg is not a JPEG, PNG, WebP or GIF image');
+    expect((query('.save-deck-button') as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('should fit every image to the card and save the deck', async () => {
+    const imageProcessor = new PassThroughImageProcessor();
+    const fitToCard = vi.spyOn(imageProcessor, 'fitToCard');
+    await renderBuilder(imageProcessor);
+    const changed = vi.fn();
+    document.addEventListener('custom-deck-changed', changed);
+
+    element.chooseFiles(createFiles(CUSTOM_DECK_SIZE));
+    await element.saveDeck();
+    await element.updateComplete;
+    document.removeEventListener('custom-deck-changed', changed);
+
+    const deck = await store.loadDeck();
+    expect(fitToCard).toHaveBeenCalledTimes(CUSTOM_DECK_SIZE);
+    expect(deck?.name).toBe('My Deck');
+    expect(deck?.images.map(image => image.name)).toEqual(createFiles(CUSTOM_DECK_SIZE).map((_, index) => `Photo ${index + 1}.jpg`));
+    expect(changed).toHaveBeenCalledTimes(1);
+    expect(query('.saved-deck-name')?.textContent).toContain('Saved deck: My Deck');
+  });
+
+  it('should show why a deck could not be saved', async () => {
+    await renderBuilder({ fitToCard: () => Promise.reject(new Error('Unreadable image')) });
+
+    element.chooseFiles(createFiles(CUSTOM_DECK_SIZE));
+    await element.saveDeck();
+    await element.updateComplete;
+
+    expect(query('.deck-errors')?.textContent).toContain('The deck could not be saved: Unreadable image');
+    expect(await store.loadDeck()).toBeNull();
+  });
+
+  it('should delete the saved deck', async () => {
+    element.chooseFiles(createFiles(CUSTOM_DECK_SIZE));
+    await element.saveDeck();
+    await element.updateComplete;
+
+    (query('.delete-deck-button') as HTMLButtonElement).click();
+    await vi.waitFor(() => expect(query('.saved-deck-name')?.textContent).toContain('No custom deck yet'));
+    expect(await store.loadDeck()).toBeNull();
+  });
+});
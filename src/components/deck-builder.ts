@@ -0,0 +1,162 @@
+import { LitElement, html, unsafeCSS } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import deckBuilderStyles from './deck-builder.css?inline';
+import { DeckStore, defaultDeckStore } from '../services/deck-store';
+import { ImageProcessor, defaultImageProcessor } from '../services/image-processor';
+import { CustomDeck, CUSTOM_DECK_SIZE, ACCEPTED_IMAGE_TYPES, validateDeckFiles } from '../functions/custom-deck';
+
+/**
+ * Deck builder
+ * Makes a custom deck from image files the player picks, cropped to the card
+ * shape and kept in the deck store. The board offers the saved deck as a
+ * third card style.
+ */
+@customElement('memory-deck-builder')
+export class DeckBuilder extends LitElement {
+  @state() private isOpen = false;
+  @state() private files: File[] = []; // Files chosen for the next deck
+  @state() private errors: string[] = []; // Problems with the chosen files or the last save
+  @state() private deckName = 'My Deck';
+  @state() private savedDeck: CustomDeck | null = null;
+  @state() private isSaving = false;
+
+  @property({ type: Object })
+  deckStore: DeckStore = defaultDeckStore;
+
+  @property({ type: Object })
+  imageProcessor: ImageProcessor = defaultImageProcessor;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.loadSavedDeck();
+  }
+
+  // Reload the deck when a different deck store is set
+  updated(changedProperties: Map<string, any>) {
+    if (changedProperties.has('deckStore') && changedProperties.get('deckStore') !== undefined) {
+      this.loadSavedDeck();
+    }
+  }
+
+  private async loadSavedDeck() {
+    this.savedDeck = await this.deckStore.loadDeck();
+  }
+
+  /**
+   * Show or hide the deck builder
+   */
+  toggle() {
+    this.isOpen = !this.isOpen;
+  }
+
+  /**
+   * Check the files as soon as they are chosen
+   */
+  chooseFiles(files: File[]) {
+    this.files = files;
+    this.errors = validateDeckFiles(files);
+  }
+
+  private handleFileInput(event: Event) {
+    this.chooseFiles(Array.from((event.target as HTMLInputElement).files ?? []));
+  }
+
+  /**
+   * Crop the chosen images to the card shape and save them as the custom deck
+   */
+  async saveDeck() {
+    if (this.isSaving || this.files.length === 0) return;
+    this.errors = validateDeckFiles(this.files);
+    if (this.errors.length > 0) return;
+
+    this.isSaving = true;
+    try {
+      const images = [];
+      for (const file of this.files) {
+        images.push({ name: file.name, blob: await this.imageProcessor.fitToCard(file) });
+      }
+
+      const deck: CustomDeck = { name: this.deckName.trim() || 'My Deck', images, createdAt: Date.now() };
+      await this.deckStore.saveDeck(deck);
+      this.savedDeck = deck;
+      this.files = [];
+      this.notifyDeckChanged();
+    } catch (error) {
+      this.errors = [`The deck could not be saved: ${error instanceof Error ? error.message : String(error)}`];
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  /**
+   * Delete the custom deck
+   */
+  async deleteDeck() {
+    try {
+      await this.deckStore.deleteDeck();
+      this.savedDeck = null;
+      this.notifyDeckChanged();
+    } catch (error) {
+      this.errors = [`The deck could not be deleted: ${error instanceof Error ? error.message : String(error)}`];
+    }
+  }
+
+  /**
+   * Tell the board to reload the deck; the event is composed so it reaches the document
+   */
+  private notifyDeckChanged() {
+    this.dispatchEvent(new CustomEvent('custom-deck-changed', { bubbles: true, composed: true }));
+  }
+
+  private renderBuilder() {
+    return html`
+      <div class="deck-builder-panel">
+        ${this.savedDeck ? html`
+          <div class="saved-deck">
+            <p class="saved-deck-name">Saved deck: ${this.savedDeck.name}</p>
+            <button class="delete-deck-button" @click=${this.deleteDeck}>Delete deck</button>
+          </div>
+        ` : html`<p class="saved-deck-name">No custom deck yet.</p>`}
+        <label>
+          Deck name
+          <input class="deck-name-input" .value=${this.deckName} maxlength="40"
+            @input=${(e: Event) => this.deckName = (e.target as HTMLInputElement).value}>
+        </label>
+        <label>
+          Choose ${CUSTOM_DECK_SIZE} photos
+          <input class="deck-file-input" type="file" multiple accept=${ACCEPTED_IMAGE_TYPES.join(',')}
+            @change=${this.handleFileInput}>
+        </label>
+        ${this.files.length > 0 ? html`<p class="chosen-count">${this.files.length} of ${CUSTOM_DECK_SIZE} chosen</p>` : ''}
+        ${this.errors.length > 0 ? html`
+          <ul class="deck-errors" role="alert">
+            ${this.errors.map(error => html`<li>${error}</li>`)}
+          </ul>
+        ` : ''}
+        <button class="save-deck-button" @click=${this.saveDeck}
+          ?disabled=${this.isSaving || this.files.length === 0 || this.errors.length > 0}>
+          ${this.isSaving ? 'Saving…' : this.savedDeck ? 'Replace deck' : 'Save deck'}
+        </button>
+      </div>
+    `;
+  }
+
+  render() {
+    return html`
+      <section class="deck-builder">
+        <button class="deck-builder-toggle-button" @click=${this.toggle} aria-expanded=${this.isOpen}>
+          ${this.isOpen ? 'Hide deck builder' : 'Build a Deck'}
+        </button>
+        ${this.isOpen ? this.renderBuilder() : ''}
+      </section>
+    `;
+  }
+
+  static styles = unsafeCSS(deckBuilderStyles);
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'memory-deck-builder': DeckBuilder;
+  }
+}
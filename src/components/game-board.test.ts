@@ -2,10 +2,28 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { fixture, html } from '@open-wc/testing';
 import { GameBoard } from './game-board';
 import '../components/game-board';
-import { GameStatus, initializeGameWithProgress } from '../models/game-state';
+import { GameStatus, MAX_PAIRS } from '../models/game-state';
+import { initializeGame, initializeGameWithProgress } from '../functions/deal';
 import { seededShuffleCards } from '../functions/shuffle';
-import { SynchronousTimerService, TimerService } from '../services/timer-service';
-import { AudioManager } from '../managers/audio-manager';
+import { enableTimeAttack } from '../functions/time-attack';
+import { enableLives } from '../functions/lives';
+import { createMultiplayerState, enableMultiplayer, addComputerOpponent } from '../functions/multiplayer';
+import { SynchronousTimerService, ManualTimerService, TimerService } from '../services/timer-service';
+import { AudioManager, audioManager as defaultAudioManager } from '../managers/audio-manager';
+import { InMemoryStorageService } from '../services/storage-service';
+import { RecordingAudioSink } from '../services/audio-sink';
+import { InMemoryDeckStore } from '../services/deck-store';
+import { CUSTOM_DECK_SIZE } from '../functions/custom-deck';
+import imageManager from '../managers/image-manager';
+import { saveGameSnapshot, loadGameSnapshot, GAME_SNAPSHOT_KEY } from '../utils/storage';
+import { parseMoveLog, replayMoveLog } from '../functions/move-log';
+import { enablePractice } from '../functions/practice';
+import { loadHighScores, saveHighScore } from '../utils/high-scores';
+import { loadUnlockedAchievements, saveUnlockedAchievements, UNLOCKED_ACHIEVEMENTS_KEY } from '../utils/unlocked-achievements';
+import { GAME_RECORDS_KEY, aggregatePlayerStats } from '../utils/player-stats';
+import { Achievement } from '../functions/achievements';
+import { getPar } from '../functions/par';
+import { numberedImageSource } from '../functions/simulation';
 
 describe('GameBoard Component', () => {
     let element: GameBoard;
@@ -19,7 +37,7 @@ describe('GameBoard Component', () => {
         stopMusic: mockStopMusic,
         getAllAudioEffects: vi.fn().mockReturnValue([
             { id: 'cardFlip', path: '/Card Flip.wav' },
-            { id: 'match', path: '/Match Sound.wav' }
+            { id: 'match', path: '/aero-chime-one-shot.mp3' }
         ]),
         getAudioEffectById: vi.fn(),
         setSilent: vi.fn(),
@@ -31,6 +49,9 @@ describe('GameBoard Component', () => {
         // Reset mocks
         vi.clearAllMocks();
 
+        // Make sure no saved game from a previous test is offered
+        window.localStorage.clear();
+
         // Use the component's actual registered name
         element = await fixture(html`<memory-game-board></memory-game-board>`);
 
@@ -41,7 +62,7 @@ describe('GameBoard Component', () => {
         element.audioManager = mockAudioManager;
 
         // Use a seeded shuffle for consistent test results
-        element.initializeGameState = () => initializeGameWithProgress(12, null, (cards) => seededShuffleCards(cards, 42));
+        element.initializeGameState = () => initializeGameWithProgress(12, null, imageManager, (cards) => seededShuffleCards(cards, 42));
         element.gameState = element.initializeGameState();
     });
 
@@ -144,14 +165,15 @@ describe('GameBoard Component', () => {
         element.checkForMatches();
 
         // Check that game completion callback was called
-        expect(completionSpy).toHaveBeenCalledWith(allMatched.moves);
+        expect(completionSpy).toHaveBeenCalledWith(expect.objectContaining({ moves: allMatched.moves, elapsedMs: 0 }));
     });
 
     it('should clear existing timer when clicking another card while two unmatched cards are revealed', () => {
         // Create a spy for the timerService.clearTimeout method
         const mockTimerService: TimerService = {
             setTimeout: vi.fn().mockReturnValue(123),
-            clearTimeout: vi.fn()
+            clearTimeout: vi.fn(),
+            now: vi.fn().mockReturnValue(0)
         };
         element.timerService = mockTimerService;
 
@@ -202,7 +224,8 @@ describe('GameBoard Component', () => {
         // Create a spy for the functions we need to test
         const mockTimerService: TimerService = {
             setTimeout: vi.fn().mockReturnValue(123),
-            clearTimeout: vi.fn()
+            clearTimeout: vi.fn(),
+            now: vi.fn().mockReturnValue(0)
         };
         element.timerService = mockTimerService;
 
@@ -237,7 +260,8 @@ describe('GameBoard Component', () => {
         // Create a spy for the timerService methods
         const mockTimerService: TimerService = {
             setTimeout: vi.fn().mockReturnValue(456),
-            clearTimeout: vi.fn()
+            clearTimeout: vi.fn(),
+            now: vi.fn().mockReturnValue(0)
         };
         element.timerService = mockTimerService;
 
@@ -310,7 +334,8 @@ describe('GameBoard Component', () => {
         // Configure a special mock for this test that doesn't play sounds when cards are flipped back
         const specialTimerService: TimerService = {
             setTimeout: vi.fn().mockReturnValue(999),
-            clearTimeout: vi.fn()
+            clearTimeout: vi.fn(),
+            now: vi.fn().mockReturnValue(0)
         };
         element.timerService = specialTimerService;
 
@@ -336,7 +361,8 @@ describe('GameBoard Component', () => {
                 callback();
                 return 789;
             }),
-            clearTimeout: vi.fn()
+            clearTimeout: vi.fn(),
+            now: vi.fn().mockReturnValue(0)
         };
         element.timerService = mockTimerService;
 
@@ -376,6 +402,30 @@ describe('GameBoard Component', () => {
         expect((element as any).cardStyleValue).toBe(0);
     });
 
+    it('should draw the generated Shapes deck', async () => {
+        (element as any).isRestarting = false;
+        (element as any).handleCardStyleChange(2);
+        element.restartGame();
+        await element.updateComplete;
+
+        expect(element.gameState.cardStyle).toBe('shapes');
+        const card = element.shadowRoot!.querySelector('flip-card') as any;
+        expect(card.frontImage).toMatch(/^data:image\/svg\+xml,/);
+        expect(card.backImage).toMatch(/^data:image\/svg\+xml,/);
+    });
+
+    it('should deal an unstarted game again when the new deck lacks its images', async () => {
+        (element as any).isRestarting = false;
+        (element as any).handleCardStyleChange(2);
+        element.restartGame();
+        (element as any).isRestarting = false;
+
+        (element as any).handleCardStyleChange(0);
+        await element.updateComplete;
+
+        element.gameState.cards.forEach(card => expect(imageManager.getCardImageById(card.imageId)).toBeDefined());
+    });
+
     it('should show preview when changing style with no moves', async () => {
         (element as any).handleCardStyleChange(0);
         await element.updateComplete;
@@ -502,6 +552,117 @@ describe('GameBoard Component', () => {
             });
         });
 
+        it('should enable time-attack mode from the mode parameter', () => {
+            mockURLParams.set('mode', 'time_attack');
+            mockURLParams.set('num_pairs', '6');
+            mockURLParams.set('time_bonus', '3');
+
+            const gameState = GameBoard.prototype.initializeGameState.call(element);
+
+            expect(gameState.timeAttack).toEqual({ timeLimitMs: 48_000, matchBonusMs: 3_000 });
+        });
+
+        it('should play classic games without a mode parameter', () => {
+            const gameState = GameBoard.prototype.initializeGameState.call(element);
+
+            expect(gameState.timeAttack).toBeUndefined();
+        });
+
+        it('should enable limited-lives mode from the lives parameter', () => {
+            mockURLParams.set('lives', '4');
+
+            const gameState = GameBoard.prototype.initializeGameState.call(element);
+
+            expect(gameState.lives).toBe(4);
+        });
+
+        it('should ignore invalid lives parameter values', () => {
+            mockURLParams.set('lives', '0');
+            expect(GameBoard.prototype.initializeGameState.call(element).lives).toBeUndefined();
+
+            mockURLParams.set('lives', 'lots');
+            expect(GameBoard.prototype.initializeGameState.call(element).lives).toBeUndefined();
+        });
+
+        it('should enable hot-seat multiplayer from the players parameter', () => {
+            mockURLParams.set('players', '3');
+            mockURLParams.set('player_names', 'Ann,Bob');
+
+            const gameState = GameBoard.prototype.initializeGameState.call(element);
+
+            expect(gameState.multiplayer?.players.map(player => player.name)).toEqual(['Ann', 'Bob', 'Player 3']);
+            expect(gameState.multiplayer?.activePlayerIndex).toBe(0);
+        });
+
+        it('should ignore unsupported player counts', () => {
+            mockURLParams.set('players', '1');
+            expect(GameBoard.prototype.initializeGameState.call(element).multiplayer).toBeUndefined();
+
+            mockURLParams.set('players', '5');
+            expect(GameBoard.prototype.initializeGameState.call(element).multiplayer).toBeUndefined();
+        });
+
+        it('should add a computer opponent from the ai parameter', () => {
+            mockURLParams.set('ai', 'medium');
+
+            const gameState = GameBoard.prototype.initializeGameState.call(element);
+
+            expect(gameState.multiplayer?.players).toEqual([
+                { name: 'Player 1', score: 0 },
+                { name: 'Computer', score: 0, aiDifficulty: 'medium' }
+            ]);
+        });
+
+        it('should ignore unknown ai difficulty levels', () => {
+            mockURLParams.set('ai', 'godlike');
+            expect(GameBoard.prototype.initializeGameState.call(element).multiplayer).toBeUndefined();
+
+            mockURLParams.set('ai', 'toString');
+            expect(GameBoard.prototype.initializeGameState.call(element).multiplayer).toBeUndefined();
+        });
+
+        it('should deal the same game for the same seed', () => {
+            mockURLParams.set('seed', 'abc123');
+
+            const firstDeal = GameBoard.prototype.initializeGameState.call(element);
+            const secondDeal = GameBoard.prototype.initializeGameState.call(element);
+
+            expect(firstDeal.seed).toBe('abc123');
+            expect(secondDeal.cards).toEqual(firstDeal.cards);
+        });
+
+        it('should deal different games for different seeds', () => {
+            mockURLParams.set('seed', 'abc123');
+            const firstDeal = GameBoard.prototype.initializeGameState.call(element);
+
+            mockURLParams.set('seed', 'xyz789');
+            const secondDeal = GameBoard.prototype.initializeGameState.call(element);
+
+            expect(secondDeal.cards.map(card => card.imageId)).not.toEqual(firstDeal.cards.map(card => card.imageId));
+        });
+
+        it('should use the date as the seed for the daily deal', () => {
+            mockURLParams.set('seed', 'daily');
+
+            const gameState = GameBoard.prototype.initializeGameState.call(element);
+
+            expect(gameState.seed).toBe(new Date().toISOString().slice(0, 10));
+        });
+
+        it('should generate a fresh seed when none is given', () => {
+            const gameState = GameBoard.prototype.initializeGameState.call(element);
+            expect(gameState.seed).toMatch(/^[a-z2-9]{6}$/);
+        });
+
+        it('should enable practice mode from the practice parameter', () => {
+            mockURLParams.set('practice', '1');
+            expect(GameBoard.prototype.initializeGameState.call(element).practice).toEqual({ undos: 0 });
+        });
+
+        it('should not enable practice mode by default', () => {
+            expect(GameBoard.prototype.initializeGameState.call(element).practice).toBeUndefined();
+        });
+
         it('should handle invalid progress parameter values', () => {
             // Test with non-numeric value
             mockURLParams.set('progress', 'invalid');
@@ -533,5 +694,1691 @@ describe('GameBoard Component', () => {
             expect(gameState.cardStyle).toBe('impressionist');
             expect(gameState.gridSize).toBe('easy');
         });
+
+        it('should deal non-identical pairs from the pairing parameter', async () => {
+            mockURLParams.set('pairing', 'artist');
+
+            element.gameState = GameBoard.prototype.initializeGameState.call(element);
+            expect(element.gameState.pairing).toBe('artist');
+            expect(element.gameState.cards.filter(card => card.face === 'artist')).toHaveLength(element.gameState.cards.length / 2);
+
+            // Text cards show the artist instead of the painting
+            element.gameState = { ...element.gameState, isPreviewMode: false };
+            await element.updateComplete;
+            const textCard = element.gameState.cards.findIndex(card => card.face === 'artist');
+            const flipCards = element.shadowRoot!.querySelectorAll('flip-card');
+            expect(flipCards[textCard].frontText).toBe(element.gameState.cards[textCard].pairKey);
+
+            // Unknown modes deal a standard game
+            mockURLParams.set('pairing', 'colour');
+            expect(GameBoard.prototype.initializeGameState.call(element).pairing).toBeUndefined();
+        });
+
+        it('should deal groups of three from the group_size parameter', async () => {
+            mockURLParams.set('group_size', '3');
+            mockURLParams.set('num_pairs', '4');
+            element.gameState = GameBoard.prototype.initializeGameState.call(element);
+            expect(element.gameState.groupSize).toBe(3);
+            expect(element.gameState.cards).toHaveLength(12);
+
+            // The match is only checked once the whole group is revealed
+            const [firstCard] = element.gameState.cards;
+            const group = element.gameState.cards.filter(card => card.imageId === firstCard.imageId);
+            element.handleCardFlip(new CustomEvent('card-flipped'), group[0].id);
+            element.handleCardFlip(new CustomEvent('card-flipped'), group[1].id);
+            expect(element.gameState.cards.some(card => card.isMatched)).toBe(false);
+            element.handleCardFlip(new CustomEvent('card-flipped'), group[2].id);
+
+            expect(element.gameState.cards.filter(card => card.isMatched).map(card => card.id)).toEqual(group.map(card => card.id));
+            expect(element.gameState.moves).toBe(1);
+
+            await element.updateComplete;
+            const grid = element.shadowRoot!.querySelector('memory-grid')!;
+            expect(grid.numPairs).toBe(4);
+            expect(grid.groupSize).toBe(3);
+
+            // Unsupported sizes deal pairs
+            mockURLParams.set('group_size', '9');
+            expect(GameBoard.prototype.initializeGameState.call(element).groupSize).toBeUndefined();
+        });
+
+        it('should deal boards larger than 12 pairs from a deck with enough images', async () => {
+            mockURLParams.set('num_pairs', '50');
+            imageManager.setCardStyle('shapes');
+            try {
+                element.gameState = GameBoard.prototype.initializeGameState.call(element);
+                expect(element.gameState.cards).toHaveLength(100);
+
+                await element.updateComplete;
+                expect(element.shadowRoot!.querySelector('memory-grid')!.numPairs).toBe(50);
+            } finally {
+                imageManager.setCardStyle('impressionist');
+            }
+        });
+
+        it('should cap the board at the images of the deck', () => {
+            mockURLParams.set('num_pairs', '50');
+            expect(GameBoard.prototype.initializeGameState.call(element).cards).toHaveLength(24);
+
+            // Sizes out of range fall back to the grid size slider
+            mockURLParams.set('num_pairs', '101');
+            expect(GameBoard.prototype.initializeGameState.call(element).cards).toHaveLength(10);
+        });
+
+        it('should deal a capped board again at full size when a larger deck is chosen', () => {
+            mockURLParams.set('num_pairs', '30');
+            element.initializeGameState = GameBoard.prototype.initializeGameState;
+            element.gameState = element.initializeGameState();
+            expect(element.gameState.cards).toHaveLength(24);
+            (element as any).isRestarting = false;
+            try {
+                (element as any).handleCardStyleChange(2);
+
+                expect(element.gameState.cardStyle).toBe('shapes');
+                expect(element.gameState.cards).toHaveLength(60);
+            } finally {
+                imageManager.setCardStyle('impressionist');
+            }
+        });
+
+        it('should match a painting with the card naming its artist', () => {
+            mockURLParams.set('pairing', 'artist');
+            element.gameState = GameBoard.prototype.initializeGameState.call(element);
+
+            const painting = element.gameState.cards.find(card => card.face === 'image')!;
+            const partner = element.gameState.cards.find(card => card.face === 'artist' && card.pairKey === painting.pairKey)!;
+            element.handleCardFlip(new CustomEvent('card-flipped'), painting.id);
+            element.handleCardFlip(new CustomEvent('card-flipped'), partner.id);
+
+            expect(element.gameState.cards.filter(card => card.isMatched).map(card => card.id).sort())
+                .toEqual([painting.id, partner.id].sort());
+        });
+
+        it('should deal the same cards again from the share link', async () => {
+            mockURLParams.set('seed', 'share-me');
+            mockURLParams.set('num_pairs', '4');
+            mockURLParams.set('group_size', '3');
+            mockURLParams.set('lives', '5');
+            // Deal from another deck, as a restart after moving the card style slider does
+            imageManager.setCardStyle('robgon');
+            try {
+                element.gameState = { ...GameBoard.prototype.initializeGameState.call(element), cardStyle: 'robgon' };
+                await element.updateComplete;
+                const link = element.shadowRoot!.querySelector('.share-link') as HTMLAnchorElement;
+
+                // Open the link on a fresh board showing the default deck
+                imageManager.setCardStyle('impressionist');
+                mockURLParams = new originalURLSearchParams(new URL(link.href).search);
+                const sharedBoard: GameBoard = await fixture(html`<memory-game-board></memory-game-board>`);
+
+                expect(sharedBoard.gameState.cardStyle).toBe('robgon');
+                expect(sharedBoard.gameState.groupSize).toBe(3);
+                expect(sharedBoard.gameState.lives).toBe(5);
+                expect(sharedBoard.gameState.cards).toEqual(element.gameState.cards);
+            } finally {
+                imageManager.setCardStyle('impressionist');
+            }
+        });
+
+        it('should tell the player a deck cannot be paired and pair again on a deck that can', async () => {
+            mockURLParams.set('pairing', 'artist');
+            element.initializeGameState = GameBoard.prototype.initializeGameState;
+            element.gameState = element.initializeGameState();
+            (element as any).isRestarting = false;
+            try {
+                (element as any).handleCardStyleChange(2);
+                await element.updateComplete;
+
+                expect(element.gameState.cardStyle).toBe('shapes');
+                expect(element.gameState.pairing).toBeUndefined();
+                expect(element.shadowRoot!.querySelector('.pairing-unavailable')?.textContent)
+                    .toContain('The Shapes deck cannot be paired by artist');
+
+                (element as any).isRestarting = false;
+                (element as any).handleCardStyleChange(0);
+                await element.updateComplete;
+
+                expect(element.gameState.cardStyle).toBe('impressionist');
+                expect(element.gameState.pairing).toBe('artist');
+                expect(element.shadowRoot!.querySelector('.pairing-unavailable')).toBeNull();
+            } finally {
+                imageManager.setCardStyle('impressionist');
+            }
+        });
+    });
+
+    describe('Saving and resuming games', () => {
+        const createSavedGame = () => {
+            const state = initializeGameWithProgress(5, null, imageManager, (cards) => seededShuffleCards(cards, 7));
+            const [first, second] = state.cards;
+            return {
+                ...state,
+                status: GameStatus.IN_PROGRESS,
+                moves: 4,
+                gridSize: 'easy' as const,
+                cardStyle: 'robgon' as const,
+                selectedCardIds: [first.id, second.id],
+                cards: state.cards.map(card =>
+                    card.id === first.id || card.id === second.id ? { ...card, isRevealed: true } : card
+                )
+            };
+        };
+
+        it('should save the game state after every transition', async () => {
+            const storage = new InMemoryStorageService();
+            element.storageService = storage;
+
+            element.handleCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[0].id);
+            await element.updateComplete;
+
+            expect(loadGameSnapshot(storage)?.state).toEqual(element.gameState);
+        });
+
+        it('should offer to resume an unfinished game', async () => {
+            const storage = new InMemoryStorageService();
+            saveGameSnapshot(storage, createSavedGame());
+
+            const board = await fixture<GameBoard>(html`<memory-game-board .storageService=${storage}></memory-game-board>`);
+
+            expect(board.shadowRoot!.querySelector('.resume-prompt')).not.toBeNull();
+            expect(board.shadowRoot!.querySelector('.resume-prompt p')?.textContent).toContain('4 moves');
+        });
+
+        it('should not offer to resume finished games', async () => {
+            const storage = new InMemoryStorageService();
+            saveGameSnapshot(storage, { ...createSavedGame(), status: GameStatus.COMPLETED });
+
+            const board = await fixture<GameBoard>(html`<memory-game-board .storageService=${storage}></memory-game-board>`);
+
+            expect(board.shadowRoot!.querySelector('.resume-prompt')).toBeNull();
+        });
+
+        it('should restore the saved game and flip back a pending mismatch', async () => {
+            const storage = new InMemoryStorageService();
+            const savedGame = createSavedGame();
+            saveGameSnapshot(storage, savedGame, 42_000);
+
+            const board = await fixture<GameBoard>(html`<memory-game-board .storageService=${storage}></memory-game-board>`);
+            board.resumeSavedGame();
+            await board.updateComplete;
+
+            expect(board.shadowRoot!.querySelector('.game-timer')?.textContent).toContain('0:42');
+            expect(board.gameState.moves).toBe(4);
+            expect(board.gameState.cardStyle).toBe('robgon');
+            expect(board.gameState.selectedCardIds).toEqual([]);
+            expect(board.gameState.cards.map(card => card.id)).toEqual(savedGame.cards.map(card => card.id));
+            expect(board.gameState.cards.every(card => !card.isRevealed)).toBe(true);
+            expect(board.shadowRoot!.querySelector('.resume-prompt')).toBeNull();
+        });
+
+        it('should keep the saved game until the player decides', async () => {
+            const storage = new InMemoryStorageService();
+            const savedGame = createSavedGame();
+            saveGameSnapshot(storage, savedGame);
+
+            await fixture<GameBoard>(html`<memory-game-board .storageService=${storage}></memory-game-board>`);
+
+            expect(loadGameSnapshot(storage)?.state).toEqual(savedGame);
+        });
+
+        it('should discard the saved game when starting a new one', async () => {
+            const storage = new InMemoryStorageService();
+            saveGameSnapshot(storage, createSavedGame());
+
+            const board = await fixture<GameBoard>(html`<memory-game-board .storageService=${storage}></memory-game-board>`);
+            board.discardSavedGame();
+            await board.updateComplete;
+
+            expect(board.shadowRoot!.querySelector('.resume-prompt')).toBeNull();
+            expect(storage.getItem(GAME_SNAPSHOT_KEY)).toBeNull();
+        });
+    });
+
+    describe('Game clock', () => {
+        let timerService: SynchronousTimerService;
+
+        beforeEach(() => {
+            timerService = new SynchronousTimerService();
+            element.timerService = timerService;
+        });
+
+        const setDocumentHidden = (hidden: boolean) => {
+            Object.defineProperty(document, 'hidden', { value: hidden, configurable: true });
+            document.dispatchEvent(new Event('visibilitychange'));
+        };
+
+        it('should show a zeroed clock before the first flip', () => {
+            expect(element.shadowRoot!.querySelector('.game-timer')?.textContent).toContain('0:00');
+        });
+
+        it('should start the clock on the first flip', async () => {
+            element.handleCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[0].id);
+            timerService.advanceTime(3000);
+
+            expect((element as any).gameClock.getElapsedMs()).toBe(3000);
+        });
+
+        it('should pause the clock while the page is hidden', () => {
+            element.handleCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[0].id);
+            timerService.advanceTime(1000);
+
+            setDocumentHidden(true);
+            timerService.advanceTime(60_000);
+            setDocumentHidden(false);
+            timerService.advanceTime(1000);
+
+            expect((element as any).gameClock.getElapsedMs()).toBe(2000);
+        });
+
+        it('should stop the clock and report the final time on completion', () => {
+            const completionSpy = vi.fn();
+            element.onGameCompleted = completionSpy;
+
+            element.handleCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[0].id);
+            timerService.advanceTime(65_000);
+
+            element.gameState = {
+                ...element.gameState,
+                cards: element.gameState.cards.map(card => ({ ...card, isMatched: true })),
+                selectedCardIds: [],
+                status: GameStatus.VICTORY_MUSIC
+            };
+            element.checkForMatches();
+            timerService.advanceTime(10_000);
+
+            expect(completionSpy).toHaveBeenCalledWith(expect.objectContaining({ moves: element.gameState.moves, elapsedMs: 65_000 }));
+            expect((element as any).gameClock.getElapsedMs()).toBe(65_000);
+        });
+
+        it('should reset the clock on restart', () => {
+            element.handleCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[0].id);
+            timerService.advanceTime(5000);
+
+            // Let go of the restart triggered by the initial render
+            (element as any).isRestarting = false;
+            element.restartGame();
+
+            expect((element as any).gameClock).toBeNull();
+            expect((element as any).elapsedMs).toBe(0);
+        });
+    });
+
+    describe('Time-attack mode', () => {
+        let timerService: ManualTimerService;
+
+        beforeEach(async () => {
+            timerService = new ManualTimerService();
+            element.timerService = timerService;
+            element.gameState = enableTimeAttack(element.gameState, { timeLimitMs: 10_000, matchBonusMs: 2_000 });
+            await element.updateComplete;
+        });
+
+        const findPair = () => {
+            const firstCard = element.gameState.cards.find(card => !card.isMatched)!;
+            const secondCard = element.gameState.cards.find(card =>
+                card.id !== firstCard.id && card.imageId === firstCard.imageId
+            )!;
+            return [firstCard, secondCard];
+        };
+
+        it('should show the countdown instead of the elapsed time', async () => {
+            element.handleCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[0].id);
+            timerService.advanceTime(3000);
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.countdown')?.textContent).toContain('Time left: 0:07');
+        });
+
+        it('should add bonus time for each match', async () => {
+            const [firstCard, secondCard] = findPair();
+            element.handleCardFlip(new CustomEvent('card-flipped'), firstCard.id);
+            element.handleCardFlip(new CustomEvent('card-flipped'), secondCard.id);
+            timerService.advanceTime(11_000);
+
+            expect(element.gameState.status).toBe(GameStatus.IN_PROGRESS);
+        });
+
+        it('should end the game with TIME_UP when the countdown runs out', async () => {
+            element.handleCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[0].id);
+            mockPlayEffect.mockClear();
+
+            timerService.advanceTime(10_000);
+            await element.updateComplete;
+
+            expect(element.gameState.status).toBe(GameStatus.TIME_UP);
+            expect(element.gameState.selectedCardIds).toEqual([]);
+            expect(mockPlayEffect).toHaveBeenCalledWith('timeUp');
+            expect(element.shadowRoot!.querySelector('.game-over-overlay')).not.toBeNull();
+        });
+
+        it('should ignore flips after time is up', () => {
+            element.handleCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[0].id);
+            timerService.advanceTime(10_000);
+
+            const stateAfterTimeUp = element.gameState;
+            element.handleCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[1].id);
+
+            expect(element.gameState).toBe(stateAfterTimeUp);
+        });
+
+        it('should cancel a pending mismatch flip-back when time runs out', () => {
+            const firstCard = element.gameState.cards[0];
+            const secondCard = element.gameState.cards.find(card => card.imageId !== firstCard.imageId)!;
+
+            timerService.advanceTime(0);
+            element.handleCardFlip(new CustomEvent('card-flipped'), firstCard.id);
+            timerService.advanceTime(9_000);
+            element.handleCardFlip(new CustomEvent('card-flipped'), secondCard.id);
+            timerService.advanceTime(1_000);
+
+            expect(element.gameState.status).toBe(GameStatus.TIME_UP);
+            expect(timerService.getPendingCount()).toBe(0);
+        });
+    });
+
+    describe('Limited-lives mode', () => {
+        const findMismatch = () => {
+            const firstCard = element.gameState.cards.find(card => !card.isMatched && !card.isRevealed)!;
+            const secondCard = element.gameState.cards.find(card =>
+                !card.isMatched && !card.isRevealed && card.imageId !== firstCard.imageId
+            )!;
+            return [firstCard, secondCard];
+        };
+
+        beforeEach(async () => {
+            element.gameState = enableLives(element.gameState, 2);
+            await element.updateComplete;
+        });
+
+        it('should show the remaining lives next to the move counter', async () => {
+            expect(element.shadowRoot!.querySelector('.lives')?.textContent).toContain('Lives: 2');
+        });
+
+        it('should not show lives in classic mode', async () => {
+            element.gameState = { ...element.gameState, lives: undefined };
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.lives')).toBeNull();
+        });
+
+        it('should cost a life for each mismatch', () => {
+            const [firstCard, secondCard] = findMismatch();
+            element.handleCardFlip(new CustomEvent('card-flipped'), firstCard.id);
+            element.handleCardFlip(new CustomEvent('card-flipped'), secondCard.id);
+
+            expect(element.gameState.lives).toBe(1);
+        });
+
+        it('should end the game when the last life is lost', async () => {
+            for (let i = 0; i < 2; i++) {
+                const [firstCard, secondCard] = findMismatch();
+                element.handleCardFlip(new CustomEvent('card-flipped'), firstCard.id);
+                element.handleCardFlip(new CustomEvent('card-flipped'), secondCard.id);
+            }
+            await element.updateComplete;
+
+            expect(element.gameState.status).toBe(GameStatus.OUT_OF_LIVES);
+            expect(element.gameState.cards.every(card => !card.isRevealed)).toBe(true);
+            expect((element as any).gameClock.isRunning()).toBe(false);
+            expect(element.shadowRoot!.querySelector('.game-over-title')?.textContent).toContain('Out of lives!');
+
+            const stateAfterLoss = element.gameState;
+            element.handleCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[0].id);
+            expect(element.gameState).toBe(stateAfterLoss);
+        });
+    });
+
+    describe('Hot-seat multiplayer', () => {
+        beforeEach(async () => {
+            element.gameState = enableMultiplayer(element.gameState, createMultiplayerState(2, ['Ann', 'Bob']));
+            await element.updateComplete;
+        });
+
+        const findPair = () => {
+            const firstCard = element.gameState.cards.find(card => !card.isMatched)!;
+            const secondCard = element.gameState.cards.find(card =>
+                card.id !== firstCard.id && card.imageId === firstCard.imageId
+            )!;
+            return [firstCard, secondCard];
+        };
+
+        const findMismatch = () => {
+            const firstCard = element.gameState.cards.find(card => !card.isMatched)!;
+            const secondCard = element.gameState.cards.find(card =>
+                !card.isMatched && card.imageId !== firstCard.imageId
+            )!;
+            return [firstCard, secondCard];
+        };
+
+        const flipBoth = ([firstCard, secondCard]: { id: number }[]) => {
+            element.handleCardFlip(new CustomEvent('card-flipped'), firstCard.id);
+            element.handleCardFlip(new CustomEvent('card-flipped'), secondCard.id);
+        };
+
+        it('should show every player score and highlight the active player', () => {
+            const scores = element.shadowRoot!.querySelectorAll('.player-score');
+
+            expect(scores.length).toBe(2);
+            expect(scores[0].textContent).toContain('Ann: 0');
+            expect(scores[0].classList.contains('active')).toBe(true);
+            expect(scores[1].classList.contains('active')).toBe(false);
+        });
+
+        it('should give the active player a point and another turn after a match', async () => {
+            flipBoth(findPair());
+            await element.updateComplete;
+
+            const scores = element.shadowRoot!.querySelectorAll('.player-score');
+            expect(scores[0].textContent).toContain('Ann: 1');
+            expect(scores[0].classList.contains('active')).toBe(true);
+        });
+
+        it('should pass the turn after a mismatch', async () => {
+            flipBoth(findMismatch());
+            await element.updateComplete;
+
+            const scores = element.shadowRoot!.querySelectorAll('.player-score');
+            expect(scores[1].classList.contains('active')).toBe(true);
+        });
+
+        it('should report the winner on completion', () => {
+            const completionSpy = vi.fn();
+            element.onGameCompleted = completionSpy;
+
+            while (element.gameState.status !== GameStatus.VICTORY_MUSIC) {
+                flipBoth(findPair());
+            }
+
+            expect(completionSpy).toHaveBeenCalledWith(expect.objectContaining({
+                outcome: { type: 'winner', winner: { name: 'Ann', score: 12 } }
+            }));
+        });
+
+        it('should report a tie on completion', () => {
+            const completionSpy = vi.fn();
+            element.onGameCompleted = completionSpy;
+
+            // Ann finds half the pairs, misses, then Bob finds the rest
+            for (let i = 0; i < 6; i++) {
+                flipBoth(findPair());
+            }
+            flipBoth(findMismatch());
+            while (element.gameState.status !== GameStatus.VICTORY_MUSIC) {
+                flipBoth(findPair());
+            }
+
+            expect(completionSpy).toHaveBeenCalledWith(expect.objectContaining({
+                outcome: {
+                    type: 'tie',
+                    players: [{ name: 'Ann', score: 6 }, { name: 'Bob', score: 6 }]
+                }
+            }));
+        });
+
+        it('should announce the winner once the game is complete', async () => {
+            element.gameState = {
+                ...element.gameState,
+                status: GameStatus.COMPLETED,
+                multiplayer: {
+                    players: [{ name: 'Ann', score: 5 }, { name: 'Bob', score: 7 }],
+                    activePlayerIndex: 1
+                }
+            };
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.game-complete')?.textContent).toContain('Bob wins!');
+        });
+    });
+
+    describe('Computer opponent', () => {
+        let timerService: ManualTimerService;
+
+        beforeEach(async () => {
+            timerService = new ManualTimerService();
+            element.timerService = timerService;
+            element.aiRandom = () => 0;
+            // The initial render starts a restart that never finishes with a manual timer
+            (element as any).isRestarting = false;
+            element.gameState = enableMultiplayer(
+                element.gameState,
+                addComputerOpponent(createMultiplayerState(2, ['Ann']), 'perfect')
+            );
+            await element.updateComplete;
+        });
+
+        const giveComputerTheTurn = async () => {
+            element.gameState = {
+                ...element.gameState,
+                multiplayer: { ...element.gameState.multiplayer!, activePlayerIndex: 1 }
+            };
+            await element.updateComplete;
+        };
+
+        it('should remember cards revealed by other players', () => {
+            const card = element.gameState.cards[0];
+            element.handleCardFlip(new CustomEvent('card-flipped'), card.id);
+
+            expect((element as any).aiMemory.knownCards[card.id]).toBe(card.imageId);
+        });
+
+        it('should flip two cards with a visible delay on its turn', async () => {
+            await giveComputerTheTurn();
+
+            expect(element.gameState.cards.some(card => card.isRevealed)).toBe(false);
+
+            timerService.advanceTime(900);
+            expect(element.gameState.selectedCardIds.length).toBe(1);
+
+            timerService.advanceTime(900);
+            expect(element.gameState.moves).toBe(1);
+        });
+
+        it('should match a pair it remembers and keep its turn', async () => {
+            const firstCard = element.gameState.cards[3];
+            const partner = element.gameState.cards.find(card =>
+                card.id !== firstCard.id && card.imageId === firstCard.imageId
+            )!;
+            (element as any).aiMemory = { knownCards: { [firstCard.id]: firstCard.imageId, [partner.id]: partner.imageId } };
+            await giveComputerTheTurn();
+
+            timerService.advanceTime(1800);
+
+            expect(element.gameState.cards.find(card => card.id === firstCard.id)?.isMatched).toBe(true);
+            expect(element.gameState.cards.find(card => card.id === partner.id)?.isMatched).toBe(true);
+            expect(element.gameState.multiplayer?.players[1].score).toBe(1);
+            expect(element.gameState.multiplayer?.activePlayerIndex).toBe(1);
+        });
+
+        it('should ignore player clicks during its turn', async () => {
+            await giveComputerTheTurn();
+            const stateBeforeClick = element.gameState;
+
+            (element as any).handlePlayerCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[0].id);
+
+            expect(element.gameState).toBe(stateBeforeClick);
+        });
+
+        it('should wait for a mismatch to flip back before moving', async () => {
+            const firstCard = element.gameState.cards[0];
+            const secondCard = element.gameState.cards.find(card => card.imageId !== firstCard.imageId)!;
+            element.handleCardFlip(new CustomEvent('card-flipped'), firstCard.id);
+            element.handleCardFlip(new CustomEvent('card-flipped'), secondCard.id);
+            await element.updateComplete;
+
+            // The turn has passed, but the mismatched cards are still showing
+            expect(element.gameState.multiplayer?.activePlayerIndex).toBe(1);
+            timerService.advanceTime(1000);
+            expect(element.gameState.selectedCardIds).toEqual([firstCard.id, secondCard.id]);
+
+            timerService.advanceTime(1000);
+            await element.updateComplete;
+            timerService.advanceTime(900);
+
+            expect(element.gameState.selectedCardIds.length).toBe(1);
+        });
+
+        it('should stop mid-turn when the game restarts', async () => {
+            await giveComputerTheTurn();
+
+            element.restartGame();
+
+            expect((element as any).aiTimer).toBeNull();
+            expect((element as any).aiMemory.knownCards).toEqual({});
+        });
+    });
+
+    describe('Seeded deals', () => {
+        it('should show the seed as a link to the same deal', async () => {
+            element.gameState = { ...element.gameState, seed: 'abc123' };
+            await element.updateComplete;
+
+            const seedElement = element.shadowRoot!.querySelector('.deal-seed');
+            const link = seedElement?.querySelector('.share-link') as HTMLAnchorElement;
+
+            expect(seedElement?.textContent).toContain('Deal:');
+            expect(link.textContent).toBe('abc123');
+
+            const url = new URL(link.href);
+            expect(url.searchParams.get('seed')).toBe('abc123');
+            expect(url.searchParams.get('num_pairs')).toBe(String(element.gameState.cards.length / 2));
+            expect(url.searchParams.get('card_style')).toBe('impressionist');
+        });
+
+        it('should label the daily deal', async () => {
+            element.gameState = { ...element.gameState, seed: '2024-03-09' };
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.deal-seed')?.textContent).toContain('Daily deal:');
+        });
+
+        it('should not show a seed for games without one', async () => {
+            element.gameState = { ...element.gameState, seed: undefined };
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.deal-seed')).toBeNull();
+        });
+    });
+
+    describe('Move log and replay', () => {
+        let timerService: ManualTimerService;
+
+        beforeEach(async () => {
+            timerService = new ManualTimerService();
+            element.timerService = timerService;
+            // The initial render starts a restart that never finishes with a manual timer
+            (element as any).isRestarting = false;
+            (element as any).startMoveLog(element.gameState);
+            await element.updateComplete;
+        });
+
+        const flip = (cardId: number) => element.handleCardFlip(new CustomEvent('card-flipped'), cardId);
+
+        const findPair = () => {
+            const isHidden = (card: { isMatched: boolean, isRevealed: boolean }) => !card.isMatched && !card.isRevealed;
+            const firstCard = element.gameState.cards.find(card =>
+                isHidden(card) && element.gameState.cards.some(other => other.id !== card.id && other.imageId === card.imageId && isHidden(other))
+            )!;
+            const partner = element.gameState.cards.find(card => card.id !== firstCard.id && card.imageId === firstCard.imageId)!;
+            return [firstCard, partner];
+        };
+
+        const findMismatch = () => {
+            const firstCard = element.gameState.cards.find(card => !card.isMatched && !card.isRevealed)!;
+            const secondCard = element.gameState.cards.find(card =>
+                !card.isMatched && !card.isRevealed && card.imageId !== firstCard.imageId
+            )!;
+            return [firstCard, secondCard];
+        };
+
+        // Play a short game: a mismatch that flips back, one cut short by the next click, then a match
+        const playSomeMoves = () => {
+            const [first, second] = findMismatch();
+            timerService.advanceTime(700);
+            flip(first.id);
+            timerService.advanceTime(300);
+            flip(second.id);
+            timerService.advanceTime(2000);
+
+            const [third, fourth] = findMismatch();
+            flip(third.id);
+            flip(fourth.id);
+            timerService.advanceTime(500);
+
+            const [fifth, sixth] = findPair();
+            flip(fifth.id);
+            flip(sixth.id);
+        };
+
+        const getLog = () => parseMoveLog(element.exportMoveLog())!;
+
+        it('should record flips, matches, mismatches and auto-hides with times', () => {
+            playSomeMoves();
+
+            const events = getLog().events;
+            expect(events.map(event => event.type)).toEqual([
+                'flip', 'flip', 'mismatch', 'hide',
+                'flip', 'flip', 'mismatch',
+                'hide', 'flip', 'flip', 'match'
+            ]);
+            expect(events.slice(0, 4).map(event => event.at)).toEqual([700, 1000, 1000, 3000]);
+        });
+
+        it('should replay the log to exactly the same state', () => {
+            playSomeMoves();
+
+            expect(replayMoveLog(getLog())).toEqual(element.gameState);
+        });
+
+        it('should record style changes and restarts', async () => {
+            (element as any).handleCardStyleChange(1);
+            element.restartGame();
+            timerService.advanceTime(500);
+
+            const events = getLog().events;
+            expect(events.map(event => event.type)).toEqual(['style_change', 'restart']);
+            expect(replayMoveLog(getLog())).toEqual(element.gameState);
+        });
+
+        it('should record running out of time', () => {
+            element.gameState = enableTimeAttack(element.gameState, { timeLimitMs: 3000, matchBonusMs: 0 });
+            (element as any).startMoveLog(element.gameState);
+
+            flip(element.gameState.cards[0].id);
+            timerService.advanceTime(3000);
+
+            expect(element.gameState.status).toBe(GameStatus.TIME_UP);
+            expect(getLog().events.at(-1)?.type).toBe('time_up');
+            expect(replayMoveLog(getLog())).toEqual(element.gameState);
+        });
+
+        it('should offer a replay once the game is over', async () => {
+            playSomeMoves();
+            element.gameState = { ...element.gameState, status: GameStatus.COMPLETED };
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.replay-button')).not.toBeNull();
+        });
+
+        it('should not offer a replay during a game', async () => {
+            playSomeMoves();
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.replay-button')).toBeNull();
+        });
+
+        it('should step through the replay without touching the live game', async () => {
+            playSomeMoves();
+            const liveState = element.gameState;
+
+            element.startReplay();
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.replay-progress')?.textContent).toContain('0 / 11');
+            expect(element.shadowRoot!.querySelectorAll('flip-card[revealed]').length).toBe(0);
+
+            element.stepReplay();
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.replay-progress')?.textContent).toContain('1 / 11');
+            expect(element.shadowRoot!.querySelectorAll('flip-card[revealed]').length).toBe(1);
+            expect(element.gameState).toBe(liveState);
+        });
+
+        it('should play the replay with the original timing and speed', () => {
+            playSomeMoves();
+            element.startReplay();
+
+            element.playReplay();
+            timerService.advanceTime(699);
+            expect((element as any).replay.position).toBe(0);
+            timerService.advanceTime(1);
+            expect((element as any).replay.position).toBe(1);
+
+            element.setReplaySpeed(2);
+            timerService.advanceTime(150);
+            // The next flip came 300ms later, and the mismatch check at the same time
+            expect((element as any).replay.position).toBe(3);
+
+            element.pauseReplay();
+            timerService.advanceTime(10000);
+            expect((element as any).replay.position).toBe(3);
+        });
+
+        it('should stop playing at the end with the live final state', () => {
+            playSomeMoves();
+            element.startReplay();
+
+            element.playReplay();
+            timerService.advanceTime(60000);
+
+            const replay = (element as any).replay;
+            expect(replay.isPlaying).toBe(false);
+            expect(replay.state).toEqual(element.gameState);
+        });
+
+        it('should ignore card clicks during a replay', () => {
+            playSomeMoves();
+            element.startReplay();
+            const liveState = element.gameState;
+
+            (element as any).handlePlayerCardFlip(new CustomEvent('card-flipped'), element.gameState.cards.find(card => !card.isMatched)!.id);
+
+            expect(element.gameState).toBe(liveState);
+        });
+
+        it('should go back to the live game when the replay is closed', async () => {
+            playSomeMoves();
+            element.startReplay();
+            element.playReplay();
+
+            element.exitReplay();
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.replay-controls')).toBeNull();
+            expect((element as any).replayTimer).toBeNull();
+        });
+
+        it('should start a new log when a saved game is resumed', () => {
+            playSomeMoves();
+            const savedGame = { version: 2, savedAt: 0, elapsedMs: 0, state: element.gameState };
+            (element as any).pendingResume = savedGame;
+
+            element.resumeSavedGame();
+
+            const log = getLog();
+            expect(log.events).toEqual([]);
+            expect(log.initialState).toEqual(element.gameState);
+        });
+    });
+
+    describe('Practice mode', () => {
+        let timerService: ManualTimerService;
+
+        beforeEach(async () => {
+            timerService = new ManualTimerService();
+            element.timerService = timerService;
+            // The initial render starts a restart that never finishes with a manual timer
+            (element as any).isRestarting = false;
+            element.gameState = enablePractice(element.gameState);
+            await element.updateComplete;
+        });
+
+        const flip = (cardId: number) => element.handleCardFlip(new CustomEvent('card-flipped'), cardId);
+
+        const findPair = () => {
+            const firstCard = element.gameState.cards.find(card => !card.isMatched && !card.isRevealed)!;
+            const partner = element.gameState.cards.find(card => card.id !== firstCard.id && card.imageId === firstCard.imageId)!;
+            return [firstCard, partner];
+        };
+
+        const findMismatch = () => {
+            const firstCard = element.gameState.cards.find(card => !card.isMatched && !card.isRevealed)!;
+            const secondCard = element.gameState.cards.find(card =>
+                !card.isMatched && !card.isRevealed && card.imageId !== firstCard.imageId
+            )!;
+            return [firstCard, secondCard];
+        };
+
+        const getUndoButton = () => element.shadowRoot!.querySelector('.undo-button') as HTMLButtonElement | null;
+
+        it('should show a disabled undo button before the first move', async () => {
+            expect(getUndoButton()).not.toBeNull();
+            expect(getUndoButton()!.disabled).toBe(true);
+        });
+
+        it('should not show the undo button outside practice mode', async () => {
+            element.gameState = { ...element.gameState, practice: undefined };
+            await element.updateComplete;
+
+            expect(getUndoButton()).toBeNull();
+        });
+
+        it('should take back a whole matched pair', async () => {
+            const [firstCard, partner] = findPair();
+            flip(firstCard.id);
+            flip(partner.id);
+            const stateAfterFirstMove = element.gameState;
+
+            const [thirdCard, fourthCard] = findPair();
+            flip(thirdCard.id);
+            flip(fourthCard.id);
+            await element.updateComplete;
+            expect(getUndoButton()!.disabled).toBe(false);
+
+            element.undoMove();
+
+            expect(element.gameState).toEqual({ ...stateAfterFirstMove, practice: { undos: 1 } });
+            expect(element.gameState.cards.filter(card => card.isMatched).length).toBe(2);
+        });
+
+        it('should take back a single flipped card', () => {
+            flip(element.gameState.cards[0].id);
+
+            element.undoMove();
+
+            expect(element.gameState.selectedCardIds).toEqual([]);
+            expect(element.gameState.cards.some(card => card.isRevealed)).toBe(false);
+        });
+
+        it('should take back a mismatch and cancel its flip-back timer', () => {
+            const [firstCard, secondCard] = findMismatch();
+            flip(firstCard.id);
+            flip(secondCard.id);
+            expect((element as any).matchCheckTimer).not.toBeNull();
+
+            element.undoMove();
+
+            expect((element as any).matchCheckTimer).toBeNull();
+            expect(element.gameState.cards.some(card => card.isRevealed)).toBe(false);
+            expect(element.gameState.moves).toBe(0);
+
+            // The cancelled timer must not flip anything back later
+            const [nextCard] = findPair();
+            flip(nextCard.id);
+            timerService.advanceTime(5000);
+            expect(element.gameState.selectedCardIds).toEqual([nextCard.id]);
+        });
+
+        it('should take back a mismatch that already flipped back', () => {
+            const [firstCard, secondCard] = findMismatch();
+            flip(firstCard.id);
+            flip(secondCard.id);
+            timerService.advanceTime(2000);
+
+            element.undoMove();
+
+            expect(element.gameState.moves).toBe(0);
+            expect(element.gameState.practice?.undos).toBe(1);
+        });
+
+        it('should step back one move at a time', () => {
+            for (let i = 0; i < 3; i++) {
+                const [firstCard, partner] = findPair();
+                flip(firstCard.id);
+                flip(partner.id);
+            }
+
+            element.undoMove();
+            element.undoMove();
+
+            expect(element.gameState.moves).toBe(1);
+            expect(element.gameState.cards.filter(card => card.isMatched).length).toBe(2);
+            expect(element.gameState.practice?.undos).toBe(2);
+        });
+
+        it('should forget the history when the game restarts', () => {
+            const [firstCard, partner] = findPair();
+            flip(firstCard.id);
+            flip(partner.id);
+
+            element.restartGame();
+
+            expect((element as any).undoHistory).toEqual([]);
+        });
+
+        it('should report undos in the completion summary', async () => {
+            const onGameCompleted = vi.fn();
+            element.onGameCompleted = onGameCompleted;
+            element.gameState = { ...element.gameState, practice: { undos: 2 } };
+
+            while (element.gameState.cards.some(card => !card.isMatched)) {
+                const [firstCard, partner] = findPair();
+                flip(firstCard.id);
+                flip(partner.id);
+            }
+
+            expect(onGameCompleted).toHaveBeenCalledWith(expect.objectContaining({ undos: 2 }));
+
+            element.gameState = { ...element.gameState, status: GameStatus.COMPLETED };
+            await element.updateComplete;
+            expect(element.shadowRoot!.querySelector('.practice-summary')?.textContent).toContain('2 undos');
+        });
+
+        it('should record undos in the move log so replays stay exact', () => {
+            (element as any).startMoveLog(element.gameState);
+            const [firstCard, secondCard] = findMismatch();
+            flip(firstCard.id);
+            flip(secondCard.id);
+
+            element.undoMove();
+
+            const log = parseMoveLog(element.exportMoveLog())!;
+            expect(log.events.at(-1)?.type).toBe('undo');
+            expect(replayMoveLog(log)).toEqual(element.gameState);
+        });
+    });
+
+    describe('Scoring', () => {
+        const flip = (cardId: number) => element.handleCardFlip(new CustomEvent('card-flipped'), cardId);
+
+        const finishGame = () => {
+            (element as any).startMoveLog(element.gameState);
+            while (element.gameState.cards.some(card => !card.isMatched)) {
+                const firstCard = element.gameState.cards.find(card => !card.isMatched)!;
+                const partner = element.gameState.cards.find(card => card.id !== firstCard.id && card.imageId === firstCard.imageId)!;
+                flip(firstCard.id);
+                flip(partner.id);
+            }
+        };
+
+        it('should pass the score breakdown to the completion callback', () => {
+            const completionSpy = vi.fn();
+            element.onGameCompleted = completionSpy;
+
+            finishGame();
+
+            const { score } = completionSpy.mock.calls[0][0];
+            // Every pair was found on first sight in one long streak
+            expect(score.matchPoints).toBe(1200);
+            expect(score.firstSightBonus).toBe(600);
+            expect(score.longestStreak).toBe(12);
+            expect(score.seenMismatchPenalty).toBe(0);
+        });
+
+        it('should show the score breakdown once the game is complete', async () => {
+            finishGame();
+            element.gameState = { ...element.gameState, status: GameStatus.COMPLETED };
+            await element.updateComplete;
+
+            const breakdown = element.shadowRoot!.querySelector('.score-breakdown');
+            expect(breakdown?.querySelector('.score-total')?.textContent).toContain(`Score: ${(element as any).scoreBreakdown.score}`);
+            expect(breakdown?.textContent).toContain('First-sight matches');
+        });
+
+        it('should clear the score when the game restarts', async () => {
+            finishGame();
+            (element as any).isRestarting = false;
+
+            element.restartGame();
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.score-breakdown')).toBeNull();
+        });
+    });
+
+    describe('Par', () => {
+        const numPairs = () => element.gameState.cards.length / 2;
+
+        it('should show the par of the board during play', () => {
+            expect(element.shadowRoot!.querySelector('.par')?.textContent).toContain(`Par: ${getPar(numPairs())}`);
+            expect(element.shadowRoot!.querySelector('.par-rating')).toBeNull();
+        });
+
+        it('should rate a finished game against par', async () => {
+            const par = getPar(numPairs())!;
+            element.gameState = { ...element.gameState, status: GameStatus.COMPLETED, moves: par - 2 };
+            await element.updateComplete;
+
+            const rating = element.shadowRoot!.querySelector('.par-rating');
+            expect(rating?.textContent).toContain('2 under par');
+            expect(rating?.classList.contains('under-par')).toBe(true);
+
+            element.gameState = { ...element.gameState, moves: par + 3 };
+            await element.updateComplete;
+            expect(element.shadowRoot!.querySelector('.par-rating')?.textContent).toContain('3 over par');
+        });
+
+        it('should show the par of the largest boards', async () => {
+            element.gameState = initializeGame(MAX_PAIRS, numberedImageSource);
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.par')?.textContent).toContain(`Par: ${getPar(MAX_PAIRS)}`);
+        });
+
+        it('should not show par in multiplayer games', async () => {
+            element.gameState = enableMultiplayer(element.gameState, createMultiplayerState(2, ['Ann', 'Bob']));
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.par')).toBeNull();
+        });
+    });
+
+    describe('Artwork details', () => {
+        const flipPair = (matching: boolean) => {
+            const firstCard = element.gameState.cards.find(card => !card.isMatched)!;
+            const secondCard = element.gameState.cards.find(card =>
+                card.id !== firstCard.id && !card.isMatched && (card.imageId === firstCard.imageId) === matching)!;
+            element.handleCardFlip(new CustomEvent('card-flipped'), firstCard.id);
+            element.handleCardFlip(new CustomEvent('card-flipped'), secondCard.id);
+            return imageManager.getCardImageById(firstCard.imageId)!;
+        };
+
+        it('should show the artwork of a matched pair', async () => {
+            const artwork = flipPair(true);
+            await element.updateComplete;
+
+            const panel = element.shadowRoot!.querySelector('.artwork-info');
+            expect(panel?.querySelector('.artwork-info-title')?.textContent).toBe(artwork.title);
+            expect(panel?.querySelector('.artwork-info-credit')?.textContent).toBe(`${artwork.artist}, ${artwork.year}`);
+            expect(panel?.querySelector('img')?.getAttribute('src')).toBe(artwork.path);
+        });
+
+        it('should not show anything for a mismatch', async () => {
+            flipPair(false);
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.artwork-info')).toBeNull();
+        });
+
+        it('should close when the player dismisses it', async () => {
+            flipPair(true);
+            await element.updateComplete;
+
+            (element.shadowRoot!.querySelector('.artwork-info-close-button') as HTMLButtonElement).click();
+            await element.updateComplete;
+            expect(element.shadowRoot!.querySelector('.artwork-info')).toBeNull();
+        });
+
+        it('should be cleared by a restart', async () => {
+            flipPair(true);
+
+            // Let go of the restart triggered by the initial render
+            (element as any).isRestarting = false;
+            element.restartGame();
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.artwork-info')).toBeNull();
+        });
+    });
+
+    describe('High scores', () => {
+        let storage: InMemoryStorageService;
+
+        beforeEach(async () => {
+            storage = new InMemoryStorageService();
+            element.storageService = storage;
+            (element as any).startMoveLog(element.gameState);
+            await element.updateComplete;
+        });
+
+        const category = { numPairs: 12, cardStyle: 'impressionist' as const, mode: 'classic' };
+
+        const finishGame = async () => {
+            while (element.gameState.cards.some(card => !card.isMatched)) {
+                const firstCard = element.gameState.cards.find(card => !card.isMatched)!;
+                const partner = element.gameState.cards.find(card => card.id !== firstCard.id && card.imageId === firstCard.imageId)!;
+                element.handleCardFlip(new CustomEvent('card-flipped'), firstCard.id);
+                element.handleCardFlip(new CustomEvent('card-flipped'), partner.id);
+            }
+            element.gameState = { ...element.gameState, status: GameStatus.COMPLETED };
+            await element.updateComplete;
+        };
+
+        it('should save a finished game to the table for its board and mode', async () => {
+            await finishGame();
+
+            const entries = loadHighScores(storage, category);
+            expect(entries).toHaveLength(1);
+            expect(entries[0]).toEqual(expect.objectContaining({ moves: 12, score: (element as any).scoreBreakdown.score }));
+            expect(element.shadowRoot!.querySelector('.new-high-score')?.textContent).toContain('#1');
+        });
+
+        it('should not rank multiplayer games', async () => {
+            element.gameState = enableMultiplayer(element.gameState, createMultiplayerState(2));
+            await finishGame();
+
+            expect(loadHighScores(storage, category)).toEqual([]);
+            expect(element.shadowRoot!.querySelector('.new-high-score')).toBeNull();
+        });
+
+        it('should open the table from the completion screen', async () => {
+            await finishGame();
+
+            (element.shadowRoot!.querySelector('.view-high-scores-button') as HTMLButtonElement).click();
+            await element.updateComplete;
+
+            const rows = element.shadowRoot!.querySelectorAll('.high-scores tbody tr');
+            expect(rows.length).toBe(1);
+            expect(rows[0].classList.contains('latest')).toBe(true);
+        });
+
+        it('should open the table from the game controls', async () => {
+            saveHighScore(storage, category, { score: 900, moves: 14, elapsedMs: 60_000, date: 1, initials: 'ZZ' });
+
+            (element.shadowRoot!.querySelector('.game-controls .high-scores-button') as HTMLButtonElement).click();
+            await element.updateComplete;
+
+            const table = element.shadowRoot!.querySelector('.high-scores');
+            expect(table?.textContent).toContain('ZZ');
+            expect(table?.querySelector('.initials-form')).toBeNull();
+
+            (table!.querySelector('.close-high-scores-button') as HTMLButtonElement).click();
+            await element.updateComplete;
+            expect(element.shadowRoot!.querySelector('.high-scores')).toBeNull();
+        });
+
+        it('should show an empty table before any game is finished', async () => {
+            element.toggleHighScores();
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.no-high-scores')).not.toBeNull();
+        });
+
+        it('should let the player add initials to a new high score', async () => {
+            await finishGame();
+            element.toggleHighScores();
+            await element.updateComplete;
+
+            const form = element.shadowRoot!.querySelector('.initials-form') as HTMLFormElement;
+            form.querySelector('input')!.value = 'amy';
+            form.dispatchEvent(new Event('submit', { cancelable: true }));
+            await element.updateComplete;
+
+            expect(loadHighScores(storage, category)[0].initials).toBe('AMY');
+            expect(element.shadowRoot!.querySelector('.initials-form')).toBeNull();
+        });
+    });
+
+    describe('Game statistics', () => {
+        let finishedGames: any[];
+        const recordFinishedGame = (event: Event) => finishedGames.push((event as CustomEvent).detail);
+
+        beforeEach(async () => {
+            finishedGames = [];
+            document.addEventListener('game-finished', recordFinishedGame);
+            (element as any).startMoveLog(element.gameState);
+            await element.updateComplete;
+        });
+
+        afterEach(() => {
+            document.removeEventListener('game-finished', recordFinishedGame);
+        });
+
+        const findMismatch = () => {
+            const firstCard = element.gameState.cards.find(card => !card.isMatched && !card.isRevealed)!;
+            const secondCard = element.gameState.cards.find(card =>
+                !card.isMatched && !card.isRevealed && card.imageId !== firstCard.imageId
+            )!;
+            return [firstCard, secondCard];
+        };
+
+        it('should report a completed game with its mismatches', async () => {
+            const [firstCard, secondCard] = findMismatch();
+            element.handleCardFlip(new CustomEvent('card-flipped'), firstCard.id);
+            element.handleCardFlip(new CustomEvent('card-flipped'), secondCard.id);
+
+            while (element.gameState.cards.some(card => !card.isMatched)) {
+                const card = element.gameState.cards.find(card => !card.isMatched)!;
+                const partner = element.gameState.cards.find(other => other.id !== card.id && other.imageId === card.imageId)!;
+                element.handleCardFlip(new CustomEvent('card-flipped'), card.id);
+                element.handleCardFlip(new CustomEvent('card-flipped'), partner.id);
+            }
+
+            expect(finishedGames).toHaveLength(1);
+            expect(finishedGames[0]).toEqual(expect.objectContaining({
+                numPairs: 12,
+                mode: 'classic',
+                completed: true,
+                moves: 13,
+                mismatches: 1,
+                mismatchedImageIds: [firstCard.imageId, secondCard.imageId]
+            }));
+        });
+
+        it('should report a game lost when out of lives', async () => {
+            element.gameState = enableLives(element.gameState, 1);
+            const [firstCard, secondCard] = findMismatch();
+            element.handleCardFlip(new CustomEvent('card-flipped'), firstCard.id);
+            element.handleCardFlip(new CustomEvent('card-flipped'), secondCard.id);
+
+            expect(finishedGames).toHaveLength(1);
+            expect(finishedGames[0]).toEqual(expect.objectContaining({ mode: 'lives', completed: false, moves: 1 }));
+        });
+
+        it('should report a game restarted part way through as not completed', async () => {
+            while (element.gameState.cards.some(card => !card.isMatched)) {
+                const card = element.gameState.cards.find(card => !card.isMatched)!;
+                const partner = element.gameState.cards.find(other => other.id !== card.id && other.imageId === card.imageId)!;
+                element.handleCardFlip(new CustomEvent('card-flipped'), card.id);
+                element.handleCardFlip(new CustomEvent('card-flipped'), partner.id);
+            }
+            (element as any).isRestarting = false;
+            element.restartGame();
+
+            const [firstCard, secondCard] = findMismatch();
+            element.handleCardFlip(new CustomEvent('card-flipped'), firstCard.id);
+            element.handleCardFlip(new CustomEvent('card-flipped'), secondCard.id);
+            (element as any).isRestarting = false;
+            element.restartGame();
+
+            expect(finishedGames).toHaveLength(2);
+            expect(finishedGames[1]).toEqual(expect.objectContaining({ completed: false, moves: 1, mismatches: 1 }));
+            expect(aggregatePlayerStats(finishedGames).completionRate).toBe(0.5);
+        });
+
+        it('should not report a restart before the first move', async () => {
+            (element as any).isRestarting = false;
+            element.restartGame();
+
+            expect(finishedGames).toEqual([]);
+        });
+
+        it('should report a game in progress as not completed when the board is removed', async () => {
+            const [firstCard, secondCard] = findMismatch();
+            element.handleCardFlip(new CustomEvent('card-flipped'), firstCard.id);
+            element.handleCardFlip(new CustomEvent('card-flipped'), secondCard.id);
+
+            element.remove();
+
+            expect(finishedGames).toHaveLength(1);
+            expect(finishedGames[0]).toEqual(expect.objectContaining({ completed: false, moves: 1 }));
+        });
+
+        it('should count a removed game once, even if the board is put back on the page', async () => {
+            const storage = new InMemoryStorageService();
+            const timerService = new ManualTimerService();
+            element.storageService = storage;
+            element.timerService = timerService;
+            const [firstCard, secondCard] = findMismatch();
+            element.handleCardFlip(new CustomEvent('card-flipped'), firstCard.id);
+            element.handleCardFlip(new CustomEvent('card-flipped'), secondCard.id);
+
+            const parent = element.parentNode!;
+            element.remove();
+            // The mismatched cards flip back after the board has gone
+            timerService.advanceTime(2000);
+            expect(loadGameSnapshot(storage)).toBeNull();
+
+            parent.appendChild(element);
+            await element.updateComplete;
+            expect(element.shadowRoot!.querySelector('.resume-prompt')).toBeNull();
+            element.resumeSavedGame();
+            while (element.gameState.cards.some(card => !card.isMatched)) {
+                const card = element.gameState.cards.find(card => !card.isMatched)!;
+                const partner = element.gameState.cards.find(other => other.id !== card.id && other.imageId === card.imageId)!;
+                element.handleCardFlip(new CustomEvent('card-flipped'), card.id);
+                element.handleCardFlip(new CustomEvent('card-flipped'), partner.id);
+            }
+            element.remove();
+
+            expect(finishedGames).toHaveLength(1);
+            expect(finishedGames[0]).toEqual(expect.objectContaining({ completed: false, moves: 1 }));
+        });
+
+        it('should not report multiplayer games', async () => {
+            element.gameState = enableMultiplayer(element.gameState, createMultiplayerState(2));
+            while (element.gameState.cards.some(card => !card.isMatched)) {
+                const card = element.gameState.cards.find(card => !card.isMatched)!;
+                const partner = element.gameState.cards.find(other => other.id !== card.id && other.imageId === card.imageId)!;
+                element.handleCardFlip(new CustomEvent('card-flipped'), card.id);
+                element.handleCardFlip(new CustomEvent('card-flipped'), partner.id);
+            }
+
+            expect(finishedGames).toEqual([]);
+        });
+    });
+
+    describe('Achievements', () => {
+        let storage: InMemoryStorageService;
+        let timerService: ManualTimerService;
+        let unlockedEvents: Achievement[];
+        const recordUnlock = (event: Event) => unlockedEvents.push((event as CustomEvent<Achievement>).detail);
+
+        beforeEach(async () => {
+            storage = new InMemoryStorageService();
+            timerService = new ManualTimerService();
+            unlockedEvents = [];
+            element.storageService = storage;
+            element.timerService = timerService;
+            (element as any).isRestarting = false;
+            (element as any).startMoveLog(element.gameState);
+            document.addEventListener('achievement-unlocked', recordUnlock);
+            await element.updateComplete;
+        });
+
+        afterEach(() => {
+            document.removeEventListener('achievement-unlocked', recordUnlock);
+        });
+
+        const matchPair = () => {
+            const card = element.gameState.cards.find(card => !card.isMatched)!;
+            const partner = element.gameState.cards.find(other => other.id !== card.id && other.imageId === card.imageId)!;
+            element.handleCardFlip(new CustomEvent('card-flipped'), card.id);
+            element.handleCardFlip(new CustomEvent('card-flipped'), partner.id);
+        };
+
+        it('should unlock a streak achievement during play and show a toast', async () => {
+            for (let i = 0; i < 5; i++) {
+                matchPair();
+            }
+            await element.updateComplete;
+
+            expect(Object.keys(loadUnlockedAchievements(storage))).toEqual(['five_in_a_row']);
+            expect(unlockedEvents.map(achievement => achievement.id)).toEqual(['five_in_a_row']);
+            expect(element.shadowRoot!.querySelector('.achievement-toast')?.textContent).toContain('On a Roll');
+        });
+
+        it('should hide the toast after a while', async () => {
+            for (let i = 0; i < 5; i++) {
+                matchPair();
+            }
+            timerService.advanceTime(4000);
+            await element.updateComplete;
+
+            expect(element.shadowRoot!.querySelector('.achievement-toast')).toBeNull();
+        });
+
+        it('should unlock achievements for a finished game', async () => {
+            while (element.gameState.cards.some(card => !card.isMatched)) {
+                matchPair();
+            }
+
+            expect(Object.keys(loadUnlockedAchievements(storage)).sort()).toEqual(
+                ['first_win', 'five_in_a_row', 'hard_mode_efficient', 'perfect_game']
+            );
+        });
+
+        it('should not unlock an achievement twice', async () => {
+            saveUnlockedAchievements(storage, ['five_in_a_row'], 1);
+            for (let i = 0; i < 6; i++) {
+                matchPair();
+            }
+
+            expect(unlockedEvents).toEqual([]);
+            expect(loadUnlockedAchievements(storage)).toEqual({ five_in_a_row: 1 });
+        });
+
+        it('should check the achievements it is given', async () => {
+            element.achievements = [
+                {
+                    id: 'first_flip',
+                    name: 'First Flip',
+                    description: 'Flip a card.',
+                    isUnlocked: ({ log }) => log.events.length > 0,
+                    whilePlaying: true
+                }
+            ];
+            element.handleCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[0].id);
+
+            expect(Object.keys(loadUnlockedAchievements(storage))).toEqual(['first_flip']);
+        });
+
+        it('should leave achievements on the game history to the end of the game', () => {
+            element.achievements = [
+                { id: 'any_flip', name: 'Any Flip', description: 'Flip a card.', isUnlocked: ({ log }) => log.events.length > 0 }
+            ];
+            matchPair();
+            expect(loadUnlockedAchievements(storage)).toEqual({});
+
+            while (element.gameState.cards.some(card => !card.isMatched)) {
+                matchPair();
+            }
+            expect(Object.keys(loadUnlockedAchievements(storage))).toEqual(['any_flip']);
+        });
+
+        it('should read the game history and unlocks once per game, not on every move', () => {
+            const getItem = vi.spyOn(storage, 'getItem');
+            for (let i = 0; i < 3; i++) {
+                matchPair();
+            }
+
+            const reads = (key: string) => getItem.mock.calls.filter(([readKey]) => readKey === key).length;
+            expect(reads(GAME_RECORDS_KEY)).toBe(1);
+            expect(reads(UNLOCKED_ACHIEVEMENTS_KEY)).toBe(1);
+        });
+
+        it('should cancel the toast timers when removed from the page', () => {
+            for (let i = 0; i < 5; i++) {
+                matchPair();
+            }
+            expect(timerService.getPendingCount()).toBeGreaterThan(0);
+
+            element.remove();
+
+            expect(timerService.getPendingCount()).toBe(0);
+        });
+    });
+
+    describe('Victory music', () => {
+        // The board listens to the shared audio manager for music events
+        const triggerMusicEvent = (event: 'musicStart' | 'musicEnd') =>
+            (defaultAudioManager as any).triggerEvent(event);
+
+        const matchAllPairs = () => {
+            while (element.gameState.cards.some(card => !card.isMatched)) {
+                const card = element.gameState.cards.find(card => !card.isMatched)!;
+                const partner = element.gameState.cards.find(other => other.id !== card.id && other.imageId === card.imageId)!;
+                element.handleCardFlip(new CustomEvent('card-flipped'), card.id);
+                element.handleCardFlip(new CustomEvent('card-flipped'), partner.id);
+            }
+        };
+
+        beforeEach(() => {
+            (element as any).isRestarting = false;
+        });
+
+        it('should complete the game when the victory music ends', () => {
+            matchAllPairs();
+            expect(element.gameState.status).toBe(GameStatus.VICTORY_MUSIC);
+
+            triggerMusicEvent('musicStart');
+            expect((element as any).shouldAnimateVictory).toBe(true);
+
+            triggerMusicEvent('musicEnd');
+            expect(element.gameState.status).toBe(GameStatus.COMPLETED);
+            expect((element as any).shouldAnimateVictory).toBe(false);
+        });
+
+        it('should ignore victory music that starts or ends after a restart', () => {
+            matchAllPairs();
+            element.restartGame();
+            expect(element.gameState.status).toBe(GameStatus.READY);
+
+            triggerMusicEvent('musicStart');
+            triggerMusicEvent('musicEnd');
+
+            expect(element.gameState.status).toBe(GameStatus.READY);
+            expect((element as any).shouldAnimateVictory).toBe(false);
+        });
+
+        it('should request the victory music from its audio sink on the final match', () => {
+            const sink = new RecordingAudioSink();
+            element.audioSink = sink;
+
+            matchAllPairs();
+
+            expect(sink.hasRequestedMusic('gameComplete')).toBe(true);
+            expect(sink.effects.filter(effect => effect.type === 'music')).toHaveLength(1);
+            expect(mockPlayMusic).not.toHaveBeenCalled();
+        });
+
+        it('should not complete a game in progress when music ends', () => {
+            element.handleCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[0].id);
+
+            triggerMusicEvent('musicEnd');
+
+            expect(element.gameState.status).toBe(GameStatus.IN_PROGRESS);
+        });
+    });
+
+    describe('Custom decks', () => {
+        let store: InMemoryDeckStore;
+
+        const deck = {
+            name: 'Class Photos',
+            images: Array.from({ length: CUSTOM_DECK_SIZE }, (_, index) => ({ name: `Photo ${index + 1}`, blob: new Blob([`${index}`]) })),
+            createdAt: 1
+        };
+
+        const customLabel = () => element.shadowRoot!.querySelector('.custom-style-label');
+
+        beforeEach(async () => {
+            store = new InMemoryDeckStore();
+            await store.saveDeck(deck);
+            element.deckStore = store;
+            await vi.waitFor(() => expect(customLabel()).not.toBeNull());
+        });
+
+        afterEach(() => {
+            imageManager.setCardStyle('impressionist');
+            imageManager.setCustomCardImages([]);
+        });
+
+        it('should offer the saved deck as the last card style', () => {
+            expect(customLabel()?.textContent).toContain('Class Photos');
+            expect(element.shadowRoot!.querySelector('#cardStyleSlider')?.getAttribute('max')).toBe('3');
+        });
+
+        it('should show the deck images as blob URLs in the custom style', async () => {
+            (element as any).handleCardStyleChange(3);
+            await element.updateComplete;
+
+            expect(element.gameState.cardStyle).toBe('custom');
+            const card = element.shadowRoot!.querySelector('flip-card') as any;
+            expect(card.frontImage).toMatch(/^blob:/);
+            expect(card.frontAlt).toMatch(/^Photo \d+$/);
+        });
+
+        it('should return to a built-in style when the deck is deleted', async () => {
+            (element as any).handleCardStyleChange(3);
+            await store.deleteDeck();
+
+            document.dispatchEvent(new CustomEvent('custom-deck-changed'));
+            await vi.waitFor(() => expect(customLabel()).toBeNull());
+
+            expect(element.gameState.cardStyle).toBe('impressionist');
+            expect(imageManager.hasCustomCardImages()).toBe(false);
+        });
+
+        it('should not switch to the custom style without a deck', async () => {
+            await store.deleteDeck();
+            document.dispatchEvent(new CustomEvent('custom-deck-changed'));
+            await vi.waitFor(() => expect(customLabel()).toBeNull());
+
+            (element as any).handleCardStyleChange(3);
+            expect(element.gameState.cardStyle).toBe('impressionist');
+        });
+
+        it('should revoke the blob URLs when removed from the page', () => {
+            const revokeObjectURL = vi.spyOn(URL, 'revokeObjectURL');
+            const urls = [...(element as any).customDeckUrls];
+            expect(urls).toHaveLength(CUSTOM_DECK_SIZE);
+
+            element.remove();
+
+            expect(revokeObjectURL.mock.calls.map(([url]) => url)).toEqual(urls);
+            revokeObjectURL.mockRestore();
+        });
+
+        it('should show no custom deck when the deck cannot be read', async () => {
+            vi.spyOn(store, 'loadDeck').mockRejectedValue(new Error('Storage unavailable'));
+            document.dispatchEvent(new CustomEvent('custom-deck-changed'));
+
+            await vi.waitFor(() => expect(customLabel()).toBeNull());
+            expect(imageManager.hasCustomCardImages()).toBe(false);
+        });
+
+        it('should not create blob URLs for a deck that loads after the board is removed', async () => {
+            const createObjectURL = vi.spyOn(URL, 'createObjectURL');
+            let resolveDeck: (value: typeof deck) => void = () => { };
+            vi.spyOn(store, 'loadDeck').mockReturnValue(new Promise(resolve => resolveDeck = resolve));
+            document.dispatchEvent(new CustomEvent('custom-deck-changed'));
+
+            element.remove();
+            resolveDeck(deck);
+            await new Promise(resolve => setTimeout(resolve));
+
+            expect(createObjectURL).not.toHaveBeenCalled();
+            expect((element as any).customDeckUrls).toEqual([]);
+            createObjectURL.mockRestore();
+        });
+    });
+
+    describe('Game engine', () => {
+        beforeEach(() => {
+            (element as any).isRestarting = false;
+        });
+
+        it('should render actions dispatched to its engine', async () => {
+            const card = element.gameState.cards[0];
+
+            element.engine.dispatch({ type: 'FLIP', cardId: card.id });
+            await element.updateComplete;
+
+            expect(element.gameState.selectedCardIds).toEqual([card.id]);
+            const flipCards = element.shadowRoot!.querySelectorAll('flip-card');
+            expect(flipCards[0].hasAttribute('revealed')).toBe(true);
+        });
+
+        it('should load a state assigned to gameState through the engine', () => {
+            const listener = vi.fn();
+            element.engine.subscribe(listener);
+            const state = { ...element.gameState, moves: 7 };
+
+            element.gameState = state;
+
+            expect(element.engine.getState()).toBe(state);
+            expect(listener).toHaveBeenCalledWith(state, expect.anything(), { type: 'LOAD', state });
+        });
+
+        it('should play by the rule variants it is given', async () => {
+            // A variant where every flip also costs a move
+            element.ruleVariants = [(state, action) => action.type === 'FLIP' ? { ...state, moves: state.moves + 1 } : state];
+            await element.updateComplete;
+
+            element.handleCardFlip(new CustomEvent('card-flipped'), element.gameState.cards[0].id);
+
+            expect(element.gameState.moves).toBe(1);
+        });
     });
-}); 
\ No newline at end of file
+});
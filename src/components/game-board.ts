@@ -3,26 +3,75 @@ import { customElement, state, property } from 'lit/decorators.js';
 import './grid';
 import './card';
 import gameBoardStyles from './game-board.css?inline';
-import { GameState, GameStatus, initializeGameWithProgress, setPreviewMode, updateCardStyle, updateGridSize, transitionToVictoryMusic, transitionToCompleted } from '../models/game-state';
-import { selectCard } from '../functions/card-selection';
-import { processMatches } from '../functions/match-checking';
+import { GameState, GameStatus, CardStyle, isGameLost, MIN_PAIRS, getGroupSize, getGroupCount, getMatchedGroupCount } from '../models/game-state';
 import { clearSelectedCards } from '../functions/card-selection';
+import { GameReducer, createGameReducer } from '../functions/game-reducer';
 import { shuffleCards } from '../functions/shuffle';
-import imageManager from '../managers/image-manager';
+import { initializeGameWithProgress } from '../functions/deal';
+import { getCardFaceText } from '../functions/pairing';
+import { GameOptions, parseGameOptions, applyGameOptions } from '../functions/game-options';
+import { MultiplayerOutcome, getMultiplayerOutcome, getComputerPlayer, isComputerTurn } from '../functions/multiplayer';
+import { AiMemory, AI_MEMORY_PROFILES, createAiMemory, observeCards, forgetCards, forgetMatchedCards, chooseFirstCard, chooseSecondCard } from '../functions/ai-player';
+import { getRemainingTimeMs, isTimeUp } from '../functions/time-attack';
+import imageManager, { CardImage } from '../managers/image-manager';
+import { formatArtworkCredit } from '../functions/artwork';
 import { AudioManager, audioManager as defaultAudioManager } from '../managers/audio-manager';
 import { TimerService, defaultTimerService } from '../services/timer-service';
+import { StorageService, defaultStorageService } from '../services/storage-service';
+import { GameEngine } from '../services/game-engine';
+import { AchievementTracker } from '../services/achievement-tracker';
+import { createAudioMiddleware, createMoveLogMiddleware, createPersistenceMiddleware } from '../services/game-middleware';
+import { AudioSink, AudioManagerSink } from '../services/audio-sink';
+import { DeckStore, defaultDeckStore } from '../services/deck-store';
+import { CustomDeck, CUSTOM_DECK_ID, createCustomCardImages } from '../functions/custom-deck';
+import { GameClock, formatElapsedTime } from '../services/game-clock';
+import { GameSnapshot, saveGameSnapshot, loadGameSnapshot, clearGameSnapshot, isResumableGameState } from '../utils/storage';
+import { HighScorePlacement, getHighScoreCategory, loadHighScores, recordHighScore, setHighScoreInitials, MAX_INITIALS_LENGTH } from '../utils/high-scores';
+import { GameRecord, createGameRecord, loadGameRecords } from '../utils/player-stats';
+import { Achievement, ACHIEVEMENTS } from '../functions/achievements';
+import { RandomSource, createSeededRandom, isDailySeed, resolveSeed } from '../utils/random';
+import { ScoreBreakdown, calculateScore, collectScoreStats } from '../functions/scoring';
+import { getPar, formatParResult, rateAgainstPar } from '../functions/par';
+import { UndoHistory, pushUndoState, canUndo, undoLastMove } from '../functions/practice';
+import { MoveEvent, MoveLog, UntimedMoveEvent, REPLAY_SPEEDS, createMoveLog, appendMoveEvent, applyMoveEvent, getReplayDelay, exportMoveLog } from '../functions/move-log';
+
+// Summary of a finished game passed to the completion callback
+export interface GameCompletionResult {
+  moves: number;
+  elapsedMs: number;
+  outcome?: MultiplayerOutcome; // Winner or tie, only in multiplayer games
+  undos?: number; // Moves taken back, only in practice games
+  score: ScoreBreakdown;
+}
 
 // GameCompletionCallback type for easier testing of game completion
-export type GameCompletionCallback = (moves: number) => void;
+export type GameCompletionCallback = (result: GameCompletionResult) => void;
+
+// Playback position of the replay viewer
+interface ReplayState {
+  log: MoveLog;
+  position: number; // Number of events applied so far
+  state: GameState; // Game state after the applied events
+  isPlaying: boolean;
+  speed: number;
+}
 
 @customElement('memory-game-board')
 export class GameBoard extends LitElement {
-  @state() gameState: GameState;
   @state() private cardStyleValue = 0; // State for card style slider value
   @state() private gridSizeValue = 0; // State for grid size slider value
   @state() private isPreviewMode = false; // State to track if we're showing card preview
   @state() private isRestarting = false; // State to track if we're in the process of restarting
   @state() private shouldAnimateVictory = false; // State to control victory animation
+  @state() private pendingResume: GameSnapshot | null = null; // Saved game waiting for the player to resume or discard
+  @state() private elapsedMs = 0; // Time shown on the game clock
+  @state() private replay: ReplayState | null = null; // Replay being watched instead of the live game
+  @state() private scoreBreakdown: ScoreBreakdown | null = null; // Score of the finished game
+  @state() private isHighScoresOpen = false; // Whether the high-score table is showing
+  @state() private latestHighScore: HighScorePlacement | null = null; // The finished game's place in its table
+  @state() private achievementToasts: Achievement[] = []; // Achievements just unlocked, shown briefly
+  @state() private customDeckName: string | null = null; // Name of the player's own deck, once loaded
+  @state() private matchedArtwork: CardImage | null = null; // Artwork of the last matched pair, shown until closed
 
   @property({ type: Object })
   timerService: TimerService = defaultTimerService;
@@ -30,62 +79,283 @@ export class GameBoard extends LitElement {
   @property({ type: Object })
   audioManager: AudioManager = defaultAudioManager;
 
+  @property({ type: Object })
+  audioSink: AudioSink | null = null; // Plays the game's sounds and music; defaults to the audio manager
+
+  @property({ type: Object })
+  storageService: StorageService = defaultStorageService;
+
+  @property({ type: Object })
+  deckStore: DeckStore = defaultDeckStore; // Holds the player's own deck for the custom card style
+
+  @property({ type: Function })
+  aiRandom: RandomSource = Math.random; // Random source for the computer opponent's memory and guesses
+
+  @property({ type: Array })
+  achievements: Achievement[] = ACHIEVEMENTS; // Achievements that can be unlocked while playing
+
+  @property({ type: Array })
+  ruleVariants: GameReducer[] = []; // Rule variants applied after the standard rules
+
   @property({ type: Function })
-  onGameCompleted: GameCompletionCallback = (moves) => {
-    console.log(`Game completed in ${moves} moves!`);
+  onGameCompleted: GameCompletionCallback = ({ moves, elapsedMs, outcome }) => {
+    console.log(`Game completed in ${moves} moves and ${formatElapsedTime(elapsedMs)}!`);
+    if (outcome) {
+      console.log(outcome.type === 'winner' ? `${outcome.winner.name} wins!` : 'It\'s a tie!');
+    }
   };
 
-  // private backImage = '/Back Side.jpg';
-  private backImage = import.meta.env.BASE_URL + 'Back Side.jpg';
   private backAlt = 'Card Back';
   private matchCheckTimer: number | null = null;
   private revealDelay = 2000; // Time in ms to keep unmatched cards revealed
+  private lowTimeWarning = 10000; // Time in ms below which the countdown is highlighted
+  private isResumingGame = false; // Prevents the grid size watcher from restarting a resumed game
+  private gameClock: GameClock | null = null; // Created when the first card of a game is flipped
+  private aiMemory: AiMemory = createAiMemory(); // Cards the computer opponent remembers
+  private aiTimer: number | null = null; // Pending computer flip
+  private aiFlipDelay = 900; // Time in ms between computer flips so players can follow them
+  private moveLog: MoveLog; // Everything that happened since the current log was started
+  private moveLogStartedAt = 0; // TimerService time when the current log was started
+  private replayTimer: number | null = null; // Pending replay step
+  private undoHistory: UndoHistory = []; // States from the start of each move in practice games
+  private achievementToastDuration = 4000; // Time in ms an unlocked achievement stays on screen
+  private customDeckUrls: string[] = []; // Blob URLs of the custom deck, revoked when it is replaced
+  private achievementTracker = new AchievementTracker(() => this.storageService);
+  private achievementToastTimers: number[] = []; // Pending removals of achievement toasts
+  private isGameReported = false; // Whether the current game is already in the statistics, so it is counted once
+
+  // Holds the live game; the board dispatches actions to it and re-renders on every change
+  readonly engine: GameEngine;
 
   constructor() {
     super();
-    this.gameState = this.initializeGameState();
+    // A shared link deals from the deck it names
+    const requestedCardStyle = this.getRequestedCardStyle();
+    if (requestedCardStyle) {
+      imageManager.setCardStyle(requestedCardStyle);
+    }
+    const initialState = this.initializeGameState();
+    this.engine = new GameEngine(requestedCardStyle ? { ...initialState, cardStyle: requestedCardStyle } : initialState, createGameReducer(), [
+      createAudioMiddleware(() => this.audioSink ?? new AudioManagerSink(this.audioManager)),
+      createMoveLogMiddleware((event) => this.recordMove(event)),
+      createPersistenceMiddleware(() => this.saveGame())
+    ]);
+    this.engine.subscribe((_state, previousState) => this.requestUpdate('gameState', previousState));
+    this.moveLog = this.startMoveLog(this.gameState);
     // Initialize cardStyleValue based on the initial game state
-    this.cardStyleValue = this.gameState.cardStyle === 'impressionist' ? 0 : 1;
+    this.cardStyleValue = this.getCardStyleIndex(this.gameState.cardStyle);
     // Ensure image manager's card style matches the game state
     imageManager.setCardStyle(this.gameState.cardStyle);
 
     // Listen for music start/end events
+    // The final match already moved the game to VICTORY_MUSIC; music that starts
+    // or ends in any other status (e.g. after a restart) must not touch the new game
     this.audioManager.addEventListener('musicStart', () => {
-      this.shouldAnimateVictory = true; // Start animation when music starts
-      // Update game status to VICTORY_MUSIC when music starts
-      this.gameState = transitionToVictoryMusic(this.gameState);
+      // Music played while replaying a finished game does not affect it
+      if (this.replay) return;
+      this.engine.dispatch({ type: 'MUSIC_STARTED' });
+      if (this.gameState.status === GameStatus.VICTORY_MUSIC) {
+        this.shouldAnimateVictory = true; // Start animation when music starts
+      }
     });
 
     this.audioManager.addEventListener('musicEnd', () => {
       this.shouldAnimateVictory = false; // Stop animation when music ends
-      // Update game status to COMPLETED when music ends
-      this.gameState = transitionToCompleted(this.gameState);
+      if (this.replay) return;
+      // Completes the game, unless the state machine rejects it
+      this.engine.dispatch({ type: 'MUSIC_ENDED' });
+    });
+  }
+
+  /**
+   * The live game, held by the game engine
+   */
+  get gameState(): GameState {
+    return this.engine.getState();
+  }
+
+  // Replacing the whole game goes through the engine like every other change
+  set gameState(state: GameState) {
+    this.isGameReported = false;
+    this.engine.dispatch({ type: 'LOAD', state });
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    // The deck builder dispatches a composed event, so it reaches the document from inside any shadow root
+    document.addEventListener('custom-deck-changed', this.handleCustomDeckChanged);
+    this.loadCustomDeck();
+
+    // Offer to resume an unfinished game from a previous visit
+    const snapshot = loadGameSnapshot(this.storageService);
+    this.pendingResume = snapshot && isResumableGameState(snapshot.state) ? snapshot : null;
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    document.removeEventListener('custom-deck-changed', this.handleCustomDeckChanged);
+    this.reportGameAbandoned();
+    this.gameClock?.pause();
+    this.cancelReplayTimer();
+    this.cancelAchievementToastTimers();
+    this.releaseCustomDeckUrls();
+  }
+
+  /**
+   * Pause the game clock while the page is hidden and resume it when visible again
+   */
+  private handleVisibilityChange = () => {
+    if (!this.gameClock) return;
+
+    if (document.hidden) {
+      this.gameClock.pause();
+      this.elapsedMs = this.gameClock.getElapsedMs();
+      this.saveGame();
+    } else {
+      this.gameClock.resume();
+    }
+  };
+
+  /**
+   * Show the player's own deck as the custom card style, using blob URLs of its stored images
+   */
+  private async loadCustomDeck() {
+    let deck: CustomDeck | null;
+    try {
+      deck = await this.deckStore.loadDeck();
+    } catch {
+      // A deck that cannot be read is treated as no deck
+      deck = null;
+    }
+    // A board removed while the deck was loading would never revoke its blob URLs
+    if (!this.isConnected) return;
+
+    const images = deck ? createCustomCardImages(deck) : [];
+
+    this.releaseCustomDeckUrls();
+    this.customDeckUrls = images.map(image => image.path);
+    imageManager.setCustomCardImages(images);
+    this.customDeckName = deck?.name ?? null;
+
+    // Without a deck the custom style has no card faces, so fall back to the first built-in style
+    if (!deck && this.gameState.cardStyle === CUSTOM_DECK_ID) {
+      this.handleCardStyleChange(0);
+    }
+    this.cardStyleValue = this.getCardStyleIndex(this.gameState.cardStyle);
+    this.requestUpdate();
+  }
+
+  /**
+   * Revoke the blob URLs of the custom deck, which is loaded again when the board reconnects
+   */
+  private releaseCustomDeckUrls() {
+    this.customDeckUrls.forEach(url => URL.revokeObjectURL(url));
+    this.customDeckUrls = [];
+  }
+
+  /**
+   * Pick up a deck the deck builder has just saved or deleted
+   */
+  private handleCustomDeckChanged = () => {
+    this.loadCustomDeck();
+  };
+
+  /**
+   * Start a fresh game clock, optionally continuing from a saved elapsed time
+   */
+  private startGameClock(initialElapsedMs: number = 0) {
+    this.gameClock?.stop();
+    this.gameClock = new GameClock(this.timerService, (elapsedMs) => {
+      this.elapsedMs = elapsedMs;
+      this.checkTimeAttack();
     });
+    this.gameClock.start(initialElapsedMs);
+    this.elapsedMs = initialElapsedMs;
+  }
+
+  /**
+   * Stop and discard the game clock
+   */
+  private resetGameClock() {
+    this.gameClock?.stop();
+    this.gameClock = null;
+    this.elapsedMs = 0;
+  }
+
+  /**
+   * Start a new move log for a deal
+   */
+  private startMoveLog(initialState: GameState): MoveLog {
+    this.moveLogStartedAt = this.timerService.now();
+    this.moveLog = createMoveLog(initialState);
+    this.achievementTracker.startGame();
+    return this.moveLog;
+  }
+
+  /**
+   * Add an event to the move log, stamped with the time since the log was started
+   */
+  private recordMove(event: UntimedMoveEvent) {
+    const at = Math.max(0, this.timerService.now() - this.moveLogStartedAt);
+    this.moveLog = appendMoveEvent(this.moveLog, { ...event, at } as MoveEvent);
+
+    this.announceAchievements(this.achievementTracker.checkMove(this.achievements, this.gameState, this.moveLog));
+  }
+
+  /**
+   * Save the current game, but never overwrite a game the player may still resume
+   * or bring back one that is already in the statistics
+   */
+  private saveGame() {
+    if (this.pendingResume !== null || this.isGameReported) return;
+    saveGameSnapshot(this.storageService, this.gameState, this.gameClock?.getElapsedMs() ?? 0);
+  }
+
+  /**
+   * The options asked for by the URL
+   */
+  private getGameOptions(): GameOptions {
+    return parseGameOptions(new URLSearchParams(window.location.search));
+  }
+
+  /**
+   * The number of pairs asked for by the URL or the grid size slider
+   */
+  private getRequestedNumPairs(): number {
+    return this.getGameOptions().numPairs ?? (this.gridSizeValue === 0 ? 5 : 12); // 5 pairs for easy, 12 pairs for hard
+  }
+
+  /**
+   * The deck named by the URL, if it is one of the decks on offer
+   */
+  private getRequestedCardStyle(): CardStyle | null {
+    const { cardStyle } = this.getGameOptions();
+    return imageManager.getDecks().find(deck => deck.id === cardStyle)?.id ?? null;
   }
 
   /**
    * Initialize a new game state with shuffled cards
    */
   initializeGameState(): GameState {
-    // Check if there's a progress parameter in the URL
-    const urlParams = new URLSearchParams(window.location.search);
-    const progressParam = urlParams.get('progress');
-    const numPairsParam = urlParams.get('num_pairs');
-
-    // Validate and set number of pairs
-    let numPairs = this.gridSizeValue === 0 ? 5 : 12; // 5 pairs for easy, 12 pairs for hard
-    if (numPairsParam) {
-      const parsedPairs = parseInt(numPairsParam, 10);
-      if (!isNaN(parsedPairs) && parsedPairs >= 2 && parsedPairs <= 12) {
-        numPairs = parsedPairs;
-      }
-    }
+    const options = this.getGameOptions();
+
+    // Each pair needs an image of its own, so the deck on show caps the board size
+    const deckSize = imageManager.getTotalCardImages();
+    const requestedPairs = this.getRequestedNumPairs();
+    const numPairs = deckSize >= MIN_PAIRS ? Math.min(requestedPairs, deckSize) : requestedPairs;
 
-    // Parse progress parameter
-    const progress = progressParam ? parseInt(progressParam, 10) : null;
+    // One seeded random source picks the images and shuffles the cards, so a seed reproduces the deal
+    const seed = resolveSeed(options.seed, new Date());
+    const random = createSeededRandom(seed);
 
     // Initialize game with progress
-    return initializeGameWithProgress(numPairs, progress, shuffleCards);
+    const gameState: GameState = {
+      ...initializeGameWithProgress(numPairs, options.progress, imageManager, (cards) => shuffleCards(cards, random), random, options.groupSize),
+      seed
+    };
+    return applyGameOptions(gameState, options, (imageId) => imageManager.getCardImageById(imageId));
   }
 
   /**
@@ -95,57 +365,46 @@ export class GameBoard extends LitElement {
     // Prevent default handling
     event.stopPropagation();
 
+    // No more flips once the game is lost
+    if (isGameLost(this.gameState.status)) {
+      return;
+    }
+
     // Get the card that was clicked
     const clickedCard = this.gameState.cards.find(card => card.id === cardId);
     if (!clickedCard || clickedCard.isRevealed || clickedCard.isMatched) {
       return; // Ignore clicks on already revealed or matched cards
     }
 
-    // If game is in READY state, change to IN_PROGRESS
-    if (this.gameState.status === GameStatus.READY) {
-      this.gameState = {
-        ...this.gameState,
-        status: GameStatus.IN_PROGRESS
-      };
+    // Start the clock on the first flip of the game
+    if (this.gameClock === null) {
+      this.startGameClock();
     }
 
-    // Play card flip sound
-    this.audioManager.playEffect('cardFlip');
-
     // If there's a pending timer for clearing mismatched cards
     // and the user clicks a new card, clear the cards immediately
-    if (this.matchCheckTimer !== null && this.gameState.selectedCardIds.length === 2) {
+    if (this.matchCheckTimer !== null && this.gameState.selectedCardIds.length === getGroupSize(this.gameState)) {
       // Clear the timeout
       this.timerService.clearTimeout(this.matchCheckTimer);
       this.matchCheckTimer = null;
 
-      // Reset the mismatched cards and ensure any matching state is also reset
-      const clearedState = clearSelectedCards(this.gameState);
-
-      // Make sure none of the previously selected cards are marked as matched incorrectly
-      const selectedCardIds = this.gameState.selectedCardIds;
-      const fullyResetState = {
-        ...clearedState,
-        cards: clearedState.cards.map(card =>
-          selectedCardIds.includes(card.id) ? { ...card, isMatched: false, isRevealed: false } : card
-        )
-      };
+      // Flip the mismatched cards back before processing the new selection
+      this.engine.dispatch({ type: 'RESOLVE_MISMATCH' });
+    }
 
-      // Play card flip sound for cards flipping back
-      this.audioManager.playEffect('cardFlip');
+    // Remember the start of each move so practice games can take it back
+    if (this.gameState.practice && this.gameState.selectedCardIds.length === 0) {
+      this.undoHistory = pushUndoState(this.undoHistory, this.gameState);
+    }
 
-      // Update game state with reset cards before processing the new selection
-      this.gameState = fullyResetState;
+    // Select the card, starting the game on the first flip
+    this.engine.dispatch({ type: 'FLIP', cardId });
 
-      // Now select the new card after proper cleanup
-      this.gameState = selectCard(this.gameState, cardId);
-    } else {
-      // Normal case - just update game state with the selected card
-      this.gameState = selectCard(this.gameState, cardId);
-    }
+    // Let the computer opponent see the revealed card
+    this.observeRevealedCard(cardId);
 
-    // After selecting the second card, check for a match
-    if (this.gameState.selectedCardIds.length === 2) {
+    // After selecting the last card of the group, check for a match
+    if (this.gameState.selectedCardIds.length === getGroupSize(this.gameState)) {
       this.checkForMatches();
     }
   }
@@ -154,19 +413,17 @@ export class GameBoard extends LitElement {
    * Check for matches and handle the result
    */
   checkForMatches() {
-    // Process matches in the current game state
-    const updatedState = processMatches(this.gameState);
+    const selectedCardIds = this.gameState.selectedCardIds;
 
-    // If there was a match, play match sound
-    if (updatedState.selectedCardIds.length === 0 &&
-      this.gameState.selectedCardIds.length === 2) {
-      this.audioManager.playEffect('match');
-    }
+    // Process matches in the current game state
+    this.engine.dispatch({ type: 'CHECK_MATCH' });
+    this.showMatchedArtwork(selectedCardIds);
 
-    this.gameState = updatedState;
+    // Matched cards can no longer be picked by the computer
+    this.aiMemory = forgetMatchedCards(this.aiMemory, this.gameState);
 
     // If there was no match, set a timer to flip the cards back
-    if (this.gameState.selectedCardIds.length === 2) {
+    if (this.gameState.selectedCardIds.length > 0) {
       // Cancel any existing timer
       if (this.matchCheckTimer !== null) {
         this.timerService.clearTimeout(this.matchCheckTimer);
@@ -174,10 +431,7 @@ export class GameBoard extends LitElement {
 
       // Set a new timer to flip cards back after the delay
       this.matchCheckTimer = this.timerService.setTimeout(() => {
-        // Play card flip sound for cards flipping back
-        this.audioManager.playEffect('cardFlip');
-
-        this.gameState = clearSelectedCards(this.gameState);
+        this.engine.dispatch({ type: 'RESOLVE_MISMATCH' });
         this.matchCheckTimer = null;
       }, this.revealDelay);
     }
@@ -186,39 +440,308 @@ export class GameBoard extends LitElement {
     if (this.gameState.status === GameStatus.VICTORY_MUSIC) {
       this.handleGameCompletion();
     }
+
+    // The last life was lost; the mismatched cards still flip back as usual
+    if (this.gameState.status === GameStatus.OUT_OF_LIVES) {
+      this.gameClock?.stop();
+      this.reportGameFinished();
+    }
+  }
+
+  /**
+   * Show the details of the artwork once its pair is matched, taken from the painting of a non-identical pair
+   */
+  private showMatchedArtwork(cardIds: number[]) {
+    const cards = this.gameState.cards.filter(c => cardIds.includes(c.id));
+    const card = cards.find(c => getCardFaceText(c) === null) ?? cards[0];
+    if (!card?.isMatched) return;
+    this.matchedArtwork = imageManager.getCardImageById(card.imageId) ?? null;
+  }
+
+  /**
+   * Close the artwork details of the last matched pair
+   */
+  dismissArtworkInfo() {
+    this.matchedArtwork = null;
+  }
+
+  /**
+   * Handle a card flip from the player, ignoring clicks during the computer's turn
+   */
+  private handlePlayerCardFlip(event: CustomEvent, cardId: number) {
+    // Cards shown during a replay cannot be played
+    if (this.replay || isComputerTurn(this.gameState)) {
+      event.stopPropagation();
+      return;
+    }
+    this.handleCardFlip(event, cardId);
+  }
+
+  /**
+   * Let the computer opponent remember a revealed card
+   */
+  private observeRevealedCard(cardId: number) {
+    const computer = getComputerPlayer(this.gameState);
+    const card = this.gameState.cards.find(c => c.id === cardId);
+    if (!computer?.aiDifficulty || !card?.isRevealed) return;
+
+    this.aiMemory = observeCards(this.aiMemory, [card], AI_MEMORY_PROFILES[computer.aiDifficulty], this.aiRandom);
+  }
+
+  /**
+   * Start the computer's turn once the board has settled
+   */
+  private scheduleComputerTurn() {
+    if (this.aiTimer !== null || this.isRestarting || this.pendingResume !== null) return;
+    if (this.gameState.status !== GameStatus.READY && this.gameState.status !== GameStatus.IN_PROGRESS) return;
+    // Wait for a pending mismatch to flip back
+    if (this.gameState.selectedCardIds.length > 0 || this.matchCheckTimer !== null) return;
+
+    const computer = getComputerPlayer(this.gameState);
+    if (!computer?.aiDifficulty || !isComputerTurn(this.gameState)) return;
+
+    // Memory fades a little before every turn
+    this.aiMemory = forgetCards(this.aiMemory, AI_MEMORY_PROFILES[computer.aiDifficulty], this.aiRandom);
+
+    this.scheduleComputerFlip(() => {
+      const firstCardId = chooseFirstCard(this.gameState, this.aiMemory, this.aiRandom);
+      if (firstCardId === null) return;
+      this.handleCardFlip(new CustomEvent('card-flipped'), firstCardId);
+      this.flipComputerPartner(firstCardId);
+    });
+  }
+
+  /**
+   * Let the computer flip the rest of the group its first card belongs to, one card at a time
+   */
+  private flipComputerPartner(firstCardId: number) {
+    this.scheduleComputerFlip(() => {
+      if (!this.gameState.selectedCardIds.includes(firstCardId)) return;
+      const nextCardId = chooseSecondCard(this.gameState, this.aiMemory, firstCardId, this.aiRandom);
+      if (nextCardId === null) return;
+      this.handleCardFlip(new CustomEvent('card-flipped'), nextCardId);
+
+      // Groups larger than pairs need more flips before the match is checked
+      const { selectedCardIds } = this.gameState;
+      if (selectedCardIds.includes(firstCardId) && selectedCardIds.length < getGroupSize(this.gameState)) {
+        this.flipComputerPartner(firstCardId);
+      }
+    });
+  }
+
+  /**
+   * Run a computer flip after a visible delay
+   */
+  private scheduleComputerFlip(flip: () => void) {
+    // SynchronousTimerService runs the callback before setTimeout returns,
+    // in which case there is no pending timer to remember
+    let hasFired = false;
+    const timerId = this.timerService.setTimeout(() => {
+      hasFired = true;
+      this.aiTimer = null;
+      flip();
+    }, this.aiFlipDelay);
+
+    if (!hasFired) {
+      this.aiTimer = timerId;
+    }
+  }
+
+  /**
+   * Cancel any pending computer flip and clear its memory
+   */
+  private resetComputerOpponent() {
+    if (this.aiTimer !== null) {
+      this.timerService.clearTimeout(this.aiTimer);
+      this.aiTimer = null;
+    }
+    this.aiMemory = createAiMemory();
+  }
+
+  /**
+   * Take back the last move in a practice game
+   */
+  undoMove() {
+    // The computer's moves are not the player's to take back
+    if (isComputerTurn(this.gameState)) return;
+
+    const result = undoLastMove(this.gameState, this.undoHistory);
+    if (!result) return;
+
+    // The mismatched cards are already face down in the restored state
+    if (this.matchCheckTimer !== null) {
+      this.timerService.clearTimeout(this.matchCheckTimer);
+      this.matchCheckTimer = null;
+    }
+
+    this.undoHistory = result.history;
+    this.engine.dispatch({ type: 'UNDO', state: result.state });
+  }
+
+  /**
+   * End a time-attack game once its countdown has run out
+   */
+  checkTimeAttack() {
+    if (!isTimeUp(this.gameState, this.elapsedMs)) return;
+
+    this.gameClock?.stop();
+
+    // Cancel any pending flip-back of mismatched cards
+    if (this.matchCheckTimer !== null) {
+      this.timerService.clearTimeout(this.matchCheckTimer);
+      this.matchCheckTimer = null;
+    }
+
+    this.engine.dispatch({ type: 'TIME_EXPIRED' });
+    this.reportGameFinished();
   }
 
   /**
    * Handle game completion
    */
   handleGameCompletion() {
+    // Stop the clock so the final time is frozen
+    this.gameClock?.stop();
+    this.elapsedMs = this.gameClock?.getElapsedMs() ?? this.elapsedMs;
+
+    // Score the game from its final state and the moves that led there
+    this.scoreBreakdown = calculateScore(this.gameState, collectScoreStats(this.moveLog), this.elapsedMs);
+    this.latestHighScore = recordHighScore(this.storageService, this.gameState, this.scoreBreakdown.score, this.elapsedMs);
+    this.reportGameFinished();
+
     // Call the completion callback
-    this.onGameCompleted(this.gameState.moves);
+    this.onGameCompleted({
+      moves: this.gameState.moves,
+      elapsedMs: this.elapsedMs,
+      outcome: getMultiplayerOutcome(this.gameState),
+      undos: this.gameState.practice?.undos,
+      score: this.scoreBreakdown
+    });
     
     // Ensure sliders reflect current game state
-    this.cardStyleValue = this.gameState.cardStyle === 'impressionist' ? 0 : 1;
+    this.cardStyleValue = this.getCardStyleIndex(this.gameState.cardStyle);
     this.gridSizeValue = this.gameState.gridSize === 'easy' ? 0 : 1;
   }
 
   /**
-   * Handle card style change
+   * Announce a won, lost or abandoned single-player game so statistics can be kept
    */
-  private handleCardStyleChange(value: number) {
-    const newStyle = value === 0 ? 'impressionist' : 'robgon';
-    imageManager.setCardStyle(newStyle);
-    this.gameState = updateCardStyle(this.gameState, newStyle);
+  private reportGameFinished() {
+    if (this.gameState.multiplayer || this.isGameReported) return;
+    this.isGameReported = true;
+
+    const elapsedMs = this.gameClock?.getElapsedMs() ?? this.elapsedMs;
+    const record = createGameRecord(this.gameState, this.moveLog, elapsedMs);
+    // Read the history before listeners store this game in it
+    const previousGames = loadGameRecords(this.storageService);
 
-    // If game hasn't started (moves = 0), show preview
-    if (this.gameState.moves === 0) {
-      this.showCardPreview();
+    // Events of a board removed from the page no longer bubble up to the document
+    const target = this.isConnected ? this : document;
+    target.dispatchEvent(new CustomEvent<GameRecord>('game-finished', {
+      detail: record,
+      bubbles: true,
+      composed: true
+    }));
+    this.announceAchievements(
+      this.achievementTracker.checkFinishedGame(this.achievements, this.gameState, this.moveLog, record, previousGames)
+    );
+  }
+
+  /**
+   * Announce a game given up part way through, by a restart or by removing the board, as played but not completed
+   *
+   * The saved game is cleared so it is not offered for resuming and counted again. Closing or
+   * reloading the page does not remove the board, so that game stays saved for the next visit.
+   */
+  private reportGameAbandoned() {
+    if (this.gameState.status !== GameStatus.IN_PROGRESS || this.gameState.moves === 0) return;
+
+    this.reportGameFinished();
+    if (this.isGameReported) {
+      clearGameSnapshot(this.storageService);
     }
   }
 
   /**
-   * Show all cards face up for preview
+   * Show a toast for each achievement just unlocked and let the page know about it
    */
-  private showCardPreview() {
-    this.gameState = setPreviewMode(this.gameState, true);
+  private announceAchievements(newAchievements: Achievement[]) {
+    newAchievements.forEach(achievement => {
+      this.achievementToasts = [...this.achievementToasts, achievement];
+      this.achievementToastTimers.push(this.timerService.setTimeout(() => {
+        this.achievementToasts = this.achievementToasts.filter(toast => toast !== achievement);
+      }, this.achievementToastDuration));
+
+      this.dispatchEvent(new CustomEvent<Achievement>('achievement-unlocked', {
+        detail: achievement,
+        bubbles: true,
+        composed: true
+      }));
+    });
+  }
+
+  /**
+   * Show or hide the high-score table
+   */
+  toggleHighScores() {
+    this.isHighScoresOpen = !this.isHighScoresOpen;
+  }
+
+  /**
+   * Put the player's initials on the result that just made the table
+   */
+  saveHighScoreInitials(initials: string) {
+    if (!this.latestHighScore) return;
+
+    const { category, date } = this.latestHighScore;
+    setHighScoreInitials(this.storageService, category, date, initials);
+    // Re-render the table with the new initials
+    this.latestHighScore = { ...this.latestHighScore };
+  }
+
+  /**
+   * Handle the initials form on the high-score table
+   */
+  private handleInitialsSubmit(event: Event) {
+    event.preventDefault();
+    const input = (event.target as HTMLFormElement).querySelector('input') as HTMLInputElement;
+    this.saveHighScoreInitials(input.value);
+  }
+
+  /**
+   * Card styles in the order of the card style slider: every deck, then the custom deck once one is built
+   */
+  private get cardStyles(): { id: CardStyle; name: string }[] {
+    const customDeck = this.customDeckName !== null ? [{ id: CUSTOM_DECK_ID, name: this.customDeckName }] : [];
+    return [...imageManager.getDecks(), ...customDeck];
+  }
+
+  /**
+   * Get the slider position of a card style
+   */
+  private getCardStyleIndex(style: CardStyle): number {
+    return Math.max(0, this.cardStyles.findIndex(cardStyle => cardStyle.id === style));
+  }
+
+  /**
+   * Handle card style change
+   */
+  private handleCardStyleChange(value: number) {
+    const newStyle = this.cardStyles[value]?.id;
+    if (!newStyle) return;
+    imageManager.setCardStyle(newStyle);
+
+    // If game hasn't started (moves = 0), the new style is previewed on every card
+    this.engine.dispatch({ type: 'SET_STYLE', cardStyle: newStyle });
+
+    // Text cards name the details of the old deck, and a deck that could not be paired may be followed by one that can,
+    // so an unstarted game asking for pairing is dealt again. So is one whose deal from a large generated deck uses
+    // images the new deck does not have, or whose board was cut short by a small deck and can now grow.
+    const hasMissingImages = this.gameState.cards.some(card => !imageManager.getCardImageById(card.imageId));
+    const canDealMorePairs = getGroupCount(this.gameState) < Math.min(this.getRequestedNumPairs(), imageManager.getTotalCardImages());
+    if ((this.getGameOptions().pairing || hasMissingImages || canDealMorePairs) && this.gameState.status === GameStatus.READY) {
+      this.restartGame();
+    }
   }
 
   /**
@@ -234,40 +757,488 @@ export class GameBoard extends LitElement {
       this.matchCheckTimer = null;
     }
 
+    // A game in progress counts as played, so leaving it lowers the completion rate
+    this.reportGameAbandoned();
+
     // Stop any playing music
     this.audioManager.stopMusic();
 
     // Reset animation state
     this.shouldAnimateVictory = false;
 
-    // Play a sound for game reset
-    this.audioManager.playEffect('cardFlip');
+    // Reset the game clock
+    this.resetGameClock();
+
+    // Stop the computer opponent mid-turn
+    this.resetComputerOpponent();
+
+    // Go back to the live game if a replay is showing
+    this.exitReplay();
+
+    // Moves from the previous game cannot be taken back
+    this.undoHistory = [];
+    this.scoreBreakdown = null;
+    this.latestHighScore = null;
+    this.matchedArtwork = null;
 
     // Set restarting state to true
     this.isRestarting = true;
+    this.isGameReported = false;
 
     // First flip all cards face down
-    this.gameState = {
-      ...this.gameState,
-      cards: this.gameState.cards.map(card => ({
-        ...card,
-        isRevealed: false,
-        isMatched: false
-      })),
-      moves: 0,
-      selectedCardIds: [],
-      status: GameStatus.READY,
-      isPreviewMode: false
-    };
+    this.engine.dispatch({ type: 'RESTART' });
 
     // Wait for flip animation to complete (500ms) before shuffling
     this.timerService.setTimeout(() => {
-      // Initialize a new game state
-      this.gameState = this.initializeGameState();
+      // Deal a new game from the deck on show
+      this.engine.dispatch({ type: 'DEAL', state: { ...this.initializeGameState(), cardStyle: this.gameState.cardStyle } });
       this.isRestarting = false;
     }, 500);
   }
 
+  /**
+   * Resume the saved game offered on load
+   */
+  resumeSavedGame() {
+    if (!this.pendingResume) return;
+    const { state: savedState, elapsedMs } = this.pendingResume;
+
+    // A pending mismatch timer did not survive the reload, so flip those cards back now
+    const restoredState = savedState.selectedCardIds.length === getGroupSize(savedState)
+      ? clearSelectedCards(savedState)
+      : savedState;
+
+    imageManager.setCardStyle(restoredState.cardStyle);
+    this.cardStyleValue = this.getCardStyleIndex(restoredState.cardStyle);
+
+    const restoredGridSizeValue = restoredState.gridSize === 'easy' ? 0 : 1;
+    if (restoredGridSizeValue !== this.gridSizeValue) {
+      this.isResumingGame = true;
+      this.gridSizeValue = restoredGridSizeValue;
+    }
+
+    this.isGameReported = false;
+    this.engine.dispatch({ type: 'LOAD', state: { ...restoredState, isPreviewMode: false } });
+    this.startMoveLog(this.gameState);
+    this.undoHistory = [];
+    this.pendingResume = null;
+    this.startGameClock(elapsedMs);
+  }
+
+  /**
+   * Discard the saved game offered on load and keep the new one
+   */
+  discardSavedGame() {
+    clearGameSnapshot(this.storageService);
+    this.pendingResume = null;
+  }
+
+  /**
+   * Watch a replay of the recorded moves, starting from the first deal
+   */
+  startReplay() {
+    if (this.moveLog.events.length === 0) return;
+
+    this.cancelReplayTimer();
+    this.replay = {
+      log: this.moveLog,
+      position: 0,
+      state: this.moveLog.initialState,
+      isPlaying: false,
+      speed: this.replay?.speed ?? 1
+    };
+  }
+
+  /**
+   * Play the replay from its current position, rewinding if it already ended
+   */
+  playReplay() {
+    if (!this.replay) return;
+
+    if (this.replay.position >= this.replay.log.events.length) {
+      this.replay = { ...this.replay, position: 0, state: this.replay.log.initialState };
+    }
+    this.replay = { ...this.replay, isPlaying: true };
+    this.scheduleReplayStep();
+  }
+
+  /**
+   * Pause the replay at its current position
+   */
+  pauseReplay() {
+    if (!this.replay) return;
+
+    this.cancelReplayTimer();
+    this.replay = { ...this.replay, isPlaying: false };
+  }
+
+  /**
+   * Apply the next recorded event to the replay
+   */
+  stepReplay() {
+    if (!this.replay) return;
+
+    const { log, position, state, isPlaying } = this.replay;
+    const event = log.events[position];
+    if (!event) return;
+
+    const nextPosition = position + 1;
+    this.replay = {
+      ...this.replay,
+      position: nextPosition,
+      state: applyMoveEvent(state, event),
+      isPlaying: isPlaying && nextPosition < log.events.length
+    };
+  }
+
+  /**
+   * Change the replay speed, keeping playback going if it is playing
+   */
+  setReplaySpeed(speed: number) {
+    if (!this.replay) return;
+
+    this.cancelReplayTimer();
+    this.replay = { ...this.replay, speed };
+    if (this.replay.isPlaying) {
+      this.scheduleReplayStep();
+    }
+  }
+
+  /**
+   * Leave the replay and show the live game again
+   */
+  exitReplay() {
+    this.cancelReplayTimer();
+    this.replay = null;
+  }
+
+  /**
+   * Get the move log as JSON
+   */
+  exportMoveLog(): string {
+    return exportMoveLog(this.moveLog);
+  }
+
+  /**
+   * Save the move log as a JSON file
+   */
+  private downloadMoveLog() {
+    const blob = new Blob([this.exportMoveLog()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `memory-game-${this.moveLog.initialState.seed ?? 'moves'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Schedule the next replay step, waiting as long as the original game did
+   */
+  private scheduleReplayStep() {
+    if (!this.replay?.isPlaying) return;
+
+    const delay = getReplayDelay(this.replay.log, this.replay.position, this.replay.speed);
+    if (delay === null) {
+      this.replay = { ...this.replay, isPlaying: false };
+      return;
+    }
+
+    // SynchronousTimerService runs the callback before setTimeout returns,
+    // in which case there is no pending timer to remember
+    let hasFired = false;
+    const timerId = this.timerService.setTimeout(() => {
+      hasFired = true;
+      this.replayTimer = null;
+      this.stepReplay();
+      this.scheduleReplayStep();
+    }, delay);
+
+    if (!hasFired) {
+      this.replayTimer = timerId;
+    }
+  }
+
+  /**
+   * Cancel any pending replay step
+   */
+  private cancelReplayTimer() {
+    if (this.replayTimer !== null) {
+      this.timerService.clearTimeout(this.replayTimer);
+      this.replayTimer = null;
+    }
+  }
+
+  /**
+   * Remove the pending timers that hide achievement toasts
+   */
+  private cancelAchievementToastTimers() {
+    this.achievementToastTimers.forEach(timer => this.timerService.clearTimeout(timer));
+    this.achievementToastTimers = [];
+  }
+
+  /**
+   * Whether a finished game can be watched again
+   */
+  private canWatchReplay(): boolean {
+    return !this.replay &&
+      this.moveLog.events.length > 0 &&
+      (this.gameState.status === GameStatus.COMPLETED || isGameLost(this.gameState.status));
+  }
+
+  /**
+   * Render the replay position and playback controls
+   */
+  private renderReplayControls() {
+    if (!this.replay) return '';
+    const { log, position, isPlaying, speed } = this.replay;
+    const atEnd = position >= log.events.length;
+
+    return html`
+      <div class="replay-controls" role="toolbar" aria-label="Replay controls">
+        <p class="replay-progress">Replay: ${position} / ${log.events.length}</p>
+        <button @click=${isPlaying ? this.pauseReplay : this.playReplay} class="replay-play-button">${isPlaying ? 'Pause' : 'Play'}</button>
+        <button @click=${this.stepReplay} class="replay-step-button" ?disabled=${atEnd || isPlaying}>Step</button>
+        <label>
+          Speed
+          <select class="replay-speed" @change=${(e: Event) => this.setReplaySpeed(parseFloat((e.target as HTMLSelectElement).value))}>
+            ${REPLAY_SPEEDS.map(option => html`<option value=${option} ?selected=${option === speed}>${option}x</option>`)}
+          </select>
+        </label>
+        <button @click=${this.downloadMoveLog} class="export-log-button">Export JSON</button>
+        <button @click=${this.exitReplay} class="exit-replay-button">Exit Replay</button>
+      </div>
+    `;
+  }
+
+  /**
+   * Render per-player scores and highlight whose turn it is
+   */
+  private renderScoreboard() {
+    const { multiplayer } = this.displayedState;
+    if (!multiplayer) return '';
+
+    return html`
+      <div class="scoreboard">
+        ${multiplayer.players.map((player, index) => html`
+          <p class="player-score ${index === multiplayer.activePlayerIndex ? 'active' : ''}"
+            aria-current=${index === multiplayer.activePlayerIndex ? 'true' : 'false'}>
+            ${player.name}: ${player.score}
+          </p>
+        `)}
+      </div>
+    `;
+  }
+
+  /**
+   * Get the completion message, announcing the winner in multiplayer games
+   */
+  private getCompletionMessage(): string {
+    const outcome = getMultiplayerOutcome(this.gameState);
+    if (!outcome) return 'Game Complete!';
+    return outcome.type === 'winner' ? `${outcome.winner.name} wins!` : 'It\'s a tie!';
+  }
+
+  /**
+   * Render how the score of a finished game was made up
+   */
+  private renderScoreBreakdown() {
+    const breakdown = this.scoreBreakdown;
+    if (!breakdown || this.replay || this.gameState.status !== GameStatus.COMPLETED) return '';
+
+    return html`
+      <div class="score-breakdown" aria-label="Score breakdown">
+        <p class="score-total">Score: ${breakdown.score}</p>
+        <dl>
+          <dt>Matches</dt><dd>+${breakdown.matchPoints}</dd>
+          <dt>Streaks (best ${breakdown.longestStreak})</dt><dd>+${breakdown.streakBonus}</dd>
+          <dt>First-sight matches</dt><dd>+${breakdown.firstSightBonus}</dd>
+          <dt>Repeated mismatches</dt><dd>-${breakdown.seenMismatchPenalty}</dd>
+          <dt>Time bonus</dt><dd>+${breakdown.timeBonus}</dd>
+        </dl>
+        ${this.latestHighScore
+        ? html`<p class="new-high-score">New high score: #${this.latestHighScore.rank}!</p>`
+        : ''}
+        <button @click=${this.toggleHighScores} class="view-high-scores-button">View High Scores</button>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the toasts of achievements that were just unlocked
+   */
+  private renderAchievementToasts() {
+    if (this.achievementToasts.length === 0) return '';
+
+    return html`
+      <div class="achievement-toasts" role="status">
+        ${this.achievementToasts.map(achievement => html`
+          <div class="achievement-toast">
+            <p class="achievement-toast-title">Achievement unlocked: ${achievement.name}</p>
+            <p>${achievement.description}</p>
+          </div>
+        `)}
+      </div>
+    `;
+  }
+
+  /**
+   * Render the details of the last matched artwork, which the player can close
+   */
+  private renderArtworkInfo() {
+    if (!this.matchedArtwork || this.replay) return '';
+
+    const artwork = this.matchedArtwork;
+    const credit = formatArtworkCredit(artwork);
+    return html`
+      <aside class="artwork-info" role="dialog" aria-label="About this card">
+        <img class="artwork-info-image" src=${artwork.path} alt=${artwork.alt ?? artwork.title}>
+        <div class="artwork-info-details">
+          <p class="artwork-info-title">${artwork.title}</p>
+          ${credit ? html`<p class="artwork-info-credit">${credit}</p>` : ''}
+        </div>
+        <button class="artwork-info-close-button" @click=${this.dismissArtworkInfo} aria-label="Close card details">&times;</button>
+      </aside>
+    `;
+  }
+
+  /**
+   * Render the high-score table for the current board, card style and mode
+   */
+  private renderHighScores() {
+    if (!this.isHighScoresOpen) return '';
+
+    const category = this.latestHighScore?.category ?? getHighScoreCategory(this.gameState);
+    const entries = category ? loadHighScores(this.storageService, category) : [];
+    const latestEntry = entries.find(entry => entry.date === this.latestHighScore?.date);
+
+    return html`
+      <div class="high-scores" role="dialog" aria-label="High scores">
+        <h2>High Scores</h2>
+        ${category
+        ? html`<p class="high-score-category">${category.numPairs} pairs · ${category.cardStyle} · ${category.mode.replace(/_/g, ' ')}</p>`
+        : html`<p class="high-score-category">Multiplayer games are not ranked.</p>`}
+        ${entries.length > 0 ? html`
+          <table>
+            <thead>
+              <tr><th>#</th><th>Player</th><th>Score</th><th>Moves</th><th>Time</th><th>Date</th></tr>
+            </thead>
+            <tbody>
+              ${entries.map((entry, index) => html`
+                <tr class=${entry === latestEntry ? 'latest' : ''}>
+                  <td>${index + 1}</td>
+                  <td>${entry.initials ?? '---'}</td>
+                  <td>${entry.score}</td>
+                  <td>${entry.moves}</td>
+                  <td>${formatElapsedTime(entry.elapsedMs)}</td>
+                  <td>${new Date(entry.date).toLocaleDateString()}</td>
+                </tr>
+              `)}
+            </tbody>
+          </table>
+        ` : category ? html`<p class="no-high-scores">No games finished yet.</p>` : ''}
+        ${latestEntry && latestEntry.initials === undefined ? html`
+          <form class="initials-form" @submit=${this.handleInitialsSubmit}>
+            <label>Your initials <input name="initials" maxlength=${MAX_INITIALS_LENGTH} autocomplete="off"></label>
+            <button type="submit">Save</button>
+          </form>
+        ` : ''}
+        <button @click=${this.toggleHighScores} class="close-high-scores-button">Close</button>
+      </div>
+    `;
+  }
+
+  /**
+   * Render the game clock, or the countdown in time-attack mode
+   */
+  private renderTimer() {
+    const remainingMs = getRemainingTimeMs(this.gameState, this.elapsedMs);
+    if (remainingMs === null) {
+      return html`<p class="game-timer">Time: ${formatElapsedTime(this.elapsedMs)}</p>`;
+    }
+
+    // Round up so the countdown only shows 0:00 once time has actually run out
+    const displayMs = Math.ceil(remainingMs / 1000) * 1000;
+    return html`
+      <p class="game-timer countdown ${remainingMs <= this.lowTimeWarning ? 'low-time' : ''}">
+        Time left: ${formatElapsedTime(displayMs)}
+      </p>
+    `;
+  }
+
+  /**
+   * Get the par of the displayed board; moves are shared between players, so par only applies to solo games
+   */
+  private get par(): number | null {
+    const state = this.displayedState;
+    // Par is calibrated for pairs, so match-three games have none
+    return state.multiplayer || state.groupSize ? null : getPar(getGroupCount(state));
+  }
+
+  /**
+   * Render how a finished game compares with par
+   */
+  private renderParRating() {
+    const par = this.par;
+    if (par === null || this.replay || this.gameState.status !== GameStatus.COMPLETED) return '';
+
+    const { moves } = this.gameState;
+    return html`<p class="par-rating ${rateAgainstPar(moves, par).replace('_', '-')}">${formatParResult(moves, par)}</p>`;
+  }
+
+  /**
+   * Render a note when the pairing rule asked for by the URL could not be dealt, so cards match copies of themselves
+   */
+  private renderPairingNotice() {
+    const pairing = this.getGameOptions().pairing;
+    if (!pairing || this.gameState.pairing || this.replay) return '';
+
+    const deckName = this.cardStyles.find(style => style.id === this.gameState.cardStyle)?.name ?? this.gameState.cardStyle;
+    const reason = this.gameState.groupSize
+      ? `Groups of ${this.gameState.groupSize} cards cannot be paired by ${pairing}`
+      : `The ${deckName} deck cannot be paired by ${pairing}`;
+    return html`<p class="pairing-unavailable" role="status">${reason}, so each card matches a copy of itself.</p>`;
+  }
+
+  /**
+   * Build a link that deals the current game again: the rule variants asked for by the URL, and the seed,
+   * board size, deck, group size and pairing of the deal on show
+   */
+  private getShareUrl(seed: string): string {
+    const { groupSize, pairing, cardStyle } = this.gameState;
+    const params: Record<string, string> = {
+      ...Object.fromEntries(new URLSearchParams(window.location.search)),
+      seed,
+      num_pairs: String(getGroupCount(this.gameState)),
+      card_style: cardStyle
+    };
+    // A deal that was dealt in pairs, or could not be paired, is shared as it was dealt
+    delete params.group_size;
+    delete params.pairing;
+    if (groupSize) params.group_size = String(groupSize);
+    if (pairing) params.pairing = pairing;
+
+    const url = new URL(window.location.href);
+    url.search = '';
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    return url.toString();
+  }
+
+  /**
+   * Render the seed of the current deal as a shareable link
+   */
+  private renderSeed() {
+    const { seed } = this.gameState;
+    if (!seed) return '';
+
+    return html`
+      <p class="deal-seed">
+        ${isDailySeed(seed) ? 'Daily deal' : 'Deal'}:
+        <a class="share-link" href=${this.getShareUrl(seed)} title="Share this deal">${seed}</a>
+      </p>
+    `;
+  }
+
   /**
    * Get the image path for a card based on its imageId
    */
@@ -281,13 +1252,23 @@ export class GameBoard extends LitElement {
    */
   private getCardAltText(imageId: number): string {
     const image = imageManager.getCardImageById(imageId);
-    return image ? image.name : 'Card';
+    return image ? image.alt ?? image.title : 'Card';
+  }
+
+  /**
+   * The state shown on the board: the replay while one is showing, otherwise the live game
+   */
+  private get displayedState(): GameState {
+    return this.replay?.state ?? this.gameState;
   }
 
   render() {
+    const displayedState = this.displayedState;
+    const cardStyles = this.cardStyles;
+
     // Create a map of imageId to animation properties for pairs
     const pairAnimationProps = new Map<number, { isHorizontal: boolean, phaseOffset: number }>();
-    this.gameState.cards.forEach((card, index) => {
+    displayedState.cards.forEach((card, index) => {
       if (!pairAnimationProps.has(card.imageId)) {
         // Assign horizontal (true) or vertical (false) based on the first occurrence of each pair
         // Generate a random phase offset between 0 and 0.48 (one beat)
@@ -302,35 +1283,76 @@ export class GameBoard extends LitElement {
       <div class="memory-game">
         <h1>Memory Matching Game</h1>
         <div class="game-stats">
-          <p>Moves: ${this.gameState.moves}</p>
-          ${this.gameState.status === GameStatus.COMPLETED
-        ? html`<p class="game-complete">Game Complete!</p>`
+          <p>Moves: ${displayedState.moves}</p>
+          ${this.par !== null ? html`<p class="par">Par: ${this.par}</p>` : ''}
+          ${displayedState.lives !== undefined
+        ? html`<p class="lives">Lives: ${displayedState.lives}</p>`
+        : ''}
+          ${displayedState.practice
+        ? html`<p class="undos">Undos: ${displayedState.practice.undos}</p>`
+        : ''}
+          ${this.replay ? '' : this.renderTimer()}
+          ${this.renderSeed()}
+          ${displayedState.status === GameStatus.COMPLETED && !this.replay
+        ? html`<p class="game-complete">${this.getCompletionMessage()}</p>`
+        : ''}
+          ${this.renderParRating()}
+          ${displayedState.status === GameStatus.COMPLETED && displayedState.practice && !this.replay
+        ? html`<p class="practice-summary">Practice game: ${displayedState.practice.undos} ${displayedState.practice.undos === 1 ? 'undo' : 'undos'}</p>`
         : ''}
         </div>
-        <memory-grid .numPairs=${this.gameState.cards.length / 2}>
-          ${this.gameState.cards.map((card) => {
+        ${this.renderPairingNotice()}
+        ${this.renderScoreBreakdown()}
+        ${this.renderScoreboard()}
+        ${this.renderReplayControls()}
+        ${this.renderHighScores()}
+        ${this.renderAchievementToasts()}
+        ${this.renderArtworkInfo()}
+        <memory-grid .numPairs=${getGroupCount(displayedState)} .groupSize=${getGroupSize(displayedState)}>
+          ${displayedState.cards.map((card) => {
           const props = pairAnimationProps.get(card.imageId);
           return html`
               <flip-card
                 .frontImage=${this.getCardImagePath(card.imageId)}
-                .backImage=${this.backImage}
+                .backImage=${imageManager.getCardBackImagePath()}
                 .frontAlt=${this.getCardAltText(card.imageId)}
+                .frontText=${getCardFaceText(card) ?? ''}
                 .backAlt=${this.backAlt}
                 ?revealed=${card.isRevealed || this.isPreviewMode}
                 ?matched=${card.isMatched}
                 ?isGameCompleted=${this.shouldAnimateVictory}
                 .isHorizontal=${this.shouldAnimateVictory && props?.isHorizontal}
                 .phaseOffset=${props?.phaseOffset ?? 0}
-                @card-flipped=${(e: CustomEvent) => this.handleCardFlip(e, card.id)}
+                @card-flipped=${(e: CustomEvent) => this.handlePlayerCardFlip(e, card.id)}
               ></flip-card>
             `})}
         </memory-grid>
+        ${isGameLost(this.gameState.status) && !this.replay ? html`
+          <div class="game-over-overlay" role="alertdialog" aria-label="Game over">
+            <p class="game-over-title">${this.gameState.status === GameStatus.TIME_UP ? "Time's up!" : 'Out of lives!'}</p>
+            <p>You matched ${getMatchedGroupCount(this.gameState)} of ${getGroupCount(this.gameState)} ${this.gameState.groupSize ? 'groups' : 'pairs'}.</p>
+            <button @click=${this.restartGame} class="try-again-button">Try Again</button>
+            <button @click=${this.startReplay} class="replay-button">Watch Replay</button>
+          </div>
+        ` : ''}
+        ${this.pendingResume ? html`
+          <div class="resume-prompt" role="dialog" aria-label="Resume saved game">
+            <p>Resume your unfinished game? (${this.pendingResume.state.moves} moves, ${formatElapsedTime(this.pendingResume.elapsedMs)})</p>
+            <div class="resume-actions">
+              <button @click=${this.resumeSavedGame} class="resume-button">Resume</button>
+              <button @click=${this.discardSavedGame} class="discard-button">New Game</button>
+            </div>
+          </div>
+        ` : ''}
         <div class="game-controls">
-          <div class="slider-controls ${(this.gameState.status === GameStatus.READY || this.gameState.status === GameStatus.COMPLETED) ? 'visible' : 'hidden'}">
+          <div class="slider-controls ${(this.gameState.status === GameStatus.READY || this.gameState.status === GameStatus.COMPLETED || isGameLost(this.gameState.status)) ? 'visible' : 'hidden'}">
             <div class="card-style-control">
-              <label for="cardStyleSlider" @click=${() => this.handleCardStyleChange(0)}>Impressionist</label>
-              <input type="range" id="cardStyleSlider" min="0" max="1" .value=${this.cardStyleValue} @input=${(e: Event) => this.handleCardStyleChange(parseInt((e.target as HTMLInputElement).value))}>
-              <label for="cardStyleSlider" @click=${() => this.handleCardStyleChange(1)}>RobGon</label>
+              <label for="cardStyleSlider" @click=${() => this.handleCardStyleChange(0)}>${cardStyles[0]?.name}</label>
+              <input type="range" id="cardStyleSlider" min="0" max=${cardStyles.length - 1} .value=${this.cardStyleValue} @input=${(e: Event) => this.handleCardStyleChange(parseInt((e.target as HTMLInputElement).value))}>
+              ${cardStyles.slice(1).map((cardStyle, index) => html`
+                <label for="cardStyleSlider" class=${cardStyle.id === CUSTOM_DECK_ID ? 'custom-style-label' : ''}
+                  @click=${() => this.handleCardStyleChange(index + 1)}>${cardStyle.name}</label>
+              `)}
             </div>
             <div class="grid-size-control">
               <label for="gridSizeSlider" @click=${() => this.gridSizeValue = 0}>Easy</label>
@@ -339,6 +1361,12 @@ export class GameBoard extends LitElement {
             </div>
           </div>
           <button @click=${this.restartGame} class="restart-button">Restart Game</button>
+          ${this.gameState.practice && !this.replay ? html`
+            <button @click=${this.undoMove} class="undo-button"
+              ?disabled=${!canUndo(this.gameState, this.undoHistory) || isComputerTurn(this.gameState)}>Undo</button>
+          ` : ''}
+          ${this.canWatchReplay() ? html`<button @click=${this.startReplay} class="replay-button">Watch Replay</button>` : ''}
+          <button @click=${this.toggleHighScores} class="high-scores-button">High Scores</button>
         </div>
       </div>
     `;
@@ -346,15 +1374,34 @@ export class GameBoard extends LitElement {
 
   static styles = unsafeCSS(gameBoardStyles);
 
-  // Watch for gridSizeValue changes
+  // Plug in new rule variants before the next render
+  willUpdate(changedProperties: Map<string, any>) {
+    if (changedProperties.has('ruleVariants')) {
+      this.engine.replaceReducer(createGameReducer(this.ruleVariants));
+    }
+  }
+
+  // Watch for gridSizeValue and gameState changes
   updated(changedProperties: Map<string, any>) {
-    if (changedProperties.has('gridSizeValue')) {
+    // Let the computer move when it is its turn
+    if (changedProperties.has('gameState')) {
+      this.scheduleComputerTurn();
+    }
+
+    // Reload the custom deck when a different deck store is set
+    if (changedProperties.has('deckStore') && changedProperties.get('deckStore') !== undefined) {
+      this.loadCustomDeck();
+    }
+
+    if (changedProperties.has('gridSizeValue') && this.isResumingGame) {
+      this.isResumingGame = false;
+    } else if (changedProperties.has('gridSizeValue')) {
       // Store current slider values
       const currentCardStyle = this.cardStyleValue;
       const currentGridSize = this.gridSizeValue;
 
       // Update grid size in game state
-      this.gameState = updateGridSize(this.gameState, currentGridSize === 0 ? 'easy' : 'hard');
+      this.engine.dispatch({ type: 'SET_GRID_SIZE', gridSize: currentGridSize === 0 ? 'easy' : 'hard' });
 
       this.restartGame();
 
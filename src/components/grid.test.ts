@@ -1,7 +1,8 @@
-import { describe, it } from 'vitest';
+import { describe, it, afterEach } from 'vitest';
 import { fixture, assert, expect } from '@open-wc/testing';
 import { html } from 'lit';
 import './grid';
+import type { Grid } from './grid';
 
 describe('Memory Grid', () => {
   it('renders with the expected structure', async () => {
@@ -38,4 +39,45 @@ describe('Memory Grid', () => {
     expect(elementNodes.length).to.equal(1);
     expect(elementNodes[0]).to.equal(mockCard);
   });
-}); 
\ No newline at end of file
+
+  describe('card sizes', () => {
+    const originalInnerHeight = window.innerHeight;
+
+    // happy-dom does no layout, so the grid is given a measured width
+    const createGrid = async (width: number, height: number, numPairs: number): Promise<Grid> => {
+      window.innerHeight = height;
+      const el = await fixture<Grid>(html`<memory-grid .numPairs=${numPairs}></memory-grid>`);
+      Object.defineProperty(el, 'clientWidth', { value: width });
+      el.updateCardSizes();
+      return el;
+    };
+
+    afterEach(() => {
+      window.innerHeight = originalInnerHeight;
+    });
+
+    it('fits a large board to the shape of the window', async () => {
+      const el = await createGrid(1600, 900, 50);
+
+      expect(el.style.getPropertyValue('--grid-columns')).to.equal('15');
+      expect(el.style.getPropertyValue('--grid-rows')).to.equal('7');
+      expect(el.hasAttribute('scrolling')).to.equal(false);
+    });
+
+    it('lays out a tall window in more rows', async () => {
+      const el = await createGrid(400, 800, 12);
+
+      expect(el.style.getPropertyValue('--grid-columns')).to.equal('4');
+      expect(el.style.getPropertyValue('--grid-rows')).to.equal('6');
+    });
+
+    it('scrolls rather than shrinking cards until they cannot be made out', async () => {
+      const el = await createGrid(400, 800, 50);
+
+      expect(el.hasAttribute('scrolling')).to.equal(true);
+      expect(el.style.getPropertyValue('--card-width')).to.equal('80px');
+      expect(el.style.getPropertyValue('--grid-columns')).to.equal('4');
+      expect(el.style.getPropertyValue('--grid-rows')).to.equal('25');
+    });
+  });
+});
@@ -1,21 +1,25 @@
 import { LitElement, html, unsafeCSS } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import gridStyles from './grid.css?inline';
-import { calculateGridLayout } from '../utils/grid-layout';
+import { calculateGridLayout, calculateScrollingGridLayout, DEFAULT_CONTAINER_ASPECT_RATIO } from '../utils/grid-layout';
+
+// Narrowest card that stays legible; at the card aspect ratio it is as tall as the min-height in grid.css
+const MIN_CARD_WIDTH = 80;
 
 @customElement('memory-grid')
 export class Grid extends LitElement {
   private resizeObserver: ResizeObserver;
   @property({ type: Number }) numPairs = 12;
+  @property({ type: Number }) groupSize = 2; // Cards per group: pairs, or more in match-three games
 
   constructor() {
     super();
     this.resizeObserver = new ResizeObserver(() => this.updateCardSizes());
   }
 
-  // Watch for numPairs changes
+  // Watch for numPairs and groupSize changes
   updated(changedProperties: Map<string, any>) {
-    if (changedProperties.has('numPairs')) {
+    if (changedProperties.has('numPairs') || changedProperties.has('groupSize')) {
       this.updateCardSizes();
     }
   }
@@ -36,8 +40,11 @@ export class Grid extends LitElement {
     // Use 95% of the viewport height for cards
     const containerHeight = window.innerHeight * 0.95;
 
-    // Always use the optimal grid layout for the number of pairs
-    const layout = calculateGridLayout(this.numPairs);
+    // Lay the cards out to fill the shape of the container; before the grid is measured, assume a widescreen window
+    const containerAspectRatio = containerWidth > 0 && containerHeight > 0
+      ? containerWidth / containerHeight
+      : DEFAULT_CONTAINER_ASPECT_RATIO;
+    let layout = calculateGridLayout(this.numPairs, this.groupSize, containerAspectRatio);
 
     const gap = 12;
     const padding = 8;
@@ -74,6 +81,15 @@ export class Grid extends LitElement {
     optimalWidth = Math.min(optimalWidth * scaleFactor, maxCardWidth);
     optimalHeight = Math.min(optimalHeight * scaleFactor, maxCardHeight);
 
+    // Cards too small to make out are kept legible, in as many columns as fit, and the page scrolls to the rest
+    const isScrolling = containerWidth > 0 && optimalWidth < MIN_CARD_WIDTH;
+    if (isScrolling) {
+      layout = calculateScrollingGridLayout(this.numPairs * this.groupSize, containerWidth - (padding * 2), MIN_CARD_WIDTH, gap);
+      optimalWidth = MIN_CARD_WIDTH;
+      optimalHeight = MIN_CARD_WIDTH / aspectRatio;
+    }
+    this.toggleAttribute('scrolling', isScrolling);
+
     // Apply the styles to the CSS variables
     this.style.setProperty('--card-width', `${optimalWidth}px`);
     this.style.setProperty('--card-height', `${optimalHeight}px`);
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fixture, html } from '@open-wc/testing';
+import { StatsDashboard } from './stats-dashboard';
+import './stats-dashboard';
+import { InMemoryStorageService } from '../services/storage-service';
+import { GameRecord, loadGameRecords, saveGameRecord } from '../utils/player-stats';
+import { ImageManager } from '../managers/image-manager';
+
+describe('StatsDashboard Component', () => {
+  let storage: InMemoryStorageService;
+  let element: StatsDashboard;
+
+  const createRecord = (overrides: Partial<GameRecord> = {}): GameRecord => ({
+    numPairs: 6,
+    cardStyle: 'robgon',
+    mode: 'classic',
+    completed: true,
+    moves: 10,
+    elapsedMs: 30_000,
+    mismatches: 4,
+    mismatchedImageIds: [1, 2, 1, 3, 4, 1, 2, 5],
+    finishedAt: 1_700_000_000_000,
+    ...overrides
+  });
+
+  const open = async () => {
+    (element.shadowRoot!.querySelector('.stats-toggle-button') as HTMLButtonElement).click();
+    await element.updateComplete;
+  };
+
+  beforeEach(async () => {
+    storage = new InMemoryStorageService();
+    element = await fixture<StatsDashboard>(html`
+      <memory-stats-dashboard .storageService=${storage}></memory-stats-dashboard>
+    `);
+  });
+
+  it('should start collapsed', () => {
+    expect(element.shadowRoot!.querySelector('.stats-content')).toBeNull();
+  });
+
+  it('should show a message before any game is finished', async () => {
+    await open();
+
+    expect(element.shadowRoot!.querySelector('.no-stats')).not.toBeNull();
+  });
+
+  it('should show stored statistics', async () => {
+    saveGameRecord(storage, createRecord());
+    saveGameRecord(storage, createRecord({ completed: false, moves: 5, mismatches: 1, mismatchedImageIds: [6, 7] }));
+    element = await fixture<StatsDashboard>(html`
+      <memory-stats-dashboard .storageService=${storage}></memory-stats-dashboard>
+    `);
+    await open();
+
+    const root = element.shadowRoot!;
+    expect(root.querySelector('.games-played')?.textContent).toBe('2');
+    expect(root.querySelector('.completion-rate')?.textContent).toBe('50%');
+    expect(root.querySelector('.mismatch-rate')?.textContent).toBe('33%');
+
+    const cells = [...root.querySelectorAll('.board-size-stats tbody td')].map(cell => cell.textContent);
+    expect(cells).toEqual(['6', '2', '1', '10', '10', '60%']);
+
+    const robgonImages = new ImageManager({ cardStyle: 'robgon' });
+    const mismatched = root.querySelectorAll('.most-mismatched li');
+    expect(mismatched[0].textContent).toContain(robgonImages.getCardImageById(1)!.title);
+    expect(mismatched[0].textContent).toContain('(3)');
+  });
+
+  it('should record games reported by the board', async () => {
+    await open();
+
+    document.dispatchEvent(new CustomEvent('game-finished', { detail: createRecord() }));
+    await element.updateComplete;
+
+    expect(loadGameRecords(storage)).toEqual([createRecord()]);
+    expect(element.shadowRoot!.querySelector('.games-played')?.textContent).toBe('1');
+  });
+
+  it('should stop recording once removed from the page', async () => {
+    element.remove();
+
+    document.dispatchEvent(new CustomEvent('game-finished', { detail: createRecord() }));
+
+    expect(loadGameRecords(storage)).toEqual([]);
+  });
+
+  it('should reload the statistics when the storage service changes', async () => {
+    const otherStorage = new InMemoryStorageService();
+    saveGameRecord(otherStorage, createRecord());
+
+    element.storageService = otherStorage;
+    await element.updateComplete;
+    await open();
+
+    expect(element.shadowRoot!.querySelector('.games-played')?.textContent).toBe('1');
+  });
+
+  it('should clear the statistics', async () => {
+    saveGameRecord(storage, createRecord());
+    element = await fixture<StatsDashboard>(html`
+      <memory-stats-dashboard .storageService=${storage}></memory-stats-dashboard>
+    `);
+    await open();
+
+    (element.shadowRoot!.querySelector('.clear-stats-button') as HTMLButtonElement).click();
+    await element.updateComplete;
+
+    expect(loadGameRecords(storage)).toEqual([]);
+    expect(element.shadowRoot!.querySelector('.no-stats')).not.toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+import { LitElement, html, unsafeCSS } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import statsDashboardStyles from './stats-dashboard.css?inline';
+import { StorageService, defaultStorageService } from '../services/storage-service';
+import { ImageManager } from '../managers/image-manager';
+import { GameState } from '../models/game-state';
+import { GameRecord, MismatchedImage, aggregatePlayerStats, loadGameRecords, saveGameRecord, clearGameRecords } from '../utils/player-stats';
+
+/**
+ * Player statistics dashboard
+ * Keeps a record of every game the board reports as finished and shows totals,
+ * per-board-size results and the images most often mismatched
+ */
+@customElement('memory-stats-dashboard')
+export class StatsDashboard extends LitElement {
+  @state() private records: GameRecord[] = [];
+  @state() private isOpen = false;
+
+  @property({ type: Object })
+  storageService: StorageService = defaultStorageService;
+
+  // Image names for each card style, since image IDs are only unique within a style
+  private imageManagers: Partial<Record<GameState['cardStyle'], ImageManager>> = {};
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.records = loadGameRecords(this.storageService);
+    // The board dispatches a composed event, so it reaches the document from inside any shadow root
+    document.addEventListener('game-finished', this.handleGameFinished);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    document.removeEventListener('game-finished', this.handleGameFinished);
+  }
+
+  // Reload the records when a different storage service is set
+  updated(changedProperties: Map<string, any>) {
+    if (changedProperties.has('storageService') && changedProperties.get('storageService') !== undefined) {
+      this.records = loadGameRecords(this.storageService);
+    }
+  }
+
+  /**
+   * Store a finished game reported by the board
+   */
+  private handleGameFinished = (event: Event) => {
+    saveGameRecord(this.storageService, (event as CustomEvent<GameRecord>).detail);
+    this.records = loadGameRecords(this.storageService);
+  };
+
+  /**
+   * Show or hide the statistics
+   */
+  toggle() {
+    this.isOpen = !this.isOpen;
+  }
+
+  /**
+   * Forget every recorded game
+   */
+  clearStats() {
+    clearGameRecords(this.storageService);
+    this.records = [];
+  }
+
+  private getImageName({ cardStyle, imageId }: MismatchedImage): string {
+    const manager = this.imageManagers[cardStyle] ??= new ImageManager({ cardStyle });
+    return manager.getCardImageById(imageId)?.title ?? `Image ${imageId}`;
+  }
+
+  private formatPercent(rate: number | null): string {
+    return rate === null ? '–' : `${Math.round(rate * 100)}%`;
+  }
+
+  private formatMoves(moves: number | null): string {
+    return moves === null ? '–' : `${Math.round(moves * 10) / 10}`;
+  }
+
+  private renderStats() {
+    if (this.records.length === 0) {
+      return html`<div class="stats-content"><p class="no-stats">No finished games yet.</p></div>`;
+    }
+
+    const stats = aggregatePlayerStats(this.records);
+
+    return html`
+      <div class="stats-content">
+        <div class="stats-totals">
+          <p>Games played: <span class="games-played">${stats.gamesPlayed}</span></p>
+          <p>Completion rate: <span class="completion-rate">${this.formatPercent(stats.completionRate)}</span></p>
+          <p>Mismatch rate: <span class="mismatch-rate">${this.formatPercent(stats.mismatchRate)}</span></p>
+        </div>
+        <table class="board-size-stats">
+          <thead>
+            <tr><th>Pairs</th><th>Played</th><th>Completed</th><th>Avg moves</th><th>Best</th><th>Efficiency</th></tr>
+          </thead>
+          <tbody>
+            ${stats.boardSizes.map(size => html`
+              <tr>
+                <td>${size.numPairs}</td>
+                <td>${size.gamesPlayed}</td>
+                <td>${size.gamesCompleted}</td>
+                <td>${this.formatMoves(size.averageMoves)}</td>
+                <td>${this.formatMoves(size.bestMoves)}</td>
+                <td>${this.formatPercent(size.efficiency)}</td>
+              </tr>
+            `)}
+          </tbody>
+        </table>
+        ${stats.mostMismatchedImages.length > 0 ? html`
+          <h3>Most mismatched</h3>
+          <ol class="most-mismatched">
+            ${stats.mostMismatchedImages.map(image => html`
+              <li>${this.getImageName(image)} (${image.count})</li>
+            `)}
+          </ol>
+        ` : ''}
+        <button class="clear-stats-button" @click=${this.clearStats}>Clear statistics</button>
+      </div>
+    `;
+  }
+
+  render() {
+    return html`
+      <section class="stats-dashboard">
+        <button class="stats-toggle-button" @click=${this.toggle} aria-expanded=${this.isOpen}>
+          ${this.isOpen ? 'Hide statistics' : 'Statistics'}
+        </button>
+        ${this.isOpen ? this.renderStats() : ''}
+      </section>
+    `;
+  }
+
+  static styles = unsafeCSS(statsDashboardStyles);
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'memory-stats-dashboard': StatsDashboard;
+  }
+}
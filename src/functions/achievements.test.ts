@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { ACHIEVEMENTS, Achievement, AchievementContext, findNewAchievements } from './achievements';
+import { Card, GameState, GameStatus } from '../models/game-state';
+import { GameRecord } from '../utils/player-stats';
+import { MoveEvent, createMoveLog } from './move-log';
+import { enablePractice } from './practice';
+
+describe('Achievement Functions', () => {
+    // Helper function to create a test game state
+    const createTestGameState = (): GameState => {
+        const cards: Card[] = [
+            { id: 1, imageId: 1, isRevealed: true, isMatched: true },
+            { id: 2, imageId: 1, isRevealed: true, isMatched: true },
+            { id: 3, imageId: 2, isRevealed: true, isMatched: true },
+            { id: 4, imageId: 2, isRevealed: true, isMatched: true },
+        ];
+
+        return {
+            cards,
+            status: GameStatus.VICTORY_MUSIC,
+            moves: 2,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'robgon',
+            gridSize: 'easy'
+        };
+    };
+
+    const createRecord = (overrides: Partial<GameRecord> = {}): GameRecord => ({
+        numPairs: 2,
+        cardStyle: 'robgon',
+        mode: 'classic',
+        completed: true,
+        moves: 2,
+        elapsedMs: 10_000,
+        mismatches: 0,
+        mismatchedImageIds: [],
+        finishedAt: 1_700_000_000_000,
+        ...overrides
+    });
+
+    const createContext = (overrides: Partial<AchievementContext> = {}): AchievementContext => {
+        const state = createTestGameState();
+        return {
+            state,
+            log: createMoveLog(state),
+            finishedGame: null,
+            previousGames: [],
+            ...overrides
+        };
+    };
+
+    const matches = (count: number): MoveEvent[] =>
+        Array.from({ length: count }, (_, i) => ({ type: 'match', at: i, cardIds: [i * 2 + 1, i * 2 + 2] }));
+
+    const isUnlocked = (id: string, context: AchievementContext): boolean =>
+        ACHIEVEMENTS.find(achievement => achievement.id === id)!.isUnlocked(context);
+
+    it('should have unique IDs', () => {
+        const ids = ACHIEVEMENTS.map(achievement => achievement.id);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    describe('first_win', () => {
+        it('should unlock when a game is won', () => {
+            expect(isUnlocked('first_win', createContext({ finishedGame: createRecord() }))).toBe(true);
+        });
+
+        it('should not unlock for lost or unfinished games', () => {
+            expect(isUnlocked('first_win', createContext({ finishedGame: createRecord({ completed: false }) }))).toBe(false);
+            expect(isUnlocked('first_win', createContext())).toBe(false);
+        });
+    });
+
+    describe('perfect_game', () => {
+        it('should unlock with one move per pair', () => {
+            expect(isUnlocked('perfect_game', createContext({ finishedGame: createRecord() }))).toBe(true);
+        });
+
+        it('should not unlock with extra moves', () => {
+            expect(isUnlocked('perfect_game', createContext({ finishedGame: createRecord({ moves: 3 }) }))).toBe(false);
+        });
+
+        it('should not unlock after an undo', () => {
+            const state = { ...enablePractice(createTestGameState()), practice: { undos: 1 } };
+            expect(isUnlocked('perfect_game', createContext({ state, finishedGame: createRecord() }))).toBe(false);
+        });
+    });
+
+    describe('hard_mode_efficient', () => {
+        it('should unlock for a 12-pair game in fewer than 20 moves', () => {
+            const finishedGame = createRecord({ numPairs: 12, moves: 19 });
+            expect(isUnlocked('hard_mode_efficient', createContext({ finishedGame }))).toBe(true);
+        });
+
+        it('should not unlock at 20 moves or on smaller boards', () => {
+            expect(isUnlocked('hard_mode_efficient', createContext({ finishedGame: createRecord({ numPairs: 12, moves: 20 }) }))).toBe(false);
+            expect(isUnlocked('hard_mode_efficient', createContext({ finishedGame: createRecord({ numPairs: 5, moves: 5 }) }))).toBe(false);
+        });
+    });
+
+    describe('five_in_a_row', () => {
+        it('should unlock after five matches in a row during play', () => {
+            const state = createTestGameState();
+            const log = { ...createMoveLog(state), events: matches(5) };
+            expect(isUnlocked('five_in_a_row', createContext({ log }))).toBe(true);
+        });
+
+        it('should not unlock when a mismatch breaks the streak', () => {
+            const state = createTestGameState();
+            const [first, second, ...rest] = matches(5);
+            const log = {
+                ...createMoveLog(state),
+                events: [first, second, { type: 'mismatch', at: 2, cardIds: [11, 12] } as MoveEvent, ...rest]
+            };
+            expect(isUnlocked('five_in_a_row', createContext({ log }))).toBe(false);
+        });
+    });
+
+    describe('both_decks', () => {
+        it('should unlock once a game is won with each deck of paintings', () => {
+            const context = createContext({
+                finishedGame: createRecord({ cardStyle: 'impressionist' }),
+                previousGames: [createRecord({ cardStyle: 'robgon' })]
+            });
+            expect(isUnlocked('both_decks', context)).toBe(true);
+        });
+
+        it('should not count lost games', () => {
+            const context = createContext({
+                finishedGame: createRecord({ cardStyle: 'impressionist' }),
+                previousGames: [createRecord({ cardStyle: 'robgon', completed: false })]
+            });
+            expect(isUnlocked('both_decks', context)).toBe(false);
+        });
+
+        it('should not count decks other than the paintings', () => {
+            const context = createContext({
+                finishedGame: createRecord({ cardStyle: 'impressionist' }),
+                previousGames: [createRecord({ cardStyle: 'shapes' }), createRecord({ cardStyle: 'custom' })]
+            });
+            expect(isUnlocked('both_decks', context)).toBe(false);
+        });
+    });
+
+    describe('findNewAchievements', () => {
+        const always: Achievement = { id: 'always', name: 'Always', description: '', isUnlocked: () => true };
+        const never: Achievement = { id: 'never', name: 'Never', description: '', isUnlocked: () => false };
+
+        it('should return achievements earned now', () => {
+            expect(findNewAchievements([never, always], createContext(), new Set())).toEqual([always]);
+        });
+
+        it('should skip achievements already unlocked', () => {
+            expect(findNewAchievements([always], createContext(), new Set(['always']))).toEqual([]);
+        });
+    });
+});
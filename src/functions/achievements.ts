@@ -0,0 +1,103 @@
+/**
+ * Achievement Functions
+ *
+ * Achievements are plain data: an ID, a name, a description and a pure
+ * predicate over the game being played and the games finished before it.
+ * All achievements are checked when a game ends; those marked whilePlaying
+ * are also checked after every move. New achievements only need a new entry
+ * in ACHIEVEMENTS.
+ */
+
+import { GameState } from '../models/game-state';
+import { GameRecord } from '../utils/player-stats';
+import { MoveLog } from './move-log';
+import { collectScoreStats } from './scoring';
+import { PAINTING_DECK_IDS } from './deck-manifest';
+
+// Everything an achievement can be judged on
+export interface AchievementContext {
+    state: GameState; // Current game state
+    log: MoveLog; // Moves of the current game
+    finishedGame: GameRecord | null; // Set once the current game is won, lost or abandoned
+    previousGames: GameRecord[]; // Games finished before the current one
+}
+
+export interface Achievement {
+    id: string; // Stable ID used to store the unlock
+    name: string;
+    description: string;
+    isUnlocked: (context: AchievementContext) => boolean;
+    whilePlaying?: boolean; // Also checked after every move; only for achievements judged on the current game alone
+}
+
+// Pair count of the hard board
+export const HARD_MODE_PAIRS = 12;
+
+// Most moves allowed for the efficient hard mode achievement
+export const HARD_MODE_MOVE_LIMIT = 20;
+
+// Matches in a row needed for the streak achievement
+export const STREAK_LENGTH = 5;
+
+const isWon = (game: GameRecord | null): game is GameRecord => game?.completed === true;
+
+const getUndos = (state: GameState): number => state.practice?.undos ?? 0;
+
+/**
+ * Built-in achievements, in gallery order
+ */
+export const ACHIEVEMENTS: Achievement[] = [
+    {
+        id: 'first_win',
+        name: 'First Win',
+        description: 'Finish a game.',
+        isUnlocked: ({ finishedGame }) => isWon(finishedGame)
+    },
+    {
+        id: 'perfect_game',
+        name: 'Perfect Memory',
+        description: 'Finish a game with one move per pair and no undos.',
+        isUnlocked: ({ state, finishedGame }) =>
+            isWon(finishedGame) && finishedGame.moves === finishedGame.numPairs && getUndos(state) === 0
+    },
+    {
+        id: 'hard_mode_efficient',
+        name: 'Sharp Eye',
+        description: `Finish a ${HARD_MODE_PAIRS}-pair game in fewer than ${HARD_MODE_MOVE_LIMIT} moves.`,
+        isUnlocked: ({ finishedGame }) =>
+            isWon(finishedGame) && finishedGame.numPairs === HARD_MODE_PAIRS && finishedGame.moves < HARD_MODE_MOVE_LIMIT
+    },
+    {
+        id: 'five_in_a_row',
+        name: 'On a Roll',
+        description: `Make ${STREAK_LENGTH} matches in a row.`,
+        isUnlocked: ({ log }) => collectScoreStats(log).longestStreak >= STREAK_LENGTH,
+        whilePlaying: true
+    },
+    {
+        id: 'both_decks',
+        name: 'Art Collector',
+        description: 'Finish a game with each deck of paintings.',
+        isUnlocked: ({ finishedGame, previousGames }) => {
+            const wonStyles = new Set([...previousGames, finishedGame]
+                .filter(isWon)
+                .map(game => game.cardStyle));
+            return PAINTING_DECK_IDS.every(deckId => wonStyles.has(deckId));
+        }
+    }
+];
+
+/**
+ * Finds achievements that have just been earned
+ *
+ * @param achievements Achievements to check
+ * @param context Current game and game history
+ * @param unlockedIds IDs of achievements already unlocked
+ * @returns Achievements earned now that were not unlocked before, in the given order
+ */
+export const findNewAchievements = (
+    achievements: Achievement[],
+    context: AchievementContext,
+    unlockedIds: ReadonlySet<string>
+): Achievement[] =>
+    achievements.filter(achievement => !unlockedIds.has(achievement.id) && achievement.isUnlocked(context));
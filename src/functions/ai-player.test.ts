@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import {
+    AI_MEMORY_PROFILES,
+    createAiMemory,
+    isAiDifficulty,
+    observeCards,
+    forgetCards,
+    forgetMatchedCards,
+    chooseFirstCard,
+    chooseSecondCard
+} from './ai-player';
+import { Card, GameState, GameStatus } from '../models/game-state';
+
+describe('Computer Opponent Functions', () => {
+    // Helper function to create a test game state
+    const createTestGameState = (): GameState => {
+        const cards: Card[] = [
+            { id: 1, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 2, imageId: 2, isRevealed: false, isMatched: false },
+            { id: 3, imageId: 3, isRevealed: false, isMatched: false },
+            { id: 4, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 5, imageId: 2, isRevealed: false, isMatched: false },
+            { id: 6, imageId: 3, isRevealed: false, isMatched: false },
+        ];
+
+        return {
+            cards,
+            status: GameStatus.IN_PROGRESS,
+            moves: 0,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'impressionist',
+            gridSize: 'easy'
+        };
+    };
+
+    // Random sources that always return the same value
+    const always = (value: number) => () => value;
+
+    describe('AI_MEMORY_PROFILES', () => {
+        it('should get stronger from easy to perfect', () => {
+            const { easy, medium, perfect } = AI_MEMORY_PROFILES;
+            expect(easy.rememberChance).toBeLessThan(medium.rememberChance);
+            expect(medium.rememberChance).toBeLessThan(perfect.rememberChance);
+            expect(easy.forgetChance).toBeGreaterThan(medium.forgetChance);
+            expect(perfect).toEqual({ rememberChance: 1, forgetChance: 0 });
+        });
+    });
+
+    describe('isAiDifficulty', () => {
+        it('should accept only known difficulty levels', () => {
+            expect(isAiDifficulty('easy')).toBe(true);
+            expect(isAiDifficulty('perfect')).toBe(true);
+            expect(isAiDifficulty('impossible')).toBe(false);
+            expect(isAiDifficulty(null)).toBe(false);
+        });
+
+        it('should reject names inherited from Object', () => {
+            expect(isAiDifficulty('toString')).toBe(false);
+            expect(isAiDifficulty('constructor')).toBe(false);
+        });
+    });
+
+    describe('observeCards', () => {
+        const cards = createTestGameState().cards.slice(0, 2);
+
+        it('should remember cards when the roll is under the remember chance', () => {
+            const memory = observeCards(createAiMemory(), cards, AI_MEMORY_PROFILES.medium, always(0.5));
+            expect(memory.knownCards).toEqual({ 1: 1, 2: 2 });
+        });
+
+        it('should not remember cards when the roll is over the remember chance', () => {
+            const memory = observeCards(createAiMemory(), cards, AI_MEMORY_PROFILES.easy, always(0.5));
+            expect(memory.knownCards).toEqual({});
+        });
+
+        it('should always remember with perfect memory', () => {
+            const memory = observeCards(createAiMemory(), cards, AI_MEMORY_PROFILES.perfect, always(0.999));
+            expect(memory.knownCards).toEqual({ 1: 1, 2: 2 });
+        });
+
+        it('should not mutate the previous memory', () => {
+            const memory = createAiMemory();
+            observeCards(memory, cards, AI_MEMORY_PROFILES.perfect);
+            expect(memory.knownCards).toEqual({});
+        });
+    });
+
+    describe('forgetCards', () => {
+        const memory = { knownCards: { 1: 1, 2: 2 } };
+
+        it('should forget cards when the roll is under the forget chance', () => {
+            expect(forgetCards(memory, AI_MEMORY_PROFILES.easy, always(0.1)).knownCards).toEqual({});
+        });
+
+        it('should keep cards when the roll is over the forget chance', () => {
+            expect(forgetCards(memory, AI_MEMORY_PROFILES.easy, always(0.9)).knownCards).toEqual(memory.knownCards);
+        });
+
+        it('should never forget with perfect memory', () => {
+            expect(forgetCards(memory, AI_MEMORY_PROFILES.perfect, always(0)).knownCards).toEqual(memory.knownCards);
+        });
+    });
+
+    describe('forgetMatchedCards', () => {
+        it('should drop matched cards', () => {
+            const state = createTestGameState();
+            const matchedState = {
+                ...state,
+                cards: state.cards.map(card => card.imageId === 1 ? { ...card, isMatched: true } : card)
+            };
+
+            const memory = forgetMatchedCards({ knownCards: { 1: 1, 2: 2, 4: 1 } }, matchedState);
+
+            expect(memory.knownCards).toEqual({ 2: 2 });
+        });
+    });
+
+    describe('chooseFirstCard', () => {
+        it('should pick half of a remembered pair', () => {
+            const memory = { knownCards: { 2: 2, 3: 3, 5: 2 } };
+            expect([2, 5]).toContain(chooseFirstCard(createTestGameState(), memory, always(0)));
+        });
+
+        it('should start a group it remembers in full in match-three games', () => {
+            const state: GameState = {
+                ...createTestGameState(),
+                groupSize: 3,
+                cards: [1, 2, 1, 2, 1, 2].map((imageId, index) => ({ id: index + 1, imageId, isRevealed: false, isMatched: false }))
+            };
+            const memory = { knownCards: { 1: 1, 3: 1, 2: 2, 4: 2, 6: 2 } };
+
+            expect([2, 4, 6]).toContain(chooseFirstCard(state, memory, always(0)));
+            expect([1, 3]).toContain(chooseFirstCard(state, { knownCards: { 1: 1, 3: 1, 2: 2 } }, always(0)));
+        });
+
+        it('should pick an unseen card when no pair is remembered', () => {
+            const memory = { knownCards: { 1: 1, 2: 2 } };
+            expect(chooseFirstCard(createTestGameState(), memory, always(0))).toBe(3);
+            expect(chooseFirstCard(createTestGameState(), memory, always(0.99))).toBe(6);
+        });
+
+        it('should fall back to a remembered card when every card has been seen', () => {
+            const state = createTestGameState();
+            const memory = { knownCards: { 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6 } };
+            expect(chooseFirstCard(state, memory, always(0))).toBe(1);
+        });
+
+        it('should ignore matched and revealed cards', () => {
+            const state = createTestGameState();
+            const playedState = {
+                ...state,
+                cards: state.cards.map(card => card.id <= 5 ? { ...card, isMatched: card.id !== 3, isRevealed: true } : card)
+            };
+            expect(chooseFirstCard(playedState, createAiMemory(), always(0))).toBe(6);
+        });
+
+        it('should return null when nothing can be flipped', () => {
+            const state = createTestGameState();
+            const finishedState = { ...state, cards: state.cards.map(card => ({ ...card, isMatched: true })) };
+            expect(chooseFirstCard(finishedState, createAiMemory())).toBeNull();
+        });
+    });
+
+    describe('chooseSecondCard', () => {
+        const revealFirst = (state: GameState, cardId: number): GameState => ({
+            ...state,
+            selectedCardIds: [cardId],
+            cards: state.cards.map(card => card.id === cardId ? { ...card, isRevealed: true } : card)
+        });
+
+        it('should pick the remembered partner of the first card', () => {
+            const state = revealFirst(createTestGameState(), 1);
+            expect(chooseSecondCard(state, { knownCards: { 4: 1 } }, 1, always(0))).toBe(4);
+        });
+
+        it('should pick an unseen card when the partner is not remembered', () => {
+            const state = revealFirst(createTestGameState(), 1);
+            const memory = { knownCards: { 2: 2, 3: 3 } };
+            expect(chooseSecondCard(state, memory, 1, always(0))).toBe(4);
+        });
+
+        it('should never pick the first card again', () => {
+            const state = revealFirst(createTestGameState(), 6);
+            const memory = { knownCards: { 1: 1, 2: 2, 3: 3, 4: 1, 5: 2 } };
+            expect(chooseSecondCard(state, memory, 6, always(0))).toBe(3);
+            expect(chooseSecondCard(state, { knownCards: {} }, 6, always(0.99))).toBe(5);
+        });
+
+        it('should pair a painting with a remembered text card in non-identical pairs', () => {
+            const pairedState: GameState = {
+                ...createTestGameState(),
+                pairing: 'year',
+                cards: createTestGameState().cards.map(card => ({
+                    ...card,
+                    face: card.id <= 3 ? 'image' : 'year',
+                    pairKey: card.imageId === 3 ? '1884' : `188${card.imageId}`
+                }))
+            };
+            const state = revealFirst(pairedState, 1);
+
+            expect(chooseSecondCard(state, { knownCards: { 4: 1, 5: 2 } }, 1, always(0))).toBe(4);
+            // A painting is never paired with another painting
+            expect(chooseSecondCard(revealFirst(pairedState, 2), { knownCards: { 3: 3, 5: 2 } }, 2, always(0))).toBe(5);
+        });
+    });
+});
@@ -0,0 +1,181 @@
+/**
+ * Computer Opponent Functions
+ * 
+ * Pure functions for a computer player that watches revealed cards, remembers
+ * them imperfectly and picks its flips from what it remembers.
+ * Randomness is injected so every decision can be reproduced in tests.
+ */
+
+import { AiDifficulty, Card, GameState, getGroupSize } from '../models/game-state';
+import { RandomSource } from '../utils/random';
+import { getMatchRule } from './match-checking';
+
+// How well the computer remembers cards
+export interface AiMemoryProfile {
+    rememberChance: number; // Probability of remembering a card when it is revealed
+    forgetChance: number; // Probability of forgetting each remembered card at the start of a turn
+}
+
+// Difficulty levels, as accepted from the URL and saved games
+export const AI_DIFFICULTIES: AiDifficulty[] = ['easy', 'medium', 'perfect'];
+
+// Memory profiles for each difficulty level
+export const AI_MEMORY_PROFILES: Record<AiDifficulty, AiMemoryProfile> = {
+    easy: { rememberChance: 0.4, forgetChance: 0.25 },
+    medium: { rememberChance: 0.75, forgetChance: 0.05 },
+    perfect: { rememberChance: 1, forgetChance: 0 }
+};
+
+// What the computer remembers: card id to image id
+export interface AiMemory {
+    knownCards: Record<number, number>;
+}
+
+/**
+ * Creates an empty memory
+ * @returns Memory with no known cards
+ */
+export const createAiMemory = (): AiMemory => ({ knownCards: {} });
+
+/**
+ * Checks if a value names a difficulty level
+ * @param value Value to check
+ * @returns True for 'easy', 'medium' and 'perfect'
+ */
+export const isAiDifficulty = (value: unknown): value is AiDifficulty =>
+    typeof value === 'string' && (AI_DIFFICULTIES as string[]).includes(value);
+
+/**
+ * Lets the computer see revealed cards, remembering each with the profile's probability
+ * 
+ * @param memory Current memory
+ * @param cards Cards that were just revealed
+ * @param profile Memory profile
+ * @param random Random number source
+ * @returns New memory
+ */
+export const observeCards = (
+    memory: AiMemory,
+    cards: Card[],
+    profile: AiMemoryProfile,
+    random: RandomSource = Math.random
+): AiMemory => {
+    const remembered = cards.filter(() => random() < profile.rememberChance);
+    if (remembered.length === 0) {
+        return memory;
+    }
+
+    return {
+        knownCards: {
+            ...memory.knownCards,
+            ...Object.fromEntries(remembered.map(card => [card.id, card.imageId]))
+        }
+    };
+};
+
+/**
+ * Forgets each remembered card with the profile's probability
+ * 
+ * @param memory Current memory
+ * @param profile Memory profile
+ * @param random Random number source
+ * @returns New memory
+ */
+export const forgetCards = (
+    memory: AiMemory,
+    profile: AiMemoryProfile,
+    random: RandomSource = Math.random
+): AiMemory => ({
+    knownCards: Object.fromEntries(
+        Object.entries(memory.knownCards).filter(() => random() >= profile.forgetChance)
+    )
+});
+
+/**
+ * Drops matched cards from memory since they can no longer be picked
+ * 
+ * @param memory Current memory
+ * @param state Current game state
+ * @returns New memory with only unmatched cards
+ */
+export const forgetMatchedCards = (memory: AiMemory, state: GameState): AiMemory => {
+    const matchedIds = new Set(state.cards.filter(card => card.isMatched).map(card => card.id));
+    return {
+        knownCards: Object.fromEntries(
+            Object.entries(memory.knownCards).filter(([cardId]) => !matchedIds.has(Number(cardId)))
+        )
+    };
+};
+
+// Cards the computer is allowed to flip
+const getSelectableCards = (state: GameState): Card[] =>
+    state.cards.filter(card => !card.isMatched && !card.isRevealed);
+
+// A card as the computer remembers it
+const recallCard = (memory: AiMemory, card: Card): Card => ({ ...card, imageId: memory.knownCards[card.id] });
+
+const pickRandom = <T>(items: T[], random: RandomSource): T | undefined =>
+    items.length === 0 ? undefined : items[Math.min(items.length - 1, Math.floor(random() * items.length))];
+
+/**
+ * Picks the first card of a turn: a card of a group it remembers in full if
+ * there is one, then half of a remembered pair, otherwise a card it has not seen
+ * 
+ * @param state Current game state
+ * @param memory Current memory
+ * @param random Random number source
+ * @returns ID of the card to flip, or null if nothing can be flipped
+ */
+export const chooseFirstCard = (state: GameState, memory: AiMemory, random: RandomSource = Math.random): number | null => {
+    const selectable = getSelectableCards(state);
+    const known = selectable.filter(card => card.id in memory.knownCards).map(card => recallCard(memory, card));
+    const matchRule = getMatchRule(state);
+
+    // Count the remembered cards of each card's group, itself included
+    const countKnownInGroup = (card: Card): number =>
+        1 + known.filter(other => other.id !== card.id && matchRule(card, other)).length;
+
+    // A group remembered in full is found this turn; in match-three (or larger) games
+    // two remembered cards of a group still beat a guess
+    const knownGroup = known.find(card => countKnownInGroup(card) >= getGroupSize(state)) ??
+        known.find(card => countKnownInGroup(card) >= 2);
+    if (knownGroup) {
+        return knownGroup.id;
+    }
+
+    const unknown = selectable.filter(card => !(card.id in memory.knownCards));
+    return (pickRandom(unknown, random) ?? pickRandom(selectable, random))?.id ?? null;
+};
+
+/**
+ * Picks the second card of a turn, or any later card of a larger group: a
+ * remembered partner of the first card if there is one, otherwise a card it
+ * has not seen
+ * 
+ * @param state Current game state with the first card revealed
+ * @param memory Current memory
+ * @param firstCardId ID of the card flipped first
+ * @param random Random number source
+ * @returns ID of the card to flip, or null if nothing can be flipped
+ */
+export const chooseSecondCard = (
+    state: GameState,
+    memory: AiMemory,
+    firstCardId: number,
+    random: RandomSource = Math.random
+): number | null => {
+    const firstCard = state.cards.find(card => card.id === firstCardId);
+    const selectable = getSelectableCards(state).filter(card => card.id !== firstCardId);
+
+    // The first card is face up, so its image is known for certain
+    const matchRule = getMatchRule(state);
+    const partner = firstCard && selectable.find(card =>
+        card.id in memory.knownCards && matchRule(firstCard, recallCard(memory, card)));
+    if (partner) {
+        return partner.id;
+    }
+
+    // Avoid cards remembered as something else
+    const unknown = selectable.filter(card => !(card.id in memory.knownCards));
+    return (pickRandom(unknown, random) ?? pickRandom(selectable, random))?.id ?? null;
+};
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { parseArtworkFilename, formatArtworkCredit } from './artwork';
+
+describe('Artwork Functions', () => {
+    describe('parseArtworkFilename', () => {
+        it('should read the title, artist and year', () => {
+            expect(parseArtworkFilename('/cards/The Starry Night, Vincent van Gogh, 1889.jpg')).toEqual({
+                title: 'The Starry Night',
+                artist: 'Vincent van Gogh',
+                year: '1889'
+            });
+        });
+
+        it('should keep commas and every word of the title', () => {
+            expect(parseArtworkFilename('Boulevard Montmartre, Spring, Camille Pissarro, 1897.jpg')).toEqual({
+                title: 'Boulevard Montmartre, Spring',
+                artist: 'Camille Pissarro',
+                year: '1897'
+            });
+            expect(parseArtworkFilename('A Sunday Afternoon on the Island of La Grande Jatte, Georges Seurat, 1884.jpg').title)
+                .toBe('A Sunday Afternoon on the Island of La Grande Jatte');
+        });
+
+        it('should accept approximate years', () => {
+            expect(parseArtworkFilename('Mont Sainte-Victoire, Paul Cézanne, c. 1890s.jpg').year).toBe('c. 1890s');
+        });
+
+        it('should read a title with only an artist or only a year', () => {
+            expect(parseArtworkFilename('Mona Lisa, Leonardo da Vinci.jpg')).toEqual({ title: 'Mona Lisa', artist: 'Leonardo da Vinci' });
+            expect(parseArtworkFilename('Beach Day, 2024.png')).toEqual({ title: 'Beach Day', year: '2024' });
+        });
+
+        it('should use the whole name when there is nothing else', () => {
+            expect(parseArtworkFilename('rob_cards/pop pug.jpg')).toEqual({ title: 'pop pug' });
+            expect(parseArtworkFilename('blue lady 1.jpg')).toEqual({ title: 'blue lady 1' });
+        });
+    });
+
+    describe('formatArtworkCredit', () => {
+        it('should join the artist and year', () => {
+            expect(formatArtworkCredit({ title: 'The Starry Night', artist: 'Vincent van Gogh', year: '1889' })).toBe('Vincent van Gogh, 1889');
+            expect(formatArtworkCredit({ title: 'Beach Day', year: '2024' })).toBe('2024');
+            expect(formatArtworkCredit({ title: 'pop pug' })).toBe('');
+        });
+    });
+});
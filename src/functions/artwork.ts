@@ -0,0 +1,53 @@
+/**
+ * Artwork Functions
+ *
+ * Pure functions for the details of the artwork on a card. Image files are
+ * named "Title, Artist, Year" (e.g. "The Starry Night, Vincent van Gogh,
+ * 1889.jpg"), so the details of a photo without a manifest are read from its
+ * filename.
+ */
+
+export interface ArtworkDetails {
+    title: string;
+    artist?: string;
+    year?: string; // As written, e.g. "1889" or "c. 1890s"
+}
+
+// A year part contains digits; an artist part does not
+const YEAR_PATTERN = /\d/;
+
+/**
+ * Reads the artwork details from an image filename
+ *
+ * @param path Path or filename of the image
+ * @returns Title, with the artist and year when the filename has them
+ */
+export const parseArtworkFilename = (path: string): ArtworkDetails => {
+    const filename = path.split('/').pop() || '';
+    const parts = filename
+        .replace(/\.[^.]+$/, '')
+        .split(',')
+        .map(part => part.trim())
+        .filter(part => part.length > 0);
+
+    if (parts.length === 0) return { title: filename };
+
+    // Titles can contain commas ("Boulevard Montmartre, Spring"), so the artist and year are read from the end
+    const year = parts.length > 1 && YEAR_PATTERN.test(parts[parts.length - 1]) ? parts.pop() : undefined;
+    const artist = parts.length > 1 ? parts.pop() : undefined;
+
+    return {
+        title: parts.join(', '),
+        ...(artist !== undefined ? { artist } : {}),
+        ...(year !== undefined ? { year } : {})
+    };
+};
+
+/**
+ * Describes who made an artwork and when, for a line under its title
+ *
+ * @param details Artwork details
+ * @returns E.g. "Vincent van Gogh, 1889", or an empty string without an artist or year
+ */
+export const formatArtworkCredit = (details: ArtworkDetails): string =>
+    [details.artist, details.year].filter(part => part !== undefined && part !== '').join(', ');
@@ -0,0 +1,109 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+    CALIBRATION_PAIR_COUNTS,
+    DEFAULT_CALIBRATION_RUNS,
+    CalibrationEntry,
+    runCalibration,
+    derivePars,
+    parseCalibrationArgs,
+    formatCalibrationReport,
+    formatParTable
+} from './calibration';
+import { SIMULATION_STRATEGIES, SIMULATION_VARIANTS } from './simulation';
+import { PAR_MOVES } from './par-table';
+
+describe('Calibration Functions', () => {
+    const entries = runCalibration({
+        pairCounts: [3, 6],
+        strategies: [SIMULATION_STRATEGIES.human, SIMULATION_STRATEGIES.perfect],
+        variants: [SIMULATION_VARIANTS.standard, SIMULATION_VARIANTS.lives],
+        runs: 50,
+        seed: 'calibration'
+    });
+
+    describe('runCalibration', () => {
+        it('should estimate every board size, variant and strategy', () => {
+            expect(entries.map(entry => `${entry.numPairs} ${entry.variant} ${entry.strategy}`)).toEqual([
+                '3 standard human', '3 standard perfect', '3 lives human', '3 lives perfect',
+                '6 standard human', '6 standard perfect', '6 lives human', '6 lives perfect'
+            ]);
+        });
+
+        it('should estimate moves, time and how often the game is won', () => {
+            const standard = entries.filter(entry => entry.variant === 'standard');
+            standard.forEach(entry => {
+                expect(entry.completionRate).toBe(1);
+                expect(entry.meanMoves).toBeGreaterThanOrEqual(entry.numPairs);
+                expect(entry.meanTimeMs).toBeGreaterThan(0);
+            });
+
+            // Mismatches cost lives, so a forgetful player loses some games
+            const livesHuman = entries.find(entry => entry.numPairs === 6 && entry.variant === 'lives' && entry.strategy === 'human')!;
+            expect(livesHuman.completionRate).toBeLessThan(1);
+        });
+    });
+
+    describe('derivePars', () => {
+        it('should take par from the human model under standard rules', () => {
+            const pars = derivePars(entries);
+            const human = (numPairs: number) =>
+                entries.find(entry => entry.numPairs === numPairs && entry.variant === 'standard' && entry.strategy === 'human')!;
+
+            expect(pars).toEqual({ 3: human(3).medianMoves, 6: human(6).medianMoves });
+        });
+    });
+
+    describe('parseCalibrationArgs', () => {
+        it('should default to every board size, strategy and variant', () => {
+            expect(parseCalibrationArgs([])).toEqual({
+                options: {
+                    pairCounts: CALIBRATION_PAIR_COUNTS,
+                    strategies: Object.values(SIMULATION_STRATEGIES),
+                    variants: Object.values(SIMULATION_VARIANTS),
+                    runs: DEFAULT_CALIBRATION_RUNS,
+                    seed: 'simulation'
+                },
+                write: false
+            });
+        });
+
+        it('should read the runs, seed and write flag', () => {
+            const parsed = parseCalibrationArgs(['--write', '--runs', '10', '--seed', 'abc']);
+
+            expect(parsed).toMatchObject({ options: { runs: 10, seed: 'abc' }, write: true });
+        });
+
+        it('should explain invalid arguments', () => {
+            expect(parseCalibrationArgs(['--runs', '-1'])).toContain('--runs');
+            expect(parseCalibrationArgs(['--seed'])).toBe('Missing value for --seed');
+            expect(parseCalibrationArgs(['--pairs', '4'])).toBe('Unknown option --pairs');
+        });
+    });
+
+    describe('formatCalibrationReport', () => {
+        it('should print one row per entry under a header', () => {
+            const entry: CalibrationEntry = {
+                numPairs: 4, variant: 'standard', strategy: 'human',
+                completionRate: 0.5, medianMoves: 7, meanMoves: 6.75, meanTimeMs: 23_400
+            };
+            const [header, row] = formatCalibrationReport([entry]).split('\n');
+
+            expect(header).toContain('Median moves');
+            expect(row.split(/\s+/)).toEqual(['4', 'standard', 'human', '7', '6.8', '23s', '50%']);
+        });
+    });
+
+    describe('formatParTable', () => {
+        it('should generate the par table module', () => {
+            const source = formatParTable({ 2: 3, 3: 5 }, 100);
+
+            expect(source).toContain('npm run calibrate -- --write');
+            expect(source).toContain('export const PAR_MOVES: Record<number, number> = {\n    2: 3,\n    3: 5\n};');
+        });
+
+        it('should match the committed par table', () => {
+            expect(Object.keys(PAR_MOVES).map(Number)).toEqual(CALIBRATION_PAIR_COUNTS);
+        });
+    });
+});
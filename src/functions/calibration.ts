@@ -0,0 +1,166 @@
+/**
+ * Difficulty Calibration Functions
+ *
+ * Runs the simulator over every board size, rule variant and memory model to
+ * estimate how many moves and how long a game takes. The par of each board
+ * size is generated from these estimates into par-table.ts.
+ */
+
+import {
+    SimulationStrategy,
+    SimulationVariant,
+    SIMULATION_STRATEGIES,
+    SIMULATION_VARIANTS,
+    DEFAULT_SIMULATION_SEED,
+    runSimulations
+} from './simulation';
+import { MIN_PAIRS, MAX_PAIRS } from '../models/game-state';
+
+// Board sizes the game can deal, so that every board has a par
+export const CALIBRATION_PAIR_COUNTS = Array.from({ length: MAX_PAIRS - MIN_PAIRS + 1 }, (_, index) => index + MIN_PAIRS);
+
+// Enough for a steady median on every board size while the full run takes under an hour
+export const DEFAULT_CALIBRATION_RUNS = 200;
+
+// Par is how many moves the human memory model usually needs under standard rules
+export const PAR_STRATEGY = 'human';
+export const PAR_VARIANT = 'standard';
+
+export interface CalibrationOptions {
+    pairCounts: number[];
+    strategies: SimulationStrategy[];
+    variants: SimulationVariant[];
+    runs: number;
+    seed: string;
+}
+
+// Estimates for one board size, rule variant and memory model
+export interface CalibrationEntry {
+    numPairs: number;
+    variant: string;
+    strategy: string;
+    completionRate: number; // Share of games won, from 0 to 1
+    medianMoves: number;
+    meanMoves: number;
+    meanTimeMs: number;
+}
+
+/**
+ * Simulates every combination of board size, rule variant and memory model
+ *
+ * @param options Board sizes, strategies, variants, runs per combination and base seed
+ * @returns One entry per combination, ordered by board size, then variant, then strategy
+ */
+export const runCalibration = ({ pairCounts, strategies, variants, runs, seed }: CalibrationOptions): CalibrationEntry[] =>
+    pairCounts.flatMap(numPairs => variants.flatMap(variant =>
+        runSimulations({ numPairs, strategies, variant, runs, seed: `${seed}-${numPairs}` }).map(report => ({
+            numPairs,
+            variant: report.variant,
+            strategy: report.strategy,
+            completionRate: report.completed / report.runs,
+            medianMoves: report.moves.median,
+            meanMoves: report.moves.mean,
+            meanTimeMs: report.elapsedMs.mean
+        }))));
+
+/**
+ * Derives the par of each board size from calibration entries
+ *
+ * @param entries Calibration entries
+ * @returns Par moves by number of pairs, for the sizes the par model was run on
+ */
+export const derivePars = (entries: CalibrationEntry[]): Record<number, number> =>
+    Object.fromEntries(entries
+        .filter(entry => entry.strategy === PAR_STRATEGY && entry.variant === PAR_VARIANT)
+        .map(entry => [entry.numPairs, entry.medianMoves]));
+
+/**
+ * Parses command line arguments for the calibration
+ *
+ * Accepts `--runs N`, `--seed S` and `--write`, which regenerates the par table.
+ *
+ * @param args Arguments after the script name
+ * @returns Calibration options and whether to write the par table, or an error message for invalid arguments
+ */
+export const parseCalibrationArgs = (args: string[]): { options: CalibrationOptions; write: boolean } | string => {
+    const options: CalibrationOptions = {
+        pairCounts: CALIBRATION_PAIR_COUNTS,
+        strategies: Object.values(SIMULATION_STRATEGIES),
+        variants: Object.values(SIMULATION_VARIANTS),
+        runs: DEFAULT_CALIBRATION_RUNS,
+        seed: DEFAULT_SIMULATION_SEED
+    };
+    let write = false;
+
+    for (let index = 0; index < args.length; index++) {
+        const flag = args[index];
+        if (flag === '--write') {
+            write = true;
+            continue;
+        }
+
+        const value = args[++index];
+        if (value === undefined) {
+            return `Missing value for ${flag}`;
+        }
+
+        switch (flag) {
+            case '--runs': {
+                const runs = Number(value);
+                if (!Number.isInteger(runs) || runs < 1) {
+                    return '--runs must be a positive whole number';
+                }
+                options.runs = runs;
+                break;
+            }
+            case '--seed':
+                options.seed = value;
+                break;
+            default:
+                return `Unknown option ${flag}`;
+        }
+    }
+
+    return { options, write };
+};
+
+/**
+ * Formats calibration entries as a plain text table
+ *
+ * @param entries Entries to format
+ * @returns Multi-line text with one row per entry
+ */
+export const formatCalibrationReport = (entries: CalibrationEntry[]): string => {
+    const columns = ['Pairs', 'Variant', 'Strategy', 'Median moves', 'Mean moves', 'Mean time', 'Won'];
+    const rows = entries.map(entry => [
+        `${entry.numPairs}`,
+        entry.variant,
+        entry.strategy,
+        `${entry.medianMoves}`,
+        entry.meanMoves.toFixed(1),
+        `${Math.round(entry.meanTimeMs / 1000)}s`,
+        `${Math.round(entry.completionRate * 100)}%`
+    ]);
+    const widths = columns.map((column, index) => Math.max(column.length, ...rows.map(row => row[index].length)));
+
+    return [columns, ...rows]
+        .map(row => row.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd())
+        .join('\n');
+};
+
+/**
+ * Generates the source of par-table.ts
+ *
+ * @param pars Par moves by number of pairs
+ * @param runs Games simulated per board size, noted in the header
+ * @returns TypeScript source
+ */
+export const formatParTable = (pars: Record<number, number>, runs: number): string => [
+    '// Generated by `npm run calibrate -- --write`; do not edit by hand.',
+    `// Median moves of the ${PAR_STRATEGY} memory model under ${PAR_VARIANT} rules over ${runs} simulated games per board size.`,
+    'export const PAR_MOVES: Record<number, number> = {',
+    ...Object.entries(pars).map(([numPairs, par], index, all) =>
+        `    ${numPairs}: ${par}${index < all.length - 1 ? ',' : ''}`),
+    '};',
+    ''
+].join('\n');
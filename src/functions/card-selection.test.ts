@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { selectCard, canSelectCard, clearSelectedCards } from './card-selection';
+import { selectCard, flipCard, canSelectCard, clearSelectedCards } from './card-selection';
 import { Card, GameState, GameStatus } from '../models/game-state';
 
 describe('Card Selection Functions', () => {
@@ -124,6 +124,15 @@ describe('Card Selection Functions', () => {
         });
     });
 
+    describe('flipCard', () => {
+        it('should start the game on the first flip', () => {
+            const state = flipCard({ ...createTestGameState(), status: GameStatus.READY }, 1);
+
+            expect(state.status).toBe(GameStatus.IN_PROGRESS);
+            expect(state.selectedCardIds).toEqual([1]);
+        });
+    });
+
     describe('canSelectCard', () => {
         it('should return true for a valid card selection', () => {
             const state = createTestGameState();
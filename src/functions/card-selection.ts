@@ -4,7 +4,8 @@
  * Pure functions for handling card selection in the memory game.
  */
 
-import { GameState } from '../models/game-state';
+import { GameState, GameStatus, getGroupSize } from '../models/game-state';
+import { transitionStatus } from '../models/game-status';
 
 /**
  * Selects a card in the game state and handles the selection logic
@@ -14,8 +15,8 @@ import { GameState } from '../models/game-state';
  * @returns New game state with the card selected and revealed
  */
 export const selectCard = (state: GameState, cardId: number): GameState => {
-    // Don't allow selecting more than 2 cards at a time
-    if (state.selectedCardIds.length >= 2) {
+    // Don't allow selecting more than a full group at a time
+    if (state.selectedCardIds.length >= getGroupSize(state)) {
         return state;
     }
 
@@ -42,8 +43,8 @@ export const selectCard = (state: GameState, cardId: number): GameState => {
     // Update selected card IDs
     const updatedSelectedCardIds = [...state.selectedCardIds, cardId];
 
-    // Increment moves counter when selecting the second card
-    const updatedMoves = updatedSelectedCardIds.length === 2
+    // Increment moves counter when selecting the last card of a group
+    const updatedMoves = updatedSelectedCardIds.length === getGroupSize(state)
         ? state.moves + 1
         : state.moves;
 
@@ -56,6 +57,20 @@ export const selectCard = (state: GameState, cardId: number): GameState => {
     };
 };
 
+/**
+ * Flips a card, starting the game if it has not started yet
+ * 
+ * @param state Current game state
+ * @param cardId ID of the card to flip
+ * @returns New game state with the card selected
+ */
+export const flipCard = (state: GameState, cardId: number): GameState => {
+    const startedState = state.status === GameStatus.READY
+        ? transitionStatus(state, 'start')
+        : state;
+    return selectCard(startedState, cardId);
+};
+
 /**
  * Determines if a card can be selected based on the current game state
  * 
@@ -64,8 +79,8 @@ export const selectCard = (state: GameState, cardId: number): GameState => {
  * @returns True if the card can be selected, false otherwise
  */
 export const canSelectCard = (state: GameState, cardId: number): boolean => {
-    // Can't select cards if 2 are already selected
-    if (state.selectedCardIds.length >= 2) {
+    // Can't select cards if a full group is already selected
+    if (state.selectedCardIds.length >= getGroupSize(state)) {
         return false;
     }
 
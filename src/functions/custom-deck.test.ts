@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+    CUSTOM_DECK_SIZE,
+    MAX_IMAGE_FILE_BYTES,
+    CustomDeck,
+    DeckFile,
+    validateDeckFiles,
+    getCoverCrop,
+    isCustomDeck,
+    createCustomCardImages
+} from './custom-deck';
+
+describe('Custom Deck Functions', () => {
+    const createFiles = (count: number, overrides: Partial<DeckFile> = {}): DeckFile[] =>
+        Array.from({ length: count }, (_, index) => ({ name: `photo ${index + 1}.jpg`, type: 'image/jpeg', size: 1000, ...overrides }));
+
+    const createDeck = (): CustomDeck => ({
+        name: 'Class photos',
+        images: Array.from({ length: CUSTOM_DECK_SIZE }, (_, index) => ({ name: `Photo ${index + 1}`, blob: new Blob([`${index}`]) })),
+        createdAt: 1
+    });
+
+    describe('validateDeckFiles', () => {
+        it('should accept a full deck of images', () => {
+            expect(validateDeckFiles(createFiles(CUSTOM_DECK_SIZE))).toEqual([]);
+            expect(validateDeckFiles(createFiles(CUSTOM_DECK_SIZE, { type: 'image/png', size: MAX_IMAGE_FILE_BYTES }))).toEqual([]);
+        });
+
+        it('should ask for the right number of images', () => {
+            expect(validateDeckFiles(createFiles(5))).toEqual([`Choose exactly ${CUSTOM_DECK_SIZE} images (5 chosen)`]);
+            expect(validateDeckFiles(createFiles(CUSTOM_DECK_SIZE + 1))).toHaveLength(1);
+        });
+
+        it('should name each file of the wrong type or too large', () => {
+            const files = createFiles(CUSTOM_DECK_SIZE);
+            files[2] = { name: 'notes.pdf', type: 'application/pdf', size: 1000 };
+            files[4] = { name: 'huge.png', type: 'image/png', size: MAX_IMAGE_FILE_BYTES + 1 };
+
+            expect(validateDeckFiles(files)).toEqual([
+                'notes.pdf is not a JPEG, PNG, WebP or GIF image',
+                'huge.png is larger than 10 MB'
+            ]);
+        });
+    });
+
+    describe('getCoverCrop', () => {
+        it('should trim the sides of a wide image', () => {
+            expect(getCoverCrop(1000, 700, 5, 7)).toEqual({ x: 250, y: 0, width: 500, height: 700 });
+        });
+
+        it('should trim the top and bottom of a tall image', () => {
+            expect(getCoverCrop(500, 1000, 5, 7)).toEqual({ x: 0, y: 150, width: 500, height: 700 });
+        });
+
+        it('should keep an image that already has the card shape', () => {
+            expect(getCoverCrop(350, 490)).toEqual({ x: 0, y: 0, width: 350, height: 490 });
+        });
+    });
+
+    describe('isCustomDeck', () => {
+        it('should accept a complete deck', () => {
+            expect(isCustomDeck(createDeck())).toBe(true);
+        });
+
+        it('should reject anything else', () => {
+            expect(isCustomDeck(null)).toBe(false);
+            expect(isCustomDeck({ ...createDeck(), images: createDeck().images.slice(1) })).toBe(false);
+            expect(isCustomDeck({ ...createDeck(), images: createDeck().images.map(image => ({ ...image, blob: 'data' })) })).toBe(false);
+            expect(isCustomDeck({ ...createDeck(), name: undefined })).toBe(false);
+        });
+    });
+
+    describe('createCustomCardImages', () => {
+        it('should number the images and give each a URL', () => {
+            const deck = createDeck();
+            const images = createCustomCardImages(deck, (blob) => `blob:${deck.images.findIndex(image => image.blob === blob)}`);
+
+            expect(images).toHaveLength(CUSTOM_DECK_SIZE);
+            expect(images[0]).toEqual({ id: 1, title: 'Photo 1', path: 'blob:0' });
+            expect(images[11]).toEqual({ id: 12, title: 'Photo 12', path: 'blob:11' });
+        });
+
+        it('should read the artwork details from the filenames', () => {
+            const deck = createDeck();
+            deck.images[0] = { ...deck.images[0], name: 'Harbour at Dusk, Sam Lee, 2023.jpg' };
+
+            expect(createCustomCardImages(deck, () => 'blob:0')[0]).toEqual({
+                id: 1,
+                title: 'Harbour at Dusk',
+                artist: 'Sam Lee',
+                year: '2023',
+                path: 'blob:0'
+            });
+        });
+    });
+});
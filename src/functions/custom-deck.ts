@@ -0,0 +1,129 @@
+/**
+ * Custom Deck Functions
+ *
+ * Pure functions for decks built from the player's own photos: checking the
+ * chosen files, working out how each photo is cropped to the card shape, and
+ * turning a stored deck into card images.
+ */
+
+import type { CardImage } from '../managers/image-manager';
+import { parseArtworkFilename } from './artwork';
+import { isObject } from '../utils/validation';
+
+// Card style of the player's own deck; deck manifests cannot use this ID
+export const CUSTOM_DECK_ID = 'custom';
+
+// Same size as the built-in decks, so every board can be dealt and styles can be swapped mid-game
+export const CUSTOM_DECK_SIZE = 12;
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export const MAX_IMAGE_FILE_BYTES = 10 * 1024 * 1024;
+
+// Card faces are stored at the size of the built-in card images
+export const CARD_IMAGE_WIDTH = 350;
+export const CARD_IMAGE_HEIGHT = 490;
+
+// A card face of a custom deck, already cropped to the card shape
+export interface CustomDeckImage {
+    name: string; // Filename of the photo, read for the artwork details
+    blob: Blob;
+}
+
+export interface CustomDeck {
+    name: string;
+    images: CustomDeckImage[];
+    createdAt: number;
+}
+
+// The parts of a chosen file that are checked before it is processed
+export type DeckFile = Pick<File, 'name' | 'type' | 'size'>;
+
+// Part of a source image to draw, in source pixels
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Checks the files chosen for a deck
+ *
+ * @param files Chosen files
+ * @returns One message per problem, empty if the files can make a deck
+ */
+export const validateDeckFiles = (files: DeckFile[]): string[] => {
+    const errors: string[] = [];
+
+    if (files.length !== CUSTOM_DECK_SIZE) {
+        errors.push(`Choose exactly ${CUSTOM_DECK_SIZE} images (${files.length} chosen)`);
+    }
+
+    files.forEach(file => {
+        if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+            errors.push(`${file.name} is not a JPEG, PNG, WebP or GIF image`);
+        } else if (file.size > MAX_IMAGE_FILE_BYTES) {
+            errors.push(`${file.name} is larger than ${MAX_IMAGE_FILE_BYTES / (1024 * 1024)} MB`);
+        }
+    });
+
+    return errors;
+};
+
+/**
+ * Works out the largest centered part of an image with the shape of the target
+ *
+ * @param sourceWidth Width of the image
+ * @param sourceHeight Height of the image
+ * @param targetWidth Width it will be drawn at
+ * @param targetHeight Height it will be drawn at
+ * @returns Part of the image to draw, so it fills the target without stretching
+ */
+export const getCoverCrop = (
+    sourceWidth: number,
+    sourceHeight: number,
+    targetWidth: number = CARD_IMAGE_WIDTH,
+    targetHeight: number = CARD_IMAGE_HEIGHT
+): CropRect => {
+    const targetRatio = targetWidth / targetHeight;
+
+    // Too wide: keep the full height and trim the sides, otherwise trim the top and bottom
+    if (sourceWidth / sourceHeight > targetRatio) {
+        const width = sourceHeight * targetRatio;
+        return { x: (sourceWidth - width) / 2, y: 0, width, height: sourceHeight };
+    }
+
+    const height = sourceWidth / targetRatio;
+    return { x: 0, y: (sourceHeight - height) / 2, width: sourceWidth, height };
+};
+
+/**
+ * Checks that a value read back from storage is a complete custom deck
+ *
+ * @param value Stored value
+ * @returns True if the value can be shown as a deck
+ */
+export const isCustomDeck = (value: unknown): value is CustomDeck =>
+    isObject(value) &&
+    typeof value.name === 'string' &&
+    typeof value.createdAt === 'number' &&
+    Array.isArray(value.images) &&
+    value.images.length === CUSTOM_DECK_SIZE &&
+    value.images.every(image =>
+        isObject(image) &&
+        typeof image.name === 'string' &&
+        image.blob instanceof Blob);
+
+/**
+ * Turns a stored deck into card images the image manager can show
+ *
+ * @param deck Stored deck
+ * @param createUrl Makes a URL for an image, a blob URL by default
+ * @returns Card images numbered from 1 like the built-in decks, with details from the filenames
+ */
+export const createCustomCardImages = (
+    deck: CustomDeck,
+    createUrl: (blob: Blob) => string = (blob) => URL.createObjectURL(blob)
+): CardImage[] =>
+    deck.images.map((image, index) => ({ id: index + 1, ...parseArtworkFilename(image.name), path: createUrl(image.blob) }));
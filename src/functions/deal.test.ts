@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { CardImageSource, createCards, initializeGame, initializeGameWithProgress, resetGame } from './deal';
+import { Card, GameStatus, getGroupSize, getGroupCount } from '../models/game-state';
+import type { CardImage } from '../managers/image-manager';
+
+describe('Deal Functions', () => {
+    const testImages: CardImage[] = [
+        { id: 1, title: 'Test 1', path: '/test1.jpg' },
+        { id: 2, title: 'Test 2', path: '/test2.jpg' },
+        { id: 3, title: 'Test 3', path: '/test3.jpg' }
+    ];
+    const imageSource: CardImageSource = { getRandomCardImages: (numPairs) => testImages.slice(0, numPairs) };
+
+    // Create a mock shuffle function that reverses the array
+    const shuffleFunction = (cards: Card[]) => [...cards].reverse();
+
+    describe('createCards', () => {
+        it('should create the correct number of card pairs', () => {
+            const cards = createCards(testImages);
+            expect(cards.length).toBe(6); // 3 pairs = 6 cards
+        });
+
+        it('should initialize cards with proper properties', () => {
+            const cards = createCards(testImages.slice(0, 1));
+            expect(cards[0]).toEqual({
+                id: 1,
+                imageId: 1,
+                isRevealed: false,
+                isMatched: false
+            });
+            expect(cards[1]).toEqual({
+                id: 2,
+                imageId: 1,
+                isRevealed: false,
+                isMatched: false
+            });
+        });
+    });
+
+    describe('initializeGame', () => {
+        it('should initialize a game with the correct number of cards', () => {
+            const state = initializeGame(3, imageSource);
+            expect(state.cards.length).toBe(6); // 3 pairs = 6 cards
+            expect(state.status).toBe(GameStatus.READY);
+            expect(state.moves).toBe(0);
+            expect(state.selectedCardIds).toEqual([]);
+        });
+
+        it('should deal from the provided image source', () => {
+            const state = initializeGame(2, imageSource);
+
+            expect(state.cards).toEqual(createCards(testImages.slice(0, 2)));
+        });
+
+        it('should use the provided shuffle function', () => {
+            const state = initializeGame(3, imageSource, shuffleFunction);
+
+            // The cards should be in reverse order
+            expect(state.cards).toEqual(createCards(testImages).reverse());
+        });
+
+        it('should deal groups of identical cards for a larger group size', () => {
+            const state = initializeGame(2, imageSource, undefined, undefined, 3);
+
+            expect(state.groupSize).toBe(3);
+            expect(state.cards.map(card => card.id)).toEqual([1, 2, 3, 4, 5, 6]);
+            expect(state.cards.map(card => card.imageId)).toEqual([1, 1, 1, 2, 2, 2]);
+            expect(getGroupSize(state)).toBe(3);
+            expect(getGroupCount(state)).toBe(2);
+            expect(initializeGame(2, imageSource).groupSize).toBeUndefined();
+        });
+    });
+
+    describe('initializeGameWithProgress', () => {
+        it('should deal a game that has not started without progress', () => {
+            const state = initializeGameWithProgress(3, null, imageSource);
+
+            expect(state.status).toBe(GameStatus.READY);
+            expect(state.cards.some(card => card.isMatched)).toBe(false);
+        });
+
+        it('should match the given number of pairs before the game starts', () => {
+            const state = initializeGameWithProgress(3, 2, imageSource);
+
+            expect(state.status).toBe(GameStatus.IN_PROGRESS);
+            expect(state.moves).toBe(2);
+            expect(state.cards.filter(card => card.isMatched)).toHaveLength(4);
+            expect(initializeGameWithProgress(3, 3, imageSource).status).toBe(GameStatus.VICTORY_MUSIC);
+        });
+    });
+
+    describe('resetGame', () => {
+        it('should reset the game to initial state', () => {
+            const playedState = {
+                ...initializeGame(2, imageSource),
+                status: GameStatus.IN_PROGRESS,
+                moves: 1,
+                cards: initializeGame(2, imageSource).cards.map((card, index) =>
+                    index < 2 ? { ...card, isRevealed: true, isMatched: true } : card
+                )
+            };
+
+            const state = resetGame(playedState, imageSource);
+
+            // Check that game is reset
+            expect(state.status).toBe(GameStatus.READY);
+            expect(state.moves).toBe(0);
+            expect(state.selectedCardIds).toEqual([]);
+
+            // All cards should be unrevealed and unmatched
+            state.cards.forEach(card => {
+                expect(card.isRevealed).toBe(false);
+                expect(card.isMatched).toBe(false);
+            });
+        });
+
+        it('should use the provided shuffle function', () => {
+            const state = resetGame(initializeGame(3, imageSource), imageSource, shuffleFunction);
+
+            expect(state.cards).toEqual(createCards(testImages).reverse());
+        });
+
+        it('should keep the group size when the game is reset', () => {
+            const state = resetGame(initializeGame(3, imageSource, undefined, undefined, 3), imageSource);
+            expect(state.groupSize).toBe(3);
+            expect(state.cards).toHaveLength(9);
+        });
+    });
+});
@@ -0,0 +1,154 @@
+/**
+ * Deal Functions
+ *
+ * Pure functions that deal the cards of a new game from a source of images.
+ * The image source is always passed in, so games can be dealt without the
+ * image manager and its browser assets, as the simulator does in Node.
+ */
+
+import type { CardImage } from '../managers/image-manager';
+import { Card, GameState, GameStatus, getGroupCount, getGroupSize } from '../models/game-state';
+import { transitionStatus } from '../models/game-status';
+import { DEFAULT_GROUP_SIZE } from '../models/group-size';
+import { RandomSource } from '../utils/random';
+
+// Picks the images a deal is made from, such as the image manager
+export interface CardImageSource {
+    getRandomCardImages(numPairs: number, random?: RandomSource): CardImage[];
+}
+
+/**
+ * Creates a deck of cards with groups of matching images
+ * @param images Array of card images to create groups from
+ * @param groupSize Number of cards with each image (defaults to pairs)
+ * @returns Array of unshuffled cards
+ */
+export const createCards = (images: CardImage[], groupSize: number = DEFAULT_GROUP_SIZE): Card[] => {
+    const cards: Card[] = [];
+
+    // Create a group of cards with the same imageId for each image
+    images.forEach((image, index) => {
+        for (let copy = 0; copy < groupSize; copy++) {
+            cards.push({
+                id: (index * groupSize) + copy + 1,
+                imageId: image.id,
+                isRevealed: false,
+                isMatched: false
+            });
+        }
+    });
+
+    return cards;
+};
+
+/**
+ * Initializes a new game with shuffled cards
+ * @param totalPairs Number of pairs to create
+ * @param imageSource Where the images come from, such as the image manager
+ * @param shuffleFunction Optional custom shuffle function
+ * @param random Optional random number source for picking the images
+ * @param groupSize Number of identical cards to find together (defaults to pairs)
+ * @returns A new game state with shuffled cards
+ */
+export const initializeGame = (
+    totalPairs: number,
+    imageSource: CardImageSource,
+    shuffleFunction?: (cards: Card[]) => Card[],
+    random?: RandomSource,
+    groupSize: number = DEFAULT_GROUP_SIZE
+): GameState => {
+    // Get random selection of card images
+    const selectedImages = imageSource.getRandomCardImages(totalPairs, random);
+
+    // Create cards from the selected images
+    const cards = createCards(selectedImages, groupSize);
+
+    // Shuffle the cards if a shuffle function is provided
+    const shuffledCards = shuffleFunction ? shuffleFunction(cards) : cards;
+
+    return {
+        cards: shuffledCards,
+        status: GameStatus.READY,
+        moves: 0,
+        selectedCardIds: [],
+        isPreviewMode: false,
+        cardStyle: 'impressionist',
+        gridSize: 'easy',
+        ...(groupSize !== DEFAULT_GROUP_SIZE ? { groupSize } : {})
+    };
+};
+
+/**
+ * Initializes a new game with progress tracking from URL parameters
+ * @param totalPairs Number of pairs to create
+ * @param progress Optional progress parameter (number of pre-matched pairs)
+ * @param imageSource Where the images come from, such as the image manager
+ * @param shuffleFunction Optional custom shuffle function
+ * @param random Optional random number source for picking the images
+ * @param groupSize Number of identical cards to find together (defaults to pairs)
+ * @returns A new game state with shuffled cards and optional progress
+ */
+export const initializeGameWithProgress = (
+    totalPairs: number,
+    progress: number | null,
+    imageSource: CardImageSource,
+    shuffleFunction?: (cards: Card[]) => Card[],
+    random?: RandomSource,
+    groupSize: number = DEFAULT_GROUP_SIZE
+): GameState => {
+    // Create initial game state
+    const initialState = initializeGame(totalPairs, imageSource, shuffleFunction, random, groupSize);
+
+    // If progress parameter exists and is valid, pre-match cards
+    if (progress && progress > 0 && progress <= totalPairs) {
+        // Get the unique imageIds from the shuffled cards
+        const uniqueImageIds = Array.from(
+            new Set(initialState.cards.map(card => card.imageId))
+        );
+
+        // Select the specified number of imageIds to match
+        const imageIdsToMatch = uniqueImageIds.slice(0, progress);
+
+        // Update cards to match the pairs with the selected imageIds
+        const updatedCards = initialState.cards.map(card => {
+            if (imageIdsToMatch.includes(card.imageId)) {
+                return { ...card, isMatched: true, isRevealed: true };
+            }
+            return card;
+        });
+
+        // Return updated state with pre-matched cards and adjusted move count
+        const startedState = transitionStatus({
+            ...initialState,
+            cards: updatedCards,
+            moves: progress,
+            isPreviewMode: false,
+            cardStyle: 'impressionist',
+            gridSize: 'easy'
+        }, 'start');
+        return progress === totalPairs ? transitionStatus(startedState, 'all_matched') : startedState;
+    }
+
+    // Return regular initial state if no valid progress parameter
+    return {
+        ...initialState,
+        isPreviewMode: false,
+        cardStyle: 'impressionist',
+        gridSize: 'easy'
+    };
+};
+
+/**
+ * Resets the game to initial state with new shuffled cards
+ * @param state Current game state
+ * @param imageSource Where the images come from, such as the image manager
+ * @param shuffleFunction Optional custom shuffle function
+ * @returns New game state with reset and shuffled cards
+ */
+export const resetGame = (
+    state: GameState,
+    imageSource: CardImageSource,
+    shuffleFunction?: (cards: Card[]) => Card[]
+): GameState => {
+    return initializeGame(getGroupCount(state), imageSource, shuffleFunction, undefined, getGroupSize(state));
+};
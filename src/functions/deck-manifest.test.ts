@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+    ImageDeckManifest,
+    isDeckId,
+    isGeneratedDeckManifest,
+    validateDeckManifest,
+    loadDeckManifests,
+    createDeckCardImages,
+    getDeckBackImagePath
+} from './deck-manifest';
+import { createGeneratedCardImages } from './generated-deck';
+
+describe('Deck Manifest Functions', () => {
+    const createManifest = (overrides: Partial<ImageDeckManifest> = {}): ImageDeckManifest => ({
+        id: 'impressionist',
+        name: 'Impressionist',
+        back: 'Back Side.jpg',
+        cards: [
+            {
+                path: 'cards/The Starry Night, Vincent van Gogh, 1889.jpg',
+                title: 'The Starry Night',
+                artist: 'Vincent van Gogh',
+                year: '1889',
+                alt: 'The Starry Night by Vincent van Gogh'
+            },
+            { path: 'cards/untitled.jpg', title: 'Untitled', alt: 'An untitled painting' }
+        ],
+        ...overrides
+    });
+
+    describe('isDeckId', () => {
+        it('should accept simple lowercase IDs', () => {
+            expect(isDeckId('robgon')).toBe(true);
+            expect(isDeckId('old-masters_2')).toBe(true);
+            expect(isDeckId('custom')).toBe(true);
+        });
+
+        it('should reject anything else', () => {
+            expect(isDeckId('')).toBe(false);
+            expect(isDeckId('Old Masters')).toBe(false);
+            expect(isDeckId('-deck')).toBe(false);
+            expect(isDeckId(3)).toBe(false);
+        });
+    });
+
+    describe('validateDeckManifest', () => {
+        it('should accept a valid manifest', () => {
+            expect(validateDeckManifest(createManifest(), 'decks/impressionist.json')).toEqual([]);
+        });
+
+        it('should explain every problem with the deck', () => {
+            expect(validateDeckManifest({ id: 'Old Masters', name: '', cards: [] }, 'decks/old.json')).toEqual([
+                'decks/old.json: "id" must be lowercase letters, digits, "-" or "_"',
+                'decks/old.json: "name" must be a non-empty string',
+                'decks/old.json: "back" must be the path of the card back image',
+                'decks/old.json: "cards" must be a non-empty array'
+            ]);
+            expect(validateDeckManifest([], 'decks/list.json')).toEqual(['decks/list.json: a deck manifest must be a JSON object']);
+        });
+
+        it('should explain every problem with the cards', () => {
+            const manifest = {
+                ...createManifest(),
+                cards: [
+                    { path: 'cards/a.jpg', title: 'A', year: 1889, alt: 'A' },
+                    { path: 'cards/a.jpg', title: '', artist: 7 },
+                    'cards/c.jpg',
+                    ['cards/d.jpg']
+                ]
+            };
+
+            expect(validateDeckManifest(manifest, 'm.json')).toEqual([
+                'm.json: cards[0]: "year" must be a string such as "1889" or "c. 1890s"',
+                'm.json: cards[1]: "title" must be a non-empty string',
+                'm.json: cards[1]: "alt" must be a non-empty string',
+                'm.json: cards[1]: "artist" must be a string',
+                'm.json: cards[2] must be an object',
+                'm.json: cards[3] must be an object',
+                'm.json: cards[1] repeats the path "cards/a.jpg"'
+            ]);
+        });
+
+        it('should accept a generated deck without a back or cards', () => {
+            expect(validateDeckManifest({ id: 'shapes', name: 'Shapes', generator: 'shapes' }, 'm.json')).toEqual([]);
+            expect(validateDeckManifest({ id: 'sums', name: 'Sums', generator: 'arithmetic', seed: 'abc' }, 'm.json')).toEqual([]);
+        });
+
+        it('should explain every problem with a generated deck', () => {
+            expect(validateDeckManifest({ id: 'dots', name: 'Dots', generator: 'dots', seed: '' }, 'm.json')).toEqual([
+                'm.json: "generator" must be one of "shapes", "numbers", "letters", "arithmetic"',
+                'm.json: "seed" must be a non-empty string'
+            ]);
+        });
+
+        it('should keep the custom deck ID for the player\'s own deck', () => {
+            expect(validateDeckManifest(createManifest({ id: 'custom' }), 'm.json')).toEqual([
+                'm.json: "id" cannot be "custom", which is kept for the player\'s own deck'
+            ]);
+        });
+    });
+
+    describe('loadDeckManifests', () => {
+        it('should keep the valid decks in path order and report the rest', () => {
+            const result = loadDeckManifests({
+                '/public/decks/robgon.json': createManifest({ id: 'robgon', name: 'RobGon' }),
+                '/public/decks/broken.json': { id: 'broken' },
+                '/public/decks/impressionist.json': createManifest(),
+                '/public/decks/same.json': createManifest({ name: 'Same ID' })
+            });
+
+            expect(result.decks.map(deck => deck.name)).toEqual(['Impressionist', 'RobGon']);
+            expect(result.errors).toContain('/public/decks/broken.json: "name" must be a non-empty string');
+            expect(result.errors).toContain('/public/decks/same.json: another manifest already uses the deck ID "impressionist"');
+        });
+    });
+
+    describe('createDeckCardImages', () => {
+        it('should number the cards and keep their details', () => {
+            expect(createDeckCardImages(createManifest(), '/base/')).toEqual([
+                {
+                    id: 1,
+                    title: 'The Starry Night',
+                    path: '/base/cards/The Starry Night, Vincent van Gogh, 1889.jpg',
+                    alt: 'The Starry Night by Vincent van Gogh',
+                    artist: 'Vincent van Gogh',
+                    year: '1889'
+                },
+                { id: 2, title: 'Untitled', path: '/base/cards/untitled.jpg', alt: 'An untitled painting' }
+            ]);
+        });
+
+        it('should draw the cards of a generated deck from its seed, or its ID without one', () => {
+            expect(createDeckCardImages({ id: 'sums', name: 'Sums', generator: 'arithmetic', seed: 'abc' }, '/base/'))
+                .toEqual(createGeneratedCardImages('arithmetic', 'abc'));
+            expect(createDeckCardImages({ id: 'sums', name: 'Sums', generator: 'arithmetic' }, '/base/'))
+                .toEqual(createGeneratedCardImages('arithmetic', 'sums'));
+        });
+    });
+
+    describe('getDeckBackImagePath', () => {
+        it('should find the back of an image deck under the base URL', () => {
+            expect(getDeckBackImagePath(createManifest(), '/base/')).toBe('/base/Back Side.jpg');
+        });
+
+        it('should draw the back of a generated deck', () => {
+            expect(getDeckBackImagePath({ id: 'shapes', name: 'Shapes', generator: 'shapes' }, '/base/')).toMatch(/^data:image\/svg\+xml,/);
+        });
+    });
+
+    describe('isGeneratedDeckManifest', () => {
+        it('should tell generated decks from image decks', () => {
+            expect(isGeneratedDeckManifest({ id: 'shapes', name: 'Shapes', generator: 'shapes' })).toBe(true);
+            expect(isGeneratedDeckManifest(createManifest())).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,209 @@
+/**
+ * Deck Manifest Functions
+ *
+ * A deck is described by a JSON manifest in public/decks: its ID, display
+ * name, card back and the cards with their artwork details. A generated deck
+ * names the generator that draws its cards instead. These pure functions
+ * check manifests against the format, with an error message for every
+ * problem, and turn the cards into card images.
+ */
+
+import type { CardImage } from '../managers/image-manager';
+import { CUSTOM_DECK_ID } from './custom-deck';
+import { isObject } from '../utils/validation';
+import { GENERATED_DECK_KINDS, GeneratedDeckKind, createGeneratedCardBack, createGeneratedCardImages, isGeneratedDeckKind } from './generated-deck';
+
+// Deck IDs are stored in saved games and records, so they are kept simple
+const DECK_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+// IDs of the decks of paintings in public/decks, which stay the same when decks are added
+export const PAINTING_DECK_IDS = ['impressionist', 'robgon'];
+
+// A card of a deck manifest; paths are relative to the public directory
+export interface DeckManifestCard {
+    path: string;
+    title: string;
+    artist?: string;
+    year?: string;
+    alt: string;
+}
+
+// A deck of image files
+export interface ImageDeckManifest {
+    id: string;
+    name: string;
+    back: string;
+    cards: DeckManifestCard[];
+}
+
+// A deck drawn in code; the seed defaults to the deck ID
+export interface GeneratedDeckManifest {
+    id: string;
+    name: string;
+    generator: GeneratedDeckKind;
+    seed?: string;
+}
+
+export type DeckManifest = ImageDeckManifest | GeneratedDeckManifest;
+
+// The decks that passed validation, and what was wrong with the others
+export interface DeckManifestResult {
+    decks: DeckManifest[];
+    errors: string[];
+}
+
+/**
+ * Checks that a value can be used as a deck ID
+ *
+ * @param value Value to check
+ * @returns True for lowercase letters, digits, dashes and underscores, starting with a letter or digit
+ */
+export const isDeckId = (value: unknown): value is string =>
+    typeof value === 'string' && DECK_ID_PATTERN.test(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Checks whether a deck is drawn in code rather than loaded from image files
+ *
+ * @param deck Deck manifest
+ * @returns True if the manifest names a generator
+ */
+export const isGeneratedDeckManifest = (deck: DeckManifest): deck is GeneratedDeckManifest =>
+    'generator' in deck;
+
+/**
+ * Checks a parsed manifest against the manifest format
+ *
+ * @param value Parsed JSON of the manifest
+ * @param source Where the manifest came from, used in the messages
+ * @returns One message per problem, empty for a valid manifest
+ */
+export const validateDeckManifest = (value: unknown, source: string): string[] => {
+    if (!isObject(value)) {
+        return [`${source}: a deck manifest must be a JSON object`];
+    }
+
+    const errors: string[] = [];
+    const { id, name, back, cards, generator, seed } = value;
+
+    if (!isDeckId(id)) {
+        errors.push(`${source}: "id" must be lowercase letters, digits, "-" or "_"`);
+    } else if (id === CUSTOM_DECK_ID) {
+        errors.push(`${source}: "id" cannot be "${CUSTOM_DECK_ID}", which is kept for the player's own deck`);
+    }
+    if (!isNonEmptyString(name)) {
+        errors.push(`${source}: "name" must be a non-empty string`);
+    }
+
+    if (generator !== undefined) {
+        if (!isGeneratedDeckKind(generator)) {
+            errors.push(`${source}: "generator" must be one of ${GENERATED_DECK_KINDS.map(kind => `"${kind}"`).join(', ')}`);
+        }
+        if (seed !== undefined && !isNonEmptyString(seed)) {
+            errors.push(`${source}: "seed" must be a non-empty string`);
+        }
+        return errors;
+    }
+
+    if (!isNonEmptyString(back)) {
+        errors.push(`${source}: "back" must be the path of the card back image`);
+    }
+
+    if (!Array.isArray(cards) || cards.length === 0) {
+        errors.push(`${source}: "cards" must be a non-empty array`);
+        return errors;
+    }
+
+    cards.forEach((card: unknown, index) => {
+        const at = `${source}: cards[${index}]`;
+        if (!isObject(card)) {
+            errors.push(`${at} must be an object`);
+            return;
+        }
+
+        ['path', 'title', 'alt'].forEach(field => {
+            if (!isNonEmptyString(card[field])) {
+                errors.push(`${at}: "${field}" must be a non-empty string`);
+            }
+        });
+        const { artist, year } = card;
+        if (artist !== undefined && typeof artist !== 'string') {
+            errors.push(`${at}: "artist" must be a string`);
+        }
+        if (year !== undefined && typeof year !== 'string') {
+            errors.push(`${at}: "year" must be a string such as "1889" or "c. 1890s"`);
+        }
+    });
+
+    const paths = cards.map((card: unknown) => isObject(card) ? card.path : undefined);
+    paths.forEach((path, index) => {
+        if (isNonEmptyString(path) && paths.indexOf(path) !== index) {
+            errors.push(`${source}: cards[${index}] repeats the path "${path}"`);
+        }
+    });
+
+    return errors;
+};
+
+/**
+ * Validates every discovered manifest and keeps the valid ones
+ *
+ * @param manifests Parsed manifests by the path they were found at
+ * @returns Valid decks ordered by path, and the errors of the rest; a repeated deck ID keeps the first deck
+ */
+export const loadDeckManifests = (manifests: Record<string, unknown>): DeckManifestResult => {
+    const decks: DeckManifest[] = [];
+    const errors: string[] = [];
+
+    Object.keys(manifests).sort().forEach(source => {
+        const manifest = manifests[source];
+        const manifestErrors = validateDeckManifest(manifest, source);
+        if (manifestErrors.length > 0) {
+            errors.push(...manifestErrors);
+            return;
+        }
+
+        const deck = manifest as DeckManifest;
+        if (decks.some(existing => existing.id === deck.id)) {
+            errors.push(`${source}: another manifest already uses the deck ID "${deck.id}"`);
+            return;
+        }
+        decks.push(deck);
+    });
+
+    return { decks, errors };
+};
+
+/**
+ * Turns the cards of a deck into card images
+ *
+ * @param deck Deck manifest
+ * @param baseUrl URL of the public directory
+ * @returns Card images numbered from 1 in manifest order, or every face a generated deck draws
+ */
+export const createDeckCardImages = (deck: DeckManifest, baseUrl: string): CardImage[] => {
+    if (isGeneratedDeckManifest(deck)) {
+        return createGeneratedCardImages(deck.generator, deck.seed ?? deck.id);
+    }
+
+    return deck.cards.map((card, index) => ({
+        id: index + 1,
+        title: card.title,
+        path: baseUrl + card.path,
+        alt: card.alt,
+        ...(card.artist !== undefined ? { artist: card.artist } : {}),
+        ...(card.year !== undefined ? { year: card.year } : {})
+    }));
+};
+
+/**
+ * Gets the card back of a deck
+ *
+ * @param deck Deck manifest
+ * @param baseUrl URL of the public directory
+ * @returns URL of the back image, or the data URL of a generated back
+ */
+export const getDeckBackImagePath = (deck: DeckManifest, baseUrl: string): string =>
+    isGeneratedDeckManifest(deck) ? createGeneratedCardBack(deck.seed ?? deck.id) : baseUrl + deck.back;
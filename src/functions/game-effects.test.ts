@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { getGameEffects, isMatchAction } from './game-effects';
+import { gameReducer, GameAction } from './game-reducer';
+import { Card, GameState, GameStatus } from '../models/game-state';
+
+describe('Game Effects', () => {
+    // Helper function to create a test game state with cards 1 and 2 matched
+    const createTestGameState = (overrides: Partial<GameState> = {}): GameState => {
+        const cards: Card[] = [
+            { id: 1, imageId: 1, isRevealed: true, isMatched: true },
+            { id: 2, imageId: 1, isRevealed: true, isMatched: true },
+            { id: 3, imageId: 2, isRevealed: false, isMatched: false },
+            { id: 4, imageId: 2, isRevealed: false, isMatched: false },
+            { id: 5, imageId: 3, isRevealed: false, isMatched: false },
+            { id: 6, imageId: 3, isRevealed: false, isMatched: false },
+        ];
+
+        return {
+            cards,
+            status: GameStatus.IN_PROGRESS,
+            moves: 1,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'impressionist',
+            gridSize: 'easy',
+            ...overrides
+        };
+    };
+
+    // Applies an action and returns its effects
+    const effectsOf = (state: GameState, action: GameAction) =>
+        getGameEffects(action, state, gameReducer(state, action));
+
+    const withSelected = (state: GameState, cardIds: number[]): GameState => ({
+        ...state,
+        cards: state.cards.map(card => cardIds.includes(card.id) ? { ...card, isRevealed: true } : card),
+        selectedCardIds: cardIds
+    });
+
+    it('should play the flip sound for flips, cards flipping back, undos and restarts', () => {
+        const state = createTestGameState();
+
+        expect(effectsOf(state, { type: 'FLIP', cardId: 3 })).toEqual([{ type: 'sound', id: 'cardFlip' }]);
+        expect(effectsOf(withSelected(state, [3, 5]), { type: 'RESOLVE_MISMATCH' })).toEqual([{ type: 'sound', id: 'cardFlip' }]);
+        expect(effectsOf(state, { type: 'UNDO', state: createTestGameState({ moves: 0 }) })).toEqual([{ type: 'sound', id: 'cardFlip' }]);
+        expect(effectsOf(state, { type: 'RESTART' })).toEqual([{ type: 'sound', id: 'cardFlip' }]);
+    });
+
+    it('should play the match sound for a match', () => {
+        expect(effectsOf(withSelected(createTestGameState(), [3, 4]), { type: 'CHECK_MATCH' }))
+            .toEqual([{ type: 'sound', id: 'match' }]);
+    });
+
+    it('should play nothing for a mismatch', () => {
+        expect(effectsOf(withSelected(createTestGameState(), [3, 5]), { type: 'CHECK_MATCH' })).toEqual([]);
+    });
+
+    it('should follow the final match with the victory music', () => {
+        const state = withSelected(createTestGameState({
+            cards: createTestGameState().cards.map(card => card.id < 5 ? { ...card, isRevealed: true, isMatched: true } : card)
+        }), [5, 6]);
+
+        expect(effectsOf(state, { type: 'CHECK_MATCH' })).toEqual([
+            { type: 'sound', id: 'match' },
+            { type: 'music', id: 'gameComplete' }
+        ]);
+    });
+
+    it('should play the time-up sound when time runs out', () => {
+        const state = createTestGameState({ timeAttack: { timeLimitMs: 10_000, matchBonusMs: 0 } });
+
+        expect(effectsOf(state, { type: 'TIME_EXPIRED' })).toEqual([{ type: 'sound', id: 'timeUp' }]);
+    });
+
+    it('should play nothing for actions that change nothing or are silent', () => {
+        const state = createTestGameState();
+
+        expect(effectsOf(state, { type: 'FLIP', cardId: 1 })).toEqual([]);
+        expect(effectsOf(state, { type: 'MUSIC_ENDED' })).toEqual([]);
+        expect(effectsOf(state, { type: 'SET_STYLE', cardStyle: 'robgon' })).toEqual([]);
+        expect(effectsOf(state, { type: 'LOAD', state: createTestGameState({ moves: 3 }) })).toEqual([]);
+    });
+
+    describe('isMatchAction', () => {
+        it('should only be true for a match check that cleared the selection', () => {
+            const match = withSelected(createTestGameState(), [3, 4]);
+            const mismatch = withSelected(createTestGameState(), [3, 5]);
+            const check: GameAction = { type: 'CHECK_MATCH' };
+
+            expect(isMatchAction(check, match, gameReducer(match, check))).toBe(true);
+            expect(isMatchAction(check, mismatch, gameReducer(mismatch, check))).toBe(false);
+            expect(isMatchAction({ type: 'RESOLVE_MISMATCH' }, mismatch, gameReducer(mismatch, { type: 'RESOLVE_MISMATCH' }))).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,64 @@
+/**
+ * Game Effects
+ *
+ * Pure functions describing the sounds and music an action calls for. The
+ * rules never play audio themselves; they produce effect descriptors that an
+ * audio sink plays, so the same game runs silently in tests and in Node.
+ */
+
+import { GameState, GameStatus, getGroupSize } from '../models/game-state';
+import { GameAction } from './game-reducer';
+
+export type GameSoundId = 'cardFlip' | 'match' | 'timeUp';
+
+export type GameMusicId = 'gameComplete';
+
+// Something the game wants heard
+export type GameEffect =
+    | { type: 'sound'; id: GameSoundId }
+    | { type: 'music'; id: GameMusicId }; // Starts once the sound before it has finished
+
+/**
+ * Checks whether an action matched the selected group of cards
+ *
+ * @param action Action that was applied
+ * @param before State before the action
+ * @param after State after the action
+ * @returns True if the action was a successful match check
+ */
+export const isMatchAction = (action: GameAction, before: GameState, after: GameState): boolean =>
+    action.type === 'CHECK_MATCH' && before.selectedCardIds.length === getGroupSize(before) && after.selectedCardIds.length === 0;
+
+/**
+ * Lists the effects of an action, in the order they should play
+ *
+ * @param action Action that was applied
+ * @param before State before the action
+ * @param after State after the action
+ * @returns Effects to play, empty if the action changed nothing
+ */
+export const getGameEffects = (action: GameAction, before: GameState, after: GameState): GameEffect[] => {
+    if (after === before) {
+        return [];
+    }
+
+    switch (action.type) {
+        case 'FLIP':
+        case 'RESOLVE_MISMATCH':
+        case 'UNDO':
+        case 'RESTART':
+            return [{ type: 'sound', id: 'cardFlip' }];
+        case 'CHECK_MATCH':
+            if (!isMatchAction(action, before, after)) {
+                return [];
+            }
+            // The victory music follows the final match
+            return after.status === GameStatus.VICTORY_MUSIC
+                ? [{ type: 'sound', id: 'match' }, { type: 'music', id: 'gameComplete' }]
+                : [{ type: 'sound', id: 'match' }];
+        case 'TIME_EXPIRED':
+            return [{ type: 'sound', id: 'timeUp' }];
+        default:
+            return [];
+    }
+};
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { GameOptions, parseGameOptions, applyGameOptions } from './game-options';
+import { Card, GameState, GameStatus } from '../models/game-state';
+import { DEFAULT_MATCH_BONUS_SECONDS } from './time-attack';
+import type { CardImage } from '../managers/image-manager';
+
+describe('Game Options Functions', () => {
+    const parse = (query: string): GameOptions => parseGameOptions(new URLSearchParams(query));
+
+    // Helper function to create a test game state
+    const createTestGameState = (): GameState => {
+        const cards: Card[] = [
+            { id: 1, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 2, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 3, imageId: 2, isRevealed: false, isMatched: false },
+            { id: 4, imageId: 2, isRevealed: false, isMatched: false },
+        ];
+
+        return {
+            cards,
+            status: GameStatus.READY,
+            moves: 0,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'impressionist',
+            gridSize: 'easy'
+        };
+    };
+
+    const images: CardImage[] = [
+        { id: 1, title: 'Water Lilies', path: '1.jpg', artist: 'Claude Monet' },
+        { id: 2, title: 'Dance at Bougival', path: '2.jpg', artist: 'Pierre-Auguste Renoir' }
+    ];
+    const getImage = (imageId: number) => images.find(image => image.id === imageId);
+
+    describe('parseGameOptions', () => {
+        it('should deal a standard game without parameters', () => {
+            expect(parse('')).toEqual({
+                numPairs: null,
+                progress: null,
+                groupSize: 2,
+                seed: null,
+                cardStyle: null,
+                pairing: null,
+                matchBonusSeconds: null,
+                lives: null,
+                players: null,
+                playerNames: [],
+                ai: null,
+                practice: false
+            });
+        });
+
+        it('should read every option', () => {
+            expect(parse(
+                'num_pairs=8&progress=3&group_size=3&seed=abc&card_style=robgon&pairing=artist&mode=time_attack&time_bonus=5' +
+                '&lives=4&players=3&player_names=Ann,Bob&ai=easy&practice=1'
+            )).toEqual({
+                numPairs: 8,
+                progress: 3,
+                groupSize: 3,
+                seed: 'abc',
+                cardStyle: 'robgon',
+                pairing: 'artist',
+                matchBonusSeconds: 5,
+                lives: 4,
+                players: 3,
+                playerNames: ['Ann', 'Bob'],
+                ai: 'easy',
+                practice: true
+            });
+        });
+
+        it('should ignore values out of range', () => {
+            expect(parse('num_pairs=101&progress=0&group_size=9&pairing=colour&lives=0&players=5&ai=toString&practice=yes'))
+                .toEqual(parse(''));
+            expect(parse('num_pairs=1').numPairs).toBeNull();
+            expect(parse('group_size=1').groupSize).toBe(2);
+        });
+
+        it('should give time-attack games the default match bonus unless one is given', () => {
+            expect(parse('mode=time_attack').matchBonusSeconds).toBe(DEFAULT_MATCH_BONUS_SECONDS);
+            expect(parse('mode=time_attack&time_bonus=0').matchBonusSeconds).toBe(0);
+            expect(parse('mode=time_attack&time_bonus=-1').matchBonusSeconds).toBe(DEFAULT_MATCH_BONUS_SECONDS);
+            expect(parse('time_bonus=5').matchBonusSeconds).toBeNull();
+        });
+    });
+
+    describe('applyGameOptions', () => {
+        it('should leave a standard game unchanged', () => {
+            const state = createTestGameState();
+
+            expect(applyGameOptions(state, parse(''), getImage)).toBe(state);
+        });
+
+        it('should apply every rule variant asked for', () => {
+            const state = applyGameOptions(createTestGameState(), parse('pairing=artist&mode=time_attack&lives=3&practice=true'), getImage);
+
+            expect(state.pairing).toBe('artist');
+            expect(state.timeAttack).toBeDefined();
+            expect(state.lives).toBe(3);
+            expect(state.practice).toEqual({ undos: 0 });
+        });
+
+        it('should add a computer opponent as the last player', () => {
+            const state = applyGameOptions(createTestGameState(), parse('ai=perfect&player_names=Ann'), getImage);
+
+            expect(state.multiplayer?.players.map(player => player.name)).toEqual(['Ann', 'Computer']);
+        });
+    });
+});
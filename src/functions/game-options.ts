@@ -0,0 +1,118 @@
+/**
+ * Game Options
+ *
+ * Pure functions that read the options of a game from URL parameters and
+ * apply the rule variants they ask for to a deal. Values out of range are
+ * ignored, so a mistyped link still deals a standard game.
+ */
+
+import { AiDifficulty, GameState, PairingMode, getGroupCount, MIN_PAIRS, MAX_PAIRS } from '../models/game-state';
+import { DEFAULT_GROUP_SIZE, MAX_GROUP_SIZE } from '../models/group-size';
+import type { CardImage } from '../managers/image-manager';
+import { enablePairing, isPairingMode } from './pairing';
+import { createTimeAttackSettings, enableTimeAttack, DEFAULT_MATCH_BONUS_SECONDS } from './time-attack';
+import { enableLives } from './lives';
+import { createMultiplayerState, enableMultiplayer, addComputerOpponent, MIN_PLAYERS, MAX_PLAYERS } from './multiplayer';
+import { isAiDifficulty } from './ai-player';
+import { enablePractice } from './practice';
+
+// Everything a URL can ask of a game
+export interface GameOptions {
+    numPairs: number | null; // Board size, or null to use the grid size slider
+    progress: number | null; // Pairs matched before the game starts, for testing
+    groupSize: number; // Cards in each group; 2 unless a match-three (or larger) game is asked for
+    seed: string | null; // Seed of the deal, or null for a fresh one
+    cardStyle: string | null; // Deck named by a shared link
+    pairing: PairingMode | null;
+    matchBonusSeconds: number | null; // Time added per match in time-attack games; null for other games
+    lives: number | null;
+    players: number | null;
+    playerNames: string[];
+    ai: AiDifficulty | null;
+    practice: boolean;
+}
+
+// A whole number within the given range, or null for anything else
+const parseWholeNumber = (value: string | null, min: number, max: number = Infinity): number | null => {
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return !isNaN(parsed) && parsed >= min && parsed <= max ? parsed : null;
+};
+
+/**
+ * Reads the options of a game from URL parameters
+ *
+ * @param params URL parameters, such as those of the page
+ * @returns Game options, with invalid values left out
+ */
+export const parseGameOptions = (params: URLSearchParams): GameOptions => {
+    const pairing = params.get('pairing');
+    const ai = params.get('ai');
+    const practice = params.get('practice');
+    const playerNames = params.get('player_names');
+
+    return {
+        numPairs: parseWholeNumber(params.get('num_pairs'), MIN_PAIRS, MAX_PAIRS),
+        progress: parseWholeNumber(params.get('progress'), 1),
+        groupSize: parseWholeNumber(params.get('group_size'), DEFAULT_GROUP_SIZE, MAX_GROUP_SIZE) ?? DEFAULT_GROUP_SIZE,
+        seed: params.get('seed'),
+        cardStyle: params.get('card_style'),
+        pairing: isPairingMode(pairing) ? pairing : null,
+        matchBonusSeconds: params.get('mode') === 'time_attack'
+            ? parseWholeNumber(params.get('time_bonus'), 0) ?? DEFAULT_MATCH_BONUS_SECONDS
+            : null,
+        lives: parseWholeNumber(params.get('lives'), 1),
+        players: parseWholeNumber(params.get('players'), MIN_PLAYERS, MAX_PLAYERS),
+        playerNames: playerNames ? playerNames.split(',') : [],
+        ai: isAiDifficulty(ai) ? ai : null,
+        practice: practice === '1' || practice === 'true'
+    };
+};
+
+/**
+ * Applies the rule variants of the options to a new deal
+ *
+ * @param state Game state as dealt
+ * @param options Game options
+ * @param getImage Looks up the artwork of an image ID, for non-identical pairs
+ * @returns New game state with every variant the options ask for
+ */
+export const applyGameOptions = (
+    state: GameState,
+    options: GameOptions,
+    getImage: (imageId: number) => CardImage | undefined
+): GameState => {
+    let gameState = state;
+
+    // Non-identical pairs match each painting with a card naming its artist, title or year
+    if (options.pairing) {
+        gameState = enablePairing(gameState, options.pairing, getImage);
+    }
+
+    // Time-attack mode gives a countdown scaled to the number of pairs
+    if (options.matchBonusSeconds !== null) {
+        gameState = enableTimeAttack(gameState, createTimeAttackSettings(getGroupCount(gameState), options.matchBonusSeconds));
+    }
+
+    // Limited-lives mode costs a life for every mismatch
+    if (options.lives !== null) {
+        gameState = enableLives(gameState, options.lives);
+    }
+
+    // Hot-seat multiplayer for 2-4 players taking turns
+    if (options.players !== null) {
+        gameState = enableMultiplayer(gameState, createMultiplayerState(options.players, options.playerNames));
+    }
+
+    // A computer opponent takes the last seat, starting a two-player game if needed
+    if (options.ai) {
+        const multiplayer = gameState.multiplayer ?? createMultiplayerState(MIN_PLAYERS, options.playerNames);
+        gameState = enableMultiplayer(gameState, addComputerOpponent(multiplayer, options.ai));
+    }
+
+    // Practice mode lets players take moves back
+    if (options.practice) {
+        gameState = enablePractice(gameState);
+    }
+
+    return gameState;
+};
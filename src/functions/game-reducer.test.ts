@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import {
+    GameAction,
+    GameReducer,
+    gameReducer,
+    turnCardsFaceDown,
+    changeCardStyle,
+    composeReducers,
+    createGameReducer
+} from './game-reducer';
+import { Card, GameState, GameStatus } from '../models/game-state';
+import { MoveEvent, createMoveLog, replayMoveLog } from './move-log';
+
+describe('Game Reducer', () => {
+    // Helper function to create a test game state
+    const createTestGameState = (overrides: Partial<GameState> = {}): GameState => {
+        const cards: Card[] = [
+            { id: 1, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 2, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 3, imageId: 2, isRevealed: false, isMatched: false },
+            { id: 4, imageId: 2, isRevealed: false, isMatched: false },
+        ];
+
+        return {
+            cards,
+            status: GameStatus.READY,
+            moves: 0,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'impressionist',
+            gridSize: 'easy',
+            ...overrides
+        };
+    };
+
+    const reduce = (state: GameState, actions: GameAction[], reducer: GameReducer = gameReducer): GameState =>
+        actions.reduce(reducer, state);
+
+    describe('gameReducer', () => {
+        it('should start the game with the first flip', () => {
+            const state = gameReducer(createTestGameState(), { type: 'FLIP', cardId: 1 });
+
+            expect(state.status).toBe(GameStatus.IN_PROGRESS);
+            expect(state.selectedCardIds).toEqual([1]);
+            expect(state.cards[0].isRevealed).toBe(true);
+        });
+
+        it('should match a pair on CHECK_MATCH', () => {
+            const state = reduce(createTestGameState(), [
+                { type: 'FLIP', cardId: 1 },
+                { type: 'FLIP', cardId: 2 },
+                { type: 'CHECK_MATCH' }
+            ]);
+
+            expect(state.cards.filter(card => card.isMatched).map(card => card.id)).toEqual([1, 2]);
+            expect(state.selectedCardIds).toEqual([]);
+            expect(state.moves).toBe(1);
+        });
+
+        it('should flip a mismatch back on RESOLVE_MISMATCH', () => {
+            const mismatched = reduce(createTestGameState(), [
+                { type: 'FLIP', cardId: 1 },
+                { type: 'FLIP', cardId: 3 },
+                { type: 'CHECK_MATCH' }
+            ]);
+            expect(mismatched.selectedCardIds).toEqual([1, 3]);
+
+            const state = gameReducer(mismatched, { type: 'RESOLVE_MISMATCH' });
+
+            expect(state.selectedCardIds).toEqual([]);
+            expect(state.cards.every(card => !card.isRevealed)).toBe(true);
+        });
+
+        it('should go through victory music to completion', () => {
+            const state = reduce(createTestGameState(), [
+                { type: 'FLIP', cardId: 1 },
+                { type: 'FLIP', cardId: 2 },
+                { type: 'CHECK_MATCH' },
+                { type: 'FLIP', cardId: 3 },
+                { type: 'FLIP', cardId: 4 },
+                { type: 'CHECK_MATCH' }
+            ]);
+            expect(state.status).toBe(GameStatus.VICTORY_MUSIC);
+
+            const musicStarted = gameReducer(state, { type: 'MUSIC_STARTED' });
+            expect(musicStarted).toBe(state);
+
+            expect(gameReducer(state, { type: 'MUSIC_ENDED' }).status).toBe(GameStatus.COMPLETED);
+        });
+
+        it('should ignore MUSIC_ENDED once the game was restarted', () => {
+            const state = gameReducer(createTestGameState({ status: GameStatus.VICTORY_MUSIC }), { type: 'RESTART' });
+
+            expect(gameReducer(state, { type: 'MUSIC_ENDED' })).toBe(state);
+        });
+
+        it('should turn every card face down on RESTART', () => {
+            const state = createTestGameState({
+                cards: createTestGameState().cards.map(card => ({ ...card, isRevealed: true, isMatched: true })),
+                status: GameStatus.COMPLETED,
+                moves: 2
+            });
+
+            expect(gameReducer(state, { type: 'RESTART' })).toEqual(turnCardsFaceDown(state));
+            expect(turnCardsFaceDown(state)).toMatchObject({ status: GameStatus.READY, moves: 0, selectedCardIds: [] });
+            expect(turnCardsFaceDown(state).cards.every(card => !card.isRevealed && !card.isMatched)).toBe(true);
+        });
+
+        it('should replace the state on DEAL, LOAD and UNDO', () => {
+            const replacement = createTestGameState({ moves: 3 });
+
+            expect(gameReducer(createTestGameState(), { type: 'DEAL', state: replacement })).toBe(replacement);
+            expect(gameReducer(createTestGameState(), { type: 'LOAD', state: replacement })).toBe(replacement);
+            expect(gameReducer(createTestGameState(), { type: 'UNDO', state: replacement })).toBe(replacement);
+        });
+
+        it('should change the card style and grid size', () => {
+            const styled = gameReducer(createTestGameState(), { type: 'SET_STYLE', cardStyle: 'robgon' });
+            expect(styled.cardStyle).toBe('robgon');
+            expect(styled.isPreviewMode).toBe(true);
+
+            expect(gameReducer(createTestGameState(), { type: 'SET_GRID_SIZE', gridSize: 'hard' }).gridSize).toBe('hard');
+        });
+
+        it('should end a time-attack game on TIME_EXPIRED', () => {
+            const state = createTestGameState({
+                status: GameStatus.IN_PROGRESS,
+                timeAttack: { timeLimitMs: 10_000, matchBonusMs: 0 }
+            });
+
+            expect(gameReducer(state, { type: 'TIME_EXPIRED' }).status).toBe(GameStatus.TIME_UP);
+        });
+
+        it('should agree with the move log replay', () => {
+            const initialState = createTestGameState();
+            const state = reduce(initialState, [
+                { type: 'FLIP', cardId: 1 },
+                { type: 'FLIP', cardId: 3 },
+                { type: 'CHECK_MATCH' },
+                { type: 'RESOLVE_MISMATCH' }
+            ]);
+
+            const events: MoveEvent[] = [
+                { type: 'flip', at: 0, cardId: 1 },
+                { type: 'flip', at: 0, cardId: 3 },
+                { type: 'mismatch', at: 0, cardIds: [1, 3] },
+                { type: 'hide', at: 0 }
+            ];
+
+            expect(state).toEqual(replayMoveLog({ ...createMoveLog(initialState), events }));
+        });
+    });
+
+    describe('changeCardStyle', () => {
+        it('should preview the cards before the first move', () => {
+            const state = changeCardStyle(createTestGameState(), 'robgon');
+
+            expect(state.cardStyle).toBe('robgon');
+            expect(state.isPreviewMode).toBe(true);
+        });
+
+        it('should only change the style once the game has moves', () => {
+            const state = changeCardStyle({ ...createTestGameState(), moves: 1 }, 'robgon');
+
+            expect(state.cardStyle).toBe('robgon');
+            expect(state.isPreviewMode).toBe(false);
+        });
+    });
+
+    describe('composeReducers', () => {
+        it('should run each reducer on the result of the previous one', () => {
+            const addMove: GameReducer = (state) => ({ ...state, moves: state.moves + 1 });
+            const double: GameReducer = (state) => ({ ...state, moves: state.moves * 2 });
+
+            expect(composeReducers(addMove, double)(createTestGameState({ moves: 1 }), { type: 'MUSIC_STARTED' }).moves).toBe(4);
+        });
+    });
+
+    describe('createGameReducer', () => {
+        it('should use the standard rules without variants', () => {
+            expect(createGameReducer()).toBe(gameReducer);
+        });
+
+        it('should apply rule variants after the standard rules', () => {
+            // A variant where a mismatch costs an extra move
+            const mismatchPenalty: GameReducer = (state, action) =>
+                action.type === 'CHECK_MATCH' && state.selectedCardIds.length === 2
+                    ? { ...state, moves: state.moves + 1 }
+                    : state;
+
+            const state = reduce(createTestGameState(), [
+                { type: 'FLIP', cardId: 1 },
+                { type: 'FLIP', cardId: 3 },
+                { type: 'CHECK_MATCH' }
+            ], createGameReducer([mismatchPenalty]));
+
+            expect(state.moves).toBe(2);
+        });
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * Game Reducer
+ *
+ * Every change to a GameState is described by a GameAction and applied by a
+ * pure reducer built from the existing state functions. Rule variants are
+ * reducers too: composing them after the base reducer lets a variant adjust
+ * the state each action produces without touching the board.
+ */
+
+import { GameState, setPreviewMode, updateCardStyle, updateGridSize } from '../models/game-state';
+import { transitionStatus } from '../models/game-status';
+import { flipCard, clearSelectedCards } from './card-selection';
+import { processMatches } from './match-checking';
+import { expireTime } from './time-attack';
+
+// Everything that can happen to a game
+export type GameAction =
+    | { type: 'FLIP'; cardId: number } // The player or computer flips a card
+    | { type: 'CHECK_MATCH' } // Two cards are face up and are compared
+    | { type: 'RESOLVE_MISMATCH' } // Mismatched cards flip back face down
+    | { type: 'RESTART' } // Every card turns face down before a new deal
+    | { type: 'DEAL'; state: GameState } // A new deal replaces the game
+    | { type: 'LOAD'; state: GameState } // A saved or prepared game replaces the current one
+    | { type: 'UNDO'; state: GameState } // A practice move is taken back to this state
+    | { type: 'SET_STYLE'; cardStyle: GameState['cardStyle'] }
+    | { type: 'SET_GRID_SIZE'; gridSize: GameState['gridSize'] }
+    | { type: 'TIME_EXPIRED' } // The time-attack countdown ran out
+    | { type: 'MUSIC_STARTED' } // The victory music started playing
+    | { type: 'MUSIC_ENDED' }; // The victory music finished or was stopped
+
+export type GameActionType = GameAction['type'];
+
+export type GameReducer = (state: GameState, action: GameAction) => GameState;
+
+/**
+ * Turns every card face down and resets the game, keeping the current deal
+ *
+ * @param state Current game state
+ * @returns New game state ready for a new deal
+ */
+export const turnCardsFaceDown = (state: GameState): GameState =>
+    transitionStatus({
+        ...state,
+        cards: state.cards.map(card => ({ ...card, isRevealed: false, isMatched: false })),
+        moves: 0,
+        selectedCardIds: [],
+        isPreviewMode: false
+    }, 'reset');
+
+/**
+ * Changes the card style, showing every card as a preview before the first move
+ *
+ * @param state Current game state
+ * @param cardStyle New card style
+ * @returns New game state with the style changed
+ */
+export const changeCardStyle = (state: GameState, cardStyle: GameState['cardStyle']): GameState => {
+    const styledState = updateCardStyle(state, cardStyle);
+    return styledState.moves === 0 ? setPreviewMode(styledState, true) : styledState;
+};
+
+/**
+ * Applies an action with the standard game rules
+ *
+ * @param state Current game state
+ * @param action Action to apply
+ * @returns New game state, or the same state object if the action changes nothing
+ */
+export const gameReducer: GameReducer = (state, action) => {
+    switch (action.type) {
+        case 'FLIP':
+            return flipCard(state, action.cardId);
+        case 'CHECK_MATCH':
+            return processMatches(state);
+        case 'RESOLVE_MISMATCH':
+            return clearSelectedCards(state);
+        case 'RESTART':
+            return turnCardsFaceDown(state);
+        case 'DEAL':
+        case 'LOAD':
+        case 'UNDO':
+            return action.state;
+        case 'SET_STYLE':
+            return changeCardStyle(state, action.cardStyle);
+        case 'SET_GRID_SIZE':
+            return updateGridSize(state, action.gridSize);
+        case 'TIME_EXPIRED':
+            return expireTime(state);
+        case 'MUSIC_STARTED':
+            // The final match already moved the game to VICTORY_MUSIC
+            return state;
+        case 'MUSIC_ENDED':
+            return transitionStatus(state, 'victory_music_ended');
+    }
+};
+
+/**
+ * Chains reducers so each one receives the state the previous one produced
+ *
+ * @param reducers Reducers to run in order
+ * @returns A single reducer
+ */
+export const composeReducers = (...reducers: GameReducer[]): GameReducer =>
+    (state, action) => reducers.reduce((current, reducer) => reducer(current, action), state);
+
+/**
+ * Builds the reducer for a game, with optional rule variants applied after the standard rules
+ *
+ * @param variants Rule variant reducers
+ * @returns Reducer for the game
+ */
+export const createGameReducer = (variants: GameReducer[] = []): GameReducer =>
+    variants.length === 0 ? gameReducer : composeReducers(gameReducer, ...variants);
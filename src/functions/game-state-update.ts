@@ -4,9 +4,12 @@
  * Pure functions for updating the overall game state based on the current state.
  */
 
-import { GameState, GameStatus, Card, initializeGame } from '../models/game-state';
+import { GameState, GameStatus, Card, getGroupCount, getGroupSize } from '../models/game-state';
+import { imageManager } from '../managers/image-manager';
+import { transitionStatus } from '../models/game-status';
 import { processMatches } from './match-checking';
 import { clearSelectedCards } from './card-selection';
+import { initializeGame } from './deal';
 
 /**
  * Updates the game state after cards have been selected
@@ -16,8 +19,8 @@ import { clearSelectedCards } from './card-selection';
  * @returns New game state with updated matches, completed status, etc.
  */
 export const updateGameState = (state: GameState): GameState => {
-    // If there aren't exactly 2 cards selected, no processing needed
-    if (state.selectedCardIds.length !== 2) {
+    // If there isn't a full group selected, no processing needed
+    if (state.selectedCardIds.length !== getGroupSize(state)) {
         return state;
     }
 
@@ -31,7 +34,7 @@ export const updateGameState = (state: GameState): GameState => {
 
     // If the cards didn't match, clear the selection (in a real game, this would happen after a delay)
     // In our pure function world, we'll just handle both cases here
-    if (stateWithMatches.selectedCardIds.length === 2) {
+    if (stateWithMatches.selectedCardIds.length > 0) {
         return clearSelectedCards(stateWithMatches);
     }
 
@@ -49,9 +52,6 @@ export const resetGameState = (
     state: GameState,
     shuffleFunction?: (cards: Card[]) => Card[]
 ): GameState => {
-    const totalPairs = state.cards.length / 2;
-    return {
-        ...initializeGame(totalPairs, shuffleFunction),
-        status: GameStatus.READY
-    };
+    const newGame = initializeGame(getGroupCount(state), imageManager, shuffleFunction, undefined, getGroupSize(state));
+    return transitionStatus(newGame, 'reset');
 }; 
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+    GENERATED_DECK_KINDS,
+    isGeneratedDeckKind,
+    getGeneratedDeckSize,
+    createGeneratedCardImages,
+    createGeneratedCardBack
+} from './generated-deck';
+
+describe('Generated Deck Functions', () => {
+    const decodeSvg = (path: string): string => decodeURIComponent(path.replace('data:image/svg+xml,', ''));
+
+    describe('isGeneratedDeckKind', () => {
+        it('should accept every kind of generated deck', () => {
+            GENERATED_DECK_KINDS.forEach(kind => expect(isGeneratedDeckKind(kind)).toBe(true));
+        });
+
+        it('should reject anything else', () => {
+            expect(isGeneratedDeckKind('dots')).toBe(false);
+            expect(isGeneratedDeckKind(undefined)).toBe(false);
+        });
+    });
+
+    describe('getGeneratedDeckSize', () => {
+        it('should have room for large boards', () => {
+            expect(getGeneratedDeckSize('shapes')).toBe(64);
+            expect(getGeneratedDeckSize('numbers')).toBe(100);
+            expect(getGeneratedDeckSize('letters')).toBe(41);
+            expect(getGeneratedDeckSize('arithmetic')).toBe(100);
+        });
+    });
+
+    describe('createGeneratedCardImages', () => {
+        it('should number every face from 1 with a different title', () => {
+            GENERATED_DECK_KINDS.forEach(kind => {
+                const images = createGeneratedCardImages(kind, 'abc');
+
+                expect(images).toHaveLength(getGeneratedDeckSize(kind));
+                expect(images.map(image => image.id)).toEqual(images.map((_, index) => index + 1));
+                expect(new Set(images.map(image => image.title)).size).toBe(images.length);
+            });
+        });
+
+        it('should draw each face as an SVG data URL', () => {
+            const [image] = createGeneratedCardImages('numbers', 'abc');
+
+            expect(image.path).toMatch(/^data:image\/svg\+xml,/);
+            expect(decodeSvg(image.path)).toContain(`>${image.title}</text>`);
+            expect(image.alt).toBe(`The number ${image.title}`);
+        });
+
+        it('should describe the faces of each kind', () => {
+            const titles = (kind: Parameters<typeof createGeneratedCardImages>[0]) =>
+                createGeneratedCardImages(kind, 'abc').map(image => image.title);
+
+            expect(titles('shapes')).toContain('Red circle');
+            expect(titles('letters')).toEqual(expect.arrayContaining(['A', 'a', 'Z', 'y']));
+            expect(titles('arithmetic')).toEqual(expect.arrayContaining(['3 + 4 = 7', '7 × 8 = 56']));
+            expect(titles('arithmetic')).not.toContain('4 + 3 = 7');
+        });
+
+        it('should not draw two letters that look the same on their own', () => {
+            // Glyphs that only differ in size, or not at all, in a bold sans-serif font
+            const LOOK_ALIKES: Record<string, string> = {
+                c: 'C', k: 'K', o: 'O', p: 'P', s: 'S', u: 'U', v: 'V', w: 'W', x: 'X', z: 'Z', l: 'I'
+            };
+            const glyphs = createGeneratedCardImages('letters', 'abc').map(image => LOOK_ALIKES[image.title] ?? image.title);
+
+            expect(new Set(glyphs).size).toBe(glyphs.length);
+            expect(glyphs).toEqual(expect.arrayContaining(['I', 'O', 'a', 'b']));
+        });
+
+        it('should draw the same deck from the same seed', () => {
+            expect(createGeneratedCardImages('shapes', 'abc')).toEqual(createGeneratedCardImages('shapes', 'abc'));
+            expect(createGeneratedCardImages('shapes', 'abc')).not.toEqual(createGeneratedCardImages('shapes', 'xyz'));
+        });
+    });
+
+    describe('createGeneratedCardBack', () => {
+        it('should draw a back that depends on the seed', () => {
+            expect(createGeneratedCardBack('abc')).toMatch(/^data:image\/svg\+xml,/);
+            expect(createGeneratedCardBack('abc')).toBe(createGeneratedCardBack('abc'));
+            expect(createGeneratedCardBack('abc')).not.toBe(createGeneratedCardBack('xyz'));
+        });
+    });
+});
@@ -0,0 +1,203 @@
+/**
+ * Generated Deck Functions
+ *
+ * Pure functions for decks drawn in code instead of loaded from image files.
+ * Each card face is an SVG data URL, so a generated deck needs no assets, has
+ * room for far more pairs than the photo decks, and works anywhere, including
+ * the Node simulator. A seed picks the colours and the order of the faces, so
+ * the same seed always draws the same deck.
+ */
+
+import type { CardImage } from '../managers/image-manager';
+import { createSeededRandom, RandomSource } from '../utils/random';
+import { shuffleArray } from './shuffle';
+import { CARD_IMAGE_WIDTH, CARD_IMAGE_HEIGHT } from './custom-deck';
+
+export type GeneratedDeckKind = 'shapes' | 'numbers' | 'letters' | 'arithmetic';
+
+export const GENERATED_DECK_KINDS: GeneratedDeckKind[] = ['shapes', 'numbers', 'letters', 'arithmetic'];
+
+// What is drawn on a card face, before it is turned into an image
+interface GeneratedFace {
+    title: string;
+    alt: string;
+    draw: (colour: string) => string; // SVG elements of the face, drawn in the given colour
+}
+
+interface NamedColour {
+    name: string;
+    value: string;
+}
+
+// Shape cards are told apart by colour, so these are kept far apart
+const COLOURS: NamedColour[] = [
+    { name: 'Red', value: '#d62828' },
+    { name: 'Orange', value: '#f77f00' },
+    { name: 'Yellow', value: '#e9b308' },
+    { name: 'Green', value: '#2a9d4f' },
+    { name: 'Blue', value: '#1d5fc4' },
+    { name: 'Purple', value: '#7b2cbf' },
+    { name: 'Pink', value: '#e0529c' },
+    { name: 'Brown', value: '#7f5539' }
+];
+
+const CENTER_X = CARD_IMAGE_WIDTH / 2;
+const CENTER_Y = CARD_IMAGE_HEIGHT / 2;
+const SHAPE_RADIUS = 120;
+
+const LARGEST_NUMBER = 100;
+const LARGEST_ADDEND = 10;
+const LARGEST_FACTOR = 10;
+
+// Lowercase letters drawn as a smaller copy of their capital, and the l that looks like a capital I; a card
+// seen on its own gives no sense of scale, so these would be mistaken for another card of the deck
+const LOOK_ALIKE_LOWERCASE = ['c', 'k', 'l', 'o', 'p', 's', 'u', 'v', 'w', 'x', 'z'];
+
+/**
+ * Checks that a value names a kind of generated deck
+ *
+ * @param value Value to check, such as the generator of a deck manifest
+ * @returns True for 'shapes', 'numbers', 'letters' or 'arithmetic'
+ */
+export const isGeneratedDeckKind = (value: unknown): value is GeneratedDeckKind =>
+    typeof value === 'string' && (GENERATED_DECK_KINDS as string[]).includes(value);
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const toDataUrl = (svg: string): string => `data:image/svg+xml,${encodeURIComponent(svg)}`;
+
+const drawCard = (background: string, content: string): string =>
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${CARD_IMAGE_WIDTH} ${CARD_IMAGE_HEIGHT}">` +
+    `<rect width="${CARD_IMAGE_WIDTH}" height="${CARD_IMAGE_HEIGHT}" fill="${background}"/>` +
+    content +
+    '</svg>';
+
+const drawText = (text: string, y: number, fontSize: number, colour: string): string =>
+    `<text x="${CENTER_X}" y="${y}" font-family="Arial, Helvetica, sans-serif" font-size="${fontSize}" font-weight="bold" ` +
+    `text-anchor="middle" dominant-baseline="central" fill="${colour}">${escapeXml(text)}</text>`;
+
+// Points of a polygon around the card center, one per radius, starting at the top
+const drawPolygon = (radii: number[], colour: string): string => {
+    const points = radii.map((radius, index) => {
+        const angle = (index / radii.length) * 2 * Math.PI - Math.PI / 2;
+        return `${(CENTER_X + radius * Math.cos(angle)).toFixed(1)},${(CENTER_Y + radius * Math.sin(angle)).toFixed(1)}`;
+    });
+    return `<polygon points="${points.join(' ')}" fill="${colour}"/>`;
+};
+
+const SHAPES: { name: string; draw: (colour: string) => string }[] = [
+    { name: 'circle', draw: (colour) => `<circle cx="${CENTER_X}" cy="${CENTER_Y}" r="${SHAPE_RADIUS}" fill="${colour}"/>` },
+    {
+        name: 'square',
+        draw: (colour) => `<rect x="${CENTER_X - 100}" y="${CENTER_Y - 100}" width="200" height="200" fill="${colour}"/>`
+    },
+    { name: 'triangle', draw: (colour) => drawPolygon([130, 130, 130], colour) },
+    { name: 'diamond', draw: (colour) => `<path d="M175 105 L270 245 L175 385 L80 245 Z" fill="${colour}"/>` },
+    { name: 'star', draw: (colour) => drawPolygon(Array.from({ length: 10 }, (_, index) => (index % 2 === 0 ? 135 : 55)), colour) },
+    { name: 'hexagon', draw: (colour) => drawPolygon(Array(6).fill(SHAPE_RADIUS), colour) },
+    {
+        name: 'heart',
+        draw: (colour) => `<path d="M175 345 C40 255 90 120 175 185 C260 120 310 255 175 345 Z" fill="${colour}"/>`
+    },
+    {
+        name: 'cross',
+        draw: (colour) => `<path d="M140 125 H210 V210 H295 V280 H210 V365 H140 V280 H55 V210 H140 Z" fill="${colour}"/>`
+    }
+];
+
+const createShapeFaces = (): GeneratedFace[] =>
+    SHAPES.flatMap(shape => COLOURS.map(colour => ({
+        title: `${colour.name} ${shape.name}`,
+        alt: `A ${colour.name.toLowerCase()} ${shape.name}`,
+        draw: () => shape.draw(colour.value)
+    })));
+
+const createNumberFaces = (): GeneratedFace[] =>
+    Array.from({ length: LARGEST_NUMBER }, (_, index) => {
+        const number = String(index + 1);
+        return { title: number, alt: `The number ${number}`, draw: (colour: string) => drawText(number, CENTER_Y, 150, colour) };
+    });
+
+const createLetterFaces = (): GeneratedFace[] =>
+    Array.from({ length: 26 }, (_, index) => String.fromCharCode(65 + index)).flatMap(letter => {
+        const lowercase = letter.toLowerCase();
+        const capitalFace = { title: letter, alt: `Capital ${letter}`, draw: (colour: string) => drawText(letter, CENTER_Y, 220, colour) };
+        return LOOK_ALIKE_LOWERCASE.includes(lowercase) ? [capitalFace] : [
+            capitalFace,
+            { title: lowercase, alt: `Lowercase ${lowercase}`, draw: (colour: string) => drawText(lowercase, CENTER_Y, 220, colour) }
+        ];
+    });
+
+// The sums and products of small numbers, each written once (3 + 4 but not 4 + 3)
+const createArithmeticFaces = (): GeneratedFace[] => {
+    const facts: [string, number][] = [];
+    for (let a = 1; a <= LARGEST_ADDEND; a++) {
+        for (let b = a; b <= LARGEST_ADDEND; b++) facts.push([`${a} + ${b}`, a + b]);
+    }
+    for (let a = 2; a <= LARGEST_FACTOR; a++) {
+        for (let b = a; b <= LARGEST_FACTOR; b++) facts.push([`${a} × ${b}`, a * b]);
+    }
+
+    return facts.map(([question, answer]) => ({
+        title: `${question} = ${answer}`,
+        alt: `${question} = ${answer}`,
+        draw: (colour: string) => drawText(question, CENTER_Y - 50, 80, colour) + drawText(`= ${answer}`, CENTER_Y + 60, 80, colour)
+    }));
+};
+
+const FACES: Record<GeneratedDeckKind, () => GeneratedFace[]> = {
+    shapes: createShapeFaces,
+    numbers: createNumberFaces,
+    letters: createLetterFaces,
+    arithmetic: createArithmeticFaces
+};
+
+// A pale background tint, so the colour of the face always stands out
+const pickBackground = (random: RandomSource): string =>
+    `hsl(${Math.floor(random() * 360)}, 60%, 94%)`;
+
+/**
+ * Gets how many different faces a kind of generated deck has
+ *
+ * @param kind Kind of deck
+ * @returns Number of card images, and so the most pairs a board can deal from the deck
+ */
+export const getGeneratedDeckSize = (kind: GeneratedDeckKind): number => FACES[kind]().length;
+
+/**
+ * Draws every card face of a generated deck
+ *
+ * @param kind Kind of deck
+ * @param seed Seed for the colours and the order of the faces
+ * @returns Card images numbered from 1, with SVG data URLs as their paths
+ */
+export const createGeneratedCardImages = (kind: GeneratedDeckKind, seed: string): CardImage[] => {
+    const random = createSeededRandom(seed);
+
+    return shuffleArray(FACES[kind](), random).map((face, index) => {
+        const background = pickBackground(random);
+        const colour = COLOURS[Math.floor(random() * COLOURS.length)].value;
+        return {
+            id: index + 1,
+            title: face.title,
+            path: toDataUrl(drawCard(background, face.draw(colour))),
+            alt: face.alt
+        };
+    });
+};
+
+/**
+ * Draws the card back of a generated deck
+ *
+ * @param seed Seed for the colour of the back
+ * @returns SVG data URL of a striped card back
+ */
+export const createGeneratedCardBack = (seed: string): string => {
+    const hue = Math.floor(createSeededRandom(seed)() * 360);
+    const stripes = `<defs><pattern id="stripes" width="28" height="28" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">` +
+        `<rect width="14" height="28" fill="hsl(${hue}, 55%, 35%)"/></pattern></defs>` +
+        `<rect x="20" y="20" width="${CARD_IMAGE_WIDTH - 40}" height="${CARD_IMAGE_HEIGHT - 40}" rx="16" fill="url(#stripes)"/>`;
+
+    return toDataUrl(drawCard(`hsl(${hue}, 55%, 45%)`, stripes));
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { enableLives, loseLife, MAX_LIVES } from './lives';
+import { Card, GameState, GameStatus } from '../models/game-state';
+
+describe('Limited-Lives Functions', () => {
+    // Helper function to create a test game state
+    const createTestGameState = (): GameState => {
+        const cards: Card[] = [
+            { id: 1, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 2, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 3, imageId: 2, isRevealed: false, isMatched: false },
+            { id: 4, imageId: 2, isRevealed: false, isMatched: false },
+        ];
+
+        return {
+            cards,
+            status: GameStatus.IN_PROGRESS,
+            moves: 0,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'impressionist',
+            gridSize: 'easy'
+        };
+    };
+
+    describe('enableLives', () => {
+        it('should set the lives budget', () => {
+            expect(enableLives(createTestGameState(), 3).lives).toBe(3);
+        });
+
+        it('should clamp the budget to a sensible range', () => {
+            expect(enableLives(createTestGameState(), 0).lives).toBe(1);
+            expect(enableLives(createTestGameState(), 1000).lives).toBe(MAX_LIVES);
+            expect(enableLives(createTestGameState(), 2.7).lives).toBe(2);
+        });
+    });
+
+    describe('loseLife', () => {
+        it('should take away one life', () => {
+            const state = loseLife(enableLives(createTestGameState(), 3));
+
+            expect(state.lives).toBe(2);
+            expect(state.status).toBe(GameStatus.IN_PROGRESS);
+        });
+
+        it('should end the game when the last life is lost', () => {
+            const state = loseLife(enableLives(createTestGameState(), 1));
+
+            expect(state.lives).toBe(0);
+            expect(state.status).toBe(GameStatus.OUT_OF_LIVES);
+        });
+
+        it('should leave classic games unchanged', () => {
+            const state = createTestGameState();
+            expect(loseLife(state)).toBe(state);
+        });
+    });
+});
@@ -0,0 +1,41 @@
+/**
+ * Limited-Lives Functions
+ * 
+ * Pure functions for the limited-lives rule variant, where every mismatch
+ * costs a life and the game is lost when no lives are left.
+ */
+
+import { GameState } from '../models/game-state';
+import { transitionStatus } from '../models/game-status';
+
+// Largest lives budget accepted from the URL
+export const MAX_LIVES = 99;
+
+/**
+ * Turns a game into a limited-lives game
+ * 
+ * @param state Current game state
+ * @param lives Number of lives to start with
+ * @returns New game state in limited-lives mode
+ */
+export const enableLives = (state: GameState, lives: number): GameState => ({
+    ...state,
+    lives: Math.max(1, Math.min(MAX_LIVES, Math.floor(lives)))
+});
+
+/**
+ * Takes away one life after a mismatch
+ * 
+ * @param state Current game state
+ * @returns New game state with one life fewer, OUT_OF_LIVES when none are left,
+ *          or the unchanged state outside limited-lives mode
+ */
+export const loseLife = (state: GameState): GameState => {
+    if (state.lives === undefined) {
+        return state;
+    }
+
+    const lives = Math.max(0, state.lives - 1);
+    const updatedState = { ...state, lives };
+    return lives === 0 ? transitionStatus(updatedState, 'lives_exhausted') : updatedState;
+};
@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { doSelectedCardsMatch, areAllCardsMatched, processMatches } from './match-checking';
-import { Card, GameState, GameStatus } from '../models/game-state';
+import { doSelectedCardsMatch, areAllCardsMatched, processMatches, checkForMatches, getMatchRule, matchIdenticalCards, matchPaintingToText } from './match-checking';
+import { Card, GameState, GameStatus, revealCard } from '../models/game-state';
+import { initializeGame } from './deal';
+import { imageManager } from '../managers/image-manager';
 
 describe('Match Checking Functions', () => {
     // Helper function to create a test game state
@@ -73,6 +75,51 @@ describe('Match Checking Functions', () => {
 
             expect(doSelectedCardsMatch(state)).toBe(false);
         });
+
+        it('should need every card of a larger group to match', () => {
+            const state: GameState = {
+                ...createTestGameState(),
+                groupSize: 3,
+                cards: [1, 1, 1, 2, 2, 2].map((imageId, index) => ({ id: index + 1, imageId, isRevealed: true, isMatched: false }))
+            };
+
+            expect(doSelectedCardsMatch({ ...state, selectedCardIds: [1, 2] })).toBe(false);
+            expect(doSelectedCardsMatch({ ...state, selectedCardIds: [1, 2, 3] })).toBe(true);
+            expect(doSelectedCardsMatch({ ...state, selectedCardIds: [1, 2, 4] })).toBe(false);
+            expect(doSelectedCardsMatch({ ...state, selectedCardIds: [4, 1, 2] })).toBe(false);
+        });
+
+        it('should compare the cards with the given rule', () => {
+            const state = { ...createTestGameState(), selectedCardIds: [1, 3] };
+            expect(doSelectedCardsMatch(state, () => true)).toBe(true);
+        });
+    });
+
+    describe('match rules', () => {
+        const painting = (id: number, imageId: number, pairKey: string): Card =>
+            ({ id, imageId, isRevealed: true, isMatched: false, face: 'image', pairKey });
+        const artistCard = (id: number, imageId: number, pairKey: string): Card =>
+            ({ id, imageId, isRevealed: true, isMatched: false, face: 'artist', pairKey });
+
+        it('should use the standard rule unless a pairing mode is set', () => {
+            expect(getMatchRule(createTestGameState())).toBe(matchIdenticalCards);
+            expect(getMatchRule({ ...createTestGameState(), pairing: 'artist' })).toBe(matchPaintingToText);
+        });
+
+        it('should match a painting with a text card of the same key', () => {
+            expect(matchPaintingToText(painting(1, 1, 'Claude Monet'), artistCard(2, 1, 'Claude Monet'))).toBe(true);
+            expect(matchPaintingToText(artistCard(2, 1, 'Claude Monet'), painting(1, 1, 'Claude Monet'))).toBe(true);
+            expect(matchPaintingToText(painting(1, 1, 'Claude Monet'), artistCard(2, 2, 'Edgar Degas'))).toBe(false);
+        });
+
+        it('should match any painting sharing the detail of a text card', () => {
+            expect(matchPaintingToText(painting(1, 1, 'Pierre-Auguste Renoir'), artistCard(4, 2, 'Pierre-Auguste Renoir'))).toBe(true);
+        });
+
+        it('should not match two paintings or two text cards', () => {
+            expect(matchPaintingToText(painting(1, 1, 'Claude Monet'), painting(3, 2, 'Claude Monet'))).toBe(false);
+            expect(matchPaintingToText(artistCard(2, 1, 'Claude Monet'), artistCard(4, 2, 'Claude Monet'))).toBe(false);
+        });
     });
 
     describe('areAllCardsMatched', () => {
@@ -224,6 +271,55 @@ describe('Match Checking Functions', () => {
             expect(newState.status).toBe(GameStatus.IN_PROGRESS);
         });
 
+        it('should cost a life for a mismatch in limited-lives mode', () => {
+            const state = { ...createTestGameState(), lives: 3, selectedCardIds: [1, 3] };
+
+            const newState = processMatches(state);
+
+            expect(newState.lives).toBe(2);
+            expect(newState.status).toBe(GameStatus.IN_PROGRESS);
+        });
+
+        it('should not cost a life for a match in limited-lives mode', () => {
+            const state = { ...createTestGameState(), lives: 3, selectedCardIds: [1, 2] };
+
+            expect(processMatches(state).lives).toBe(3);
+        });
+
+        it('should update game status to OUT_OF_LIVES when the last life is lost', () => {
+            const state = { ...createTestGameState(), lives: 1, selectedCardIds: [1, 3] };
+
+            const newState = processMatches(state);
+
+            expect(newState.lives).toBe(0);
+            expect(newState.status).toBe(GameStatus.OUT_OF_LIVES);
+            // The mismatched cards stay selected so they can be flipped back
+            expect(newState.selectedCardIds).toEqual([1, 3]);
+        });
+
+        it('should score a point and keep the turn for a match in multiplayer games', () => {
+            const multiplayer = { players: [{ name: 'A', score: 0 }, { name: 'B', score: 0 }], activePlayerIndex: 1 };
+            const state = { ...createTestGameState(), multiplayer, selectedCardIds: [1, 2] };
+
+            const newState = processMatches(state);
+
+            expect(newState.multiplayer?.players.map(player => player.score)).toEqual([0, 1]);
+            expect(newState.multiplayer?.activePlayerIndex).toBe(1);
+        });
+
+        it('should pass the turn for a mismatch in multiplayer games', () => {
+            const multiplayer = { players: [{ name: 'A', score: 0 }, { name: 'B', score: 0 }], activePlayerIndex: 1 };
+            const state = { ...createTestGameState(), multiplayer, selectedCardIds: [1, 3] };
+
+            expect(processMatches(state).multiplayer?.activePlayerIndex).toBe(0);
+        });
+
+        it('should not track lives in classic mode', () => {
+            const state = { ...createTestGameState(), selectedCardIds: [1, 3] };
+
+            expect(processMatches(state).lives).toBeUndefined();
+        });
+
         it('should not process anything when fewer than 2 cards are selected', () => {
             let state = createTestGameState();
 
@@ -240,4 +336,103 @@ describe('Match Checking Functions', () => {
             expect(newState).toEqual(stateBeforeProcessing);
         });
     });
-}); 
\ No newline at end of file
+
+    describe('checkForMatches', () => {
+        it('should mark cards as matched when they have the same imageId', () => {
+            let state = initializeGame(2, imageManager);
+
+            // Find a pair of cards with the same imageId
+            const card1 = state.cards[0];
+            const card2 = state.cards.find(card =>
+                card.id !== card1.id && card.imageId === card1.imageId
+            );
+
+            if (!card2) {
+                throw new Error('Test setup failed: Matching card not found');
+            }
+
+            // Reveal both cards
+            state = revealCard(state, card1.id);
+            state = revealCard(state, card2.id);
+
+            // Check for matches
+            state = checkForMatches(state);
+
+            // Both cards should be marked as matched
+            const updatedCard1 = state.cards.find(card => card.id === card1.id);
+            const updatedCard2 = state.cards.find(card => card.id === card2.id);
+
+            expect(updatedCard1?.isMatched).toBe(true);
+            expect(updatedCard2?.isMatched).toBe(true);
+
+            // Selected card IDs should be cleared
+            expect(state.selectedCardIds).toEqual([]);
+        });
+
+        it('should not mark cards as matched when they have different imageIds', () => {
+            let state = initializeGame(2, imageManager);
+
+            // Find two cards with different imageIds
+            const card1 = state.cards[0];
+            const card2 = state.cards.find(card =>
+                card.id !== card1.id && card.imageId !== card1.imageId
+            );
+
+            if (!card2) {
+                throw new Error('Test setup failed: Non-matching card not found');
+            }
+
+            // Reveal both cards
+            state = revealCard(state, card1.id);
+            state = revealCard(state, card2.id);
+
+            // Check for matches
+            state = checkForMatches(state);
+
+            // Cards should not be marked as matched
+            const updatedCard1 = state.cards.find(card => card.id === card1.id);
+            const updatedCard2 = state.cards.find(card => card.id === card2.id);
+
+            expect(updatedCard1?.isMatched).toBe(false);
+            expect(updatedCard2?.isMatched).toBe(false);
+
+            // Selected card IDs should not be cleared
+            expect(state.selectedCardIds).toContain(card1.id);
+            expect(state.selectedCardIds).toContain(card2.id);
+        });
+
+        it('should update game status to VICTORY_MUSIC when all cards are matched', () => {
+            let state = initializeGame(1, imageManager); // Just one pair for simplicity
+
+            // Find the pair of cards
+            const card1 = state.cards[0];
+            const card2 = state.cards[1];
+
+            // Reveal both cards
+            state = revealCard(state, card1.id);
+            state = revealCard(state, card2.id);
+
+            // Check for matches
+            state = checkForMatches(state);
+
+            // Game status should be VICTORY_MUSIC
+            expect(state.status).toBe(GameStatus.VICTORY_MUSIC);
+        });
+
+        it('should not change anything if less than 2 cards are selected', () => {
+            let state = initializeGame(2, imageManager);
+
+            // Reveal just one card
+            state = revealCard(state, state.cards[0].id);
+
+            // Store state before check
+            const stateBeforeCheck = { ...state };
+
+            // Check for matches
+            state = checkForMatches(state);
+
+            // State should not change
+            expect(state).toEqual(stateBeforeCheck);
+        });
+    });
+});
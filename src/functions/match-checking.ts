@@ -4,39 +4,70 @@
  * Pure functions for checking if cards match in the memory game.
  */
 
-import { GameState, GameStatus } from '../models/game-state';
-import { audioManager } from '../managers/audio-manager';
+import { Card, GameState, getGroupSize } from '../models/game-state';
+import { transitionStatus } from '../models/game-status';
+import { loseLife } from './lives';
+import { recordTurn } from './multiplayer';
 
-// Create audio object for match sound
-const matchSound = new Audio(import.meta.env.BASE_URL + 'aero-chime-one-shot.mp3');
+// Decides whether two revealed cards form a pair
+export type MatchRule = (firstCard: Card, secondCard: Card) => boolean;
 
 /**
- * Checks if the two selected cards match based on their imageId
+ * Gets the key that pairs a card with its partner
+ * 
+ * @param card Card
+ * @returns The card's pair key, or its image ID for identical pairs
+ */
+export const getPairKey = (card: Card): string => card.pairKey ?? String(card.imageId);
+
+/**
+ * Standard rule: both cards show the same image
+ */
+export const matchIdenticalCards: MatchRule = (firstCard, secondCard) =>
+    firstCard.imageId === secondCard.imageId;
+
+/**
+ * Non-identical pairs: a painting and a text card with the same pair key, so a
+ * painting matches any card naming its artist, title or year
+ */
+export const matchPaintingToText: MatchRule = (firstCard, secondCard) =>
+    getPairKey(firstCard) === getPairKey(secondCard) &&
+    (firstCard.face ?? 'image') !== (secondCard.face ?? 'image');
+
+/**
+ * Gets the match rule of a game
+ * 
+ * @param state Game state
+ * @returns The rule for non-identical pairs when a pairing mode is set, otherwise the standard rule
+ */
+export const getMatchRule = (state: GameState): MatchRule =>
+    state.pairing ? matchPaintingToText : matchIdenticalCards;
+
+/**
+ * Checks if the selected group of cards match under the game's match rule
  * 
  * @param state Current game state
- * @returns True if the selected cards match, false otherwise or if fewer than 2 cards are selected
+ * @param matchRule Rule the cards are compared with
+ * @returns True if every selected card matches the first, false otherwise or if the group is not complete
  */
-export const doSelectedCardsMatch = (state: GameState): boolean => {
+export const doSelectedCardsMatch = (state: GameState, matchRule: MatchRule = getMatchRule(state)): boolean => {
     const { selectedCardIds, cards } = state;
 
-    // Need exactly 2 selected cards to check for a match
-    if (selectedCardIds.length !== 2) {
+    // Need a full group of selected cards to check for a match
+    if (selectedCardIds.length !== getGroupSize(state)) {
         return false;
     }
 
-    const [firstCardId, secondCardId] = selectedCardIds;
-
     // Find the selected cards
-    const firstCard = cards.find(card => card.id === firstCardId);
-    const secondCard = cards.find(card => card.id === secondCardId);
+    const selectedCards = selectedCardIds.map(cardId => cards.find(card => card.id === cardId));
 
-    // If either card is not found, there's no match
-    if (!firstCard || !secondCard) {
+    // If any card is not found, there's no match
+    if (!selectedCards.every((card): card is Card => card !== undefined)) {
         return false;
     }
 
-    // Return true if the image IDs match
-    return firstCard.imageId === secondCard.imageId;
+    const [firstCard, ...otherCards] = selectedCards;
+    return otherCards.every(card => matchRule(firstCard, card));
 };
 
 /**
@@ -56,38 +87,14 @@ export const areAllCardsMatched = (state: GameState): boolean => {
  * @returns New game state with updated card matches and possibly updated game status
  */
 export const processMatches = (state: GameState): GameState => {
-    // Only process if exactly 2 cards are selected
-    if (state.selectedCardIds.length !== 2) {
+    // Only process once a full group of cards is selected
+    if (state.selectedCardIds.length !== getGroupSize(state)) {
         return state;
     }
 
     // Check if the selected cards match
     const isMatch = doSelectedCardsMatch(state);
 
-    // Play match sound if cards match
-    if (isMatch) {
-        // Check if this is the final match
-        const willBeCompleted = state.cards.filter(card =>
-            card.isMatched || state.selectedCardIds.includes(card.id)
-        ).length === state.cards.length;
-
-        if (willBeCompleted) {
-            // For final match, play victory sound after match sound
-            matchSound.onended = () => {
-                // Only start victory music after match sound finishes
-                audioManager.playMusic('gameComplete');
-            };
-        } else {
-            // For regular matches, clear any previous onended handler
-            matchSound.onended = null;
-        }
-
-        // Play the match sound
-        matchSound.play().catch(error => {
-            console.error('Error playing match sound:', error);
-        });
-    }
-
     // Update cards based on the match result
     const updatedCards = state.cards.map(card => {
         // If this card is one of the selected cards and they match
@@ -102,13 +109,69 @@ export const processMatches = (state: GameState): GameState => {
     // Check if all cards are matched after this update
     const allMatched = updatedCards.every(card => card.isMatched);
 
-    // Only update to VICTORY_MUSIC state after match sound finishes
-    // This will be handled by the audio manager's musicStart event
-    return {
-        ...state,
+    // In limited-lives mode a mismatch costs a life
+    const stateAfterMismatch = isMatch ? state : loseLife(state);
+
+    // In multiplayer games a match scores a point and a mismatch passes the turn
+    const stateAfterTurn = recordTurn(stateAfterMismatch, isMatch);
+
+    const updatedState = {
+        ...stateAfterTurn,
         cards: updatedCards,
-        status: allMatched ? GameStatus.VICTORY_MUSIC : state.status,
         // Clear selected cards if they match, otherwise keep them selected
         selectedCardIds: isMatch ? [] : state.selectedCardIds
     };
-}; 
\ No newline at end of file
+
+    // The final match moves the game on to its victory music, which is played outside this function
+    return allMatched ? transitionStatus(updatedState, 'all_matched') : updatedState;
+}; 
+
+/**
+ * Checks for matches in the currently selected cards
+ *
+ * Only the match rule is applied; processMatches also plays out lives and turns.
+ * @param state Current game state
+ * @returns New game state with matches updated
+ */
+export const checkForMatches = (state: GameState): GameState => {
+    // We need a full group of selected cards to check for matches
+    if (state.selectedCardIds.length !== getGroupSize(state)) {
+        return state;
+    }
+
+    // If a card is not found (shouldn't happen), return the state unchanged
+    if (!state.selectedCardIds.every(cardId => state.cards.some(card => card.id === cardId))) {
+        return state;
+    }
+
+    // Check the selected cards against the game's match rule
+    const isMatch = doSelectedCardsMatch(state);
+
+    // Create updated cards array
+    const updatedCards = state.cards.map(card => {
+        // If this is one of the selected cards
+        if (state.selectedCardIds.includes(card.id)) {
+            if (isMatch) {
+                // If it's a match, mark as matched
+                return { ...card, isMatched: true };
+            } else {
+                // If not a match, keep the card revealed for now
+                // (Another function will handle hiding unmatched cards after delay)
+                return card;
+            }
+        }
+        // Leave other cards unchanged
+        return card;
+    });
+
+    const updatedState = {
+        ...state,
+        cards: updatedCards,
+        // Clear selected cards if they don't match
+        selectedCardIds: isMatch ? [] : state.selectedCardIds
+    };
+
+    // Check if all cards are matched to update game status
+    const allMatched = updatedCards.every(card => card.isMatched);
+    return allMatched ? transitionStatus(updatedState, 'all_matched') : updatedState;
+};
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+    MoveLog,
+    MoveEvent,
+    MAX_REPLAY_GAP_MS,
+    createMoveLog,
+    appendMoveEvent,
+    applyMoveEvent,
+    replayMoveLog,
+    getReplayDelay,
+    exportMoveLog,
+    parseMoveLog
+} from './move-log';
+import { Card, GameState, GameStatus } from '../models/game-state';
+import { enableTimeAttack } from './time-attack';
+import { flipCard } from './card-selection';
+
+describe('Move Log Functions', () => {
+    // Helper function to create a test game state
+    const createTestGameState = (): GameState => {
+        const cards: Card[] = [
+            { id: 1, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 2, imageId: 2, isRevealed: false, isMatched: false },
+            { id: 3, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 4, imageId: 2, isRevealed: false, isMatched: false },
+        ];
+
+        return {
+            cards,
+            status: GameStatus.READY,
+            moves: 0,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'impressionist',
+            gridSize: 'easy'
+        };
+    };
+
+    // A whole game: a mismatch that flips back, then both pairs matched
+    const createFinishedLog = (): MoveLog => {
+        const events: MoveEvent[] = [
+            { type: 'flip', at: 1000, cardId: 1 },
+            { type: 'flip', at: 1500, cardId: 2 },
+            { type: 'mismatch', at: 1500, cardIds: [1, 2] },
+            { type: 'hide', at: 3500 },
+            { type: 'flip', at: 4000, cardId: 1 },
+            { type: 'flip', at: 4200, cardId: 3 },
+            { type: 'match', at: 4200, cardIds: [1, 3] },
+            { type: 'flip', at: 5000, cardId: 2 },
+            { type: 'flip', at: 5300, cardId: 4 },
+            { type: 'match', at: 5300, cardIds: [2, 4] },
+            { type: 'complete', at: 9000 }
+        ];
+        return events.reduce(appendMoveEvent, createMoveLog(createTestGameState()));
+    };
+
+    describe('createMoveLog / appendMoveEvent', () => {
+        it('should start empty and append events in order', () => {
+            const log = createMoveLog(createTestGameState());
+            const nextLog = appendMoveEvent(log, { type: 'flip', at: 10, cardId: 1 });
+
+            expect(log.events).toEqual([]);
+            expect(nextLog.events).toEqual([{ type: 'flip', at: 10, cardId: 1 }]);
+            expect(nextLog.initialState).toBe(log.initialState);
+        });
+    });
+
+    describe('applyMoveEvent', () => {
+        it('should replace the state on restart', () => {
+            const newDeal = { ...createTestGameState(), seed: 'next' };
+            expect(applyMoveEvent(flipCard(createTestGameState(), 1), { type: 'restart', at: 0, state: newDeal })).toBe(newDeal);
+        });
+
+        it('should restore the state a move was taken back to', () => {
+            const previousState = { ...createTestGameState(), practice: { undos: 1 } };
+            expect(applyMoveEvent(flipCard(createTestGameState(), 1), { type: 'undo', at: 0, state: previousState })).toBe(previousState);
+        });
+
+        it('should end a time-attack game when time is up', () => {
+            const state = enableTimeAttack(flipCard(createTestGameState(), 1), { timeLimitMs: 1000, matchBonusMs: 0 });
+            expect(applyMoveEvent(state, { type: 'time_up', at: 1000 }).status).toBe(GameStatus.TIME_UP);
+        });
+    });
+
+    describe('replayMoveLog', () => {
+        it('should reproduce the final state of a game', () => {
+            const finalState = replayMoveLog(createFinishedLog());
+
+            expect(finalState.status).toBe(GameStatus.COMPLETED);
+            expect(finalState.moves).toBe(3);
+            expect(finalState.cards.every(card => card.isMatched)).toBe(true);
+        });
+
+        it('should stop after the given number of events', () => {
+            const state = replayMoveLog(createFinishedLog(), 3);
+
+            expect(state.selectedCardIds).toEqual([1, 2]);
+            expect(state.moves).toBe(1);
+        });
+
+        it('should return the initial state for an empty log', () => {
+            const log = createMoveLog(createTestGameState());
+            expect(replayMoveLog(log)).toBe(log.initialState);
+        });
+    });
+
+    describe('getReplayDelay', () => {
+        const log = createFinishedLog();
+
+        it('should wait as long as the original game did', () => {
+            expect(getReplayDelay(log, 0)).toBe(1000);
+            expect(getReplayDelay(log, 1)).toBe(500);
+            expect(getReplayDelay(log, 2)).toBe(0);
+        });
+
+        it('should scale the delay with the speed', () => {
+            expect(getReplayDelay(log, 1, 2)).toBe(250);
+            expect(getReplayDelay(log, 1, 0.5)).toBe(1000);
+        });
+
+        it('should cap long pauses', () => {
+            expect(getReplayDelay(log, 10)).toBe(MAX_REPLAY_GAP_MS);
+        });
+
+        it('should return null at the end of the log', () => {
+            expect(getReplayDelay(log, log.events.length)).toBeNull();
+        });
+    });
+
+    describe('exportMoveLog / parseMoveLog', () => {
+        it('should round-trip a log and replay to the same state', () => {
+            const log = createFinishedLog();
+            const parsed = parseMoveLog(exportMoveLog(log));
+
+            expect(parsed).toEqual(log);
+            expect(replayMoveLog(parsed!)).toEqual(replayMoveLog(log));
+        });
+
+        it('should reject corrupt logs', () => {
+            expect(parseMoveLog('not json')).toBeNull();
+            expect(parseMoveLog(JSON.stringify({ version: 99, initialState: createTestGameState(), events: [] }))).toBeNull();
+            expect(parseMoveLog(JSON.stringify({ version: 1, initialState: { cards: [] }, events: [] }))).toBeNull();
+        });
+
+        it('should reject unknown or malformed events', () => {
+            const withEvent = (event: unknown) =>
+                JSON.stringify({ ...createMoveLog(createTestGameState()), events: [event] });
+
+            expect(parseMoveLog(withEvent({ type: 'teleport', at: 0 }))).toBeNull();
+            expect(parseMoveLog(withEvent({ type: 'flip', at: -1, cardId: 1 }))).toBeNull();
+            expect(parseMoveLog(withEvent({ type: 'flip', at: 0 }))).toBeNull();
+            expect(parseMoveLog(withEvent({ type: 'match', at: 0, cardIds: [1] }))).toBeNull();
+            expect(parseMoveLog(withEvent({ type: 'style_change', at: 0, cardStyle: 'Old Masters' }))).toBeNull();
+            expect(parseMoveLog(withEvent({ type: 'restart', at: 0, state: {} }))).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,197 @@
+/**
+ * Move Log Functions
+ *
+ * Pure functions for recording a game as an ordered event log and replaying it.
+ * Replaying a log runs every event through the same state functions the game
+ * board uses, so it reproduces exactly the same GameState.
+ */
+
+import { GameState } from '../models/game-state';
+import { isDeckId } from './deck-manifest';
+import { transitionStatus } from '../models/game-status';
+import { flipCard, clearSelectedCards } from './card-selection';
+import { changeCardStyle } from './game-reducer';
+import { processMatches } from './match-checking';
+import { expireTime } from './time-attack';
+import { isValidGameState } from '../utils/storage';
+import { isObject } from '../utils/validation';
+
+// Current move log format version
+export const MOVE_LOG_VERSION = 1;
+
+// Longest pause between two events during playback, so idle time does not stall a replay
+export const MAX_REPLAY_GAP_MS = 2000;
+
+// Playback speeds offered by the replay viewer
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+// Events recorded during a game; `at` is milliseconds since the log was started
+export type MoveEvent =
+    | { type: 'flip'; at: number; cardId: number }
+    | { type: 'match'; at: number; cardIds: number[] }
+    | { type: 'mismatch'; at: number; cardIds: number[] }
+    | { type: 'hide'; at: number }
+    | { type: 'restart'; at: number; state: GameState }
+    | { type: 'undo'; at: number; state: GameState } // State restored by taking back a move
+    | { type: 'style_change'; at: number; cardStyle: GameState['cardStyle'] }
+    | { type: 'time_up'; at: number }
+    | { type: 'complete'; at: number };
+
+export type MoveEventType = MoveEvent['type'];
+
+// A move event before it is stamped with its time
+export type UntimedMoveEvent = MoveEvent extends infer E ? E extends MoveEvent ? Omit<E, 'at'> : never : never;
+
+// A recorded game: the deal it started from and everything that happened since
+export interface MoveLog {
+    version: number;
+    initialState: GameState;
+    events: MoveEvent[];
+}
+
+/**
+ * Creates an empty log for a new deal
+ * @param initialState State of the game when recording starts
+ * @returns Move log with no events
+ */
+export const createMoveLog = (initialState: GameState): MoveLog => ({
+    version: MOVE_LOG_VERSION,
+    initialState,
+    events: []
+});
+
+/**
+ * Adds an event to the end of a log
+ * @param log Current move log
+ * @param event Event to add
+ * @returns New move log with the event appended
+ */
+export const appendMoveEvent = (log: MoveLog, event: MoveEvent): MoveLog => ({
+    ...log,
+    events: [...log.events, event]
+});
+
+/**
+ * Applies a single logged event to a game state
+ *
+ * @param state Current game state
+ * @param event Event to apply
+ * @returns New game state after the event
+ */
+export const applyMoveEvent = (state: GameState, event: MoveEvent): GameState => {
+    switch (event.type) {
+        case 'flip':
+            return flipCard(state, event.cardId);
+        case 'match':
+        case 'mismatch':
+            return processMatches(state);
+        case 'hide':
+            return clearSelectedCards(state);
+        case 'restart':
+        case 'undo':
+            return event.state;
+        case 'style_change':
+            return changeCardStyle(state, event.cardStyle);
+        case 'time_up':
+            return expireTime(state);
+        case 'complete':
+            return transitionStatus(state, 'victory_music_ended');
+    }
+};
+
+/**
+ * Replays a log from its initial state
+ *
+ * @param log Move log to replay
+ * @param eventCount Number of events to apply (defaults to all of them)
+ * @returns Game state after the applied events
+ */
+export const replayMoveLog = (log: MoveLog, eventCount: number = log.events.length): GameState =>
+    log.events.slice(0, Math.max(0, eventCount)).reduce(applyMoveEvent, log.initialState);
+
+/**
+ * Gets how long playback should wait before applying the next event
+ *
+ * @param log Move log being replayed
+ * @param position Number of events already applied
+ * @param speed Playback speed multiplier
+ * @returns Delay in milliseconds, or null when there are no more events
+ */
+export const getReplayDelay = (log: MoveLog, position: number, speed: number = 1): number | null => {
+    const nextEvent = log.events[position];
+    if (!nextEvent) {
+        return null;
+    }
+
+    const previousAt = position > 0 ? log.events[position - 1].at : 0;
+    const gap = Math.min(MAX_REPLAY_GAP_MS, Math.max(0, nextEvent.at - previousAt));
+    return gap / Math.max(speed, Number.EPSILON);
+};
+
+/**
+ * Serializes a log to JSON for export
+ * @param log Move log to export
+ * @returns Indented JSON string
+ */
+export const exportMoveLog = (log: MoveLog): string => JSON.stringify(log, null, 2);
+
+const isTimestamp = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// The cards of a checked move: a pair, or a larger group in match-three games
+const isCardIdGroup = (value: unknown): boolean =>
+    Array.isArray(value) && value.length >= 2 && value.every(id => Number.isInteger(id));
+
+const isValidMoveEvent = (value: unknown): value is MoveEvent => {
+    if (!isObject(value) || !isTimestamp(value.at)) {
+        return false;
+    }
+
+    switch (value.type) {
+        case 'flip':
+            return Number.isInteger(value.cardId);
+        case 'match':
+        case 'mismatch':
+            return isCardIdGroup(value.cardIds);
+        case 'restart':
+        case 'undo':
+            return isValidGameState(value.state);
+        case 'style_change':
+            return isDeckId(value.cardStyle);
+        case 'hide':
+        case 'time_up':
+        case 'complete':
+            return true;
+        default:
+            return false;
+    }
+};
+
+/**
+ * Parses and validates an exported log
+ *
+ * @param raw JSON string of the log
+ * @returns The move log, or null if it is corrupt or from an unknown version
+ */
+export const parseMoveLog = (raw: string): MoveLog | null => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+
+    if (!isObject(parsed) ||
+        parsed.version !== MOVE_LOG_VERSION ||
+        !isValidGameState(parsed.initialState) ||
+        !Array.isArray(parsed.events) ||
+        !parsed.events.every(isValidMoveEvent)) {
+        return null;
+    }
+
+    return {
+        version: parsed.version,
+        initialState: parsed.initialState,
+        events: parsed.events
+    };
+};
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createMultiplayerState,
+    enableMultiplayer,
+    getActivePlayer,
+    recordTurn,
+    getMultiplayerOutcome,
+    addComputerOpponent,
+    getComputerPlayer,
+    isComputerTurn
+} from './multiplayer';
+import { GameState, GameStatus } from '../models/game-state';
+
+describe('Hot-Seat Multiplayer Functions', () => {
+    // Helper function to create a test game state
+    const createTestGameState = (): GameState => ({
+        cards: [
+            { id: 1, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 2, imageId: 1, isRevealed: false, isMatched: false },
+        ],
+        status: GameStatus.IN_PROGRESS,
+        moves: 0,
+        selectedCardIds: [],
+        isPreviewMode: false,
+        cardStyle: 'impressionist',
+        gridSize: 'easy'
+    });
+
+    const createMultiplayerGame = (numPlayers: number = 3): GameState =>
+        enableMultiplayer(createTestGameState(), createMultiplayerState(numPlayers));
+
+    describe('createMultiplayerState', () => {
+        it('should create players with zero scores and the first player to move', () => {
+            expect(createMultiplayerState(2)).toEqual({
+                players: [
+                    { name: 'Player 1', score: 0 },
+                    { name: 'Player 2', score: 0 }
+                ],
+                activePlayerIndex: 0
+            });
+        });
+
+        it('should use the given names and fall back to defaults', () => {
+            const { players } = createMultiplayerState(3, ['Ann', ' ', 'Cy']);
+            expect(players.map(player => player.name)).toEqual(['Ann', 'Player 2', 'Cy']);
+        });
+
+        it('should clamp the number of players to 2-4', () => {
+            expect(createMultiplayerState(1).players.length).toBe(2);
+            expect(createMultiplayerState(9).players.length).toBe(4);
+        });
+    });
+
+    describe('addComputerOpponent', () => {
+        it('should make the last player a computer', () => {
+            const multiplayer = addComputerOpponent(createMultiplayerState(3, ['Ann', 'Bob', 'Cy']), 'medium');
+
+            expect(multiplayer.players).toEqual([
+                { name: 'Ann', score: 0 },
+                { name: 'Bob', score: 0 },
+                { name: 'Computer', score: 0, aiDifficulty: 'medium' }
+            ]);
+        });
+    });
+
+    describe('getComputerPlayer / isComputerTurn', () => {
+        it('should find the computer and know when it is its turn', () => {
+            let state = enableMultiplayer(createTestGameState(), addComputerOpponent(createMultiplayerState(2), 'easy'));
+
+            expect(getComputerPlayer(state)?.name).toBe('Computer');
+            expect(isComputerTurn(state)).toBe(false);
+
+            state = recordTurn(state, false);
+            expect(isComputerTurn(state)).toBe(true);
+        });
+
+        it('should find no computer in human-only games', () => {
+            expect(getComputerPlayer(createMultiplayerGame())).toBeUndefined();
+            expect(isComputerTurn(createTestGameState())).toBe(false);
+        });
+    });
+
+    describe('getActivePlayer', () => {
+        it('should return the player whose turn it is', () => {
+            expect(getActivePlayer(createMultiplayerGame())?.name).toBe('Player 1');
+        });
+
+        it('should return undefined in single-player games', () => {
+            expect(getActivePlayer(createTestGameState())).toBeUndefined();
+        });
+    });
+
+    describe('recordTurn', () => {
+        it('should give the active player a point and another turn after a match', () => {
+            const state = recordTurn(createMultiplayerGame(), true);
+
+            expect(state.multiplayer?.players[0].score).toBe(1);
+            expect(state.multiplayer?.activePlayerIndex).toBe(0);
+        });
+
+        it('should pass the turn after a mismatch', () => {
+            const state = recordTurn(createMultiplayerGame(), false);
+
+            expect(state.multiplayer?.players.every(player => player.score === 0)).toBe(true);
+            expect(state.multiplayer?.activePlayerIndex).toBe(1);
+        });
+
+        it('should wrap around to the first player', () => {
+            let state = createMultiplayerGame(2);
+            state = recordTurn(state, false);
+            state = recordTurn(state, false);
+
+            expect(state.multiplayer?.activePlayerIndex).toBe(0);
+        });
+
+        it('should leave single-player games unchanged', () => {
+            const state = createTestGameState();
+            expect(recordTurn(state, true)).toBe(state);
+        });
+    });
+
+    describe('getMultiplayerOutcome', () => {
+        it('should report a single winner', () => {
+            let state = createMultiplayerGame();
+            state = recordTurn(state, false);
+            state = recordTurn(state, true);
+
+            expect(getMultiplayerOutcome(state)).toEqual({
+                type: 'winner',
+                winner: { name: 'Player 2', score: 1 }
+            });
+        });
+
+        it('should report a tie between the leaders', () => {
+            let state = createMultiplayerGame();
+            state = recordTurn(state, true);
+            state = recordTurn(state, false);
+            state = recordTurn(state, true);
+
+            expect(getMultiplayerOutcome(state)).toEqual({
+                type: 'tie',
+                players: [
+                    { name: 'Player 1', score: 1 },
+                    { name: 'Player 2', score: 1 }
+                ]
+            });
+        });
+
+        it('should return undefined in single-player games', () => {
+            expect(getMultiplayerOutcome(createTestGameState())).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * Hot-Seat Multiplayer Functions
+ * 
+ * Pure functions for classic Concentration rules: players take turns, a match
+ * earns a point and another turn, and a mismatch passes the turn on.
+ */
+
+import { AiDifficulty, GameState, MultiplayerState, Player } from '../models/game-state';
+
+// Supported number of players
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 4;
+
+// Final result of a multiplayer game
+export type MultiplayerOutcome =
+    | { type: 'winner'; winner: Player }
+    | { type: 'tie'; players: Player[] };
+
+/**
+ * Creates the players for a new multiplayer game
+ * 
+ * @param numPlayers Number of players (clamped to 2-4)
+ * @param names Optional player names; missing ones default to "Player N"
+ * @returns Multiplayer state with the first player to move
+ */
+export const createMultiplayerState = (numPlayers: number, names: string[] = []): MultiplayerState => {
+    const count = Math.max(MIN_PLAYERS, Math.min(MAX_PLAYERS, Math.floor(numPlayers)));
+    return {
+        players: Array.from({ length: count }, (_, index) => ({
+            name: names[index]?.trim() || `Player ${index + 1}`,
+            score: 0
+        })),
+        activePlayerIndex: 0
+    };
+};
+
+/**
+ * Makes the last player a computer opponent
+ * 
+ * @param multiplayer Players and turn order
+ * @param difficulty Memory strength of the computer
+ * @returns New multiplayer state with a computer as the last player
+ */
+export const addComputerOpponent = (multiplayer: MultiplayerState, difficulty: AiDifficulty): MultiplayerState => ({
+    ...multiplayer,
+    players: multiplayer.players.map((player, index) =>
+        index === multiplayer.players.length - 1
+            ? { name: 'Computer', score: player.score, aiDifficulty: difficulty }
+            : player
+    )
+});
+
+/**
+ * Turns a game into a hot-seat multiplayer game
+ * 
+ * @param state Current game state
+ * @param multiplayer Players and turn order
+ * @returns New game state in multiplayer mode
+ */
+export const enableMultiplayer = (state: GameState, multiplayer: MultiplayerState): GameState => ({
+    ...state,
+    multiplayer
+});
+
+/**
+ * Gets the player whose turn it is
+ * 
+ * @param state Current game state
+ * @returns The active player, or undefined in single-player games
+ */
+export const getActivePlayer = (state: GameState): Player | undefined =>
+    state.multiplayer?.players[state.multiplayer.activePlayerIndex];
+
+/**
+ * Gets the computer opponent, if the game has one
+ * 
+ * @param state Current game state
+ * @returns The computer player, or undefined
+ */
+export const getComputerPlayer = (state: GameState): Player | undefined =>
+    state.multiplayer?.players.find(player => player.aiDifficulty !== undefined);
+
+/**
+ * Checks whether it is the computer's turn
+ * 
+ * @param state Current game state
+ * @returns True if the active player is a computer
+ */
+export const isComputerTurn = (state: GameState): boolean =>
+    getActivePlayer(state)?.aiDifficulty !== undefined;
+
+/**
+ * Records the result of a turn: a match scores a point for the active player,
+ * a mismatch passes the turn to the next player
+ * 
+ * @param state Current game state
+ * @param isMatch Whether the turn ended in a match
+ * @returns New game state with scores and turn updated
+ */
+export const recordTurn = (state: GameState, isMatch: boolean): GameState => {
+    const { multiplayer } = state;
+    if (!multiplayer) {
+        return state;
+    }
+
+    if (isMatch) {
+        return {
+            ...state,
+            multiplayer: {
+                ...multiplayer,
+                players: multiplayer.players.map((player, index) =>
+                    index === multiplayer.activePlayerIndex
+                        ? { ...player, score: player.score + 1 }
+                        : player
+                )
+            }
+        };
+    }
+
+    return {
+        ...state,
+        multiplayer: {
+            ...multiplayer,
+            activePlayerIndex: (multiplayer.activePlayerIndex + 1) % multiplayer.players.length
+        }
+    };
+};
+
+/**
+ * Determines the winner of a multiplayer game, or whether it ended in a tie
+ * 
+ * @param state Game state
+ * @returns The outcome, or undefined in single-player games
+ */
+export const getMultiplayerOutcome = (state: GameState): MultiplayerOutcome | undefined => {
+    if (!state.multiplayer) {
+        return undefined;
+    }
+
+    const { players } = state.multiplayer;
+    const topScore = Math.max(...players.map(player => player.score));
+    const leaders = players.filter(player => player.score === topScore);
+
+    return leaders.length === 1
+        ? { type: 'winner', winner: leaders[0] }
+        : { type: 'tie', players: leaders };
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { PAIRING_MODES, isPairingMode, getCardFaceText, canPairImages, enablePairing } from './pairing';
+import { Card, GameState, GameStatus } from '../models/game-state';
+import { CardImage } from '../managers/image-manager';
+
+describe('Pairing Functions', () => {
+    const images: CardImage[] = [
+        { id: 1, title: 'Dance at Bougival', artist: 'Pierre-Auguste Renoir', year: '1883', path: '/1.jpg' },
+        { id: 2, title: 'Jeanne Samary in a Low-Necked Dress', artist: 'Pierre-Auguste Renoir', year: '1877', path: '/2.jpg' },
+        { id: 3, title: 'Impression Sunrise', artist: 'Claude Monet', year: '1872', path: '/3.jpg' },
+        { id: 4, title: 'pop pug', path: '/4.jpg' }
+    ];
+    const getImage = (imageId: number) => images.find(image => image.id === imageId);
+
+    const createTestGameState = (imageIds: number[] = [1, 3, 2, 1, 2, 3]): GameState => ({
+        cards: imageIds.map((imageId, index): Card => ({ id: index + 1, imageId, isRevealed: false, isMatched: false })),
+        status: GameStatus.READY,
+        moves: 0,
+        selectedCardIds: [],
+        isPreviewMode: false,
+        cardStyle: 'impressionist',
+        gridSize: 'easy'
+    });
+
+    describe('isPairingMode', () => {
+        it('should accept the pairing modes only', () => {
+            PAIRING_MODES.forEach(mode => expect(isPairingMode(mode)).toBe(true));
+            expect(isPairingMode('image')).toBe(false);
+            expect(isPairingMode(null)).toBe(false);
+        });
+    });
+
+    describe('canPairImages', () => {
+        it('should require the detail on every artwork', () => {
+            expect(canPairImages(images.slice(0, 3), 'artist')).toBe(true);
+            expect(canPairImages(images, 'artist')).toBe(false);
+            expect(canPairImages(images, 'title')).toBe(true);
+            expect(canPairImages([], 'title')).toBe(false);
+        });
+    });
+
+    describe('enablePairing', () => {
+        it('should turn the second card of each pair into a text card', () => {
+            const state = enablePairing(createTestGameState(), 'year', getImage);
+
+            expect(state.pairing).toBe('year');
+            expect(state.cards.map(card => card.face)).toEqual(['image', 'image', 'image', 'year', 'year', 'year']);
+            expect(state.cards.map(card => card.pairKey)).toEqual(['1883', '1872', '1877', '1883', '1877', '1872']);
+            expect(state.cards.map(card => card.imageId)).toEqual([1, 3, 2, 1, 2, 3]);
+        });
+
+        it('should give artworks that share a detail the same pair key', () => {
+            const state = enablePairing(createTestGameState(), 'artist', getImage);
+            const renoirCards = state.cards.filter(card => card.pairKey === 'Pierre-Auguste Renoir');
+
+            expect(renoirCards.map(card => card.imageId).sort()).toEqual([1, 1, 2, 2]);
+        });
+
+        it('should leave the deal alone when an artwork lacks the detail', () => {
+            const state = createTestGameState([4, 1, 4, 1]);
+            expect(enablePairing(state, 'artist', getImage)).toBe(state);
+            expect(enablePairing(state, 'title', getImage).pairing).toBe('title');
+        });
+
+        it('should leave match-three games alone', () => {
+            const state = { ...createTestGameState([1, 1, 1, 3, 3, 3]), groupSize: 3 };
+            expect(enablePairing(state, 'artist', getImage)).toBe(state);
+        });
+    });
+
+    describe('getCardFaceText', () => {
+        it('should give the text of text cards only', () => {
+            const [painting, , , text] = enablePairing(createTestGameState(), 'title', getImage).cards;
+
+            expect(getCardFaceText(painting)).toBeNull();
+            expect(getCardFaceText(text)).toBe('Dance at Bougival');
+            expect(getCardFaceText(createTestGameState().cards[0])).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * Pairing Functions
+ *
+ * Pure functions for non-identical pairs, an educational variant where each
+ * painting pairs with a text card naming its artist, title or year instead
+ * of a copy of itself.
+ */
+
+import { Card, CardFace, GameState, PairingMode } from '../models/game-state';
+import type { CardImage } from '../managers/image-manager';
+
+// Details a painting can be paired with
+export const PAIRING_MODES: PairingMode[] = ['artist', 'title', 'year'];
+
+/**
+ * Checks that a value names a pairing mode
+ *
+ * @param value Value to check, such as a URL parameter
+ * @returns True for 'artist', 'title' or 'year'
+ */
+export const isPairingMode = (value: unknown): value is PairingMode =>
+    typeof value === 'string' && (PAIRING_MODES as string[]).includes(value);
+
+/**
+ * Gets the text on the face of a card
+ *
+ * @param card Card
+ * @returns The detail named by a text face, or null for a painting
+ */
+export const getCardFaceText = (card: Card): string | null =>
+    card.face !== undefined && card.face !== 'image' ? card.pairKey ?? null : null;
+
+/**
+ * Checks that every artwork has the detail its text card would show
+ *
+ * @param images Artworks of the deal
+ * @param mode Detail each painting is paired with
+ * @returns True if the artworks can be dealt as non-identical pairs
+ */
+export const canPairImages = (images: CardImage[], mode: PairingMode): boolean =>
+    images.length > 0 && images.every(image => (image[mode] ?? '').trim().length > 0);
+
+/**
+ * Turns a dealt game into one with non-identical pairs: the second card of each
+ * pair becomes a text card, and both cards take the detail as their pair key.
+ * Artworks sharing a detail (two paintings by one artist) share a pair key, so
+ * either painting matches either text card.
+ *
+ * @param state Game state as dealt
+ * @param mode Detail each painting is paired with
+ * @param getImage Looks up the artwork of an image ID
+ * @returns New game state with non-identical pairs, or the unchanged state if an artwork lacks the detail
+ *          or the game deals groups larger than pairs
+ */
+export const enablePairing = (
+    state: GameState,
+    mode: PairingMode,
+    getImage: (imageId: number) => CardImage | undefined
+): GameState => {
+    if (state.groupSize !== undefined) {
+        return state;
+    }
+
+    const images = [...new Set(state.cards.map(card => card.imageId))].map(getImage);
+    if (!images.every((image): image is CardImage => image !== undefined) || !canPairImages(images, mode)) {
+        return state;
+    }
+
+    const details = new Map(images.map(image => [image.id, image[mode]!.trim()]));
+    const dealtImageIds = new Set<number>();
+    const cards = state.cards.map(card => {
+        const face: CardFace = dealtImageIds.has(card.imageId) ? mode : 'image';
+        dealtImageIds.add(card.imageId);
+        return { ...card, face, pairKey: details.get(card.imageId)! };
+    });
+
+    return { ...state, cards, pairing: mode };
+};
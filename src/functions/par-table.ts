@@ -0,0 +1,103 @@
+// Generated by `npm run calibrate -- --write`; do not edit by hand.
+// Median moves of the human memory model under standard rules over 200 simulated games per board size.
+export const PAR_MOVES: Record<number, number> = {
+    2: 3,
+    3: 5,
+    4: 7,
+    5: 9,
+    6: 11,
+    7: 13,
+    8: 15,
+    9: 18,
+    10: 20,
+    11: 23,
+    12: 25,
+    13: 28,
+    14: 31,
+    15: 33,
+    16: 37,
+    17: 40,
+    18: 43,
+    19: 46,
+    20: 50,
+    21: 53,
+    22: 57,
+    23: 61,
+    24: 64,
+    25: 68,
+    26: 71,
+    27: 76,
+    28: 78,
+    29: 85,
+    30: 88,
+    31: 91,
+    32: 95,
+    33: 100,
+    34: 104,
+    35: 108,
+    36: 114,
+    37: 119,
+    38: 125,
+    39: 128,
+    40: 134,
+    41: 140,
+    42: 144,
+    43: 147,
+    44: 155,
+    45: 160,
+    46: 165,
+    47: 170,
+    48: 176,
+    49: 184,
+    50: 187,
+    51: 192,
+    52: 198,
+    53: 205,
+    54: 213,
+    55: 220,
+    56: 224,
+    57: 231,
+    58: 239,
+    59: 245,
+    60: 251,
+    61: 258,
+    62: 266,
+    63: 275,
+    64: 276,
+    65: 287,
+    66: 292,
+    67: 298,
+    68: 308,
+    69: 313,
+    70: 321,
+    71: 329,
+    72: 337,
+    73: 340,
+    74: 349,
+    75: 356,
+    76: 365,
+    77: 375,
+    78: 384,
+    79: 395,
+    80: 399,
+    81: 406,
+    82: 414,
+    83: 425,
+    84: 437,
+    85: 442,
+    86: 451,
+    87: 459,
+    88: 467,
+    89: 472,
+    90: 490,
+    91: 494,
+    92: 502,
+    93: 514,
+    94: 523,
+    95: 530,
+    96: 547,
+    97: 554,
+    98: 559,
+    99: 568,
+    100: 579
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { getPar, rateAgainstPar, formatParResult } from './par';
+import { PAR_MOVES } from './par-table';
+import { MIN_PAIRS, MAX_PAIRS } from '../models/game-state';
+
+describe('Par Functions', () => {
+    describe('getPar', () => {
+        it('should have a par for every board size the game deals', () => {
+            for (let numPairs = MIN_PAIRS; numPairs <= MAX_PAIRS; numPairs++) {
+                expect(getPar(numPairs)).toBe(PAR_MOVES[numPairs]);
+                // A perfect game takes one move per pair
+                expect(getPar(numPairs)).toBeGreaterThanOrEqual(numPairs);
+            }
+        });
+
+        it('should return null for a board size that was not calibrated', () => {
+            expect(getPar(MAX_PAIRS + 1)).toBeNull();
+            expect(getPar(4, { 6: 10 })).toBeNull();
+            expect(getPar(6, { 6: 10 })).toBe(10);
+        });
+    });
+
+    describe('rateAgainstPar', () => {
+        it('should rate moves under, at and over par', () => {
+            expect(rateAgainstPar(9, 10)).toBe('under_par');
+            expect(rateAgainstPar(10, 10)).toBe('par');
+            expect(rateAgainstPar(11, 10)).toBe('over_par');
+        });
+    });
+
+    describe('formatParResult', () => {
+        it('should describe the result like a golf score', () => {
+            expect(formatParResult(7, 10)).toBe('3 under par');
+            expect(formatParResult(10, 10)).toBe('Level par');
+            expect(formatParResult(12, 10)).toBe('2 over par');
+        });
+    });
+});
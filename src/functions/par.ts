@@ -0,0 +1,50 @@
+/**
+ * Par Functions
+ *
+ * Par is the number of moves a typical player needs to clear a board, taken
+ * from the simulated calibration in par-table.ts. Finished games are rated
+ * against it like a round of golf.
+ */
+
+import { PAR_MOVES } from './par-table';
+
+export type ParRating = 'under_par' | 'par' | 'over_par';
+
+/**
+ * Gets the par of a board
+ *
+ * @param numPairs Number of pairs on the board
+ * @param parTable Par moves by number of pairs
+ * @returns Par moves, or null for a board size that was not calibrated
+ */
+export const getPar = (numPairs: number, parTable: Record<number, number> = PAR_MOVES): number | null =>
+    parTable[numPairs] ?? null;
+
+/**
+ * Rates a result against par
+ *
+ * @param moves Moves the game took
+ * @param par Par of the board
+ * @returns Whether the game was under, at or over par
+ */
+export const rateAgainstPar = (moves: number, par: number): ParRating =>
+    moves < par ? 'under_par' : moves === par ? 'par' : 'over_par';
+
+/**
+ * Describes a result against par, such as "2 under par"
+ *
+ * @param moves Moves the game took
+ * @param par Par of the board
+ * @returns Short description of the result
+ */
+export const formatParResult = (moves: number, par: number): string => {
+    const difference = Math.abs(moves - par);
+    switch (rateAgainstPar(moves, par)) {
+        case 'under_par':
+            return `${difference} under par`;
+        case 'over_par':
+            return `${difference} over par`;
+        default:
+            return 'Level par';
+    }
+};
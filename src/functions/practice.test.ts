@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_UNDO_HISTORY, enablePractice, pushUndoState, canUndo, undoLastMove } from './practice';
+import { Card, GameState, GameStatus } from '../models/game-state';
+import { selectCard } from './card-selection';
+import { processMatches } from './match-checking';
+
+describe('Practice Mode Functions', () => {
+    // Helper function to create a test game state
+    const createTestGameState = (): GameState => {
+        const cards: Card[] = [
+            { id: 1, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 2, imageId: 2, isRevealed: false, isMatched: false },
+            { id: 3, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 4, imageId: 2, isRevealed: false, isMatched: false },
+        ];
+
+        return enablePractice({
+            cards,
+            status: GameStatus.IN_PROGRESS,
+            moves: 0,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'impressionist',
+            gridSize: 'easy'
+        });
+    };
+
+    describe('enablePractice', () => {
+        it('should start with no undos used', () => {
+            expect(createTestGameState().practice).toEqual({ undos: 0 });
+        });
+    });
+
+    describe('pushUndoState', () => {
+        it('should add states in order', () => {
+            const first = createTestGameState();
+            const second = { ...first, moves: 1 };
+
+            expect(pushUndoState(pushUndoState([], first), second)).toEqual([first, second]);
+        });
+
+        it('should drop the oldest states past the limit', () => {
+            const states = [0, 1, 2, 3].map(moves => ({ ...createTestGameState(), moves }));
+            const history = states.reduce((result, state) => pushUndoState(result, state, 3), [] as GameState[]);
+
+            expect(history.map(state => state.moves)).toEqual([1, 2, 3]);
+        });
+
+        it('should keep a bounded history by default', () => {
+            let history: GameState[] = [];
+            for (let i = 0; i < MAX_UNDO_HISTORY + 10; i++) {
+                history = pushUndoState(history, createTestGameState());
+            }
+            expect(history).toHaveLength(MAX_UNDO_HISTORY);
+        });
+    });
+
+    describe('canUndo', () => {
+        const history = [createTestGameState()];
+
+        it('should allow undo in a practice game with history', () => {
+            expect(canUndo(createTestGameState(), history)).toBe(true);
+        });
+
+        it('should not allow undo outside practice mode', () => {
+            expect(canUndo({ ...createTestGameState(), practice: undefined }, history)).toBe(false);
+        });
+
+        it('should not allow undo without history or once the game is over', () => {
+            expect(canUndo(createTestGameState(), [])).toBe(false);
+            expect(canUndo({ ...createTestGameState(), status: GameStatus.COMPLETED }, history)).toBe(false);
+        });
+    });
+
+    describe('undoLastMove', () => {
+        it('should take back a whole move and count the undo', () => {
+            const start = createTestGameState();
+            const afterMatch = processMatches(selectCard(selectCard(start, 1), 3));
+
+            const result = undoLastMove(afterMatch, [start])!;
+
+            expect(result.state).toEqual({ ...start, practice: { undos: 1 } });
+            expect(result.history).toEqual([]);
+        });
+
+        it('should take back a mismatch that is still showing', () => {
+            const start = createTestGameState();
+            const afterMismatch = processMatches(selectCard(selectCard(start, 1), 2));
+
+            const result = undoLastMove(afterMismatch, [start])!;
+
+            expect(result.state.cards.every(card => !card.isRevealed)).toBe(true);
+            expect(result.state.selectedCardIds).toEqual([]);
+            expect(result.state.moves).toBe(0);
+        });
+
+        it('should keep counting undos across moves', () => {
+            const start = createTestGameState();
+            const afterFirstMove = { ...processMatches(selectCard(selectCard(start, 1), 3)), practice: { undos: 2 } };
+
+            expect(undoLastMove(afterFirstMove, [start])!.state.practice).toEqual({ undos: 3 });
+        });
+
+        it('should return null when nothing can be undone', () => {
+            expect(undoLastMove(createTestGameState(), [])).toBeNull();
+        });
+    });
+});
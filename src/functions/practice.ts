@@ -0,0 +1,78 @@
+/**
+ * Practice Mode Functions
+ * 
+ * Pure functions for practice mode, where moves can be taken back. The board
+ * keeps a bounded history of game states from the start of each move, and
+ * every undo is counted so practice results stand apart from real ones.
+ */
+
+import { GameState, GameStatus } from '../models/game-state';
+
+// Most moves that can be taken back in a row
+export const MAX_UNDO_HISTORY = 50;
+
+// Game states from the start of each move, oldest first
+export type UndoHistory = GameState[];
+
+/**
+ * Turns a game into a practice game
+ * 
+ * @param state Current game state
+ * @returns New game state in practice mode with no undos used
+ */
+export const enablePractice = (state: GameState): GameState => ({
+    ...state,
+    practice: { undos: 0 }
+});
+
+/**
+ * Remembers the state at the start of a move so it can be restored
+ * 
+ * @param history Current undo history
+ * @param state Game state before the first flip of the move
+ * @param limit Most states to keep; the oldest are dropped first
+ * @returns New undo history
+ */
+export const pushUndoState = (
+    history: UndoHistory,
+    state: GameState,
+    limit: number = MAX_UNDO_HISTORY
+): UndoHistory => [...history, state].slice(-Math.max(1, limit));
+
+/**
+ * Checks if the last move can be taken back
+ * 
+ * @param state Current game state
+ * @param history Current undo history
+ * @returns True in a practice game that is still being played and has a move to undo
+ */
+export const canUndo = (state: GameState, history: UndoHistory): boolean =>
+    state.practice !== undefined &&
+    state.status === GameStatus.IN_PROGRESS &&
+    history.length > 0;
+
+/**
+ * Takes back the last move, or the card flipped so far in the current move
+ * 
+ * @param state Current game state
+ * @param history Current undo history
+ * @returns The restored state with the undo counted and the shortened history,
+ *          or null if there is nothing to undo
+ */
+export const undoLastMove = (
+    state: GameState,
+    history: UndoHistory
+): { state: GameState; history: UndoHistory } | null => {
+    if (!canUndo(state, history)) {
+        return null;
+    }
+
+    const previousState = history[history.length - 1];
+    return {
+        state: {
+            ...previousState,
+            practice: { undos: (state.practice?.undos ?? 0) + 1 }
+        },
+        history: history.slice(0, -1)
+    };
+};
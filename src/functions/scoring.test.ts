@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SCORING_RULES, ScoreStats, collectScoreStats, calculateScore } from './scoring';
+import { MoveEvent, appendMoveEvent, createMoveLog } from './move-log';
+import { Card, GameState, GameStatus } from '../models/game-state';
+
+describe('Scoring Functions', () => {
+    // Helper function to create a test game state with the given number of pairs
+    const createTestGameState = (numPairs: number = 2, matchedPairs: number = 0): GameState => {
+        const cards: Card[] = [];
+        for (let pair = 1; pair <= numPairs; pair++) {
+            const isMatched = pair <= matchedPairs;
+            cards.push({ id: pair * 2 - 1, imageId: pair, isRevealed: isMatched, isMatched });
+            cards.push({ id: pair * 2, imageId: pair, isRevealed: isMatched, isMatched });
+        }
+
+        return {
+            cards,
+            status: matchedPairs === numPairs ? GameStatus.COMPLETED : GameStatus.IN_PROGRESS,
+            moves: 0,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'impressionist',
+            gridSize: 'easy'
+        };
+    };
+
+    // Builds a log from [first, second, isMatch] moves; cards 2n-1 and 2n are pairs
+    const createLog = (moves: Array<[number, number, boolean]>, extraEvents: MoveEvent[] = []) => {
+        const events: MoveEvent[] = moves.flatMap(([first, second, isMatch]): MoveEvent[] => [
+            { type: 'flip', at: 0, cardId: first },
+            { type: 'flip', at: 0, cardId: second },
+            { type: isMatch ? 'match' : 'mismatch', at: 0, cardIds: [first, second] }
+        ]);
+        return [...events, ...extraEvents].reduce(appendMoveEvent, createMoveLog(createTestGameState()));
+    };
+
+    const noStats: ScoreStats = { streakSteps: 0, longestStreak: 0, firstSightMatches: 0, seenMismatches: 0 };
+
+    describe('collectScoreStats', () => {
+        it('should count a lucky match of two new cards as first-sight', () => {
+            expect(collectScoreStats(createLog([[1, 2, true]])).firstSightMatches).toBe(1);
+        });
+
+        it('should not count a remembered match as first-sight', () => {
+            // Card 2 was seen in the first move, so matching it later is memory, not luck
+            const stats = collectScoreStats(createLog([[1, 3, false], [2, 1, true]]));
+            expect(stats.firstSightMatches).toBe(0);
+        });
+
+        it('should count mismatches with an already-seen card', () => {
+            const stats = collectScoreStats(createLog([[1, 3, false], [5, 3, false], [2, 7, false]]));
+            expect(stats.seenMismatches).toBe(1);
+        });
+
+        it('should add a growing bonus for each match in a streak', () => {
+            const stats = collectScoreStats(createLog([[1, 2, true], [3, 4, true], [5, 6, true], [7, 9, false], [9, 10, true]]));
+
+            expect(stats.streakSteps).toBe(0 + 1 + 2 + 0);
+            expect(stats.longestStreak).toBe(3);
+        });
+
+        it('should cap the streak bonus', () => {
+            const moves: Array<[number, number, boolean]> = [1, 3, 5, 7, 9, 11, 13].map(id => [id, id + 1, true]);
+            const stats = collectScoreStats(createLog(moves));
+
+            expect(stats.streakSteps).toBe(0 + 1 + 2 + 3 + 4 + 4 + 4);
+            expect(stats.longestStreak).toBe(7);
+        });
+
+        it('should break the streak when a move is taken back', () => {
+            const stats = collectScoreStats(createLog([[1, 2, true]], [
+                { type: 'undo', at: 0, state: createTestGameState() },
+                { type: 'flip', at: 0, cardId: 3 },
+                { type: 'flip', at: 0, cardId: 4 },
+                { type: 'match', at: 0, cardIds: [3, 4] }
+            ]));
+            expect(stats.streakSteps).toBe(0);
+        });
+
+        it('should only count moves since the last restart', () => {
+            const stats = collectScoreStats(createLog([[1, 3, false], [3, 5, false]], [
+                { type: 'restart', at: 0, state: createTestGameState() },
+                { type: 'flip', at: 0, cardId: 3 },
+                { type: 'flip', at: 0, cardId: 4 },
+                { type: 'match', at: 0, cardIds: [3, 4] }
+            ]));
+
+            expect(stats).toEqual({ streakSteps: 0, longestStreak: 1, firstSightMatches: 1, seenMismatches: 0 });
+        });
+    });
+
+    describe('calculateScore', () => {
+        it('should award points for every matched pair', () => {
+            const breakdown = calculateScore(createTestGameState(4, 4), noStats, 60_000);
+
+            expect(breakdown.matchPoints).toBe(4 * DEFAULT_SCORING_RULES.pointsPerMatch);
+            expect(breakdown.totalPoints).toBe(400);
+        });
+
+        it('should add bonuses and subtract penalties', () => {
+            const stats: ScoreStats = { streakSteps: 3, longestStreak: 3, firstSightMatches: 1, seenMismatches: 2 };
+            const breakdown = calculateScore(createTestGameState(4, 4), stats, 60_000);
+
+            expect(breakdown.streakBonus).toBe(75);
+            expect(breakdown.firstSightBonus).toBe(50);
+            expect(breakdown.seenMismatchPenalty).toBe(40);
+            expect(breakdown.totalPoints).toBe(400 + 75 + 50 - 40);
+            expect(breakdown.longestStreak).toBe(3);
+        });
+
+        it('should give a time bonus for finishing under par', () => {
+            // Par for 4 pairs is 20 seconds
+            expect(calculateScore(createTestGameState(4, 4), noStats, 12_500).timeBonus).toBe(7 * 2);
+            expect(calculateScore(createTestGameState(4, 4), noStats, 20_000).timeBonus).toBe(0);
+        });
+
+        it('should never go below zero', () => {
+            const stats: ScoreStats = { ...noStats, seenMismatches: 100 };
+            expect(calculateScore(createTestGameState(2, 2), stats, 60_000).totalPoints).toBe(0);
+        });
+
+        it('should normalize the score by the number of pairs', () => {
+            const easy = calculateScore(createTestGameState(5, 5), noStats, 60_000);
+            const hard = calculateScore(createTestGameState(12, 12), noStats, 120_000);
+
+            expect(easy.totalPoints).toBeLessThan(hard.totalPoints);
+            expect(easy.score).toBe(hard.score);
+            expect(easy.score).toBe(1000);
+        });
+
+        it('should accept custom rules', () => {
+            const rules = { ...DEFAULT_SCORING_RULES, pointsPerMatch: 10 };
+            expect(calculateScore(createTestGameState(2, 2), noStats, 60_000, rules).matchPoints).toBe(20);
+        });
+    });
+});
@@ -0,0 +1,160 @@
+/**
+ * Scoring Functions
+ *
+ * Pure functions that turn a finished game into points. Matches, match streaks,
+ * lucky first-sight matches, careless mismatches and speed all count, and the
+ * score is normalized by the number of pairs so easy and hard games compare.
+ */
+
+import { GameState, getGroupCount, getMatchedGroupCount } from '../models/game-state';
+import { MoveLog } from './move-log';
+
+// Points awarded by the scoring engine
+export interface ScoringRules {
+    pointsPerMatch: number;
+    streakBonus: number; // Added per match for each earlier match in the same streak
+    maxStreakSteps: number; // Longest streak that keeps raising the bonus
+    firstSightBonus: number; // Matching a card that had never been seen before
+    seenMismatchPenalty: number; // Mismatching with a card that had already been seen
+    timeParPerPairMs: number; // Time allowed per pair before the time bonus runs out
+    pointsPerSecondUnderPar: number;
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+    pointsPerMatch: 100,
+    streakBonus: 25,
+    maxStreakSteps: 4,
+    firstSightBonus: 50,
+    seenMismatchPenalty: 20,
+    timeParPerPairMs: 5000,
+    pointsPerSecondUnderPar: 2
+};
+
+// What happened during a game, as far as scoring is concerned
+export interface ScoreStats {
+    streakSteps: number; // Sum over matches of earlier matches in the same streak
+    longestStreak: number;
+    firstSightMatches: number;
+    seenMismatches: number;
+}
+
+// Points from each part of the score
+export interface ScoreBreakdown {
+    matchPoints: number;
+    streakBonus: number;
+    firstSightBonus: number;
+    seenMismatchPenalty: number; // Subtracted from the total
+    timeBonus: number;
+    totalPoints: number; // Sum of the parts, never below zero
+    score: number; // Total points per pair, times ten
+    longestStreak: number;
+}
+
+const createScoreStats = (): ScoreStats => ({
+    streakSteps: 0,
+    longestStreak: 0,
+    firstSightMatches: 0,
+    seenMismatches: 0
+});
+
+/**
+ * Collects scoring stats from the move log of the current game
+ *
+ * A card counts as seen once it has been flipped. Only the moves since the
+ * last restart count, and taking back a move breaks the streak.
+ *
+ * @param log Move log of the game
+ * @param rules Scoring rules, for the streak cap
+ * @returns Scoring stats
+ */
+export const collectScoreStats = (log: MoveLog, rules: ScoringRules = DEFAULT_SCORING_RULES): ScoreStats => {
+    let stats = createScoreStats();
+    let seenCardIds = new Set<number>();
+    let flippedUnseen = new Set<number>(); // Cards in the current move that were new when flipped
+    let streak = 0;
+
+    log.events.forEach(event => {
+        switch (event.type) {
+            case 'flip':
+                if (!seenCardIds.has(event.cardId)) {
+                    flippedUnseen.add(event.cardId);
+                }
+                seenCardIds.add(event.cardId);
+                break;
+            case 'match': {
+                const lastCardId = event.cardIds[event.cardIds.length - 1];
+                stats = {
+                    ...stats,
+                    streakSteps: stats.streakSteps + Math.min(streak, rules.maxStreakSteps),
+                    longestStreak: Math.max(stats.longestStreak, streak + 1),
+                    firstSightMatches: stats.firstSightMatches + (flippedUnseen.has(lastCardId) ? 1 : 0)
+                };
+                streak++;
+                flippedUnseen = new Set();
+                break;
+            }
+            case 'mismatch': {
+                const lastCardId = event.cardIds[event.cardIds.length - 1];
+                stats = {
+                    ...stats,
+                    seenMismatches: stats.seenMismatches + (flippedUnseen.has(lastCardId) ? 0 : 1)
+                };
+                streak = 0;
+                flippedUnseen = new Set();
+                break;
+            }
+            case 'undo':
+                streak = 0;
+                flippedUnseen = new Set();
+                break;
+            case 'restart':
+                stats = createScoreStats();
+                seenCardIds = new Set();
+                flippedUnseen = new Set();
+                streak = 0;
+                break;
+        }
+    });
+
+    return stats;
+};
+
+/**
+ * Calculates the score of a game
+ *
+ * @param state Final game state
+ * @param stats Scoring stats collected from the move log
+ * @param elapsedMs Time the game took in milliseconds
+ * @param rules Scoring rules
+ * @returns Score breakdown
+ */
+export const calculateScore = (
+    state: GameState,
+    stats: ScoreStats,
+    elapsedMs: number,
+    rules: ScoringRules = DEFAULT_SCORING_RULES
+): ScoreBreakdown => {
+    const numPairs = Math.max(1, getGroupCount(state));
+    const matchedPairs = getMatchedGroupCount(state);
+
+    const matchPoints = matchedPairs * rules.pointsPerMatch;
+    const streakBonus = stats.streakSteps * rules.streakBonus;
+    const firstSightBonus = stats.firstSightMatches * rules.firstSightBonus;
+    const seenMismatchPenalty = stats.seenMismatches * rules.seenMismatchPenalty;
+
+    const timeUnderParMs = Math.max(0, numPairs * rules.timeParPerPairMs - elapsedMs);
+    const timeBonus = Math.floor(timeUnderParMs / 1000) * rules.pointsPerSecondUnderPar;
+
+    const totalPoints = Math.max(0, matchPoints + streakBonus + firstSightBonus - seenMismatchPenalty + timeBonus);
+
+    return {
+        matchPoints,
+        streakBonus,
+        firstSightBonus,
+        seenMismatchPenalty,
+        timeBonus,
+        totalPoints,
+        score: Math.round(totalPoints / numPairs * 10),
+        longestStreak: stats.longestStreak
+    };
+};
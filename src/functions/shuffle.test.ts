@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { shuffleCards, seededShuffleCards } from './shuffle';
+import { shuffleCards, seededShuffleCards, shuffleArray } from './shuffle';
+import { createSeededRandom } from '../utils/random';
 import { Card } from '../models/game-state';
 
 describe('Card Shuffling Functions', () => {
@@ -70,6 +71,28 @@ describe('Card Shuffling Functions', () => {
         });
     });
 
+    describe('shuffleArray', () => {
+        it('should use the given random source', () => {
+            // Always picking index 0 rotates the array by one
+            expect(shuffleArray([1, 2, 3, 4], () => 0)).toEqual([2, 3, 4, 1]);
+        });
+
+        it('should produce every order about equally often', () => {
+            const random = createSeededRandom('uniform');
+            const counts = new Map<string, number>();
+            for (let i = 0; i < 6000; i++) {
+                const order = shuffleArray([1, 2, 3], random).join('');
+                counts.set(order, (counts.get(order) ?? 0) + 1);
+            }
+
+            expect(counts.size).toBe(6);
+            counts.forEach(count => {
+                expect(count).toBeGreaterThan(850);
+                expect(count).toBeLessThan(1150);
+            });
+        });
+    });
+
     describe('seededShuffleCards', () => {
         it('should produce the same shuffle with the same seed', () => {
             const originalCards = createTestCards(10);
@@ -91,6 +114,11 @@ describe('Card Shuffling Functions', () => {
             ).toBe(true);
         });
 
+        it('should accept string seeds', () => {
+            const originalCards = createTestCards(10);
+            expect(seededShuffleCards(originalCards, 'abc123')).toEqual(seededShuffleCards(originalCards, 'abc123'));
+        });
+
         it('should not mutate the original array', () => {
             const originalCards = createTestCards(6);
             const originalCardsCopy = [...originalCards];
@@ -0,0 +1,200 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+    SIMULATION_STRATEGIES,
+    SIMULATION_VARIANTS,
+    DEFAULT_SIMULATION_RUNS,
+    ESTIMATED_MS_PER_MOVE,
+    ESTIMATED_MS_PER_MISMATCH,
+    MAX_SIMULATED_MOVES_PER_PAIR,
+    SimulationOptions,
+    SimulationStrategy,
+    numberedImageSource,
+    simulateGame,
+    summarizeDistribution,
+    runSimulations,
+    parseSimulationArgs,
+    formatSimulationReport
+} from './simulation';
+
+describe('Simulation Functions', () => {
+    it('should run without a browser', () => {
+        expect(typeof window).toBe('undefined');
+        expect(typeof (globalThis as { Audio?: unknown }).Audio).toBe('undefined');
+    });
+
+    describe('numberedImageSource', () => {
+        it('should number the images for any board size', () => {
+            const images = numberedImageSource.getRandomCardImages(30);
+
+            expect(images).toHaveLength(30);
+            expect(images.map(image => image.id)).toEqual(Array.from({ length: 30 }, (_, index) => index + 1));
+            images.forEach(image => expect(image.path).toMatch(/^data:image\/svg\+xml,/));
+        });
+    });
+
+    describe('simulateGame', () => {
+        it('should play every strategy to completion', () => {
+            Object.values(SIMULATION_STRATEGIES).forEach(strategy => {
+                const game = simulateGame(6, strategy, 'abc');
+
+                expect(game.completed).toBe(true);
+                expect(game.moves).toBe(6 + game.mismatches);
+            });
+        });
+
+        it('should reproduce a game from its seed', () => {
+            const strategy = SIMULATION_STRATEGIES.human;
+
+            expect(simulateGame(8, strategy, 'seed-1')).toEqual(simulateGame(8, strategy, 'seed-1'));
+        });
+
+        it('should never mismatch a pair twice with perfect memory', () => {
+            // Each mismatch reveals two new cards, so a perfect memory needs at most one per pair
+            const game = simulateGame(10, SIMULATION_STRATEGIES.perfect, 'perfect');
+
+            expect(game.mismatches).toBeLessThanOrEqual(10);
+        });
+
+        it('should give up on a strategy that never finds a pair', () => {
+            // Always flips the first two selectable cards, which never match
+            const stubborn: SimulationStrategy = {
+                name: 'stubborn',
+                memory: { rememberChance: 0, forgetChance: 0 },
+                chooseFirstCard: (state) => state.cards.find(card => card.imageId === 1 && !card.isMatched)?.id ?? null,
+                chooseSecondCard: (state) => state.cards.find(card => card.imageId === 2 && !card.isMatched)?.id ?? null
+            };
+
+            const game = simulateGame(3, stubborn, 'stuck');
+
+            expect(game.completed).toBe(false);
+            expect(game.moves).toBe(3 * MAX_SIMULATED_MOVES_PER_PAIR);
+        });
+
+        it('should estimate the time from the moves and mismatches', () => {
+            const game = simulateGame(6, SIMULATION_STRATEGIES.human, 'time');
+
+            expect(game.elapsedMs).toBe(game.moves * ESTIMATED_MS_PER_MOVE + game.mismatches * ESTIMATED_MS_PER_MISMATCH);
+        });
+
+        it('should end the game when the rules of its variant are broken', () => {
+            const random = SIMULATION_STRATEGIES.random;
+
+            // Guessing runs out of lives and time long before the board is cleared
+            const livesGame = simulateGame(8, random, 'lives', SIMULATION_VARIANTS.lives);
+            expect(livesGame.completed).toBe(false);
+            expect(livesGame.mismatches).toBe(8);
+
+            const timeAttackGame = simulateGame(8, random, 'time', SIMULATION_VARIANTS.time_attack);
+            expect(timeAttackGame.completed).toBe(false);
+            expect(timeAttackGame.elapsedMs).toBeLessThan(simulateGame(8, random, 'time').elapsedMs);
+        });
+
+        it('should not change a game the variant rules allow', () => {
+            const perfect = SIMULATION_STRATEGIES.perfect;
+
+            expect(simulateGame(6, perfect, 'same', SIMULATION_VARIANTS.time_attack)).toEqual(simulateGame(6, perfect, 'same'));
+        });
+    });
+
+    describe('summarizeDistribution', () => {
+        it('should summarize values and count each one', () => {
+            expect(summarizeDistribution([5, 1, 3, 3, 10, 2, 4, 3, 6, 7])).toEqual({
+                min: 1,
+                max: 10,
+                mean: 4.4,
+                median: 3,
+                p90: 7,
+                counts: { 1: 1, 2: 1, 3: 3, 4: 1, 5: 1, 6: 1, 7: 1, 10: 1 }
+            });
+        });
+
+        it('should return zeros for no values', () => {
+            expect(summarizeDistribution([])).toEqual({ min: 0, max: 0, mean: 0, median: 0, p90: 0, counts: {} });
+        });
+    });
+
+    describe('runSimulations', () => {
+        const options: SimulationOptions = {
+            numPairs: 6,
+            strategies: [SIMULATION_STRATEGIES.random, SIMULATION_STRATEGIES.perfect],
+            variant: SIMULATION_VARIANTS.standard,
+            runs: 200,
+            seed: 'report'
+        };
+
+        it('should report each strategy over every run', () => {
+            const reports = runSimulations(options);
+
+            expect(reports.map(report => report.strategy)).toEqual(['random', 'perfect']);
+            reports.forEach(report => {
+                expect(report.variant).toBe('standard');
+                expect(report.runs).toBe(200);
+                expect(report.completed).toBe(200);
+                expect(Object.values(report.moves.counts).reduce((sum, count) => sum + count, 0)).toBe(200);
+                expect(report.moves.min).toBeGreaterThanOrEqual(6);
+            });
+        });
+
+        it('should show that memory helps', () => {
+            const [random, perfect] = runSimulations(options);
+
+            expect(perfect.moves.mean).toBeLessThan(random.moves.mean);
+            expect(perfect.mismatches.p90).toBeLessThan(random.mismatches.median);
+        });
+
+        it('should give the same report for the same seed', () => {
+            expect(runSimulations({ ...options, runs: 20 })).toEqual(runSimulations({ ...options, runs: 20 }));
+        });
+    });
+
+    describe('parseSimulationArgs', () => {
+        it('should default to every strategy on the full board', () => {
+            expect(parseSimulationArgs([])).toEqual({
+                numPairs: 12,
+                strategies: Object.values(SIMULATION_STRATEGIES),
+                variant: SIMULATION_VARIANTS.standard,
+                runs: DEFAULT_SIMULATION_RUNS,
+                seed: 'simulation'
+            });
+        });
+
+        it('should read the board size, runs, seed and strategy', () => {
+            expect(parseSimulationArgs(['--pairs', '8', '--runs', '50', '--seed', 'abc', '--strategy', 'human', '--variant', 'lives'])).toEqual({
+                numPairs: 8,
+                strategies: [SIMULATION_STRATEGIES.human],
+                variant: SIMULATION_VARIANTS.lives,
+                runs: 50,
+                seed: 'abc'
+            });
+        });
+
+        it('should explain invalid arguments', () => {
+            expect(parseSimulationArgs(['--pairs', '1'])).toContain('--pairs');
+            expect(parseSimulationArgs(['--runs', '0'])).toContain('--runs');
+            expect(parseSimulationArgs(['--strategy', 'toString'])).toContain('Unknown strategy');
+            expect(parseSimulationArgs(['--variant', 'sudden_death'])).toContain('Unknown variant');
+            expect(parseSimulationArgs(['--speed', '2'])).toBe('Unknown option --speed');
+            expect(parseSimulationArgs(['--seed'])).toBe('Missing value for --seed');
+        });
+    });
+
+    describe('formatSimulationReport', () => {
+        it('should print the summaries and a histogram of moves', () => {
+            const [report] = runSimulations({
+                numPairs: 4,
+                strategies: [SIMULATION_STRATEGIES.perfect],
+                variant: SIMULATION_VARIANTS.standard,
+                runs: 30,
+                seed: 'text'
+            });
+            const text = formatSimulationReport(report);
+
+            expect(text).toContain('Strategy: perfect (4 pairs, standard rules, 30 runs, 30 completed)');
+            expect(text).toContain(`Moves: min ${report.moves.min}, median ${report.moves.median}`);
+            expect(text).toContain('Mismatches:');
+            expect(text).toContain('Estimated time: min');
+            expect(text).toContain('Moves histogram:');
+        });
+    });
+});
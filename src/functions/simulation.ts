@@ -0,0 +1,362 @@
+/**
+ * Game Simulation Functions
+ *
+ * Plays whole games with no browser, using the same rule functions as the
+ * board, so difficulty can be tuned and rule changes regression-tested over
+ * thousands of seeded runs. A strategy decides which cards to flip and how
+ * well revealed cards are remembered, and a variant sets the rules the game
+ * is played under. Game time is estimated from a fixed pace per move.
+ */
+
+import type { CardImage } from '../managers/image-manager';
+import { GameState, GameStatus } from '../models/game-state';
+import { RandomSource, createSeededRandom } from '../utils/random';
+import { shuffleCards } from './shuffle';
+import { CardImageSource, initializeGame } from './deal';
+import { createGeneratedCardImages } from './generated-deck';
+import { processMatches } from './match-checking';
+import { flipCard, clearSelectedCards } from './card-selection';
+import { enableLives } from './lives';
+import { createTimeAttackSettings, enableTimeAttack, isTimeUp, expireTime } from './time-attack';
+import {
+    AiMemory,
+    AiMemoryProfile,
+    AI_MEMORY_PROFILES,
+    createAiMemory,
+    observeCards,
+    forgetCards,
+    forgetMatchedCards,
+    chooseFirstCard,
+    chooseSecondCard
+} from './ai-player';
+
+// A simulated game gives up after this many moves per pair
+export const MAX_SIMULATED_MOVES_PER_PAIR = 100;
+
+// Board sizes the simulator accepts
+export const MIN_SIMULATION_PAIRS = 2;
+export const MAX_SIMULATION_PAIRS = 100;
+
+export const DEFAULT_SIMULATION_RUNS = 1000;
+export const DEFAULT_SIMULATION_SEED = 'simulation';
+
+// Estimated pace of a player: time to flip two cards, plus a look at a mismatched pair
+export const ESTIMATED_MS_PER_MOVE = 3000;
+export const ESTIMATED_MS_PER_MISMATCH = 1000;
+
+// Size of the moves histogram in the text report
+const HISTOGRAM_BUCKETS = 10;
+const HISTOGRAM_WIDTH = 40;
+
+// How a simulated player remembers cards and picks its flips
+export interface SimulationStrategy {
+    name: string;
+    memory: AiMemoryProfile;
+    chooseFirstCard(state: GameState, memory: AiMemory, random: RandomSource): number | null;
+    chooseSecondCard(state: GameState, memory: AiMemory, firstCardId: number, random: RandomSource): number | null;
+}
+
+// A strategy that plays like the computer opponent with the given memory
+const createMemoryStrategy = (name: string, memory: AiMemoryProfile): SimulationStrategy => ({
+    name,
+    memory,
+    chooseFirstCard,
+    chooseSecondCard
+});
+
+export const SIMULATION_STRATEGIES: Record<string, SimulationStrategy> = {
+    // Never remembers anything, so every flip is a guess
+    random: createMemoryStrategy('random', { rememberChance: 0, forgetChance: 0 }),
+    // Remembers every card it has seen
+    perfect: createMemoryStrategy('perfect', AI_MEMORY_PROFILES.perfect),
+    // Misses some cards and forgets a few every turn
+    human: createMemoryStrategy('human', { rememberChance: 0.8, forgetChance: 0.1 })
+};
+
+// Rules a simulated game is played under
+export interface SimulationVariant {
+    name: string;
+    apply(state: GameState): GameState;
+}
+
+export const SIMULATION_VARIANTS: Record<string, SimulationVariant> = {
+    standard: { name: 'standard', apply: (state) => state },
+    // The default countdown and match bonus for the board size
+    time_attack: {
+        name: 'time_attack',
+        apply: (state) => enableTimeAttack(state, createTimeAttackSettings(state.cards.length / 2))
+    },
+    // One life per pair
+    lives: { name: 'lives', apply: (state) => enableLives(state, state.cards.length / 2) }
+};
+
+// Outcome of one simulated game
+export interface SimulatedGame {
+    moves: number;
+    mismatches: number;
+    elapsedMs: number; // Estimated from the pace per move
+    completed: boolean;
+}
+
+// Summary of a set of values, with how often each value occurred
+export interface Distribution {
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    p90: number;
+    counts: Record<number, number>;
+}
+
+export interface SimulationOptions {
+    numPairs: number;
+    strategies: SimulationStrategy[];
+    variant: SimulationVariant;
+    runs: number;
+    seed: string;
+}
+
+export interface SimulationReport {
+    strategy: string;
+    variant: string;
+    numPairs: number;
+    runs: number;
+    completed: number;
+    moves: Distribution;
+    mismatches: Distribution;
+    elapsedMs: Distribution;
+}
+
+// Simulated games only need image IDs, so cards come from a generated deck with no image files
+const SIMULATION_DECK = createGeneratedCardImages('numbers', 'simulation');
+
+// Deals the first images of the deck, so a deal depends only on the shuffle
+export const numberedImageSource: CardImageSource = {
+    getRandomCardImages: (numPairs: number): CardImage[] => SIMULATION_DECK.slice(0, numPairs)
+};
+
+/**
+ * Flips a card and lets the player see it
+ */
+const flipAndObserve = (
+    state: GameState,
+    memory: AiMemory,
+    cardId: number,
+    strategy: SimulationStrategy,
+    random: RandomSource
+): [GameState, AiMemory] => {
+    const flippedState = flipCard(state, cardId);
+    const card = flippedState.cards.find(c => c.id === cardId);
+    return [flippedState, card ? observeCards(memory, [card], strategy.memory, random) : memory];
+};
+
+/**
+ * Plays one game from a seeded deal until every pair is matched or the game is lost
+ *
+ * @param numPairs Number of pairs on the board
+ * @param strategy How the player picks its flips
+ * @param seed Seed for the deal and every decision, so a run can be reproduced
+ * @param variant Rules the game is played under
+ * @returns Moves, mismatches and estimated time of the game
+ */
+export const simulateGame = (
+    numPairs: number,
+    strategy: SimulationStrategy,
+    seed: string,
+    variant: SimulationVariant = SIMULATION_VARIANTS.standard
+): SimulatedGame => {
+    const random = createSeededRandom(seed);
+    let state = variant.apply(initializeGame(numPairs, numberedImageSource, (cards) => shuffleCards(cards, random), random));
+    let memory = createAiMemory();
+    let mismatches = 0;
+    let elapsedMs = 0;
+    const maxMoves = numPairs * MAX_SIMULATED_MOVES_PER_PAIR;
+
+    while ((state.status === GameStatus.READY || state.status === GameStatus.IN_PROGRESS) && state.moves < maxMoves) {
+        // Memory fades a little before every turn
+        memory = forgetCards(memory, strategy.memory, random);
+
+        const firstCardId = strategy.chooseFirstCard(state, memory, random);
+        if (firstCardId === null) break;
+        [state, memory] = flipAndObserve(state, memory, firstCardId, strategy, random);
+
+        const secondCardId = strategy.chooseSecondCard(state, memory, firstCardId, random);
+        if (secondCardId === null) break;
+        [state, memory] = flipAndObserve(state, memory, secondCardId, strategy, random);
+
+        state = processMatches(state);
+        elapsedMs += ESTIMATED_MS_PER_MOVE;
+        if (state.selectedCardIds.length === 2) {
+            mismatches++;
+            elapsedMs += ESTIMATED_MS_PER_MISMATCH;
+            state = clearSelectedCards(state);
+        }
+        memory = forgetMatchedCards(memory, state);
+
+        if (isTimeUp(state, elapsedMs)) {
+            state = expireTime(state);
+        }
+    }
+
+    return { moves: state.moves, mismatches, elapsedMs, completed: state.status === GameStatus.VICTORY_MUSIC };
+};
+
+/**
+ * Summarizes a set of values
+ *
+ * @param values Values to summarize
+ * @returns Distribution of the values, all zero if there are none
+ */
+export const summarizeDistribution = (values: number[]): Distribution => {
+    if (values.length === 0) {
+        return { min: 0, max: 0, mean: 0, median: 0, p90: 0, counts: {} };
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    // Nearest-rank percentile
+    const percentile = (fraction: number): number =>
+        sorted[Math.max(0, Math.ceil(fraction * sorted.length) - 1)];
+
+    const counts: Record<number, number> = {};
+    sorted.forEach(value => {
+        counts[value] = (counts[value] ?? 0) + 1;
+    });
+
+    return {
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+        mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+        median: percentile(0.5),
+        p90: percentile(0.9),
+        counts
+    };
+};
+
+/**
+ * Plays many games with each strategy and reports their distributions
+ *
+ * Run i uses the seed `${seed}-${i}` for every strategy, so strategies are
+ * compared on the same deals.
+ *
+ * @param options Board size, strategies, rule variant, number of runs and base seed
+ * @returns One report per strategy
+ */
+export const runSimulations = ({ numPairs, strategies, variant, runs, seed }: SimulationOptions): SimulationReport[] =>
+    strategies.map(strategy => {
+        const games = Array.from({ length: runs }, (_, run) => simulateGame(numPairs, strategy, `${seed}-${run}`, variant));
+        return {
+            strategy: strategy.name,
+            variant: variant.name,
+            numPairs,
+            runs,
+            completed: games.filter(game => game.completed).length,
+            moves: summarizeDistribution(games.map(game => game.moves)),
+            mismatches: summarizeDistribution(games.map(game => game.mismatches)),
+            elapsedMs: summarizeDistribution(games.map(game => game.elapsedMs))
+        };
+    });
+
+/**
+ * Parses command line arguments for the simulator
+ *
+ * Accepts `--pairs N`, `--runs N`, `--seed S`, `--strategy NAME` (or `all`)
+ * and `--variant NAME`.
+ *
+ * @param args Arguments after the script name
+ * @returns Simulation options, or an error message for invalid arguments
+ */
+export const parseSimulationArgs = (args: string[]): SimulationOptions | string => {
+    const options: SimulationOptions = {
+        numPairs: 12,
+        strategies: Object.values(SIMULATION_STRATEGIES),
+        variant: SIMULATION_VARIANTS.standard,
+        runs: DEFAULT_SIMULATION_RUNS,
+        seed: DEFAULT_SIMULATION_SEED
+    };
+
+    for (let index = 0; index < args.length; index += 2) {
+        const [flag, value] = [args[index], args[index + 1]];
+        if (value === undefined) {
+            return `Missing value for ${flag}`;
+        }
+
+        switch (flag) {
+            case '--pairs': {
+                const numPairs = Number(value);
+                if (!Number.isInteger(numPairs) || numPairs < MIN_SIMULATION_PAIRS || numPairs > MAX_SIMULATION_PAIRS) {
+                    return `--pairs must be a whole number from ${MIN_SIMULATION_PAIRS} to ${MAX_SIMULATION_PAIRS}`;
+                }
+                options.numPairs = numPairs;
+                break;
+            }
+            case '--runs': {
+                const runs = Number(value);
+                if (!Number.isInteger(runs) || runs < 1) {
+                    return '--runs must be a positive whole number';
+                }
+                options.runs = runs;
+                break;
+            }
+            case '--seed':
+                options.seed = value;
+                break;
+            case '--strategy':
+                if (value === 'all') {
+                    options.strategies = Object.values(SIMULATION_STRATEGIES);
+                } else if (Object.keys(SIMULATION_STRATEGIES).includes(value)) {
+                    options.strategies = [SIMULATION_STRATEGIES[value]];
+                } else {
+                    return `Unknown strategy "${value}"; use ${Object.keys(SIMULATION_STRATEGIES).join(', ')} or all`;
+                }
+                break;
+            case '--variant':
+                if (!Object.keys(SIMULATION_VARIANTS).includes(value)) {
+                    return `Unknown variant "${value}"; use ${Object.keys(SIMULATION_VARIANTS).join(', ')}`;
+                }
+                options.variant = SIMULATION_VARIANTS[value];
+                break;
+            default:
+                return `Unknown option ${flag}`;
+        }
+    }
+
+    return options;
+};
+
+/**
+ * Formats a report as plain text with a histogram of moves
+ *
+ * @param report Report to format
+ * @returns Multi-line text
+ */
+export const formatSimulationReport = (report: SimulationReport): string => {
+    const formatSummary = ({ min, max, mean, median, p90 }: Distribution): string =>
+        `min ${min}, median ${median}, mean ${mean.toFixed(1)}, p90 ${p90}, max ${max}`;
+    const formatSeconds = ({ min, max, mean, median, p90 }: Distribution): string => {
+        const seconds = (ms: number): string => `${Math.round(ms / 1000)}s`;
+        return `min ${seconds(min)}, median ${seconds(median)}, mean ${seconds(mean)}, p90 ${seconds(p90)}, max ${seconds(max)}`;
+    };
+
+    // Group the move counts into equal ranges
+    const { min, max, counts } = report.moves;
+    const bucketSize = Math.max(1, Math.ceil((max - min + 1) / HISTOGRAM_BUCKETS));
+    const buckets = Array.from({ length: Math.ceil((max - min + 1) / bucketSize) }, (_, index) => {
+        const from = min + index * bucketSize;
+        const to = Math.min(max, from + bucketSize - 1);
+        const count = Object.entries(counts)
+            .filter(([moves]) => Number(moves) >= from && Number(moves) <= to)
+            .reduce((sum, [, moveCount]) => sum + moveCount, 0);
+        return { label: from === to ? `${from}` : `${from}-${to}`, count };
+    });
+    const maxCount = Math.max(1, ...buckets.map(bucket => bucket.count));
+
+    return [
+        `Strategy: ${report.strategy} (${report.numPairs} pairs, ${report.variant} rules, ${report.runs} runs, ${report.completed} completed)`,
+        `Moves: ${formatSummary(report.moves)}`,
+        `Mismatches: ${formatSummary(report.mismatches)}`,
+        `Estimated time: ${formatSeconds(report.elapsedMs)}`,
+        'Moves histogram:',
+        ...buckets.map(({ label, count }) =>
+            `  ${label.padStart(9)} ${'#'.repeat(Math.round(count / maxCount * HISTOGRAM_WIDTH))} ${count}`)
+    ].join('\n');
+};
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createTimeAttackSettings,
+    enableTimeAttack,
+    getTimeBudgetMs,
+    getRemainingTimeMs,
+    isTimeUp,
+    expireTime,
+    DEFAULT_SECONDS_PER_PAIR,
+    DEFAULT_MATCH_BONUS_SECONDS
+} from './time-attack';
+import { Card, GameState, GameStatus } from '../models/game-state';
+
+describe('Time-Attack Functions', () => {
+    // Helper function to create a test game state
+    const createTestGameState = (): GameState => {
+        const cards: Card[] = [
+            { id: 1, imageId: 1, isRevealed: true, isMatched: true },
+            { id: 2, imageId: 1, isRevealed: true, isMatched: true },
+            { id: 3, imageId: 2, isRevealed: true, isMatched: false },
+            { id: 4, imageId: 2, isRevealed: false, isMatched: false },
+            { id: 5, imageId: 3, isRevealed: true, isMatched: false },
+            { id: 6, imageId: 3, isRevealed: false, isMatched: false },
+        ];
+
+        return {
+            cards,
+            status: GameStatus.IN_PROGRESS,
+            moves: 2,
+            selectedCardIds: [3, 5],
+            isPreviewMode: false,
+            cardStyle: 'impressionist',
+            gridSize: 'easy',
+            timeAttack: { timeLimitMs: 30_000, matchBonusMs: 5_000 }
+        };
+    };
+
+    describe('createTimeAttackSettings', () => {
+        it('should scale the budget to the number of pairs', () => {
+            expect(createTimeAttackSettings(5)).toEqual({
+                timeLimitMs: 5 * DEFAULT_SECONDS_PER_PAIR * 1000,
+                matchBonusMs: DEFAULT_MATCH_BONUS_SECONDS * 1000
+            });
+            expect(createTimeAttackSettings(12).timeLimitMs).toBeGreaterThan(createTimeAttackSettings(5).timeLimitMs);
+        });
+
+        it('should allow the match bonus to be disabled', () => {
+            expect(createTimeAttackSettings(5, 0).matchBonusMs).toBe(0);
+        });
+
+        it('should accept a custom budget per pair', () => {
+            expect(createTimeAttackSettings(4, 1, 10).timeLimitMs).toBe(40_000);
+        });
+    });
+
+    describe('enableTimeAttack', () => {
+        it('should add the settings without changing anything else', () => {
+            const { timeAttack, ...classicState } = createTestGameState();
+            const state = enableTimeAttack(classicState, { timeLimitMs: 1000, matchBonusMs: 0 });
+
+            expect(state.timeAttack).toEqual({ timeLimitMs: 1000, matchBonusMs: 0 });
+            expect(state.cards).toBe(classicState.cards);
+        });
+    });
+
+    describe('getTimeBudgetMs', () => {
+        it('should add bonus time for every matched pair', () => {
+            expect(getTimeBudgetMs(createTestGameState())).toBe(35_000);
+        });
+
+        it('should return null outside time-attack mode', () => {
+            const { timeAttack, ...classicState } = createTestGameState();
+            expect(getTimeBudgetMs(classicState)).toBeNull();
+        });
+    });
+
+    describe('getRemainingTimeMs', () => {
+        it('should subtract the elapsed time from the budget', () => {
+            expect(getRemainingTimeMs(createTestGameState(), 10_000)).toBe(25_000);
+        });
+
+        it('should never go below zero', () => {
+            expect(getRemainingTimeMs(createTestGameState(), 99_000)).toBe(0);
+        });
+    });
+
+    describe('isTimeUp', () => {
+        it('should be true once the budget is used up', () => {
+            const state = createTestGameState();
+            expect(isTimeUp(state, 34_999)).toBe(false);
+            expect(isTimeUp(state, 35_000)).toBe(true);
+        });
+
+        it('should only apply to games in progress', () => {
+            const state = { ...createTestGameState(), status: GameStatus.VICTORY_MUSIC };
+            expect(isTimeUp(state, 99_000)).toBe(false);
+        });
+
+        it('should never be true outside time-attack mode', () => {
+            const { timeAttack, ...classicState } = createTestGameState();
+            expect(isTimeUp(classicState, 99_000)).toBe(false);
+        });
+    });
+
+    describe('expireTime', () => {
+        it('should end the game with TIME_UP and flip back the unmatched selection', () => {
+            const state = expireTime(createTestGameState());
+
+            expect(state.status).toBe(GameStatus.TIME_UP);
+            expect(state.selectedCardIds).toEqual([]);
+            expect(state.cards.filter(card => card.isRevealed).map(card => card.id)).toEqual([1, 2]);
+        });
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * Time-Attack Functions
+ * 
+ * Pure functions for the time-attack rule variant, where the player races a
+ * countdown scaled to the number of pairs and can earn bonus time per match.
+ */
+
+import { GameState, GameStatus, TimeAttackSettings, getMatchedGroupCount } from '../models/game-state';
+import { transitionStatus } from '../models/game-status';
+import { clearSelectedCards } from './card-selection';
+
+// Countdown budget per pair on the board
+export const DEFAULT_SECONDS_PER_PAIR = 8;
+
+// Bonus time added for each matched pair
+export const DEFAULT_MATCH_BONUS_SECONDS = 2;
+
+/**
+ * Creates time-attack settings scaled to the board size
+ * 
+ * @param numPairs Number of pairs on the board
+ * @param matchBonusSeconds Seconds added for each match (0 disables the bonus)
+ * @param secondsPerPair Countdown budget per pair
+ * @returns Time-attack settings
+ */
+export const createTimeAttackSettings = (
+    numPairs: number,
+    matchBonusSeconds: number = DEFAULT_MATCH_BONUS_SECONDS,
+    secondsPerPair: number = DEFAULT_SECONDS_PER_PAIR
+): TimeAttackSettings => ({
+    timeLimitMs: Math.max(0, numPairs * secondsPerPair * 1000),
+    matchBonusMs: Math.max(0, matchBonusSeconds * 1000)
+});
+
+/**
+ * Turns a game into a time-attack game
+ * 
+ * @param state Current game state
+ * @param settings Time-attack settings
+ * @returns New game state in time-attack mode
+ */
+export const enableTimeAttack = (state: GameState, settings: TimeAttackSettings): GameState => ({
+    ...state,
+    timeAttack: settings
+});
+
+/**
+ * Gets the total time budget, including bonus time earned by matches
+ * 
+ * @param state Current game state
+ * @returns Time budget in milliseconds, or null outside time-attack mode
+ */
+export const getTimeBudgetMs = (state: GameState): number | null => {
+    if (!state.timeAttack) {
+        return null;
+    }
+
+    return state.timeAttack.timeLimitMs + getMatchedGroupCount(state) * state.timeAttack.matchBonusMs;
+};
+
+/**
+ * Gets the time left on the countdown
+ * 
+ * @param state Current game state
+ * @param elapsedMs Time played so far in milliseconds
+ * @returns Remaining time in milliseconds (never negative), or null outside time-attack mode
+ */
+export const getRemainingTimeMs = (state: GameState, elapsedMs: number): number | null => {
+    const budget = getTimeBudgetMs(state);
+    return budget === null ? null : Math.max(0, budget - elapsedMs);
+};
+
+/**
+ * Determines whether the countdown has run out for a game still being played
+ * 
+ * @param state Current game state
+ * @param elapsedMs Time played so far in milliseconds
+ * @returns True if the game should end with TIME_UP
+ */
+export const isTimeUp = (state: GameState, elapsedMs: number): boolean =>
+    state.status === GameStatus.IN_PROGRESS && getRemainingTimeMs(state, elapsedMs) === 0;
+
+/**
+ * Ends the game because the countdown ran out
+ * 
+ * @param state Current game state
+ * @returns New game state with TIME_UP status and any unmatched selection flipped back
+ */
+export const expireTime = (state: GameState): GameState =>
+    transitionStatus(clearSelectedCards(state), 'time_expired');
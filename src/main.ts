@@ -5,6 +5,12 @@ import { customElement, property } from 'lit/decorators.js'
 import mainStyles from './main.css?inline'
 // Import the game board component
 import './components/game-board';
+// Import the player statistics dashboard
+import './components/stats-dashboard';
+// Import the achievement gallery
+import './components/achievement-gallery';
+// Import the custom deck builder
+import './components/deck-builder';
 
 /**
  * Main application element
@@ -248,6 +248,30 @@ describe('AudioManager Module', () => {
             expect(result).toBe(true);
         });
 
+        it('playEffect calls back once the effect has ended', () => {
+            // Keep hold of the clone that actually plays
+            const clones: TestAudioElement[] = [];
+            const testManager = new AudioManager({
+                silent: false,
+                audioFactory: (path) => {
+                    const audio = new TestAudioElement(path);
+                    audio.cloneNode = () => {
+                        const clone = new TestAudioElement(path);
+                        clones.push(clone);
+                        return clone;
+                    };
+                    return audio;
+                }
+            });
+            const onEnded = vi.fn();
+
+            expect(testManager.playEffect('match', 1.0, onEnded)).toBe(true);
+            expect(onEnded).not.toHaveBeenCalled();
+
+            (clones[0] as any).triggerEvent('ended');
+            expect(onEnded).toHaveBeenCalledTimes(1);
+        });
+
         it('playMusic plays the background music', () => {
             // Create a fresh manager with our TestAudioElement
             const testManager = new AudioManager({
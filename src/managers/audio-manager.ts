@@ -36,8 +36,9 @@ export const loadAudioEffects = (): AudioEffect[] => {
     // In Vite, assets in the public directory are referenced directly by URL
     return [
         { id: 'cardFlip', path: import.meta.env.BASE_URL + 'Card Flip.wav' },
-        { id: 'match', path: import.meta.env.BASE_URL + 'Match Sound.wav' },
-        { id: 'gameComplete', path: import.meta.env.BASE_URL + 'Campaign Horse.mp3' }
+        { id: 'match', path: import.meta.env.BASE_URL + 'aero-chime-one-shot.mp3' },
+        { id: 'gameComplete', path: import.meta.env.BASE_URL + 'Campaign Horse.mp3' },
+        { id: 'timeUp', path: import.meta.env.BASE_URL + 'Time Up.wav' }
     ];
 };
 
@@ -146,10 +147,10 @@ export class AudioManager {
     }
 
     /**
-     * Play an audio effect by ID
+     * Play an audio effect by ID, optionally calling back once it has finished
      * @returns true if played successfully, false otherwise
      */
-    public playEffect(id: string, volume: number = 1.0): boolean {
+    public playEffect(id: string, volume: number = 1.0, onEnded?: () => void): boolean {
         if (this.silent) return false;
         if (typeof window === 'undefined') return false;
 
@@ -160,6 +161,9 @@ export class AudioManager {
             // Clone the audio element to allow overlapping sounds
             const clonedAudio = audioElement.cloneNode() as AudioElement;
             clonedAudio.volume = Math.max(0, Math.min(1, volume));
+            if (onEnded) {
+                clonedAudio.addEventListener('ended', onEnded);
+            }
             clonedAudio.play();
             return true;
         } catch (error) {
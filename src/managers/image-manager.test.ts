@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeAll, vi, afterEach } from 'vitest';
-import { imageManager, ImageManager, isTestEnvironment, extractNameFromPath, createCardImage, loadOrigCardImages, logImages, logError, CardImage } from './image-manager';
+import { imageManager, ImageManager, isTestEnvironment, discoverDecks, logImages, logError, CardImage } from './image-manager';
+import { DeckManifest, PAINTING_DECK_IDS, isGeneratedDeckManifest } from '../functions/deck-manifest';
 
 // Explicitly ensure silent mode is set
 imageManager.setSilent(true);
@@ -15,46 +16,29 @@ describe('ImageManager Module', () => {
             expect(isTestEnvironment()).toBe(true);
         });
 
-        it('extractNameFromPath properly extracts name from path', () => {
-            const path = '/cards/The Starry Night, Vincent van Gogh, 1889.jpg';
-            const name = extractNameFromPath(path);
-            expect(name).toBe('The Starry Night');
-
-            // Test with short name
-            const shortPath = '/cards/Mona Lisa.jpg';
-            expect(extractNameFromPath(shortPath)).toBe('Mona Lisa');
-
-            // Test with very long name (takes only first 3 words)
-            const longPath = '/cards/A Very Long Title That Should Be Truncated.jpg';
-            expect(extractNameFromPath(longPath)).toBe('A Very Long');
+        it('discoverDecks finds the valid deck manifests in public/decks', () => {
+            const { decks, errors } = discoverDecks();
+
+            expect(errors).toEqual([]);
+            expect(decks.map(deck => deck.id)).toEqual(['impressionist', 'robgon', 'shapes']);
+            const [impressionist, robgon, shapes] = decks;
+            if (isGeneratedDeckManifest(impressionist) || isGeneratedDeckManifest(robgon)) throw new Error('Expected image decks');
+            [impressionist, robgon].forEach(deck => expect(deck.cards).toHaveLength(12));
+            expect(impressionist.cards[0].title).toContain('Sunday');
+            expect(impressionist.cards[11].title).toContain('Impression');
+            expect(shapes).toEqual({ id: 'shapes', name: 'Shapes', generator: 'shapes' });
         });
 
-        it('createCardImage creates a card image object', () => {
-            const path = '/cards/The Starry Night, Vincent van Gogh, 1889.jpg';
-            const index = 5;
-            const image = createCardImage(path, index);
+        it('discoverDecks finds an image deck for every deck of paintings', () => {
+            const imageDeckIds = discoverDecks().decks.filter(deck => !isGeneratedDeckManifest(deck)).map(deck => deck.id);
 
-            expect(image).toEqual({
-                id: 6, // index + 1
-                name: 'The Starry Night',
-                path: path
-            });
-        });
-
-        it('loadOrigCardImages returns an array of all card images', () => {
-            const images = loadOrigCardImages();
-            expect(images).toBeInstanceOf(Array);
-            expect(images.length).toBe(12);
-
-            // Check first and last image to ensure they're properly formed
-            expect(images[0].name).toContain('Sunday');
-            expect(images[11].name).toContain('Impression');
+            expect(imageDeckIds).toEqual(expect.arrayContaining(PAINTING_DECK_IDS));
         });
 
         it('logImages logs images when not silent', () => {
             const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => { });
             const images: CardImage[] = [
-                { id: 1, name: 'Test Image', path: '/test.jpg' }
+                { id: 1, title: 'Test Image', path: '/test.jpg' }
             ];
 
             // Test with silent false
@@ -183,6 +167,13 @@ describe('ImageManager Module', () => {
             expect(uniqueIds.size).toBe(numPairs);
         });
 
+        it('getRandomCardImages picks the same images for the same random source', () => {
+            const random = () => 0.5;
+            const first = manager.getRandomCardImages(5, random).map(img => img.id);
+            const second = manager.getRandomCardImages(5, random).map(img => img.id);
+            expect(first).toEqual(second);
+        });
+
         it('getRandomCardImages throws error when requesting too many pairs', () => {
             expect(() => manager.getRandomCardImages(13)).toThrow();
         });
@@ -204,6 +195,67 @@ describe('ImageManager Module', () => {
             });
         });
 
+        it('shows the cards and back of the deck with the card style as its ID', () => {
+            const deck: DeckManifest = {
+                id: 'birds',
+                name: 'Birds',
+                back: 'birds/back.jpg',
+                cards: [
+                    { path: 'birds/robin.jpg', title: 'Robin', artist: 'A. Painter', year: '1901', alt: 'A robin on a branch' },
+                    { path: 'birds/wren.jpg', title: 'Wren', alt: 'A wren' }
+                ]
+            };
+            const deckManager = new ImageManager({ silent: true, cardStyle: 'birds', decks: [deck] });
+
+            expect(deckManager.getDecks()).toEqual([{ id: 'birds', name: 'Birds' }]);
+            expect(deckManager.getCardBackImagePath()).toBe('/birds/back.jpg');
+            expect(deckManager.getAllCardImages()).toEqual([
+                { id: 1, title: 'Robin', path: '/birds/robin.jpg', alt: 'A robin on a branch', artist: 'A. Painter', year: '1901' },
+                { id: 2, title: 'Wren', path: '/birds/wren.jpg', alt: 'A wren' }
+            ]);
+        });
+
+        it('draws the cards and back of a generated deck', () => {
+            const deck: DeckManifest = { id: 'sums', name: 'Sums', generator: 'arithmetic', seed: 'abc' };
+            const deckManager = new ImageManager({ silent: true, cardStyle: 'sums', decks: [deck] });
+
+            expect(deckManager.getCardBackImagePath()).toMatch(/^data:image\/svg\+xml,/);
+            expect(deckManager.getTotalCardImages()).toBeGreaterThan(50);
+            expect(deckManager.getRandomCardImages(50)).toHaveLength(50);
+            expect(deckManager.getCardImageById(1)?.path).toMatch(/^data:image\/svg\+xml,/);
+        });
+
+        it('reports a card style with no deck', () => {
+            const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => { });
+
+            const deckManager = new ImageManager({ silent: false, cardStyle: 'missing', decks: [] });
+
+            expect(deckManager.getAllCardImages()).toEqual([]);
+            expect(deckManager.getCardBackImagePath()).toBe('/Back Side.jpg');
+            expect(consoleErrorSpy).toHaveBeenCalledWith('Error loading card images:', new Error('No deck manifest has the ID "missing"'));
+        });
+
+        it('setCustomCardImages supplies the images of the custom style', () => {
+            const customManager = new ImageManager({ silent: true, cardStyle: 'custom' });
+            expect(customManager.getTotalCardImages()).toBe(0);
+            expect(customManager.hasCustomCardImages()).toBe(false);
+
+            const images: CardImage[] = [
+                { id: 1, title: 'Photo 1', path: 'blob:one' },
+                { id: 2, title: 'Photo 2', path: 'blob:two' }
+            ];
+            customManager.setCustomCardImages(images);
+
+            expect(customManager.hasCustomCardImages()).toBe(true);
+            expect(customManager.getCardImageById(2)?.path).toBe('blob:two');
+
+            // Built-in styles are not affected, and switching back shows the deck again
+            customManager.setCardStyle('robgon');
+            expect(customManager.getCardImageById(2)?.path).not.toBe('blob:two');
+            customManager.setCardStyle('custom');
+            expect(customManager.getAllCardImages()).toEqual(images);
+        });
+
         it('setSilent controls console logging', () => {
             const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => { });
 
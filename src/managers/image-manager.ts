@@ -3,17 +3,29 @@
  * Responsible for loading and managing card images for the memory game
  */
 
+import { shuffleArray } from '../functions/shuffle';
+import { RandomSource } from '../utils/random';
+import type { CardStyle } from '../models/game-state';
+import { DeckManifest, DeckManifestResult, createDeckCardImages, getDeckBackImagePath, loadDeckManifests } from '../functions/deck-manifest';
+import { CUSTOM_DECK_ID } from '../functions/custom-deck';
+import type { ArtworkDetails } from '../functions/artwork';
+
+// Base URL of the public assets
+const BASE_URL: string = import.meta.env.BASE_URL;
+
 // Define interfaces
-export interface CardImage {
+// The title, artist and year of the artwork come from the deck manifest or the filename
+export interface CardImage extends ArtworkDetails {
     id: number;
-    name: string;
     path: string;
+    alt?: string; // Describes the image for screen readers; the title is used without it
 }
 
 // Configuration options
 export interface ImageManagerConfig {
     silent: boolean;
-    cardStyle?: 'impressionist' | 'robgon';
+    cardStyle?: CardStyle;
+    decks?: DeckManifest[]; // Decks to offer instead of the manifests in public/decks
 }
 
 // Pure function to detect test environment
@@ -21,66 +33,15 @@ export const isTestEnvironment = (): boolean =>
     typeof process !== 'undefined' ||
     (typeof window !== 'undefined' && typeof (window as any).__vitest__ !== 'undefined');
 
-// Pure function to extract name from image path
-export const extractNameFromPath = (path: string): string => {
-    const filename = path.split('/').pop() || '';
+// Every deck manifest in public/decks, bundled at build time
+const DECK_MANIFESTS: Record<string, unknown> = import.meta.glob('/public/decks/*.json', { eager: true, import: 'default' });
 
-    // Remove file extension first
-    const nameWithoutExtension = filename.replace(/\.[^.]+$/, '');
-
-    // Then split by comma and take the first part
-    const nameParts = nameWithoutExtension.split(',')[0].trim().split(' ');
-    return nameParts.slice(0, Math.min(3, nameParts.length)).join(' ');
-};
+// Card back of the custom deck, and of any deck that fails to load
+const DEFAULT_BACK_IMAGE = 'Back Side.jpg';
 
-// Pure function to create a card image
-export const createCardImage = (path: string, index: number): CardImage => ({
-    id: index + 1,
-    name: extractNameFromPath(path),
-    path
-});
-
-// Pure function to load original card images
-export const loadOrigCardImages = (): CardImage[] => {
-    // In Vite, assets in the public directory are referenced directly by URL
-    const cardPaths = [
-        import.meta.env.BASE_URL + 'cards/A Sunday Afternoon on the Island of La Grande Jatte, Georges Seurat, 1884.jpg',
-        import.meta.env.BASE_URL + 'cards/Mont Sainte-Victoire, Paul Cézanne, c. 1890s.jpg',
-        import.meta.env.BASE_URL + 'cards/Jeanne Samary in a Low-Necked Dress, Pierre-Auguste Renoir, 1877.jpg',
-        import.meta.env.BASE_URL + 'cards/Children Playing on the Beach, Mary Cassatt, 1884.jpg',
-        import.meta.env.BASE_URL + 'cards/The Green Line, Henri Matisse, 1905.jpg',
-        import.meta.env.BASE_URL + 'cards/The Starry Night, Vincent van Gogh, 1889.jpg',
-        import.meta.env.BASE_URL + 'cards/Le Déjeuner sur l\'herbe, Édouard Manet, 1863.jpg',
-        import.meta.env.BASE_URL + 'cards/Dance at Bougival, Pierre-Auguste Renoir, 1883.jpg',
-        import.meta.env.BASE_URL + 'cards/The Ballet Class, Edgar Degas, 1873.jpg',
-        import.meta.env.BASE_URL + 'cards/Boulevard Montmartre, Spring, Camille Pissarro, 1897.jpg',
-        import.meta.env.BASE_URL + 'cards/At the Moulin Rouge - The Dance, Henri de Toulouse-Lautrec, 1890.jpg',
-        import.meta.env.BASE_URL + 'cards/Impression Sunrise, Claude Monet, 1872.jpg'
-    ];
-
-    // Convert the paths to CardImage objects using pure function
-    return cardPaths.map(createCardImage);
-};
-
-// Pure function to load Rob's card images
-export const loadRobsCardImages = (): CardImage[] => {
-    const cardPaths = [
-        import.meta.env.BASE_URL + 'rob_cards/pop pug.jpg',
-        import.meta.env.BASE_URL + 'rob_cards/pop greyhound.jpg',
-        import.meta.env.BASE_URL + 'rob_cards/pop corgi.jpg',
-        import.meta.env.BASE_URL + 'rob_cards/pop amstaff.jpg',
-        import.meta.env.BASE_URL + 'rob_cards/blue lady 1.jpg',
-        import.meta.env.BASE_URL + 'rob_cards/blue lady 2.jpg',
-        import.meta.env.BASE_URL + 'rob_cards/blue lady 3.jpg',
-        import.meta.env.BASE_URL + 'rob_cards/blue lady 4.jpg',
-        import.meta.env.BASE_URL + 'rob_cards/dow explore loch ness.jpg',
-        import.meta.env.BASE_URL + 'rob_cards/dow escape to mars.jpg',
-        import.meta.env.BASE_URL + 'rob_cards/dow discover roswell.jpg',
-        import.meta.env.BASE_URL + 'rob_cards/dow atlantis awaits.jpg'
-    ];
-
-    return cardPaths.map(createCardImage);
-};
+// Pure function to find the decks whose manifests are valid
+export const discoverDecks = (manifests: Record<string, unknown> = DECK_MANIFESTS): DeckManifestResult =>
+    loadDeckManifests(manifests);
 
 // Side effect: logging function
 export const logImages = (images: CardImage[], silent: boolean): void => {
@@ -88,7 +49,7 @@ export const logImages = (images: CardImage[], silent: boolean): void => {
 
     console.log('Loaded card images:');
     images.forEach(image => {
-        console.log(`${image.id}: ${image.name} - ${image.path}`);
+        console.log(`${image.id}: ${image.title} - ${image.path}`);
     });
 };
 
@@ -103,13 +64,16 @@ export const logError = (error: unknown, silent: boolean): void => {
  */
 export class ImageManager {
     private cardImages: CardImage[] = [];
-    private backImagePath: string = import.meta.env.BASE_URL + 'Back Side.jpg';
+    private backImagePath: string = BASE_URL + DEFAULT_BACK_IMAGE;
     private silent: boolean;
-    private cardStyle: 'impressionist' | 'robgon';
+    private decks: DeckManifest[];
+    private cardStyle: CardStyle;
+    private customCardImages: CardImage[] = []; // The player's own deck, shown in the custom style
 
     constructor(config?: Partial<ImageManagerConfig>) {
         this.silent = config?.silent ?? isTestEnvironment();
         this.cardStyle = config?.cardStyle ?? 'robgon';
+        this.decks = config?.decks ?? this.loadDecks();
         this.initialize();
     }
 
@@ -118,13 +82,41 @@ export class ImageManager {
      */
     public initialize(): void {
         try {
-            this.cardImages = this.cardStyle === 'impressionist' ? loadOrigCardImages() : loadRobsCardImages();
+            if (this.cardStyle === CUSTOM_DECK_ID) {
+                this.cardImages = [...this.customCardImages];
+                this.backImagePath = BASE_URL + DEFAULT_BACK_IMAGE;
+            } else {
+                const deck = this.decks.find(d => d.id === this.cardStyle);
+                if (!deck) {
+                    throw new Error(`No deck manifest has the ID "${this.cardStyle}"`);
+                }
+                this.cardImages = createDeckCardImages(deck, BASE_URL);
+                this.backImagePath = getDeckBackImagePath(deck, BASE_URL);
+            }
             logImages(this.cardImages, this.silent);
         } catch (error) {
+            this.cardImages = [];
+            this.backImagePath = BASE_URL + DEFAULT_BACK_IMAGE;
             logError(error, this.silent);
         }
     }
 
+    /**
+     * Load the decks from their manifests, reporting any manifest that is not valid
+     */
+    private loadDecks(): DeckManifest[] {
+        const { decks, errors } = discoverDecks();
+        errors.forEach(error => logError(error, this.silent));
+        return decks;
+    }
+
+    /**
+     * Get the ID and display name of every deck, in the order they are offered
+     */
+    public getDecks(): { id: string; name: string }[] {
+        return this.decks.map(({ id, name }) => ({ id, name }));
+    }
+
     /**
      * Reset the image manager (useful for testing)
      */
@@ -145,7 +137,7 @@ export class ImageManager {
     /**
      * Set the card style and reload images
      */
-    public setCardStyle(style: 'impressionist' | 'robgon'): void {
+    public setCardStyle(style: CardStyle): void {
         if (this.cardStyle !== style) {
             this.cardStyle = style;
             this.initialize();
@@ -155,10 +147,28 @@ export class ImageManager {
     /**
      * Get the current card style
      */
-    public getCardStyle(): 'impressionist' | 'robgon' {
+    public getCardStyle(): CardStyle {
         return this.cardStyle;
     }
 
+    /**
+     * Set the images of the custom card style, such as blob URLs of the player's own deck
+     * @param images Images of the custom deck, or none once the deck is deleted
+     */
+    public setCustomCardImages(images: CardImage[]): void {
+        this.customCardImages = [...images];
+        if (this.cardStyle === 'custom') {
+            this.initialize();
+        }
+    }
+
+    /**
+     * Whether a custom deck has been loaded
+     */
+    public hasCustomCardImages(): boolean {
+        return this.customCardImages.length > 0;
+    }
+
     /**
      * Get all card images
      */
@@ -174,7 +184,7 @@ export class ImageManager {
     }
 
     /**
-     * Get the path to the card back image
+     * Get the path to the card back image of the current deck
      */
     public getCardBackImagePath(): string {
         return this.backImagePath;
@@ -191,16 +201,17 @@ export class ImageManager {
     /**
      * Get a random selection of card images
      * @param numPairs Number of pairs to select
+     * @param random Random number source, e.g. a seeded one to reproduce a deal
      * @returns Array of randomly selected card images
      * @throws Error if numPairs exceeds available images
      */
-    public getRandomCardImages(numPairs: number): CardImage[] {
+    public getRandomCardImages(numPairs: number, random: RandomSource = Math.random): CardImage[] {
         if (numPairs > this.cardImages.length) {
             throw new Error(`Cannot select ${numPairs} pairs: only ${this.cardImages.length} images available`);
         }
 
         // Create a copy of all images and shuffle them
-        const shuffledImages = [...this.cardImages].sort(() => Math.random() - 0.5);
+        const shuffledImages = shuffleArray(this.cardImages, random);
 
         // Take the first numPairs images
         return shuffledImages.slice(0, numPairs);
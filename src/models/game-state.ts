@@ -4,24 +4,59 @@
  * Implements game state using functional programming principles with immutable data structures.
  */
 
-import { CardImage, imageManager } from '../managers/image-manager';
+import { GameStatus, transitionStatus } from './game-status';
+import { DEFAULT_GROUP_SIZE } from './group-size';
 
-// Game status enum
-export enum GameStatus {
-    READY = 'ready',
-    IN_PROGRESS = 'in_progress',
-    VICTORY_MUSIC = 'victory_music',
-    COMPLETED = 'completed'
-}
+export { GameStatus, isGameLost } from './game-status';
+export { DEFAULT_GROUP_SIZE, MAX_GROUP_SIZE } from './group-size';
+
+// What the face of a card shows of its artwork
+export type CardFace = 'image' | 'title' | 'artist' | 'year';
 
 // Card model with all required properties
 export interface Card {
     id: number;
-    imageId: number;
+    imageId: number; // Artwork shown on the face, or described by a text face
     isRevealed: boolean;
     isMatched: boolean;
+    face?: CardFace; // Only present on non-identical pairs; the image otherwise
+    pairKey?: string; // Only present on non-identical pairs, which match when their keys are equal
+}
+
+// Countdown budget for time-attack mode
+export interface TimeAttackSettings {
+    timeLimitMs: number;
+    matchBonusMs: number;
+}
+
+// Memory strength of a computer opponent
+export type AiDifficulty = 'easy' | 'medium' | 'perfect';
+
+// A player in a hot-seat multiplayer game
+export interface Player {
+    name: string;
+    score: number;
+    aiDifficulty?: AiDifficulty; // Only present for computer players
 }
 
+// Players and whose turn it is in a hot-seat multiplayer game
+export interface MultiplayerState {
+    players: Player[];
+    activePlayerIndex: number;
+}
+
+// Undo bookkeeping for practice mode
+export interface PracticeState {
+    undos: number; // Moves taken back so far
+}
+
+// The detail a painting is paired with when the two cards of a pair differ
+export type PairingMode = Exclude<CardFace, 'image'>;
+
+// ID of the deck the card faces come from, as given by its manifest in public/decks,
+// or 'custom' for the player's own deck of photos
+export type CardStyle = string;
+
 // Game state model
 export interface GameState {
     cards: Card[];
@@ -29,77 +64,50 @@ export interface GameState {
     moves: number;
     selectedCardIds: number[];
     isPreviewMode: boolean;
-    cardStyle: 'impressionist' | 'robgon';
+    cardStyle: CardStyle;
     gridSize: 'easy' | 'hard';
+    timeAttack?: TimeAttackSettings; // Only present in time-attack mode
+    lives?: number; // Remaining lives, only present in limited-lives mode
+    multiplayer?: MultiplayerState; // Only present in hot-seat multiplayer games
+    seed?: string; // Seed the deal was generated from, so it can be shared
+    practice?: PracticeState; // Only present in practice mode
+    pairing?: PairingMode; // Only present when each painting pairs with a text card
+    groupSize?: number; // Only present when more than two identical cards form a group
 }
 
+// Board sizes accepted from the URL; a board is also limited to the images of its deck
+export const MIN_PAIRS = 2;
+export const MAX_PAIRS = 100;
+
 /**
- * Creates a new initial game state
- * @returns A new game state with cards initialized
+ * Gets the number of identical cards that are found together in one move
+ * @param state Game state
+ * @returns 2 for pairs, or the group size of a match-three (or larger) game
  */
-export const createInitialGameState = (): GameState => {
-    return {
-        cards: [],
-        status: GameStatus.READY,
-        moves: 0,
-        selectedCardIds: [],
-        isPreviewMode: false,
-        cardStyle: 'impressionist',
-        gridSize: 'easy'
-    };
-};
+export const getGroupSize = (state: GameState): number => state.groupSize ?? DEFAULT_GROUP_SIZE;
 
 /**
- * Creates a deck of cards with pairs of matching images
- * @param images Array of card images to create pairs from
- * @returns Array of unshuffled cards
+ * Gets the number of groups on the board, which is the number of pairs in a standard game
+ * @param state Game state
+ * @returns Number of groups
  */
-export const createCards = (images: CardImage[]): Card[] => {
-    const cards: Card[] = [];
-
-    // Create pairs of cards with the same imageId
-    images.forEach((image, index) => {
-        // First card of the pair
-        cards.push({
-            id: (index * 2) + 1,
-            imageId: image.id,
-            isRevealed: false,
-            isMatched: false
-        });
-
-        // Second card of the pair
-        cards.push({
-            id: (index * 2) + 2,
-            imageId: image.id,
-            isRevealed: false,
-            isMatched: false
-        });
-    });
-
-    return cards;
-};
+export const getGroupCount = (state: GameState): number => state.cards.length / getGroupSize(state);
 
 /**
- * Initializes a new game with shuffled cards
- * @param totalPairs Number of pairs to create
- * @param shuffleFunction Optional custom shuffle function
- * @returns A new game state with shuffled cards
+ * Gets the number of groups already found
+ * @param state Game state
+ * @returns Number of matched groups
  */
-export const initializeGame = (
-    totalPairs: number = 12,
-    shuffleFunction?: (cards: Card[]) => Card[]
-): GameState => {
-    // Get random selection of card images
-    const selectedImages = imageManager.getRandomCardImages(totalPairs);
-
-    // Create cards from the selected images
-    const cards = createCards(selectedImages);
-
-    // Shuffle the cards if a shuffle function is provided
-    const shuffledCards = shuffleFunction ? shuffleFunction(cards) : cards;
+export const getMatchedGroupCount = (state: GameState): number =>
+    state.cards.filter(card => card.isMatched).length / getGroupSize(state);
 
+/**
+ * Creates a new initial game state
+ * @returns A new game state with cards initialized
+ */
+export const createInitialGameState = (): GameState => {
     return {
-        cards: shuffledCards,
+        cards: [],
         status: GameStatus.READY,
         moves: 0,
         selectedCardIds: [],
@@ -109,60 +117,6 @@ export const initializeGame = (
     };
 };
 
-/**
- * Initializes a new game with progress tracking from URL parameters
- * @param totalPairs Number of pairs to create
- * @param progress Optional progress parameter (number of pre-matched pairs)
- * @param shuffleFunction Optional custom shuffle function
- * @returns A new game state with shuffled cards and optional progress
- */
-export const initializeGameWithProgress = (
-    totalPairs: number,
-    progress: number | null,
-    shuffleFunction?: (cards: Card[]) => Card[]
-): GameState => {
-    // Create initial game state
-    const initialState = initializeGame(totalPairs, shuffleFunction);
-
-    // If progress parameter exists and is valid, pre-match cards
-    if (progress && progress > 0 && progress <= totalPairs) {
-        // Get the unique imageIds from the shuffled cards
-        const uniqueImageIds = Array.from(
-            new Set(initialState.cards.map(card => card.imageId))
-        );
-
-        // Select the specified number of imageIds to match
-        const imageIdsToMatch = uniqueImageIds.slice(0, progress);
-
-        // Update cards to match the pairs with the selected imageIds
-        const updatedCards = initialState.cards.map(card => {
-            if (imageIdsToMatch.includes(card.imageId)) {
-                return { ...card, isMatched: true, isRevealed: true };
-            }
-            return card;
-        });
-
-        // Return updated state with pre-matched cards and adjusted move count
-        return {
-            ...initialState,
-            cards: updatedCards,
-            moves: progress,
-            status: progress === totalPairs ? GameStatus.VICTORY_MUSIC : GameStatus.IN_PROGRESS,
-            isPreviewMode: false,
-            cardStyle: 'impressionist',
-            gridSize: 'easy'
-        };
-    }
-
-    // Return regular initial state if no valid progress parameter
-    return {
-        ...initialState,
-        isPreviewMode: false,
-        cardStyle: 'impressionist',
-        gridSize: 'easy'
-    };
-};
-
 /**
  * Reveals a card in the game state
  * @param state Current game state
@@ -170,8 +124,8 @@ export const initializeGameWithProgress = (
  * @returns New game state with the specified card revealed
  */
 export const revealCard = (state: GameState, cardId: number): GameState => {
-    // Don't allow revealing cards if two are already selected
-    if (state.selectedCardIds.length >= 2) {
+    // Don't allow revealing cards once a full group is selected
+    if (state.selectedCardIds.length >= getGroupSize(state)) {
         return state;
     }
 
@@ -191,64 +145,14 @@ export const revealCard = (state: GameState, cardId: number): GameState => {
     // Update selected card IDs
     const updatedSelectedCardIds = [...state.selectedCardIds, cardId];
 
-    return {
-        ...state,
-        cards: updatedCards,
-        selectedCardIds: updatedSelectedCardIds,
-        moves: updatedSelectedCardIds.length === 2 ? state.moves + 1 : state.moves
-    };
-};
-
-/**
- * Checks for matches in the currently selected cards
- * @param state Current game state
- * @returns New game state with matches updated
- */
-export const checkForMatches = (state: GameState): GameState => {
-    // We need exactly two selected cards to check for matches
-    if (state.selectedCardIds.length !== 2) {
-        return state;
-    }
-
-    const [firstCardId, secondCardId] = state.selectedCardIds;
-    const firstCard = state.cards.find(card => card.id === firstCardId);
-    const secondCard = state.cards.find(card => card.id === secondCardId);
-
-    // If either card is not found (shouldn't happen), return the state unchanged
-    if (!firstCard || !secondCard) {
-        return state;
-    }
-
-    // Check if the selected cards have matching images
-    const isMatch = firstCard.imageId === secondCard.imageId;
-
-    // Create updated cards array
-    const updatedCards = state.cards.map(card => {
-        // If this is one of the selected cards
-        if (card.id === firstCardId || card.id === secondCardId) {
-            if (isMatch) {
-                // If it's a match, mark as matched
-                return { ...card, isMatched: true };
-            } else {
-                // If not a match, keep the card revealed for now
-                // (Another function will handle hiding unmatched cards after delay)
-                return card;
-            }
-        }
-        // Leave other cards unchanged
-        return card;
-    });
-
-    // Check if all cards are matched to update game status
-    const allMatched = updatedCards.every(card => card.isMatched);
-    const updatedStatus = allMatched ? GameStatus.VICTORY_MUSIC : state.status;
+    // Revealing the first card starts the game
+    const startedState = state.status === GameStatus.READY ? transitionStatus(state, 'start') : state;
 
     return {
-        ...state,
+        ...startedState,
         cards: updatedCards,
-        status: updatedStatus,
-        // Clear selected cards if they don't match
-        selectedCardIds: isMatch ? [] : state.selectedCardIds
+        selectedCardIds: updatedSelectedCardIds,
+        moves: updatedSelectedCardIds.length === getGroupSize(state) ? state.moves + 1 : state.moves
     };
 };
 
@@ -258,8 +162,8 @@ export const checkForMatches = (state: GameState): GameState => {
  * @returns New game state with unmatched cards hidden
  */
 export const hideUnmatchedCards = (state: GameState): GameState => {
-    // No need to hide cards if there aren't two selected
-    if (state.selectedCardIds.length !== 2) {
+    // No need to hide cards if there isn't a full group selected
+    if (state.selectedCardIds.length !== getGroupSize(state)) {
         return state;
     }
 
@@ -278,20 +182,6 @@ export const hideUnmatchedCards = (state: GameState): GameState => {
     };
 };
 
-/**
- * Resets the game to initial state with new shuffled cards
- * @param state Current game state
- * @param shuffleFunction Optional custom shuffle function
- * @returns New game state with reset and shuffled cards
- */
-export const resetGame = (
-    state: GameState,
-    shuffleFunction?: (cards: Card[]) => Card[]
-): GameState => {
-    const totalPairs = state.cards.length / 2;
-    return initializeGame(totalPairs, shuffleFunction);
-};
-
 /**
  * Sets preview mode for all cards
  * @param state Current game state
@@ -315,7 +205,7 @@ export const setPreviewMode = (state: GameState, isPreview: boolean): GameState
  * @param style New card style
  * @returns New game state with updated card style
  */
-export const updateCardStyle = (state: GameState, style: 'impressionist' | 'robgon'): GameState => {
+export const updateCardStyle = (state: GameState, style: CardStyle): GameState => {
     return {
         ...state,
         cardStyle: style
@@ -334,27 +224,3 @@ export const updateGridSize = (state: GameState, size: 'easy' | 'hard'): GameSta
         gridSize: size
     };
 };
-
-/**
- * Transitions the game state to victory music
- * @param state Current game state
- * @returns New game state with VICTORY_MUSIC status
- */
-export const transitionToVictoryMusic = (state: GameState): GameState => {
-    return {
-        ...state,
-        status: GameStatus.VICTORY_MUSIC
-    };
-};
-
-/**
- * Transitions the game state to completed
- * @param state Current game state
- * @returns New game state with COMPLETED status
- */
-export const transitionToCompleted = (state: GameState): GameState => {
-    return {
-        ...state,
-        status: GameStatus.COMPLETED
-    };
-}; 
\ No newline at end of file
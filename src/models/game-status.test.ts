@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+    GameStatus,
+    GameStatusEvent,
+    GAME_STATUS_EVENTS,
+    getNextStatus,
+    canTransition,
+    getLegalEvents,
+    transitionStatus
+} from './game-status';
+import { GameState } from './game-state';
+
+describe('Game Status State Machine', () => {
+    // Helper function to create a test game state
+    const createTestGameState = (status: GameStatus): GameState => ({
+        cards: [
+            { id: 1, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 2, imageId: 1, isRevealed: false, isMatched: false },
+        ],
+        status,
+        moves: 0,
+        selectedCardIds: [],
+        isPreviewMode: false,
+        cardStyle: 'impressionist',
+        gridSize: 'easy'
+    });
+
+    // The complete expected table: every status/event pair, null where the event is illegal
+    const expectedTransitions: Record<GameStatus, Record<GameStatusEvent, GameStatus | null>> = {
+        [GameStatus.READY]: {
+            start: GameStatus.IN_PROGRESS,
+            all_matched: null,
+            victory_music_ended: null,
+            time_expired: null,
+            lives_exhausted: null,
+            reset: GameStatus.READY
+        },
+        [GameStatus.IN_PROGRESS]: {
+            start: null,
+            all_matched: GameStatus.VICTORY_MUSIC,
+            victory_music_ended: null,
+            time_expired: GameStatus.TIME_UP,
+            lives_exhausted: GameStatus.OUT_OF_LIVES,
+            reset: GameStatus.READY
+        },
+        [GameStatus.VICTORY_MUSIC]: {
+            start: null,
+            all_matched: null,
+            victory_music_ended: GameStatus.COMPLETED,
+            time_expired: null,
+            lives_exhausted: null,
+            reset: GameStatus.READY
+        },
+        [GameStatus.COMPLETED]: {
+            start: null,
+            all_matched: null,
+            victory_music_ended: null,
+            time_expired: null,
+            lives_exhausted: null,
+            reset: GameStatus.READY
+        },
+        [GameStatus.TIME_UP]: {
+            start: null,
+            all_matched: null,
+            victory_music_ended: null,
+            time_expired: null,
+            lives_exhausted: null,
+            reset: GameStatus.READY
+        },
+        [GameStatus.OUT_OF_LIVES]: {
+            start: null,
+            all_matched: null,
+            victory_music_ended: null,
+            time_expired: null,
+            lives_exhausted: null,
+            reset: GameStatus.READY
+        }
+    };
+
+    const statusEventPairs = Object.values(GameStatus).flatMap(status =>
+        GAME_STATUS_EVENTS.map(event => [status, event, expectedTransitions[status][event]] as const)
+    );
+
+    it('should cover every status and event', () => {
+        expect(statusEventPairs).toHaveLength(Object.values(GameStatus).length * GAME_STATUS_EVENTS.length);
+    });
+
+    describe.each(statusEventPairs)('%s + %s', (status, event, expected) => {
+        it(`should ${expected === null ? 'reject the event' : `lead to ${expected}`}`, () => {
+            expect(getNextStatus(status, event)).toBe(expected);
+            expect(canTransition(status, event)).toBe(expected !== null);
+        });
+
+        it(expected === null ? 'should leave the state untouched' : 'should update only the status', () => {
+            const state = createTestGameState(status);
+            const newState = transitionStatus(state, event);
+
+            if (expected === null) {
+                expect(newState).toBe(state);
+            } else {
+                expect(newState).toEqual({ ...state, status: expected });
+                expect(state.status).toBe(status);
+            }
+        });
+    });
+
+    describe('getLegalEvents', () => {
+        it('should list the events each status accepts', () => {
+            expect(getLegalEvents(GameStatus.READY)).toEqual(['start', 'reset']);
+            expect(getLegalEvents(GameStatus.IN_PROGRESS)).toEqual(['all_matched', 'time_expired', 'lives_exhausted', 'reset']);
+            expect(getLegalEvents(GameStatus.VICTORY_MUSIC)).toEqual(['victory_music_ended', 'reset']);
+            expect(getLegalEvents(GameStatus.COMPLETED)).toEqual(['reset']);
+            expect(getLegalEvents(GameStatus.TIME_UP)).toEqual(['reset']);
+            expect(getLegalEvents(GameStatus.OUT_OF_LIVES)).toEqual(['reset']);
+        });
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * Game Status State Machine
+ *
+ * Every change of GameStatus goes through this transition table. Each status
+ * lists the events it accepts and the status each event leads to; any other
+ * event is illegal in that status and is rejected.
+ */
+
+import type { GameState } from './game-state';
+
+// Game status enum
+export enum GameStatus {
+    READY = 'ready',
+    IN_PROGRESS = 'in_progress',
+    VICTORY_MUSIC = 'victory_music',
+    COMPLETED = 'completed',
+    TIME_UP = 'time_up',
+    OUT_OF_LIVES = 'out_of_lives'
+}
+
+// Events that change the game status
+export type GameStatusEvent =
+    | 'start' // The first card of the game is flipped
+    | 'all_matched' // The last pair is matched and the victory music starts
+    | 'victory_music_ended' // The victory music has finished or was stopped
+    | 'time_expired' // The time-attack countdown ran out
+    | 'lives_exhausted' // The last life was lost
+    | 'reset'; // The game is restarted with a new deal
+
+export const GAME_STATUS_EVENTS: GameStatusEvent[] = [
+    'start',
+    'all_matched',
+    'victory_music_ended',
+    'time_expired',
+    'lives_exhausted',
+    'reset'
+];
+
+// Legal events for each status and the status each one leads to
+export const GAME_STATUS_TRANSITIONS: Record<GameStatus, Partial<Record<GameStatusEvent, GameStatus>>> = {
+    [GameStatus.READY]: {
+        start: GameStatus.IN_PROGRESS,
+        reset: GameStatus.READY
+    },
+    [GameStatus.IN_PROGRESS]: {
+        all_matched: GameStatus.VICTORY_MUSIC,
+        time_expired: GameStatus.TIME_UP,
+        lives_exhausted: GameStatus.OUT_OF_LIVES,
+        reset: GameStatus.READY
+    },
+    [GameStatus.VICTORY_MUSIC]: {
+        victory_music_ended: GameStatus.COMPLETED,
+        reset: GameStatus.READY
+    },
+    [GameStatus.COMPLETED]: {
+        reset: GameStatus.READY
+    },
+    [GameStatus.TIME_UP]: {
+        reset: GameStatus.READY
+    },
+    [GameStatus.OUT_OF_LIVES]: {
+        reset: GameStatus.READY
+    }
+};
+
+/**
+ * Checks whether a status means the player lost the game
+ * @param status Game status to check
+ * @returns True for the failure statuses
+ */
+export const isGameLost = (status: GameStatus): boolean =>
+    status === GameStatus.TIME_UP || status === GameStatus.OUT_OF_LIVES;
+
+/**
+ * Looks up where an event leads from a status
+ * @param status Current game status
+ * @param event Event that happened
+ * @returns The next status, or null if the event is illegal in this status
+ */
+export const getNextStatus = (status: GameStatus, event: GameStatusEvent): GameStatus | null =>
+    GAME_STATUS_TRANSITIONS[status][event] ?? null;
+
+/**
+ * Checks whether an event is legal in a status
+ * @param status Current game status
+ * @param event Event to check
+ * @returns True if the event leads to a new status
+ */
+export const canTransition = (status: GameStatus, event: GameStatusEvent): boolean =>
+    getNextStatus(status, event) !== null;
+
+/**
+ * Lists the events a status accepts
+ * @param status Game status
+ * @returns Legal events, in GAME_STATUS_EVENTS order
+ */
+export const getLegalEvents = (status: GameStatus): GameStatusEvent[] =>
+    GAME_STATUS_EVENTS.filter(event => canTransition(status, event));
+
+/**
+ * Applies a status event to a game state
+ *
+ * @param state Current game state
+ * @param event Event that happened
+ * @returns New game state with the next status, or the same state object if the event is illegal
+ */
+export const transitionStatus = (state: GameState, event: GameStatusEvent): GameState => {
+    const nextStatus = getNextStatus(state.status, event);
+    return nextStatus === null ? state : { ...state, status: nextStatus };
+};
@@ -0,0 +1,12 @@
+/**
+ * Group Size Constants
+ *
+ * Kept apart from the game state model so that pure helpers, such as the
+ * grid layout, can use them without loading the model and its image manager.
+ */
+
+// Cards in a group of a standard game: a pair
+export const DEFAULT_GROUP_SIZE = 2;
+
+// Largest group accepted from the URL
+export const MAX_GROUP_SIZE = 4;
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AchievementTracker } from './achievement-tracker';
+import { InMemoryStorageService } from './storage-service';
+import { Achievement } from '../functions/achievements';
+import { createMoveLog } from '../functions/move-log';
+import { createMultiplayerState, enableMultiplayer } from '../functions/multiplayer';
+import { Card, GameState, GameStatus } from '../models/game-state';
+import { GAME_RECORDS_KEY, createGameRecord } from '../utils/player-stats';
+import { UNLOCKED_ACHIEVEMENTS_KEY, loadUnlockedAchievements, saveUnlockedAchievements } from '../utils/unlocked-achievements';
+
+describe('AchievementTracker', () => {
+    // Helper function to create a test game state
+    const createTestGameState = (): GameState => {
+        const cards: Card[] = [
+            { id: 1, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 2, imageId: 1, isRevealed: false, isMatched: false },
+            { id: 3, imageId: 2, isRevealed: false, isMatched: false },
+            { id: 4, imageId: 2, isRevealed: false, isMatched: false },
+        ];
+
+        return {
+            cards,
+            status: GameStatus.IN_PROGRESS,
+            moves: 1,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'robgon',
+            gridSize: 'easy'
+        };
+    };
+
+    const achievements: Achievement[] = [
+        { id: 'any_move', name: 'Any Move', description: 'Make a move.', isUnlocked: ({ state }) => state.moves > 0, whilePlaying: true },
+        { id: 'any_game', name: 'Any Game', description: 'Finish a game.', isUnlocked: ({ finishedGame }) => finishedGame !== null }
+    ];
+
+    let storage: InMemoryStorageService;
+    let tracker: AchievementTracker;
+
+    beforeEach(() => {
+        storage = new InMemoryStorageService();
+        tracker = new AchievementTracker(() => storage);
+    });
+
+    it('should only unlock achievements checked while playing after a move', () => {
+        const state = createTestGameState();
+
+        expect(tracker.checkMove(achievements, state, createMoveLog(state)).map(achievement => achievement.id)).toEqual(['any_move']);
+        expect(Object.keys(loadUnlockedAchievements(storage))).toEqual(['any_move']);
+    });
+
+    it('should unlock every achievement earned by a finished game', () => {
+        const state = createTestGameState();
+        const log = createMoveLog(state);
+
+        const unlocked = tracker.checkFinishedGame(achievements, state, log, createGameRecord(state, log, 1000), []);
+
+        expect(unlocked.map(achievement => achievement.id)).toEqual(['any_move', 'any_game']);
+    });
+
+    it('should not unlock an achievement twice', () => {
+        const state = createTestGameState();
+        saveUnlockedAchievements(storage, ['any_move'], 1);
+
+        expect(tracker.checkMove(achievements, state, createMoveLog(state))).toEqual([]);
+        expect(loadUnlockedAchievements(storage)).toEqual({ any_move: 1 });
+    });
+
+    it('should not unlock achievements in multiplayer games', () => {
+        const state = enableMultiplayer(createTestGameState(), createMultiplayerState(2));
+
+        expect(tracker.checkMove(achievements, state, createMoveLog(state))).toEqual([]);
+        expect(storage.getItem(UNLOCKED_ACHIEVEMENTS_KEY)).toBeNull();
+    });
+
+    it('should read the game history and unlocks once per game', () => {
+        const state = { ...createTestGameState(), moves: 0 };
+        const log = createMoveLog(state);
+        const getItem = vi.spyOn(storage, 'getItem');
+        const reads = (key: string) => getItem.mock.calls.filter(([readKey]) => readKey === key).length;
+
+        tracker.checkMove(achievements, state, log);
+        tracker.checkMove(achievements, state, log);
+        expect(reads(GAME_RECORDS_KEY)).toBe(1);
+        expect(reads(UNLOCKED_ACHIEVEMENTS_KEY)).toBe(1);
+
+        tracker.startGame();
+        tracker.checkMove(achievements, state, log);
+        expect(reads(GAME_RECORDS_KEY)).toBe(2);
+        expect(reads(UNLOCKED_ACHIEVEMENTS_KEY)).toBe(2);
+    });
+});
@@ -0,0 +1,84 @@
+import { GameState } from '../models/game-state';
+import { MoveLog } from '../functions/move-log';
+import { Achievement, findNewAchievements } from '../functions/achievements';
+import { GameRecord, loadGameRecords } from '../utils/player-stats';
+import { loadUnlockedAchievements, saveUnlockedAchievements } from '../utils/unlocked-achievements';
+import { StorageService } from './storage-service';
+
+/**
+ * Unlocks the achievements earned by the game being played
+ *
+ * The game history and the stored unlocks are read once per game rather than
+ * on every move, and newly earned achievements are saved as they unlock.
+ * Announcing them is left to the caller.
+ */
+export class AchievementTracker {
+    private getStorage: () => StorageService;
+    private previousGames: GameRecord[] | null = null; // Games finished before the current one
+    private unlockedIds: Set<string> | null = null;
+
+    constructor(getStorage: () => StorageService) {
+        this.getStorage = getStorage;
+    }
+
+    /**
+     * Forget what was read for the previous game, so a new game reads it again
+     */
+    public startGame(): void {
+        this.previousGames = null;
+        this.unlockedIds = null;
+    }
+
+    /**
+     * Unlock the achievements earned by the latest move
+     *
+     * Achievements that depend on the game history wait for the end of the game.
+     * @returns Achievements unlocked now
+     */
+    public checkMove(achievements: Achievement[], state: GameState, log: MoveLog): Achievement[] {
+        this.previousGames ??= loadGameRecords(this.getStorage());
+        return this.unlock(
+            achievements.filter(achievement => achievement.whilePlaying),
+            state,
+            log,
+            null,
+            this.previousGames
+        );
+    }
+
+    /**
+     * Unlock the achievements earned by a game that has just been won, lost or abandoned
+     *
+     * @param finishedGame Record of the game
+     * @param previousGames Games finished before this one, read before the game was stored
+     * @returns Achievements unlocked now
+     */
+    public checkFinishedGame(
+        achievements: Achievement[],
+        state: GameState,
+        log: MoveLog,
+        finishedGame: GameRecord,
+        previousGames: GameRecord[]
+    ): Achievement[] {
+        return this.unlock(achievements, state, log, finishedGame, previousGames);
+    }
+
+    private unlock(
+        achievements: Achievement[],
+        state: GameState,
+        log: MoveLog,
+        finishedGame: GameRecord | null,
+        previousGames: GameRecord[]
+    ): Achievement[] {
+        // Achievements are personal, so shared multiplayer games do not count
+        if (state.multiplayer) return [];
+
+        const unlockedIds = this.unlockedIds ??= new Set(Object.keys(loadUnlockedAchievements(this.getStorage())));
+        const newAchievements = findNewAchievements(achievements, { state, log, finishedGame, previousGames }, unlockedIds);
+        if (newAchievements.length === 0) return [];
+
+        saveUnlockedAchievements(this.getStorage(), newAchievements.map(achievement => achievement.id));
+        newAchievements.forEach(achievement => unlockedIds.add(achievement.id));
+        return newAchievements;
+    }
+}
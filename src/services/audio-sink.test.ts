@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AudioManagerSink, RecordingAudioSink } from './audio-sink';
+
+describe('AudioManagerSink', () => {
+    let playEffect: ReturnType<typeof vi.fn>;
+    let playMusic: ReturnType<typeof vi.fn>;
+    let sink: AudioManagerSink;
+
+    beforeEach(() => {
+        playEffect = vi.fn().mockReturnValue(true);
+        playMusic = vi.fn().mockReturnValue(true);
+        sink = new AudioManagerSink({ playEffect, playMusic });
+    });
+
+    it('should play sounds through the audio manager', () => {
+        sink.play([{ type: 'sound', id: 'cardFlip' }, { type: 'sound', id: 'match' }]);
+
+        expect(playEffect.mock.calls).toEqual([['cardFlip'], ['match']]);
+        expect(playMusic).not.toHaveBeenCalled();
+    });
+
+    it('should start music once the sound before it has finished', () => {
+        sink.play([{ type: 'sound', id: 'match' }, { type: 'music', id: 'gameComplete' }]);
+        expect(playMusic).not.toHaveBeenCalled();
+
+        // The audio manager calls back when the match sound ends
+        const onEnded = playEffect.mock.calls[0][2] as () => void;
+        onEnded();
+
+        expect(playMusic).toHaveBeenCalledWith('gameComplete');
+    });
+
+    it('should start music straight away if the sound before it could not play', () => {
+        playEffect.mockReturnValue(false);
+
+        sink.play([{ type: 'sound', id: 'match' }, { type: 'music', id: 'gameComplete' }]);
+
+        expect(playMusic).toHaveBeenCalledWith('gameComplete');
+    });
+});
+
+describe('RecordingAudioSink', () => {
+    it('should record effects instead of playing them', () => {
+        const sink = new RecordingAudioSink();
+
+        sink.play([{ type: 'sound', id: 'match' }, { type: 'music', id: 'gameComplete' }]);
+
+        expect(sink.effects).toEqual([{ type: 'sound', id: 'match' }, { type: 'music', id: 'gameComplete' }]);
+        expect(sink.hasRequestedMusic('gameComplete')).toBe(true);
+
+        sink.clear();
+        expect(sink.effects).toEqual([]);
+        expect(sink.hasRequestedMusic('gameComplete')).toBe(false);
+    });
+});
@@ -0,0 +1,57 @@
+import { GameEffect } from '../functions/game-effects';
+import type { AudioManager } from '../managers/audio-manager';
+
+// Plays the effects the game asks for
+export interface AudioSink {
+    play(effects: GameEffect[]): void;
+}
+
+// Plays effects through an AudioManager
+export class AudioManagerSink implements AudioSink {
+    private audioManager: Pick<AudioManager, 'playEffect' | 'playMusic'>;
+
+    constructor(audioManager: Pick<AudioManager, 'playEffect' | 'playMusic'>) {
+        this.audioManager = audioManager;
+    }
+
+    play(effects: GameEffect[]): void {
+        this.playFrom(effects, 0);
+    }
+
+    private playFrom(effects: GameEffect[], index: number): void {
+        const effect = effects[index];
+        if (!effect) return;
+
+        const playRest = () => this.playFrom(effects, index + 1);
+        if (effect.type === 'music') {
+            this.audioManager.playMusic(effect.id);
+            playRest();
+        } else if (effects[index + 1]?.type === 'music') {
+            // Music waits for the sound before it, unless that sound could not play
+            if (!this.audioManager.playEffect(effect.id, 1.0, playRest)) {
+                playRest();
+            }
+        } else {
+            this.audioManager.playEffect(effect.id);
+            playRest();
+        }
+    }
+}
+
+// An audio sink for testing that records every effect instead of playing it
+export class RecordingAudioSink implements AudioSink {
+    effects: GameEffect[] = [];
+
+    play(effects: GameEffect[]): void {
+        this.effects.push(...effects);
+    }
+
+    // Whether a piece of music was asked for
+    hasRequestedMusic(id: string): boolean {
+        return this.effects.some(effect => effect.type === 'music' && effect.id === id);
+    }
+
+    clear(): void {
+        this.effects = [];
+    }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { IndexedDbDeckStore, InMemoryDeckStore } from './deck-store';
+import { CustomDeck, CUSTOM_DECK_SIZE } from '../functions/custom-deck';
+
+describe('Deck stores', () => {
+    const deck: CustomDeck = {
+        name: 'Class photos',
+        images: Array.from({ length: CUSTOM_DECK_SIZE }, (_, index) => ({ name: `Photo ${index + 1}`, blob: new Blob([`${index}`]) })),
+        createdAt: 1
+    };
+
+    describe('InMemoryDeckStore', () => {
+        it('should save, load and delete the deck', async () => {
+            const store = new InMemoryDeckStore();
+            expect(await store.loadDeck()).toBeNull();
+
+            await store.saveDeck(deck);
+            expect(await store.loadDeck()).toBe(deck);
+
+            await store.deleteDeck();
+            expect(await store.loadDeck()).toBeNull();
+        });
+    });
+
+    describe('IndexedDbDeckStore', () => {
+        // The test environment has no IndexedDB, like some private browsing modes
+        it('should load no deck when IndexedDB is unavailable', async () => {
+            expect(await new IndexedDbDeckStore().loadDeck()).toBeNull();
+        });
+
+        it('should report that a deck cannot be saved without IndexedDB', async () => {
+            await expect(new IndexedDbDeckStore().saveDeck(deck)).rejects.toThrow('IndexedDB is not available');
+        });
+    });
+});
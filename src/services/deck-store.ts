@@ -0,0 +1,86 @@
+import { CustomDeck, isCustomDeck } from '../functions/custom-deck';
+
+// Keeps the player's custom deck between visits
+export interface DeckStore {
+    loadDeck(): Promise<CustomDeck | null>;
+    saveDeck(deck: CustomDeck): Promise<void>;
+    deleteDeck(): Promise<void>;
+}
+
+const DATABASE_NAME = 'memory-game';
+const DATABASE_VERSION = 1;
+const DECK_STORE_NAME = 'decks';
+const CUSTOM_DECK_KEY = 'custom';
+
+// Stores the deck in IndexedDB, which holds image blobs that are too large for localStorage
+export class IndexedDbDeckStore implements DeckStore {
+    private database: Promise<IDBDatabase> | null = null;
+
+    async loadDeck(): Promise<CustomDeck | null> {
+        try {
+            const value = await this.request('readonly', (store) => store.get(CUSTOM_DECK_KEY));
+            return isCustomDeck(value) ? value : null;
+        } catch {
+            // Storage can be unavailable (private mode, disabled storage)
+            return null;
+        }
+    }
+
+    async saveDeck(deck: CustomDeck): Promise<void> {
+        await this.request('readwrite', (store) => store.put(deck, CUSTOM_DECK_KEY));
+    }
+
+    async deleteDeck(): Promise<void> {
+        await this.request('readwrite', (store) => store.delete(CUSTOM_DECK_KEY));
+    }
+
+    private open(): Promise<IDBDatabase> {
+        this.database ??= new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available'));
+                return;
+            }
+
+            const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+            request.onupgradeneeded = () => request.result.createObjectStore(DECK_STORE_NAME);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).catch((error) => {
+            // Try again next time, e.g. once the player allows storage
+            this.database = null;
+            throw error;
+        });
+        return this.database;
+    }
+
+    private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const database = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const transaction = database.transaction(DECK_STORE_NAME, mode);
+            const request = operation(transaction.objectStore(DECK_STORE_NAME));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    }
+}
+
+// A deck store for testing that keeps the deck in memory
+export class InMemoryDeckStore implements DeckStore {
+    private deck: CustomDeck | null = null;
+
+    async loadDeck(): Promise<CustomDeck | null> {
+        return this.deck;
+    }
+
+    async saveDeck(deck: CustomDeck): Promise<void> {
+        this.deck = deck;
+    }
+
+    async deleteDeck(): Promise<void> {
+        this.deck = null;
+    }
+}
+
+// Create default instance
+export const defaultDeckStore = new IndexedDbDeckStore();
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GameClock, formatElapsedTime } from './game-clock';
+import { ManualTimerService, SynchronousTimerService } from './timer-service';
+
+describe('formatElapsedTime', () => {
+    it('should format milliseconds as m:ss', () => {
+        expect(formatElapsedTime(0)).toBe('0:00');
+        expect(formatElapsedTime(9_999)).toBe('0:09');
+        expect(formatElapsedTime(65_000)).toBe('1:05');
+        expect(formatElapsedTime(600_000)).toBe('10:00');
+    });
+
+    it('should clamp negative values to zero', () => {
+        expect(formatElapsedTime(-500)).toBe('0:00');
+    });
+});
+
+describe('GameClock', () => {
+    let timerService: ManualTimerService;
+    let onTick: ReturnType<typeof vi.fn>;
+    let clock: GameClock;
+
+    beforeEach(() => {
+        timerService = new ManualTimerService();
+        onTick = vi.fn();
+        clock = new GameClock(timerService, onTick);
+    });
+
+    it('should not run until started', () => {
+        timerService.advanceTime(5000);
+
+        expect(clock.isRunning()).toBe(false);
+        expect(clock.getElapsedMs()).toBe(0);
+        expect(onTick).not.toHaveBeenCalled();
+    });
+
+    it('should tick once per interval while running', () => {
+        clock.start();
+        timerService.advanceTime(3000);
+
+        expect(clock.getElapsedMs()).toBe(3000);
+        expect(onTick).toHaveBeenCalledTimes(3);
+        expect(onTick).toHaveBeenLastCalledWith(3000);
+    });
+
+    it('should continue from an initial elapsed time', () => {
+        clock.start(42_000);
+        timerService.advanceTime(1000);
+
+        expect(onTick).toHaveBeenLastCalledWith(43_000);
+    });
+
+    it('should not count time while paused', () => {
+        clock.start();
+        timerService.advanceTime(1500);
+        clock.pause();
+        timerService.advanceTime(10_000);
+
+        expect(clock.getElapsedMs()).toBe(1500);
+        expect(timerService.getPendingCount()).toBe(0);
+
+        clock.resume();
+        timerService.advanceTime(500);
+
+        expect(clock.getElapsedMs()).toBe(2000);
+    });
+
+    it('should freeze the elapsed time when stopped', () => {
+        clock.start();
+        timerService.advanceTime(2000);
+        clock.stop();
+        clock.resume();
+        timerService.advanceTime(5000);
+
+        expect(clock.isRunning()).toBe(false);
+        expect(clock.getElapsedMs()).toBe(2000);
+    });
+
+    it('should restart from zero after being stopped', () => {
+        clock.start();
+        timerService.advanceTime(2000);
+        clock.stop();
+        clock.start();
+        timerService.advanceTime(1000);
+
+        expect(clock.getElapsedMs()).toBe(1000);
+    });
+
+    it('should stop ticking when stopped from a tick callback', () => {
+        const stoppingClock = new GameClock(timerService, () => stoppingClock.stop());
+
+        stoppingClock.start();
+        timerService.advanceTime(1000);
+
+        expect(timerService.getPendingCount()).toBe(0);
+    });
+
+    it('should work with the synchronous timer service without recursing', () => {
+        const synchronousTimerService = new SynchronousTimerService();
+        const synchronousClock = new GameClock(synchronousTimerService, onTick);
+
+        synchronousClock.start();
+        synchronousTimerService.advanceTime(4000);
+
+        expect(onTick).toHaveBeenCalledTimes(1);
+        expect(synchronousClock.getElapsedMs()).toBe(4000);
+    });
+});
@@ -0,0 +1,129 @@
+import { TimerService } from './timer-service';
+
+// Callback invoked on every clock tick with the elapsed time
+export type GameClockTickCallback = (elapsedMs: number) => void;
+
+/**
+ * Formats elapsed milliseconds as m:ss
+ * @param elapsedMs Elapsed time in milliseconds
+ * @returns Formatted time string
+ */
+export const formatElapsedTime = (elapsedMs: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(elapsedMs / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Elapsed-time clock for a single game
+ *
+ * Time is measured with TimerService.now() and display ticks are scheduled
+ * through TimerService.setTimeout, so tests can drive it with a fake clock.
+ */
+export class GameClock {
+    private timerService: TimerService;
+    private onTick: GameClockTickCallback;
+    private tickInterval: number;
+    private accumulatedMs = 0;
+    private runningSince: number | null = null;
+    private isStopped = false;
+    private tickTimer: number | null = null;
+    private isScheduling = false;
+
+    constructor(timerService: TimerService, onTick: GameClockTickCallback = () => { }, tickInterval: number = 1000) {
+        this.timerService = timerService;
+        this.onTick = onTick;
+        this.tickInterval = tickInterval;
+    }
+
+    /**
+     * Start the clock, optionally continuing from a previous elapsed time
+     */
+    public start(initialElapsedMs: number = 0): void {
+        this.cancelTick();
+        this.accumulatedMs = initialElapsedMs;
+        this.runningSince = null;
+        this.isStopped = false;
+        this.resume();
+    }
+
+    /**
+     * Pause the clock (e.g. while the page is hidden)
+     */
+    public pause(): void {
+        if (this.runningSince === null) return;
+
+        this.accumulatedMs = this.getElapsedMs();
+        this.runningSince = null;
+        this.cancelTick();
+    }
+
+    /**
+     * Resume a paused clock; a stopped clock stays stopped
+     */
+    public resume(): void {
+        if (this.isStopped || this.runningSince !== null) return;
+
+        this.runningSince = this.timerService.now();
+        this.scheduleTick();
+    }
+
+    /**
+     * Stop the clock for good, freezing the elapsed time
+     */
+    public stop(): void {
+        this.pause();
+        this.isStopped = true;
+    }
+
+    /**
+     * Whether the clock is currently counting
+     */
+    public isRunning(): boolean {
+        return this.runningSince !== null;
+    }
+
+    /**
+     * Get the elapsed time in milliseconds
+     */
+    public getElapsedMs(): number {
+        if (this.runningSince === null) {
+            return this.accumulatedMs;
+        }
+        return this.accumulatedMs + Math.max(0, this.timerService.now() - this.runningSince);
+    }
+
+    private scheduleTick(): void {
+        // SynchronousTimerService runs callbacks inline, so a tick that schedules
+        // the next one would recurse forever; only the outermost call schedules
+        if (this.isScheduling) return;
+
+        this.isScheduling = true;
+        let hasFired = false;
+        const timerId = this.timerService.setTimeout(() => {
+            hasFired = true;
+            this.tickTimer = null;
+            if (this.runningSince === null) return;
+
+            this.onTick(this.getElapsedMs());
+
+            // The tick callback may have paused or stopped the clock
+            if (this.runningSince !== null) {
+                this.scheduleTick();
+            }
+        }, this.tickInterval);
+        this.isScheduling = false;
+
+        if (!hasFired) {
+            this.tickTimer = timerId;
+        }
+    }
+
+    private cancelTick(): void {
+        if (this.tickTimer !== null) {
+            this.timerService.clearTimeout(this.tickTimer);
+            this.tickTimer = null;
+        }
+    }
+}
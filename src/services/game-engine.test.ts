@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GameEngine, GameMiddleware } from './game-engine';
+import { GameReducer, GameActionType } from '../functions/game-reducer';
+import { GameState, GameStatus } from '../models/game-state';
+
+describe('GameEngine', () => {
+    let initialState: GameState;
+
+    beforeEach(() => {
+        initialState = {
+            cards: [
+                { id: 1, imageId: 1, isRevealed: false, isMatched: false },
+                { id: 2, imageId: 1, isRevealed: false, isMatched: false },
+                { id: 3, imageId: 2, isRevealed: false, isMatched: false },
+                { id: 4, imageId: 2, isRevealed: false, isMatched: false },
+            ],
+            status: GameStatus.READY,
+            moves: 0,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'impressionist',
+            gridSize: 'easy'
+        };
+    });
+
+    it('should start with the initial state', () => {
+        expect(new GameEngine(initialState).getState()).toBe(initialState);
+    });
+
+    it('should apply actions with the reducer', () => {
+        const engine = new GameEngine(initialState);
+
+        engine.dispatch({ type: 'FLIP', cardId: 1 });
+
+        expect(engine.getState().status).toBe(GameStatus.IN_PROGRESS);
+        expect(engine.getState().selectedCardIds).toEqual([1]);
+    });
+
+    it('should notify subscribers of changes with the previous state and action', () => {
+        const engine = new GameEngine(initialState);
+        const listener = vi.fn();
+        engine.subscribe(listener);
+
+        engine.dispatch({ type: 'FLIP', cardId: 1 });
+
+        expect(listener).toHaveBeenCalledWith(engine.getState(), initialState, { type: 'FLIP', cardId: 1 });
+    });
+
+    it('should not notify subscribers when nothing changed', () => {
+        const engine = new GameEngine(initialState);
+        const listener = vi.fn();
+        engine.subscribe(listener);
+
+        engine.dispatch({ type: 'MUSIC_ENDED' });
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should stop notifying after unsubscribing', () => {
+        const engine = new GameEngine(initialState);
+        const listener = vi.fn();
+        const unsubscribe = engine.subscribe(listener);
+
+        unsubscribe();
+        engine.dispatch({ type: 'FLIP', cardId: 1 });
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should run middleware in order around the reducer', () => {
+        const calls: string[] = [];
+        const tracer = (name: string): GameMiddleware => ({ getState }) => next => action => {
+            calls.push(`${name} before ${getState().selectedCardIds.length}`);
+            next(action);
+            calls.push(`${name} after ${getState().selectedCardIds.length}`);
+        };
+        const engine = new GameEngine(initialState, undefined, [tracer('outer'), tracer('inner')]);
+
+        engine.dispatch({ type: 'FLIP', cardId: 1 });
+
+        expect(calls).toEqual(['outer before 0', 'inner before 0', 'inner after 1', 'outer after 1']);
+    });
+
+    it('should let middleware swallow or dispatch actions', () => {
+        // Ignores flips of card 4 and checks for a match after every second flip
+        const middleware: GameMiddleware = ({ getState, dispatch }) => next => action => {
+            if (action.type === 'FLIP' && action.cardId === 4) return;
+            next(action);
+            if (action.type === 'FLIP' && getState().selectedCardIds.length === 2) {
+                dispatch({ type: 'CHECK_MATCH' });
+            }
+        };
+        const engine = new GameEngine(initialState, undefined, [middleware]);
+
+        engine.dispatch({ type: 'FLIP', cardId: 4 });
+        expect(engine.getState()).toBe(initialState);
+
+        engine.dispatch({ type: 'FLIP', cardId: 1 });
+        engine.dispatch({ type: 'FLIP', cardId: 2 });
+        expect(engine.getState().cards.filter(card => card.isMatched)).toHaveLength(2);
+    });
+
+    it('should use a replaced reducer for later actions', () => {
+        const seen: GameActionType[] = [];
+        const recordingReducer: GameReducer = (state, action) => {
+            seen.push(action.type);
+            return state;
+        };
+        const engine = new GameEngine(initialState);
+
+        engine.replaceReducer(recordingReducer);
+        engine.dispatch({ type: 'FLIP', cardId: 1 });
+
+        expect(seen).toEqual(['FLIP']);
+        expect(engine.getState()).toBe(initialState);
+    });
+});
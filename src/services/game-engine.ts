@@ -0,0 +1,89 @@
+import { GameState } from '../models/game-state';
+import { GameAction, GameReducer, gameReducer } from '../functions/game-reducer';
+
+// Called after an action changed the state
+export type GameStateListener = (state: GameState, previousState: GameState, action: GameAction) => void;
+
+export type GameDispatch = (action: GameAction) => void;
+
+// What a middleware can see of the engine
+export interface GameMiddlewareApi {
+    getState(): GameState;
+    dispatch: GameDispatch;
+}
+
+/**
+ * Middleware wraps dispatch to run side effects such as sound, persistence
+ * and analytics. Calling `next` applies the action, so a middleware reads the
+ * state before and after it.
+ */
+export type GameMiddleware = (api: GameMiddlewareApi) => (next: GameDispatch) => GameDispatch;
+
+/**
+ * Store for a single game
+ *
+ * Holds the current GameState, applies actions through a pure reducer and
+ * notifies subscribers of every change. Side effects never live in the
+ * reducer; they run in the middleware chain around it.
+ */
+export class GameEngine {
+    private state: GameState;
+    private reducer: GameReducer;
+    private listeners: Set<GameStateListener> = new Set();
+    private middlewareDispatch: GameDispatch;
+
+    constructor(initialState: GameState, reducer: GameReducer = gameReducer, middleware: GameMiddleware[] = []) {
+        this.state = initialState;
+        this.reducer = reducer;
+
+        // The first middleware sees each action first and the reducer runs last
+        const api: GameMiddlewareApi = {
+            getState: () => this.state,
+            dispatch: (action) => this.dispatch(action)
+        };
+        this.middlewareDispatch = middleware.reduceRight<GameDispatch>(
+            (next, current) => current(api)(next),
+            (action) => this.apply(action)
+        );
+    }
+
+    /**
+     * Get the current game state
+     */
+    public getState(): GameState {
+        return this.state;
+    }
+
+    /**
+     * Run an action through the middleware chain and the reducer
+     */
+    public dispatch(action: GameAction): void {
+        this.middlewareDispatch(action);
+    }
+
+    /**
+     * Listen for state changes
+     * @returns A function that removes the listener
+     */
+    public subscribe(listener: GameStateListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Swap the rules, e.g. to plug in a rule variant, keeping the current state
+     */
+    public replaceReducer(reducer: GameReducer): void {
+        this.reducer = reducer;
+    }
+
+    private apply(action: GameAction): void {
+        const previousState = this.state;
+        this.state = this.reducer(previousState, action);
+        if (this.state === previousState) return;
+
+        this.listeners.forEach(listener => listener(this.state, previousState, action));
+    }
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createAudioMiddleware, createPersistenceMiddleware, createMoveLogMiddleware } from './game-middleware';
+import { GameEngine } from './game-engine';
+import { RecordingAudioSink } from './audio-sink';
+import { GameState, GameStatus } from '../models/game-state';
+
+describe('Game Middleware', () => {
+    let initialState: GameState;
+
+    beforeEach(() => {
+        initialState = {
+            cards: [
+                { id: 1, imageId: 1, isRevealed: false, isMatched: false },
+                { id: 2, imageId: 1, isRevealed: false, isMatched: false },
+                { id: 3, imageId: 2, isRevealed: false, isMatched: false },
+                { id: 4, imageId: 2, isRevealed: false, isMatched: false },
+            ],
+            status: GameStatus.READY,
+            moves: 0,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'impressionist',
+            gridSize: 'easy',
+            timeAttack: { timeLimitMs: 10_000, matchBonusMs: 0 }
+        };
+    });
+
+    describe('createAudioMiddleware', () => {
+        let sink: RecordingAudioSink;
+        let engine: GameEngine;
+
+        beforeEach(() => {
+            sink = new RecordingAudioSink();
+            engine = new GameEngine(initialState, undefined, [createAudioMiddleware(() => sink)]);
+        });
+
+        it('should send the effects of every action to the sink', () => {
+            engine.dispatch({ type: 'FLIP', cardId: 1 });
+            engine.dispatch({ type: 'FLIP', cardId: 2 });
+            engine.dispatch({ type: 'CHECK_MATCH' });
+
+            expect(sink.effects).toEqual([
+                { type: 'sound', id: 'cardFlip' },
+                { type: 'sound', id: 'cardFlip' },
+                { type: 'sound', id: 'match' }
+            ]);
+        });
+
+        it('should request the victory music after the final match', () => {
+            [1, 2, 3, 4].forEach(cardId => {
+                engine.dispatch({ type: 'FLIP', cardId });
+                engine.dispatch({ type: 'CHECK_MATCH' });
+            });
+
+            expect(sink.hasRequestedMusic('gameComplete')).toBe(true);
+            expect(sink.effects.slice(-2)).toEqual([
+                { type: 'sound', id: 'match' },
+                { type: 'music', id: 'gameComplete' }
+            ]);
+        });
+
+        it('should not bother the sink when an action has no effects', () => {
+            const play = vi.spyOn(sink, 'play');
+
+            engine.dispatch({ type: 'MUSIC_ENDED' });
+            engine.dispatch({ type: 'SET_GRID_SIZE', gridSize: 'hard' });
+
+            expect(play).not.toHaveBeenCalled();
+        });
+
+        it('should look up the sink for every action', () => {
+            const otherSink = new RecordingAudioSink();
+            let current = sink;
+            engine = new GameEngine(initialState, undefined, [createAudioMiddleware(() => current)]);
+
+            current = otherSink;
+            engine.dispatch({ type: 'FLIP', cardId: 1 });
+
+            expect(sink.effects).toEqual([]);
+            expect(otherSink.effects).toEqual([{ type: 'sound', id: 'cardFlip' }]);
+        });
+    });
+
+    describe('createPersistenceMiddleware', () => {
+        it('should save every new state', () => {
+            const save = vi.fn();
+            const engine = new GameEngine(initialState, undefined, [createPersistenceMiddleware(save)]);
+
+            engine.dispatch({ type: 'FLIP', cardId: 1 });
+            engine.dispatch({ type: 'MUSIC_ENDED' });
+
+            expect(save).toHaveBeenCalledTimes(1);
+            expect(save).toHaveBeenCalledWith(engine.getState());
+        });
+    });
+
+    describe('createMoveLogMiddleware', () => {
+        let record: ReturnType<typeof vi.fn>;
+        let engine: GameEngine;
+
+        beforeEach(() => {
+            record = vi.fn();
+            engine = new GameEngine(initialState, undefined, [createMoveLogMiddleware(record)]);
+        });
+
+        it('should record flips, matches, mismatches and cards flipping back', () => {
+            engine.dispatch({ type: 'FLIP', cardId: 1 });
+            engine.dispatch({ type: 'FLIP', cardId: 2 });
+            engine.dispatch({ type: 'CHECK_MATCH' });
+            engine.dispatch({ type: 'FLIP', cardId: 3 });
+            engine.dispatch({ type: 'FLIP', cardId: 1 }); // Already matched, ignored
+            engine.dispatch({ type: 'SET_STYLE', cardStyle: 'robgon' });
+
+            expect(record.mock.calls.map(([event]) => event)).toEqual([
+                { type: 'flip', cardId: 1 },
+                { type: 'flip', cardId: 2 },
+                { type: 'match', cardIds: [1, 2] },
+                { type: 'flip', cardId: 3 },
+                { type: 'style_change', cardStyle: 'robgon' }
+            ]);
+        });
+
+        it('should record a mismatch and the cards flipping back', () => {
+            engine.dispatch({ type: 'FLIP', cardId: 1 });
+            engine.dispatch({ type: 'FLIP', cardId: 3 });
+            record.mockClear();
+
+            engine.dispatch({ type: 'CHECK_MATCH' });
+            engine.dispatch({ type: 'RESOLVE_MISMATCH' });
+
+            expect(record.mock.calls.map(([event]) => event)).toEqual([
+                { type: 'mismatch', cardIds: [1, 3] },
+                { type: 'hide' }
+            ]);
+        });
+
+        it('should record new deals and undos with their state', () => {
+            const dealt = { ...initialState, moves: 0, seed: 'abc' };
+            const undone = { ...initialState, moves: 2 };
+
+            engine.dispatch({ type: 'RESTART' });
+            engine.dispatch({ type: 'DEAL', state: dealt });
+            engine.dispatch({ type: 'UNDO', state: undone });
+
+            expect(record.mock.calls.map(([event]) => event)).toEqual([
+                { type: 'restart', state: dealt },
+                { type: 'undo', state: undone }
+            ]);
+        });
+
+        it('should record completion only when the victory music ends the game', () => {
+            engine.dispatch({ type: 'MUSIC_ENDED' });
+            expect(record).not.toHaveBeenCalled();
+
+            engine.dispatch({ type: 'LOAD', state: { ...initialState, status: GameStatus.VICTORY_MUSIC } });
+            engine.dispatch({ type: 'MUSIC_STARTED' });
+            engine.dispatch({ type: 'MUSIC_ENDED' });
+
+            expect(record.mock.calls.map(([event]) => event)).toEqual([{ type: 'complete' }]);
+        });
+
+        it('should record the countdown running out', () => {
+            engine.dispatch({ type: 'FLIP', cardId: 1 });
+            record.mockClear();
+
+            engine.dispatch({ type: 'TIME_EXPIRED' });
+
+            expect(record).toHaveBeenCalledWith({ type: 'time_up' });
+        });
+    });
+});
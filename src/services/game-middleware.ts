@@ -0,0 +1,85 @@
+import { GameState } from '../models/game-state';
+import { GameAction } from '../functions/game-reducer';
+import { getGameEffects, isMatchAction } from '../functions/game-effects';
+import { UntimedMoveEvent } from '../functions/move-log';
+import { AudioSink } from './audio-sink';
+import { GameMiddleware } from './game-engine';
+
+/**
+ * Describes an action that changed the game as a move log event
+ */
+const getMoveEvent = (action: GameAction, before: GameState, after: GameState): UntimedMoveEvent | null => {
+    switch (action.type) {
+        case 'FLIP':
+            return { type: 'flip', cardId: action.cardId };
+        case 'CHECK_MATCH':
+            return { type: isMatchAction(action, before, after) ? 'match' : 'mismatch', cardIds: before.selectedCardIds };
+        case 'RESOLVE_MISMATCH':
+            return { type: 'hide' };
+        case 'DEAL':
+            return { type: 'restart', state: after };
+        case 'UNDO':
+            return { type: 'undo', state: after };
+        case 'SET_STYLE':
+            return { type: 'style_change', cardStyle: action.cardStyle };
+        case 'TIME_EXPIRED':
+            return { type: 'time_up' };
+        case 'MUSIC_ENDED':
+            return { type: 'complete' };
+        default:
+            // Loading a game or changing the grid size starts no move of its own
+            return null;
+    }
+};
+
+/**
+ * Sends the sound effects and music of every action to an audio sink
+ *
+ * @param getAudioSink Looked up on every action, so the audio sink can be swapped
+ * @returns Audio middleware
+ */
+export const createAudioMiddleware = (getAudioSink: () => AudioSink): GameMiddleware =>
+    ({ getState }) => next => action => {
+        const before = getState();
+        next(action);
+
+        const effects = getGameEffects(action, before, getState());
+        if (effects.length > 0) {
+            getAudioSink().play(effects);
+        }
+    };
+
+/**
+ * Saves the game after every change so it can be resumed later
+ *
+ * @param save Stores the new state
+ * @returns Persistence middleware
+ */
+export const createPersistenceMiddleware = (save: (state: GameState) => void): GameMiddleware =>
+    ({ getState }) => next => action => {
+        const before = getState();
+        next(action);
+        const after = getState();
+        if (after !== before) {
+            save(after);
+        }
+    };
+
+/**
+ * Records every move in the move log, for replays, scoring and analytics
+ *
+ * @param record Adds an event to the log
+ * @returns Move log middleware
+ */
+export const createMoveLogMiddleware = (record: (event: UntimedMoveEvent) => void): GameMiddleware =>
+    ({ getState }) => next => action => {
+        const before = getState();
+        next(action);
+        const after = getState();
+        if (after === before) return;
+
+        const event = getMoveEvent(action, before, after);
+        if (event) {
+            record(event);
+        }
+    };
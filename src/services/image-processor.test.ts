@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CanvasImageProcessor, PassThroughImageProcessor } from './image-processor';
+
+describe('CanvasImageProcessor', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    // happy-dom has no canvas, so the bitmap and canvas are stand-ins that record what is drawn
+    const stubCanvas = (bitmapWidth: number, bitmapHeight: number, result: Blob | null) => {
+        const bitmap = { width: bitmapWidth, height: bitmapHeight, close: vi.fn() };
+        const context = { drawImage: vi.fn() };
+        const canvas = {
+            width: 0,
+            height: 0,
+            getContext: () => context,
+            toBlob: (callback: (blob: Blob | null) => void) => callback(result)
+        };
+        vi.stubGlobal('createImageBitmap', vi.fn().mockResolvedValue(bitmap));
+        vi.spyOn(document, 'createElement').mockReturnValue(canvas as unknown as HTMLElement);
+        return { bitmap, context, canvas };
+    };
+
+    it('should crop a photo to the card shape and resize it', async () => {
+        const resized = new Blob(['resized']);
+        const { bitmap, context, canvas } = stubCanvas(1000, 700, resized);
+
+        const result = await new CanvasImageProcessor(350, 490).fitToCard(new Blob(['photo']));
+
+        expect(result).toBe(resized);
+        expect([canvas.width, canvas.height]).toEqual([350, 490]);
+        expect(context.drawImage).toHaveBeenCalledWith(bitmap, 250, 0, 500, 700, 0, 0, 350, 490);
+        expect(bitmap.close).toHaveBeenCalled();
+    });
+
+    it('should fail when the resized image cannot be encoded', async () => {
+        const { bitmap } = stubCanvas(350, 490, null);
+
+        await expect(new CanvasImageProcessor().fitToCard(new Blob(['photo']))).rejects.toThrow('could not be saved');
+        expect(bitmap.close).toHaveBeenCalled();
+    });
+});
+
+describe('PassThroughImageProcessor', () => {
+    it('should keep images as they are', async () => {
+        const image = new Blob(['photo']);
+
+        expect(await new PassThroughImageProcessor().fitToCard(image)).toBe(image);
+    });
+});
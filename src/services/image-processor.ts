@@ -0,0 +1,56 @@
+import { CARD_IMAGE_WIDTH, CARD_IMAGE_HEIGHT, getCoverCrop } from '../functions/custom-deck';
+
+// Turns a photo into a card face
+export interface ImageProcessor {
+    fitToCard(image: Blob): Promise<Blob>;
+}
+
+// Crops a photo to the card shape and resizes it on a canvas
+export class CanvasImageProcessor implements ImageProcessor {
+    private width: number;
+    private height: number;
+    private quality: number;
+
+    constructor(width: number = CARD_IMAGE_WIDTH, height: number = CARD_IMAGE_HEIGHT, quality: number = 0.9) {
+        this.width = width;
+        this.height = height;
+        this.quality = quality;
+    }
+
+    async fitToCard(image: Blob): Promise<Blob> {
+        const bitmap = await createImageBitmap(image);
+        try {
+            const canvas = document.createElement('canvas');
+            canvas.width = this.width;
+            canvas.height = this.height;
+
+            const context = canvas.getContext('2d');
+            if (!context) {
+                throw new Error('Images cannot be resized in this browser');
+            }
+
+            const crop = getCoverCrop(bitmap.width, bitmap.height, this.width, this.height);
+            context.drawImage(bitmap, crop.x, crop.y, crop.width, crop.height, 0, 0, this.width, this.height);
+
+            return await new Promise<Blob>((resolve, reject) => {
+                canvas.toBlob(
+                    (blob) => blob ? resolve(blob) : reject(new Error('The resized image could not be saved')),
+                    'image/jpeg',
+                    this.quality
+                );
+            });
+        } finally {
+            bitmap.close();
+        }
+    }
+}
+
+// An image processor for testing that keeps images as they are
+export class PassThroughImageProcessor implements ImageProcessor {
+    async fitToCard(image: Blob): Promise<Blob> {
+        return image;
+    }
+}
+
+// Create default instance
+export const defaultImageProcessor = new CanvasImageProcessor();
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LocalStorageService, InMemoryStorageService, StorageService } from './storage-service';
+
+describe('StorageService', () => {
+    describe('LocalStorageService', () => {
+        let storageService: StorageService;
+
+        beforeEach(() => {
+            window.localStorage.clear();
+            storageService = new LocalStorageService();
+        });
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+            window.localStorage.clear();
+        });
+
+        it('should write and read values through window.localStorage', () => {
+            storageService.setItem('key', 'value');
+
+            expect(window.localStorage.getItem('key')).toBe('value');
+            expect(storageService.getItem('key')).toBe('value');
+        });
+
+        it('should return null for missing keys', () => {
+            expect(storageService.getItem('missing')).toBeNull();
+        });
+
+        it('should remove values', () => {
+            storageService.setItem('key', 'value');
+            storageService.removeItem('key');
+
+            expect(storageService.getItem('key')).toBeNull();
+        });
+
+        it('should swallow storage errors', () => {
+            vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+                throw new Error('QuotaExceededError');
+            });
+            vi.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+                throw new Error('SecurityError');
+            });
+
+            expect(() => storageService.setItem('key', 'value')).not.toThrow();
+            expect(storageService.getItem('key')).toBeNull();
+        });
+    });
+
+    describe('InMemoryStorageService', () => {
+        let storageService: StorageService;
+
+        beforeEach(() => {
+            storageService = new InMemoryStorageService();
+        });
+
+        it('should store values without touching localStorage', () => {
+            storageService.setItem('in-memory-key', 'value');
+
+            expect(storageService.getItem('in-memory-key')).toBe('value');
+            expect(window.localStorage.getItem('in-memory-key')).toBeNull();
+        });
+
+        it('should remove values', () => {
+            storageService.setItem('key', 'value');
+            storageService.removeItem('key');
+
+            expect(storageService.getItem('key')).toBeNull();
+        });
+    });
+});
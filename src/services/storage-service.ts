@@ -0,0 +1,52 @@
+export interface StorageService {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+export class LocalStorageService implements StorageService {
+    getItem(key: string): string | null {
+        try {
+            return window.localStorage.getItem(key);
+        } catch {
+            // Storage can be unavailable (private mode, disabled cookies)
+            return null;
+        }
+    }
+
+    setItem(key: string, value: string): void {
+        try {
+            window.localStorage.setItem(key, value);
+        } catch {
+            // Ignore quota and availability errors - saving is best effort
+        }
+    }
+
+    removeItem(key: string): void {
+        try {
+            window.localStorage.removeItem(key);
+        } catch {
+            // Ignore availability errors
+        }
+    }
+}
+
+// A storage service for testing that keeps everything in memory
+export class InMemoryStorageService implements StorageService {
+    private items: Map<string, string> = new Map();
+
+    getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+
+    setItem(key: string, value: string): void {
+        this.items.set(key, value);
+    }
+
+    removeItem(key: string): void {
+        this.items.delete(key);
+    }
+}
+
+// Create default instance
+export const defaultStorageService = new LocalStorageService();
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { DefaultTimerService, SynchronousTimerService, TimerService } from './timer-service';
+import { DefaultTimerService, SynchronousTimerService, ManualTimerService, TimerService } from './timer-service';
 
 describe('TimerService', () => {
     describe('DefaultTimerService', () => {
@@ -59,10 +59,18 @@ describe('TimerService', () => {
 
             expect(window.clearTimeout).toHaveBeenCalledWith(timeoutId);
         });
+
+        it('should report the current time from Date.now', () => {
+            vi.spyOn(Date, 'now').mockReturnValue(1234);
+
+            expect(timerService.now()).toBe(1234);
+
+            vi.restoreAllMocks();
+        });
     });
 
     describe('SynchronousTimerService', () => {
-        let timerService: TimerService;
+        let timerService: SynchronousTimerService;
 
         beforeEach(() => {
             timerService = new SynchronousTimerService();
@@ -89,5 +97,68 @@ describe('TimerService', () => {
                 timerService.clearTimeout(123);
             }).not.toThrow();
         });
+
+        it('should only advance time when asked to', () => {
+            expect(timerService.now()).toBe(0);
+
+            timerService.setTimeout(vi.fn(), 1000);
+            expect(timerService.now()).toBe(0);
+
+            timerService.advanceTime(2500);
+            expect(timerService.now()).toBe(2500);
+        });
+    });
+
+    describe('ManualTimerService', () => {
+        let timerService: ManualTimerService;
+
+        beforeEach(() => {
+            timerService = new ManualTimerService();
+        });
+
+        it('should not fire callbacks until time is advanced', () => {
+            const callback = vi.fn();
+
+            timerService.setTimeout(callback, 1000);
+            timerService.advanceTime(999);
+
+            expect(callback).not.toHaveBeenCalled();
+
+            timerService.advanceTime(1);
+
+            expect(callback).toHaveBeenCalledTimes(1);
+            expect(timerService.now()).toBe(1000);
+        });
+
+        it('should fire due callbacks in order with the clock set to their due time', () => {
+            const calls: Array<[string, number]> = [];
+
+            timerService.setTimeout(() => calls.push(['late', timerService.now()]), 300);
+            timerService.setTimeout(() => calls.push(['early', timerService.now()]), 100);
+            timerService.advanceTime(500);
+
+            expect(calls).toEqual([['early', 100], ['late', 300]]);
+            expect(timerService.now()).toBe(500);
+        });
+
+        it('should fire callbacks scheduled by other callbacks within the advanced window', () => {
+            const callback = vi.fn();
+
+            timerService.setTimeout(() => timerService.setTimeout(callback, 100), 100);
+            timerService.advanceTime(200);
+
+            expect(callback).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not fire cleared callbacks', () => {
+            const callback = vi.fn();
+
+            const timerId = timerService.setTimeout(callback, 100);
+            timerService.clearTimeout(timerId);
+            timerService.advanceTime(200);
+
+            expect(callback).not.toHaveBeenCalled();
+            expect(timerService.getPendingCount()).toBe(0);
+        });
     });
-}); 
\ No newline at end of file
+});
@@ -1,6 +1,7 @@
 export interface TimerService {
     setTimeout(callback: () => void, delay: number): number;
     clearTimeout(timerId: number): void;
+    now(): number;
 }
 
 export class DefaultTimerService implements TimerService {
@@ -11,10 +12,16 @@ export class DefaultTimerService implements TimerService {
     clearTimeout(timerId: number): void {
         window.clearTimeout(timerId);
     }
+
+    now(): number {
+        return Date.now();
+    }
 }
 
 // A timer service for testing that executes callbacks immediately
 export class SynchronousTimerService implements TimerService {
+    private currentTime = 0;
+
     setTimeout(callback: () => void, _delay: number): number {
         callback();
         return 1; // Return a dummy ID
@@ -23,7 +30,66 @@ export class SynchronousTimerService implements TimerService {
     clearTimeout(_timerId: number): void {
         // Do nothing
     }
+
+    // Time only moves when a test advances it
+    now(): number {
+        return this.currentTime;
+    }
+
+    advanceTime(ms: number): void {
+        this.currentTime += ms;
+    }
+}
+
+// A timer service for testing whose callbacks only fire when a test advances time
+export class ManualTimerService implements TimerService {
+    private currentTime = 0;
+    private nextId = 1;
+    private timers: Map<number, { callback: () => void; dueAt: number }> = new Map();
+
+    setTimeout(callback: () => void, delay: number): number {
+        const timerId = this.nextId++;
+        this.timers.set(timerId, { callback, dueAt: this.currentTime + delay });
+        return timerId;
+    }
+
+    clearTimeout(timerId: number): void {
+        this.timers.delete(timerId);
+    }
+
+    now(): number {
+        return this.currentTime;
+    }
+
+    // Number of timers waiting to fire
+    getPendingCount(): number {
+        return this.timers.size;
+    }
+
+    // Move time forward, firing due callbacks in order
+    advanceTime(ms: number): void {
+        const targetTime = this.currentTime + ms;
+        let next = this.findNextDue(targetTime);
+        while (next) {
+            const [timerId, timer] = next;
+            this.timers.delete(timerId);
+            this.currentTime = timer.dueAt;
+            timer.callback();
+            next = this.findNextDue(targetTime);
+        }
+        this.currentTime = targetTime;
+    }
+
+    private findNextDue(targetTime: number): [number, { callback: () => void; dueAt: number }] | undefined {
+        let next: [number, { callback: () => void; dueAt: number }] | undefined;
+        this.timers.forEach((timer, timerId) => {
+            if (timer.dueAt <= targetTime && (!next || timer.dueAt < next[1].dueAt)) {
+                next = [timerId, timer];
+            }
+        });
+        return next;
+    }
 }
 
 // Create default instance
-export const defaultTimerService = new DefaultTimerService(); 
\ No newline at end of file
+export const defaultTimerService = new DefaultTimerService();
@@ -1,19 +1,22 @@
 import { describe, it, expect } from 'vitest';
-import { calculateGridLayout, calculateResponsiveGridLayouts } from './grid-layout';
+import { calculateGridLayout, calculateScrollingGridLayout, calculateResponsiveGridLayouts } from './grid-layout';
 
-// Test cases for calculateGridLayout
+// Test cases for calculateGridLayout in a widescreen container
 const layoutCases = [
     { numPairs: 2, expected: { columns: 4, rows: 1, totalCells: 4 } },
-    { numPairs: 3, expected: { columns: 5, rows: 2, totalCells: 10 } },
-    { numPairs: 4, expected: { columns: 5, rows: 2, totalCells: 10 } },
+    { numPairs: 3, expected: { columns: 3, rows: 2, totalCells: 6 } },
+    { numPairs: 4, expected: { columns: 4, rows: 2, totalCells: 8 } },
     { numPairs: 5, expected: { columns: 5, rows: 2, totalCells: 10 } },
-    { numPairs: 6, expected: { columns: 8, rows: 2, totalCells: 16 } },
-    { numPairs: 7, expected: { columns: 8, rows: 2, totalCells: 16 } },
-    { numPairs: 8, expected: { columns: 8, rows: 2, totalCells: 16 } },
-    { numPairs: 9, expected: { columns: 8, rows: 3, totalCells: 24 } },
-    { numPairs: 10, expected: { columns: 8, rows: 3, totalCells: 24 } },
+    { numPairs: 6, expected: { columns: 6, rows: 2, totalCells: 12 } },
+    { numPairs: 7, expected: { columns: 5, rows: 3, totalCells: 15 } },
+    { numPairs: 8, expected: { columns: 6, rows: 3, totalCells: 18 } },
+    { numPairs: 9, expected: { columns: 6, rows: 3, totalCells: 18 } },
+    { numPairs: 10, expected: { columns: 7, rows: 3, totalCells: 21 } },
     { numPairs: 11, expected: { columns: 8, rows: 3, totalCells: 24 } },
     { numPairs: 12, expected: { columns: 8, rows: 3, totalCells: 24 } },
+    { numPairs: 25, expected: { columns: 10, rows: 5, totalCells: 50 } },
+    { numPairs: 50, expected: { columns: 15, rows: 7, totalCells: 105 } },
+    { numPairs: 100, expected: { columns: 20, rows: 10, totalCells: 200 } },
 ];
 
 describe('calculateGridLayout', () => {
@@ -23,19 +26,63 @@ describe('calculateGridLayout', () => {
         });
     });
 
+    it('fits the layout to the shape of the container', () => {
+        expect(calculateGridLayout(12, 2, 0.5)).toEqual({ columns: 4, rows: 6, totalCells: 24 });
+        expect(calculateGridLayout(12, 2, 1)).toEqual({ columns: 6, rows: 4, totalCells: 24 });
+        expect(calculateGridLayout(50, 2, 0.5)).toEqual({ columns: 8, rows: 13, totalCells: 104 });
+        expect(calculateGridLayout(50, 2, 2.5)).toEqual({ columns: 17, rows: 6, totalCells: 102 });
+    });
+
+    it('stacks the cards in a single column in a very narrow container', () => {
+        expect(calculateGridLayout(2, 2, 0.01)).toEqual({ columns: 1, rows: 4, totalCells: 4 });
+    });
+
+    it('has a cell for every card of any board', () => {
+        for (let numPairs = 2; numPairs <= 100; numPairs++) {
+            const layout = calculateGridLayout(numPairs);
+            expect(layout.totalCells).toBeGreaterThanOrEqual(numPairs * 2);
+            expect(layout.totalCells - numPairs * 2).toBeLessThan(layout.columns);
+        }
+    });
+
     it('throws error for numPairs < 2', () => {
-        expect(() => calculateGridLayout(1)).toThrow('Number of pairs must be between 2 and 12');
+        expect(() => calculateGridLayout(1)).toThrow('Number of pairs must be a whole number of at least 2');
+        expect(() => calculateGridLayout(2.5)).toThrow('Number of pairs must be a whole number of at least 2');
+    });
+
+    it('lays out every card of larger groups', () => {
+        expect(calculateGridLayout(2, 3)).toEqual({ columns: 3, rows: 2, totalCells: 6 });
+        expect(calculateGridLayout(5, 3)).toEqual({ columns: 5, rows: 3, totalCells: 15 });
+        expect(calculateGridLayout(12, 3)).toEqual({ columns: 9, rows: 4, totalCells: 36 });
+        expect(calculateGridLayout(12, 4)).toEqual({ columns: 10, rows: 5, totalCells: 50 });
     });
 
-    it('throws error for numPairs > 12', () => {
-        expect(() => calculateGridLayout(13)).toThrow('Number of pairs must be between 2 and 12');
+    it('throws error for unsupported group sizes', () => {
+        expect(() => calculateGridLayout(5, 1)).toThrow('Group size must be between 2 and 4');
+        expect(() => calculateGridLayout(5, 5)).toThrow('Group size must be between 2 and 4');
+    });
+
+    it('throws error for a container with no size', () => {
+        expect(() => calculateGridLayout(5, 2, 0)).toThrow('Container aspect ratio must be greater than 0');
+    });
+});
+
+describe('calculateScrollingGridLayout', () => {
+    it('fits as many columns as there is room for', () => {
+        expect(calculateScrollingGridLayout(100, 400, 80, 12)).toEqual({ columns: 4, rows: 25, totalCells: 100 });
+        expect(calculateScrollingGridLayout(100, 1000, 80, 12)).toEqual({ columns: 11, rows: 10, totalCells: 110 });
+    });
+
+    it('keeps at least one column and no more columns than cards', () => {
+        expect(calculateScrollingGridLayout(10, 50, 80, 12)).toEqual({ columns: 1, rows: 10, totalCells: 10 });
+        expect(calculateScrollingGridLayout(4, 1000, 80, 12)).toEqual({ columns: 4, rows: 1, totalCells: 4 });
     });
 });
 
 describe('calculateResponsiveGridLayouts', () => {
     it('returns correct layouts for numPairs=4', () => {
         const result = calculateResponsiveGridLayouts(4);
-        expect(result.default).toEqual({ columns: 5, rows: 2, totalCells: 10 });
+        expect(result.default).toEqual({ columns: 4, rows: 2, totalCells: 8 });
         expect(result.large).toEqual({ columns: 6, rows: 2, totalCells: 12 });
         expect(result.medium).toEqual({ columns: 4, rows: 2, totalCells: 8 });
         expect(result.small).toEqual({ columns: 3, rows: 3, totalCells: 9 });
@@ -50,4 +97,10 @@ describe('calculateResponsiveGridLayouts', () => {
         expect(result.small).toEqual({ columns: 3, rows: 8, totalCells: 24 });
         expect(result.mobile).toEqual({ columns: 2, rows: 12, totalCells: 24 });
     });
+
+    it('lays out every card of a match-three board', () => {
+        const result = calculateResponsiveGridLayouts(5, 3);
+        expect(result.default).toEqual({ columns: 5, rows: 3, totalCells: 15 });
+        expect(result.medium).toEqual({ columns: 4, rows: 4, totalCells: 16 });
+    });
 }); 
\ No newline at end of file
@@ -1,51 +1,107 @@
+import { DEFAULT_GROUP_SIZE, MAX_GROUP_SIZE } from '../models/group-size';
+
 export interface GridLayout {
     columns: number;
     rows: number;
     totalCells: number;
 }
 
+// Width over height of a card, as drawn by the grid
+export const CARD_ASPECT_RATIO = 0.8;
+
+// Width over height of the space for the grid when it has not been measured, a widescreen window
+export const DEFAULT_CONTAINER_ASPECT_RATIO = 16 / 9;
+
+// Layouts whose cards differ in size by less than this are treated as equally good
+const SIZE_TOLERANCE = 1e-9;
+
 /**
- * Calculates the optimal grid layout for a given number of pairs
- * @param numPairs Number of pairs (2-12)
- * @returns GridLayout object with optimal dimensions
+ * Works out how tall the cards of a layout can be in a container one unit tall
+ * @param columns Number of columns
+ * @param rows Number of rows
+ * @param containerAspectRatio Width over height of the container
+ * @returns Card height as a share of the container height
  */
-export function calculateGridLayout(numPairs: number): GridLayout {
-    // Define possible layouts for different numbers of pairs
-    const layouts: { [key: number]: GridLayout } = {
-        2: { columns: 4, rows: 1, totalCells: 4 },
-        3: { columns: 5, rows: 2, totalCells: 10 },
-        4: { columns: 5, rows: 2, totalCells: 10 },
-        5: { columns: 5, rows: 2, totalCells: 10 },
-        6: { columns: 8, rows: 2, totalCells: 16 },
-        7: { columns: 8, rows: 2, totalCells: 16 },
-        8: { columns: 8, rows: 2, totalCells: 16 },
-        9: { columns: 8, rows: 3, totalCells: 24 },
-        10: { columns: 8, rows: 3, totalCells: 24 },
-        11: { columns: 8, rows: 3, totalCells: 24 },
-        12: { columns: 8, rows: 3, totalCells: 24 }
-    };
+function getCardHeight(columns: number, rows: number, containerAspectRatio: number): number {
+    return Math.min(containerAspectRatio / columns / CARD_ASPECT_RATIO, 1 / rows);
+}
 
+/**
+ * Calculates the grid layout that shows the cards of a board as large as possible
+ * Every column count is tried, so any number of pairs can be laid out. Among layouts with
+ * cards of the same size, the one with the fewest empty cells, then the fewest rows, wins.
+ * @param numPairs Number of pairs, or of groups in match-three games
+ * @param groupSize Number of cards in each group (defaults to pairs)
+ * @param containerAspectRatio Width over height of the space for the grid
+ * @returns GridLayout object with optimal dimensions
+ */
+export function calculateGridLayout(
+    numPairs: number,
+    groupSize: number = DEFAULT_GROUP_SIZE,
+    containerAspectRatio: number = DEFAULT_CONTAINER_ASPECT_RATIO
+): GridLayout {
     // Validate input
-    if (numPairs < 2 || numPairs > 12) {
-        throw new Error('Number of pairs must be between 2 and 12');
+    if (!Number.isInteger(numPairs) || numPairs < 2) {
+        throw new Error('Number of pairs must be a whole number of at least 2');
+    }
+    if (groupSize < DEFAULT_GROUP_SIZE || groupSize > MAX_GROUP_SIZE) {
+        throw new Error(`Group size must be between ${DEFAULT_GROUP_SIZE} and ${MAX_GROUP_SIZE}`);
     }
+    if (!(containerAspectRatio > 0)) {
+        throw new Error('Container aspect ratio must be greater than 0');
+    }
+
+    const totalCards = numPairs * groupSize;
+
+    // Start from a single column, which always fits, and try every wider layout against it
+    let best: GridLayout = { columns: 1, rows: totalCards, totalCells: totalCards };
+    let bestCardHeight = getCardHeight(1, totalCards, containerAspectRatio);
+
+    for (let columns = 2; columns <= totalCards; columns++) {
+        const rows = Math.ceil(totalCards / columns);
+        const cardHeight = getCardHeight(columns, rows, containerAspectRatio);
+        const layout = { columns, rows, totalCells: columns * rows };
+
+        const isLarger = cardHeight > bestCardHeight + SIZE_TOLERANCE;
+        const isTie = Math.abs(cardHeight - bestCardHeight) <= SIZE_TOLERANCE;
+        if (isLarger || (isTie && (layout.totalCells < best.totalCells ||
+            (layout.totalCells === best.totalCells && layout.rows < best.rows)))) {
+            best = layout;
+            bestCardHeight = cardHeight;
+        }
+    }
+
+    return best;
+}
 
-    return layouts[numPairs];
+/**
+ * Lays out cards at a fixed width in as many columns as fit across, for a grid that scrolls down
+ * @param totalCards Number of cards
+ * @param containerWidth Width of the space for the grid
+ * @param cardWidth Width of a card
+ * @param gap Space between cards
+ * @returns GridLayout with at least one column
+ */
+export function calculateScrollingGridLayout(totalCards: number, containerWidth: number, cardWidth: number, gap: number): GridLayout {
+    const columns = Math.max(1, Math.min(totalCards, Math.floor((containerWidth + gap) / (cardWidth + gap))));
+    const rows = Math.ceil(totalCards / columns);
+    return { columns, rows, totalCells: columns * rows };
 }
 
 /**
  * Calculates responsive grid layouts for different screen sizes
- * @param numPairs Number of pairs (2-12)
+ * @param numPairs Number of pairs, or of groups in match-three games
+ * @param groupSize Number of cards in each group (defaults to pairs)
  * @returns Object containing grid layouts for different breakpoints
  */
-export function calculateResponsiveGridLayouts(numPairs: number): {
+export function calculateResponsiveGridLayouts(numPairs: number, groupSize: number = DEFAULT_GROUP_SIZE): {
     default: GridLayout;
     large: GridLayout;
     medium: GridLayout;
     small: GridLayout;
     mobile: GridLayout;
 } {
-    const totalCards = numPairs * 2;
+    const totalCards = numPairs * groupSize;
 
     // Helper function to find the best layout for a given number of cards
     const findBestLayout = (maxColumns: number): GridLayout => {
@@ -58,8 +114,8 @@ export function calculateResponsiveGridLayouts(numPairs: number): {
     };
 
     return {
-        default: calculateGridLayout(numPairs),
-        large: numPairs === 12 ? { columns: 8, rows: 3, totalCells: 24 } : findBestLayout(6),
+        default: calculateGridLayout(numPairs, groupSize),
+        large: totalCards === 24 ? { columns: 8, rows: 3, totalCells: 24 } : findBestLayout(6),
         medium: findBestLayout(4),
         small: findBestLayout(3),
         mobile: findBestLayout(2)
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    HIGH_SCORES_KEY,
+    HighScoreCategory,
+    HighScoreEntry,
+    getGameMode,
+    getHighScoreCategory,
+    getHighScoreTableKey,
+    compareHighScores,
+    normalizeInitials,
+    addHighScore,
+    parseHighScores,
+    serializeHighScores,
+    loadHighScores,
+    saveHighScore,
+    recordHighScore,
+    setHighScoreInitials
+} from './high-scores';
+import { InMemoryStorageService } from '../services/storage-service';
+import { Card, GameState, GameStatus } from '../models/game-state';
+import { createMultiplayerState, enableMultiplayer } from '../functions/multiplayer';
+
+describe('High-Score Storage', () => {
+    // Helper function to create a test game state
+    const createTestGameState = (): GameState => {
+        const cards: Card[] = [
+            { id: 1, imageId: 1, isRevealed: true, isMatched: true },
+            { id: 2, imageId: 1, isRevealed: true, isMatched: true },
+            { id: 3, imageId: 2, isRevealed: true, isMatched: true },
+            { id: 4, imageId: 2, isRevealed: true, isMatched: true },
+        ];
+
+        return {
+            cards,
+            status: GameStatus.COMPLETED,
+            moves: 2,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'robgon',
+            gridSize: 'easy'
+        };
+    };
+
+    const createEntry = (overrides: Partial<HighScoreEntry> = {}): HighScoreEntry => ({
+        score: 1000,
+        moves: 10,
+        elapsedMs: 30_000,
+        date: 1_700_000_000_000,
+        ...overrides
+    });
+
+    const category: HighScoreCategory = { numPairs: 2, cardStyle: 'robgon', mode: 'classic' };
+
+    describe('getGameMode', () => {
+        it('should name classic games', () => {
+            expect(getGameMode(createTestGameState())).toBe('classic');
+        });
+
+        it('should combine the rule variants in play', () => {
+            const state = {
+                ...createTestGameState(),
+                timeAttack: { timeLimitMs: 10_000, matchBonusMs: 0 },
+                lives: 3,
+                practice: { undos: 0 }
+            };
+            expect(getGameMode(state)).toBe('time_attack+lives+practice');
+        });
+
+        it('should name non-identical pairs by their pairing mode', () => {
+            expect(getGameMode({ ...createTestGameState(), pairing: 'year' })).toBe('year_pairs');
+        });
+
+        it('should name match-three games by their group size', () => {
+            expect(getGameMode({ ...createTestGameState(), groupSize: 3 })).toBe('match_3');
+        });
+    });
+
+    describe('getHighScoreCategory', () => {
+        it('should use the pair count, card style and mode', () => {
+            expect(getHighScoreCategory(createTestGameState())).toEqual(category);
+        });
+
+        it('should not rank multiplayer games', () => {
+            const state = enableMultiplayer(createTestGameState(), createMultiplayerState(2));
+            expect(getHighScoreCategory(state)).toBeNull();
+        });
+    });
+
+    describe('getHighScoreTableKey', () => {
+        it('should give each category its own key', () => {
+            expect(getHighScoreTableKey(category)).toBe('2:robgon:classic');
+            expect(getHighScoreTableKey({ ...category, cardStyle: 'impressionist' })).not.toBe(getHighScoreTableKey(category));
+        });
+    });
+
+    describe('compareHighScores', () => {
+        it('should rank by score, then moves, then time, then date', () => {
+            const entries = [
+                createEntry({ score: 900 }),
+                createEntry({ moves: 12 }),
+                createEntry({ elapsedMs: 40_000 }),
+                createEntry({ date: 1_800_000_000_000 }),
+                createEntry()
+            ];
+
+            expect([...entries].sort(compareHighScores)).toEqual([
+                entries[4], entries[3], entries[2], entries[1], entries[0]
+            ]);
+        });
+    });
+
+    describe('normalizeInitials', () => {
+        it('should keep up to three uppercase letters and digits', () => {
+            expect(normalizeInitials('ab')).toBe('AB');
+            expect(normalizeInitials('a.b-c d')).toBe('ABC');
+            expect(normalizeInitials('r2d2')).toBe('R2D');
+        });
+    });
+
+    describe('addHighScore', () => {
+        it('should insert a result in rank order', () => {
+            const table = [createEntry({ score: 1200 }), createEntry({ score: 800 })];
+            const entry = createEntry({ score: 1000 });
+
+            const result = addHighScore(table, entry);
+
+            expect(result.rank).toBe(2);
+            expect(result.table.map(e => e.score)).toEqual([1200, 1000, 800]);
+        });
+
+        it('should keep only the top results', () => {
+            const table = [createEntry({ score: 1200 }), createEntry({ score: 1100 })];
+
+            expect(addHighScore(table, createEntry({ score: 1300 }), 2).table.map(e => e.score)).toEqual([1300, 1200]);
+            expect(addHighScore(table, createEntry({ score: 100 }), 2)).toEqual({ table, rank: null });
+        });
+    });
+
+    describe('parseHighScores', () => {
+        it('should round-trip stored tables', () => {
+            const tables = { '2:robgon:classic': [createEntry()] };
+            expect(parseHighScores(serializeHighScores(tables))).toEqual(tables);
+        });
+
+        it('should return no tables for missing or corrupt data', () => {
+            expect(parseHighScores(null)).toEqual({});
+            expect(parseHighScores('not json')).toEqual({});
+            expect(parseHighScores(JSON.stringify({ version: 99, tables: {} }))).toEqual({});
+        });
+
+        it('should drop malformed entries and tables', () => {
+            const raw = JSON.stringify({
+                version: 1,
+                tables: {
+                    '2:robgon:classic': [createEntry(), { score: 'lots' }, createEntry({ moves: -1 })],
+                    broken: 'nope'
+                }
+            });
+            expect(parseHighScores(raw)).toEqual({ '2:robgon:classic': [createEntry()] });
+        });
+    });
+
+    describe('storage helpers', () => {
+        let storage: InMemoryStorageService;
+
+        beforeEach(() => {
+            storage = new InMemoryStorageService();
+        });
+
+        it('should save results and load them per category', () => {
+            expect(saveHighScore(storage, category, createEntry({ score: 900 }))).toBe(1);
+            expect(saveHighScore(storage, category, createEntry({ score: 950 }))).toBe(1);
+            expect(saveHighScore(storage, { ...category, mode: 'lives' }, createEntry())).toBe(1);
+
+            expect(loadHighScores(storage, category).map(e => e.score)).toEqual([950, 900]);
+            expect(loadHighScores(storage, { ...category, numPairs: 12 })).toEqual([]);
+        });
+
+        it('should not write anything for a result that did not place', () => {
+            saveHighScore(storage, category, createEntry({ score: 900 }), 1);
+            const stored = storage.getItem(HIGH_SCORES_KEY);
+
+            expect(saveHighScore(storage, category, createEntry({ score: 100 }), 1)).toBeNull();
+            expect(storage.getItem(HIGH_SCORES_KEY)).toBe(stored);
+        });
+
+        it('should record a finished game in the table for its board and mode', () => {
+            expect(recordHighScore(storage, createTestGameState(), 900, 12345.6, 42)).toEqual({ category, date: 42, rank: 1 });
+            expect(loadHighScores(storage, category)).toEqual([{ score: 900, moves: 2, elapsedMs: 12346, date: 42 }]);
+        });
+
+        it('should not record multiplayer games', () => {
+            const state = enableMultiplayer(createTestGameState(), createMultiplayerState(2));
+
+            expect(recordHighScore(storage, state, 900, 1000)).toBeNull();
+            expect(storage.getItem(HIGH_SCORES_KEY)).toBeNull();
+        });
+
+        it('should set initials on a stored result', () => {
+            const entry = createEntry();
+            saveHighScore(storage, category, entry);
+
+            setHighScoreInitials(storage, category, entry.date, 'abc');
+            expect(loadHighScores(storage, category)[0].initials).toBe('ABC');
+
+            setHighScoreInitials(storage, category, entry.date, '');
+            expect(loadHighScores(storage, category)[0].initials).toBeUndefined();
+        });
+
+        it('should ignore initials for unknown results', () => {
+            setHighScoreInitials(storage, category, 123, 'abc');
+            expect(storage.getItem(HIGH_SCORES_KEY)).toBeNull();
+        });
+    });
+});
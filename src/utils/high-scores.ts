@@ -0,0 +1,239 @@
+/**
+ * High-Score Storage
+ *
+ * Pure functions for ranking finished games into per-board high-score tables,
+ * plus thin helpers that read and write them through a StorageService.
+ * Tables are kept separately for each pair count, card style and game mode.
+ */
+
+import { GameState, getGroupCount, getGroupSize } from '../models/game-state';
+import { StorageService } from '../services/storage-service';
+import { isObject, isNonNegativeInteger } from './validation';
+
+// Key used to store all high-score tables
+export const HIGH_SCORES_KEY = 'memory-game:high-scores';
+
+// Current storage format version
+export const HIGH_SCORES_VERSION = 1;
+
+// Number of results kept in each table
+export const HIGH_SCORE_LIMIT = 10;
+
+// Longest player initials accepted
+export const MAX_INITIALS_LENGTH = 3;
+
+// Which table a game belongs in
+export interface HighScoreCategory {
+    numPairs: number;
+    cardStyle: GameState['cardStyle'];
+    mode: string; // 'classic', or the rule variants played joined with '+'
+}
+
+// A single result in a high-score table
+export interface HighScoreEntry {
+    score: number;
+    moves: number;
+    elapsedMs: number;
+    date: number; // When the game finished, in milliseconds; also identifies the entry
+    initials?: string;
+}
+
+// All tables, keyed by category
+export type HighScoreTables = Record<string, HighScoreEntry[]>;
+
+// Where a finished game placed in its table
+export interface HighScorePlacement {
+    category: HighScoreCategory;
+    date: number; // Identifies the entry, for adding initials later
+    rank: number; // 1-based
+}
+
+/**
+ * Gets the game mode name used to separate high-score tables
+ * @param state Game state
+ * @returns 'classic', or the rule variants in play joined with '+'
+ */
+export const getGameMode = (state: GameState): string => {
+    const variants = [
+        state.timeAttack ? 'time_attack' : null,
+        state.lives !== undefined ? 'lives' : null,
+        state.practice ? 'practice' : null,
+        state.pairing ? `${state.pairing}_pairs` : null,
+        state.groupSize ? `match_${getGroupSize(state)}` : null
+    ].filter((variant): variant is string => variant !== null);
+
+    return variants.length > 0 ? variants.join('+') : 'classic';
+};
+
+/**
+ * Gets the high-score category of a game
+ * @param state Game state
+ * @returns The category, or null for multiplayer games, which are not ranked
+ */
+export const getHighScoreCategory = (state: GameState): HighScoreCategory | null => {
+    if (state.multiplayer) {
+        return null;
+    }
+
+    return {
+        numPairs: getGroupCount(state),
+        cardStyle: state.cardStyle,
+        mode: getGameMode(state)
+    };
+};
+
+/**
+ * Builds the storage key of a category's table
+ * @param category High-score category
+ * @returns Table key
+ */
+export const getHighScoreTableKey = ({ numPairs, cardStyle, mode }: HighScoreCategory): string =>
+    `${numPairs}:${cardStyle}:${mode}`;
+
+/**
+ * Orders results best first: higher score, then fewer moves, then less time, then earlier
+ */
+export const compareHighScores = (a: HighScoreEntry, b: HighScoreEntry): number =>
+    b.score - a.score || a.moves - b.moves || a.elapsedMs - b.elapsedMs || a.date - b.date;
+
+/**
+ * Cleans up player initials for display
+ * @param initials Initials as typed
+ * @returns Up to three uppercase letters and digits
+ */
+export const normalizeInitials = (initials: string): string =>
+    initials.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, MAX_INITIALS_LENGTH);
+
+/**
+ * Adds a result to a table, keeping only the best ones
+ *
+ * @param table Current table
+ * @param entry Result to add
+ * @param limit Number of results to keep
+ * @returns The new table and the result's 1-based rank, or null if it did not place
+ */
+export const addHighScore = (
+    table: HighScoreEntry[],
+    entry: HighScoreEntry,
+    limit: number = HIGH_SCORE_LIMIT
+): { table: HighScoreEntry[]; rank: number | null } => {
+    const newTable = [...table, entry].sort(compareHighScores).slice(0, limit);
+    const index = newTable.indexOf(entry);
+    return { table: newTable, rank: index === -1 ? null : index + 1 };
+};
+
+const isValidHighScoreEntry = (value: unknown): value is HighScoreEntry =>
+    isObject(value) &&
+    isNonNegativeInteger(value.score) &&
+    isNonNegativeInteger(value.moves) &&
+    isNonNegativeInteger(value.elapsedMs) &&
+    isNonNegativeInteger(value.date) &&
+    (value.initials === undefined || typeof value.initials === 'string');
+
+/**
+ * Parses stored high-score tables, dropping anything malformed
+ *
+ * @param raw JSON string of the stored tables
+ * @returns The valid tables, or no tables if the data is corrupt
+ */
+export const parseHighScores = (raw: string | null): HighScoreTables => {
+    if (raw === null) {
+        return {};
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        return {};
+    }
+
+    if (!isObject(parsed) || parsed.version !== HIGH_SCORES_VERSION || !isObject(parsed.tables)) {
+        return {};
+    }
+
+    return Object.fromEntries(
+        Object.entries(parsed.tables)
+            .filter((entry): entry is [string, unknown[]] => Array.isArray(entry[1]))
+            .map(([key, table]) => [key, table.filter(isValidHighScoreEntry).sort(compareHighScores)])
+    );
+};
+
+/**
+ * Serializes high-score tables for storage
+ * @param tables Tables to store
+ * @returns JSON string
+ */
+export const serializeHighScores = (tables: HighScoreTables): string =>
+    JSON.stringify({ version: HIGH_SCORES_VERSION, tables });
+
+/**
+ * Loads the table for a category, best results first
+ */
+export const loadHighScores = (storage: StorageService, category: HighScoreCategory): HighScoreEntry[] =>
+    parseHighScores(storage.getItem(HIGH_SCORES_KEY))[getHighScoreTableKey(category)] ?? [];
+
+/**
+ * Records a result in its category's table
+ * @returns The result's 1-based rank, or null if it did not place
+ */
+export const saveHighScore = (
+    storage: StorageService,
+    category: HighScoreCategory,
+    entry: HighScoreEntry,
+    limit: number = HIGH_SCORE_LIMIT
+): number | null => {
+    const tables = parseHighScores(storage.getItem(HIGH_SCORES_KEY));
+    const key = getHighScoreTableKey(category);
+    const { table, rank } = addHighScore(tables[key] ?? [], entry, limit);
+
+    if (rank !== null) {
+        storage.setItem(HIGH_SCORES_KEY, serializeHighScores({ ...tables, [key]: table }));
+    }
+    return rank;
+};
+
+/**
+ * Records a finished game in the table for its board and mode
+ * @returns Where the game placed, or null if it is not ranked or did not place
+ */
+export const recordHighScore = (
+    storage: StorageService,
+    state: GameState,
+    score: number,
+    elapsedMs: number,
+    now: number = Date.now()
+): HighScorePlacement | null => {
+    const category = getHighScoreCategory(state);
+    if (!category) {
+        return null;
+    }
+
+    const rank = saveHighScore(storage, category, { score, moves: state.moves, elapsedMs: Math.round(elapsedMs), date: now });
+    return rank === null ? null : { category, date: now, rank };
+};
+
+/**
+ * Sets the player initials on a stored result
+ */
+export const setHighScoreInitials = (
+    storage: StorageService,
+    category: HighScoreCategory,
+    date: number,
+    initials: string
+): void => {
+    const tables = parseHighScores(storage.getItem(HIGH_SCORES_KEY));
+    const key = getHighScoreTableKey(category);
+    const table = tables[key];
+    if (!table?.some(entry => entry.date === date)) {
+        return;
+    }
+
+    const normalized = normalizeInitials(initials);
+    const updatedTable = table.map(entry => {
+        if (entry.date !== date) return entry;
+        const { initials: _previous, ...rest } = entry;
+        return normalized ? { ...rest, initials: normalized } : rest;
+    });
+    storage.setItem(HIGH_SCORES_KEY, serializeHighScores({ ...tables, [key]: updatedTable }));
+};
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    GAME_RECORDS_KEY,
+    GameRecord,
+    createGameRecord,
+    aggregatePlayerStats,
+    parseGameRecords,
+    loadGameRecords,
+    saveGameRecord,
+    clearGameRecords
+} from './player-stats';
+import { InMemoryStorageService } from '../services/storage-service';
+import { Card, GameState, GameStatus } from '../models/game-state';
+import { MoveLog, createMoveLog } from '../functions/move-log';
+
+describe('Player Statistics', () => {
+    // Helper function to create a test game state
+    const createTestGameState = (): GameState => {
+        const cards: Card[] = [
+            { id: 1, imageId: 1, isRevealed: true, isMatched: true },
+            { id: 2, imageId: 1, isRevealed: true, isMatched: true },
+            { id: 3, imageId: 2, isRevealed: true, isMatched: true },
+            { id: 4, imageId: 2, isRevealed: true, isMatched: true },
+        ];
+
+        return {
+            cards,
+            status: GameStatus.COMPLETED,
+            moves: 3,
+            selectedCardIds: [],
+            isPreviewMode: false,
+            cardStyle: 'robgon',
+            gridSize: 'easy'
+        };
+    };
+
+    const createRecord = (overrides: Partial<GameRecord> = {}): GameRecord => ({
+        numPairs: 2,
+        cardStyle: 'robgon',
+        mode: 'classic',
+        completed: true,
+        moves: 4,
+        elapsedMs: 10_000,
+        mismatches: 2,
+        mismatchedImageIds: [1, 2, 2, 1],
+        finishedAt: 1_700_000_000_000,
+        ...overrides
+    });
+
+    describe('createGameRecord', () => {
+        it('should record a completed game', () => {
+            const state = createTestGameState();
+            const log: MoveLog = {
+                ...createMoveLog(state),
+                events: [
+                    { type: 'flip', at: 0, cardId: 1 },
+                    { type: 'flip', at: 100, cardId: 3 },
+                    { type: 'mismatch', at: 200, cardIds: [1, 3] }
+                ]
+            };
+
+            expect(createGameRecord(state, log, 12_345.6, 42)).toEqual({
+                numPairs: 2,
+                cardStyle: 'robgon',
+                mode: 'classic',
+                completed: true,
+                moves: 3,
+                elapsedMs: 12_346,
+                mismatches: 1,
+                mismatchedImageIds: [1, 2],
+                finishedAt: 42
+            });
+        });
+
+        it('should record a lost game as not completed', () => {
+            const state = { ...createTestGameState(), status: GameStatus.TIME_UP, timeAttack: { timeLimitMs: 60_000, matchBonusMs: 0 } };
+            const record = createGameRecord(state, createMoveLog(state), 1000, 42);
+
+            expect(record.completed).toBe(false);
+            expect(record.mode).toBe('time_attack');
+        });
+
+        it('should only count mismatches since the last restart', () => {
+            const state = createTestGameState();
+            const log: MoveLog = {
+                ...createMoveLog(state),
+                events: [
+                    { type: 'mismatch', at: 0, cardIds: [1, 3] },
+                    { type: 'restart', at: 100, state },
+                    { type: 'mismatch', at: 200, cardIds: [2, 4] }
+                ]
+            };
+
+            const record = createGameRecord(state, log, 1000, 42);
+
+            expect(record.mismatches).toBe(1);
+            expect(record.mismatchedImageIds).toEqual([1, 2]);
+        });
+    });
+
+    describe('aggregatePlayerStats', () => {
+        it('should report no rates without games', () => {
+            expect(aggregatePlayerStats([])).toEqual({
+                gamesPlayed: 0,
+                gamesCompleted: 0,
+                completionRate: null,
+                mismatchRate: null,
+                boardSizes: [],
+                mostMismatchedImages: []
+            });
+        });
+
+        it('should aggregate totals and rates', () => {
+            const stats = aggregatePlayerStats([
+                createRecord({ moves: 4, mismatches: 2 }),
+                createRecord({ moves: 6, mismatches: 4, completed: false })
+            ]);
+
+            expect(stats.gamesPlayed).toBe(2);
+            expect(stats.gamesCompleted).toBe(1);
+            expect(stats.completionRate).toBe(0.5);
+            expect(stats.mismatchRate).toBe(0.6);
+        });
+
+        it('should aggregate moves per board size from completed games', () => {
+            const stats = aggregatePlayerStats([
+                createRecord({ numPairs: 6, moves: 12 }),
+                createRecord({ numPairs: 2, moves: 4 }),
+                createRecord({ numPairs: 6, moves: 8 }),
+                createRecord({ numPairs: 6, moves: 3, completed: false })
+            ]);
+
+            expect(stats.boardSizes).toEqual([
+                { numPairs: 2, gamesPlayed: 1, gamesCompleted: 1, averageMoves: 4, bestMoves: 4, efficiency: 0.5 },
+                { numPairs: 6, gamesPlayed: 3, gamesCompleted: 2, averageMoves: 10, bestMoves: 8, efficiency: 0.6 }
+            ]);
+        });
+
+        it('should leave moves empty for board sizes never completed', () => {
+            const stats = aggregatePlayerStats([createRecord({ completed: false })]);
+
+            expect(stats.boardSizes[0]).toMatchObject({ averageMoves: null, bestMoves: null, efficiency: null });
+        });
+
+        it('should rank the most often mismatched images', () => {
+            const stats = aggregatePlayerStats([
+                createRecord({ mismatchedImageIds: [3, 1, 3] }),
+                createRecord({ mismatchedImageIds: [2, 1, 3, 4, 5] }),
+                createRecord({ cardStyle: 'impressionist', mismatchedImageIds: [6] })
+            ]);
+
+            expect(stats.mostMismatchedImages).toEqual([
+                { cardStyle: 'robgon', imageId: 3, count: 3 },
+                { cardStyle: 'robgon', imageId: 1, count: 2 },
+                { cardStyle: 'impressionist', imageId: 6, count: 1 },
+                { cardStyle: 'robgon', imageId: 2, count: 1 },
+                { cardStyle: 'robgon', imageId: 4, count: 1 }
+            ]);
+        });
+
+        it('should count the same image ID in different card styles separately', () => {
+            const stats = aggregatePlayerStats([
+                createRecord({ mismatchedImageIds: [1] }),
+                createRecord({ cardStyle: 'impressionist', mismatchedImageIds: [1] })
+            ]);
+
+            expect(stats.mostMismatchedImages).toEqual([
+                { cardStyle: 'impressionist', imageId: 1, count: 1 },
+                { cardStyle: 'robgon', imageId: 1, count: 1 }
+            ]);
+        });
+    });
+
+    describe('parseGameRecords', () => {
+        it('should return no records for missing or corrupt data', () => {
+            expect(parseGameRecords(null)).toEqual([]);
+            expect(parseGameRecords('not json')).toEqual([]);
+            expect(parseGameRecords(JSON.stringify({ version: 99, records: [] }))).toEqual([]);
+        });
+
+        it('should drop malformed records', () => {
+            const raw = JSON.stringify({
+                version: 1,
+                records: [createRecord(), { ...createRecord(), moves: -1 }, { ...createRecord(), mismatchedImageIds: ['a'] }]
+            });
+
+            expect(parseGameRecords(raw)).toEqual([createRecord()]);
+        });
+    });
+
+    describe('storage', () => {
+        let storage: InMemoryStorageService;
+
+        beforeEach(() => {
+            storage = new InMemoryStorageService();
+        });
+
+        it('should save and load records in order', () => {
+            saveGameRecord(storage, createRecord({ moves: 4 }));
+            saveGameRecord(storage, createRecord({ moves: 5 }));
+
+            expect(loadGameRecords(storage).map(record => record.moves)).toEqual([4, 5]);
+        });
+
+        it('should keep only the most recent records', () => {
+            [4, 5, 6].forEach(moves => saveGameRecord(storage, createRecord({ moves }), 2));
+
+            expect(loadGameRecords(storage).map(record => record.moves)).toEqual([5, 6]);
+        });
+
+        it('should clear all records', () => {
+            saveGameRecord(storage, createRecord());
+            clearGameRecords(storage);
+
+            expect(storage.getItem(GAME_RECORDS_KEY)).toBeNull();
+            expect(loadGameRecords(storage)).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,217 @@
+/**
+ * Player Statistics
+ *
+ * Pure functions for turning finished games into records and aggregating them
+ * into player statistics, plus thin helpers that keep the records in a
+ * StorageService.
+ */
+
+import { GameState, GameStatus, getGroupCount } from '../models/game-state';
+import { isDeckId } from '../functions/deck-manifest';
+import { StorageService } from '../services/storage-service';
+import { MoveLog } from '../functions/move-log';
+import { getGameMode } from './high-scores';
+import { isObject, isNonNegativeInteger } from './validation';
+
+// Key used to store finished game records
+export const GAME_RECORDS_KEY = 'memory-game:records';
+
+// Current storage format version
+export const GAME_RECORDS_VERSION = 1;
+
+// Number of most recent games kept
+export const MAX_GAME_RECORDS = 500;
+
+// Number of images listed as most often mismatched
+export const MOST_MISMATCHED_LIMIT = 5;
+
+// A finished game, won, lost or abandoned
+export interface GameRecord {
+    numPairs: number;
+    cardStyle: GameState['cardStyle'];
+    mode: string;
+    completed: boolean; // False for games lost to the clock or out of lives, and for games abandoned part way through
+    moves: number;
+    elapsedMs: number;
+    mismatches: number;
+    mismatchedImageIds: number[]; // Image of each card in each mismatch, in the final card style
+    finishedAt: number;
+}
+
+// Statistics for one board size
+export interface BoardSizeStats {
+    numPairs: number;
+    gamesPlayed: number;
+    gamesCompleted: number;
+    averageMoves: number | null; // Over completed games
+    bestMoves: number | null;
+    efficiency: number | null; // Theoretical minimum moves (numPairs) over average moves
+}
+
+// How often an image was part of a mismatch; image IDs are per card style
+export interface MismatchedImage {
+    cardStyle: GameState['cardStyle'];
+    imageId: number;
+    count: number;
+}
+
+// Statistics over all finished games
+export interface PlayerStats {
+    gamesPlayed: number;
+    gamesCompleted: number;
+    completionRate: number | null;
+    mismatchRate: number | null; // Mismatches per move
+    boardSizes: BoardSizeStats[]; // Smallest board first
+    mostMismatchedImages: MismatchedImage[]; // Most often mismatched first
+}
+
+/**
+ * Creates the record of a finished game from its final state and move log
+ *
+ * @param state Final game state
+ * @param log Move log of the game; only moves since the last restart count
+ * @param elapsedMs Time the game took in milliseconds
+ * @param now Current time in milliseconds
+ * @returns Game record
+ */
+export const createGameRecord = (
+    state: GameState,
+    log: MoveLog,
+    elapsedMs: number,
+    now: number = Date.now()
+): GameRecord => {
+    const lastRestart = log.events.map(event => event.type).lastIndexOf('restart');
+    const imageIdsByCardId = new Map(state.cards.map(card => [card.id, card.imageId]));
+
+    const mismatchedCardIds = log.events
+        .slice(lastRestart + 1)
+        .flatMap(event => event.type === 'mismatch' ? [event.cardIds] : []);
+
+    return {
+        numPairs: getGroupCount(state),
+        cardStyle: state.cardStyle,
+        mode: getGameMode(state),
+        completed: state.status === GameStatus.COMPLETED || state.status === GameStatus.VICTORY_MUSIC,
+        moves: state.moves,
+        elapsedMs: Math.max(0, Math.round(elapsedMs)),
+        mismatches: mismatchedCardIds.length,
+        mismatchedImageIds: mismatchedCardIds
+            .flat()
+            .map(cardId => imageIdsByCardId.get(cardId))
+            .filter((imageId): imageId is number => imageId !== undefined),
+        finishedAt: now
+    };
+};
+
+const average = (values: number[]): number | null =>
+    values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const getBoardSizeStats = (numPairs: number, records: GameRecord[]): BoardSizeStats => {
+    const completedMoves = records.filter(record => record.completed).map(record => record.moves);
+    const averageMoves = average(completedMoves);
+
+    return {
+        numPairs,
+        gamesPlayed: records.length,
+        gamesCompleted: completedMoves.length,
+        averageMoves,
+        bestMoves: completedMoves.length > 0 ? Math.min(...completedMoves) : null,
+        efficiency: averageMoves ? Math.min(1, numPairs / averageMoves) : null
+    };
+};
+
+/**
+ * Aggregates finished games into player statistics
+ *
+ * @param records Finished game records
+ * @returns Player statistics
+ */
+export const aggregatePlayerStats = (records: GameRecord[]): PlayerStats => {
+    const gamesCompleted = records.filter(record => record.completed).length;
+    const totalMoves = records.reduce((sum, record) => sum + record.moves, 0);
+    const totalMismatches = records.reduce((sum, record) => sum + record.mismatches, 0);
+
+    const recordsByPairs = new Map<number, GameRecord[]>();
+    records.forEach(record => recordsByPairs.set(record.numPairs, [...(recordsByPairs.get(record.numPairs) ?? []), record]));
+
+    const mismatchCounts = new Map<string, MismatchedImage>();
+    records.forEach(({ cardStyle, mismatchedImageIds }) => mismatchedImageIds.forEach(imageId => {
+        const key = `${cardStyle}:${imageId}`;
+        mismatchCounts.set(key, { cardStyle, imageId, count: (mismatchCounts.get(key)?.count ?? 0) + 1 });
+    }));
+
+    return {
+        gamesPlayed: records.length,
+        gamesCompleted,
+        completionRate: records.length > 0 ? gamesCompleted / records.length : null,
+        mismatchRate: totalMoves > 0 ? totalMismatches / totalMoves : null,
+        boardSizes: [...recordsByPairs.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([numPairs, boardRecords]) => getBoardSizeStats(numPairs, boardRecords)),
+        mostMismatchedImages: [...mismatchCounts.values()]
+            .sort((a, b) => b.count - a.count || a.cardStyle.localeCompare(b.cardStyle) || a.imageId - b.imageId)
+            .slice(0, MOST_MISMATCHED_LIMIT)
+    };
+};
+
+const isValidGameRecord = (value: unknown): value is GameRecord =>
+    isObject(value) &&
+    isNonNegativeInteger(value.numPairs) &&
+    isDeckId(value.cardStyle) &&
+    typeof value.mode === 'string' &&
+    typeof value.completed === 'boolean' &&
+    isNonNegativeInteger(value.moves) &&
+    isNonNegativeInteger(value.elapsedMs) &&
+    isNonNegativeInteger(value.mismatches) &&
+    Array.isArray(value.mismatchedImageIds) &&
+    value.mismatchedImageIds.every(isNonNegativeInteger) &&
+    isNonNegativeInteger(value.finishedAt);
+
+/**
+ * Parses stored game records, dropping anything malformed
+ *
+ * @param raw JSON string of the stored records
+ * @returns The valid records, or none if the data is corrupt
+ */
+export const parseGameRecords = (raw: string | null): GameRecord[] => {
+    if (raw === null) {
+        return [];
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        return [];
+    }
+
+    if (!isObject(parsed) || parsed.version !== GAME_RECORDS_VERSION || !Array.isArray(parsed.records)) {
+        return [];
+    }
+    return parsed.records.filter(isValidGameRecord);
+};
+
+/**
+ * Loads all stored game records, oldest first
+ */
+export const loadGameRecords = (storage: StorageService): GameRecord[] =>
+    parseGameRecords(storage.getItem(GAME_RECORDS_KEY));
+
+/**
+ * Stores a finished game, dropping the oldest records past the limit
+ */
+export const saveGameRecord = (
+    storage: StorageService,
+    record: GameRecord,
+    limit: number = MAX_GAME_RECORDS
+): void => {
+    const records = [...loadGameRecords(storage), record].slice(-limit);
+    storage.setItem(GAME_RECORDS_KEY, JSON.stringify({ version: GAME_RECORDS_VERSION, records }));
+};
+
+/**
+ * Removes all stored game records
+ */
+export const clearGameRecords = (storage: StorageService): void => {
+    storage.removeItem(GAME_RECORDS_KEY);
+};
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+    hashSeed,
+    createSeededRandom,
+    getDailySeed,
+    generateSeed,
+    isDailySeed,
+    resolveSeed,
+    GENERATED_SEED_LENGTH,
+    MAX_SEED_LENGTH
+} from './random';
+
+describe('Seeded Random Numbers', () => {
+    const take = (random: () => number, count: number) => Array.from({ length: count }, () => random());
+
+    describe('hashSeed', () => {
+        it('should be stable for the same string', () => {
+            expect(hashSeed('abc123')).toBe(hashSeed('abc123'));
+        });
+
+        it('should differ for similar strings', () => {
+            expect(hashSeed('abc123')).not.toBe(hashSeed('abc124'));
+        });
+
+        it('should return a 32-bit unsigned integer', () => {
+            const hash = hashSeed('a much longer seed string');
+            expect(Number.isInteger(hash)).toBe(true);
+            expect(hash).toBeGreaterThanOrEqual(0);
+            expect(hash).toBeLessThan(2 ** 32);
+        });
+    });
+
+    describe('createSeededRandom', () => {
+        it('should repeat the same sequence for the same seed', () => {
+            expect(take(createSeededRandom('daily'), 20)).toEqual(take(createSeededRandom('daily'), 20));
+            expect(take(createSeededRandom(42), 20)).toEqual(take(createSeededRandom(42), 20));
+        });
+
+        it('should produce different sequences for different seeds', () => {
+            expect(take(createSeededRandom('a'), 5)).not.toEqual(take(createSeededRandom('b'), 5));
+        });
+
+        it('should return values in [0, 1)', () => {
+            take(createSeededRandom(0), 1000).forEach(value => {
+                expect(value).toBeGreaterThanOrEqual(0);
+                expect(value).toBeLessThan(1);
+            });
+        });
+
+        it('should spread values evenly', () => {
+            const buckets = new Array(10).fill(0);
+            take(createSeededRandom('spread'), 10000).forEach(value => buckets[Math.floor(value * 10)]++);
+
+            buckets.forEach(count => {
+                expect(count).toBeGreaterThan(900);
+                expect(count).toBeLessThan(1100);
+            });
+        });
+    });
+
+    describe('getDailySeed', () => {
+        it('should use the UTC date', () => {
+            expect(getDailySeed(new Date(Date.UTC(2024, 2, 9, 23, 59)))).toBe('2024-03-09');
+        });
+    });
+
+    describe('generateSeed', () => {
+        it('should build a short seed from the random source', () => {
+            const seed = generateSeed(createSeededRandom(1));
+            expect(seed).toHaveLength(GENERATED_SEED_LENGTH);
+            expect(seed).toMatch(/^[a-z2-9]+$/);
+        });
+
+        it('should stay in range for random values close to 1', () => {
+            expect(generateSeed(() => 0.9999999999)).toBe('999999');
+        });
+    });
+
+    describe('isDailySeed', () => {
+        it('should only accept dates', () => {
+            expect(isDailySeed('2024-03-09')).toBe(true);
+            expect(isDailySeed('abc123')).toBe(false);
+        });
+    });
+
+    describe('resolveSeed', () => {
+        const now = new Date(Date.UTC(2024, 2, 9));
+
+        it('should keep a given seed', () => {
+            expect(resolveSeed(' friday ', now)).toBe('friday');
+        });
+
+        it('should resolve the daily deal to the date', () => {
+            expect(resolveSeed('daily', now)).toBe('2024-03-09');
+            expect(resolveSeed('DAILY', now)).toBe('2024-03-09');
+        });
+
+        it('should generate a seed when none is given', () => {
+            expect(resolveSeed(null, now, () => 0)).toBe('aaaaaa');
+            expect(resolveSeed('  ', now, () => 0)).toBe('aaaaaa');
+        });
+
+        it('should truncate very long seeds', () => {
+            expect(resolveSeed('x'.repeat(100), now)).toHaveLength(MAX_SEED_LENGTH);
+        });
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * Seeded Random Numbers
+ *
+ * A small seeded PRNG so a deal can be reproduced from a shareable seed,
+ * plus helpers for turning seeds into numbers and picking daily seeds.
+ */
+
+// Random number source returning values in [0, 1)
+export type RandomSource = () => number;
+
+// Characters used for generated seeds
+const SEED_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+
+// Length of generated seeds
+export const GENERATED_SEED_LENGTH = 6;
+
+/**
+ * Hashes a seed string into a 32-bit unsigned integer (FNV-1a)
+ * @param seed Seed string
+ * @returns 32-bit hash of the seed
+ */
+export const hashSeed = (seed: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * Creates a seeded random number source (Mulberry32)
+ * The same seed always produces the same sequence
+ *
+ * @param seed Numeric seed, or a string that is hashed into one
+ * @returns Random number source returning values in [0, 1)
+ */
+export const createSeededRandom = (seed: number | string): RandomSource => {
+    let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * Gets the seed for the daily deal, shared by everyone on the same UTC day
+ * @param date Date to get the seed for
+ * @returns Seed in YYYY-MM-DD form
+ */
+export const getDailySeed = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Generates a short, easy to read seed for a new deal
+ * @param random Random number source
+ * @returns Seed made of lowercase letters and digits without look-alikes
+ */
+export const generateSeed = (random: RandomSource = Math.random): string =>
+    Array.from({ length: GENERATED_SEED_LENGTH }, () =>
+        SEED_ALPHABET[Math.min(SEED_ALPHABET.length - 1, Math.floor(random() * SEED_ALPHABET.length))]
+    ).join('');
+
+// Value of the seed parameter that selects the daily deal
+export const DAILY_SEED = 'daily';
+
+// Longest seed accepted from a URL
+export const MAX_SEED_LENGTH = 64;
+
+/**
+ * Checks if a seed is a daily deal seed
+ * @param seed Seed to check
+ * @returns True for seeds in YYYY-MM-DD form
+ */
+export const isDailySeed = (seed: string): boolean => /^\d{4}-\d{2}-\d{2}$/.test(seed);
+
+/**
+ * Picks the seed for a new deal from the seed URL parameter
+ *
+ * @param seedParam Value of the seed parameter, if any
+ * @param now Current date, used for the daily deal
+ * @param random Random number source for generating a fresh seed
+ * @returns The given seed, today's daily seed for 'daily', or a fresh seed when none is given
+ */
+export const resolveSeed = (seedParam: string | null, now: Date, random: RandomSource = Math.random): string => {
+    const seed = seedParam?.trim().slice(0, MAX_SEED_LENGTH) ?? '';
+    if (seed === '') {
+        return generateSeed(random);
+    }
+    return seed.toLowerCase() === DAILY_SEED ? getDailySeed(now) : seed;
+};
@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    GAME_SNAPSHOT_KEY,
+    GAME_SNAPSHOT_VERSION,
+    GAME_SNAPSHOT_MAX_AGE_MS,
+    isValidGameState,
+    migrateSnapshot,
+    serializeGameState,
+    deserializeGameSnapshot,
+    isResumableGameState,
+    saveGameSnapshot,
+    loadGameSnapshot,
+    clearGameSnapshot
+} from './storage';
+import { GameState, GameStatus } from '../models/game-state';
+import { InMemoryStorageService } from '../services/storage-service';
+
+describe('Game Snapshot Storage', () => {
+    const now = 1_700_000_000_000;
+
+    const createTestGameState = (): GameState => ({
+        cards: [
+            { id: 1, imageId: 1, isRevealed: true, isMatched: true },
+            { id: 2, imageId: 1, isRevealed: true, isMatched: true },
+            { id: 3, imageId: 2, isRevealed: true, isMatched: false },
+            { id: 4, imageId: 2, isRevealed: false, isMatched: false }
+        ],
+        status: GameStatus.IN_PROGRESS,
+        moves: 3,
+        selectedCardIds: [3],
+        isPreviewMode: false,
+        cardStyle: 'robgon',
+        gridSize: 'hard'
+    });
+
+    describe('isValidGameState', () => {
+        it('should accept a well-formed game state', () => {
+            expect(isValidGameState(createTestGameState())).toBe(true);
+        });
+
+        it('should reject non-objects', () => {
+            expect(isValidGameState(null)).toBe(false);
+            expect(isValidGameState('state')).toBe(false);
+            expect(isValidGameState([])).toBe(false);
+        });
+
+        it('should reject unknown statuses, styles and grid sizes', () => {
+            expect(isValidGameState({ ...createTestGameState(), status: 'won' })).toBe(false);
+            expect(isValidGameState({ ...createTestGameState(), cardStyle: 'Old Masters' })).toBe(false);
+            expect(isValidGameState({ ...createTestGameState(), gridSize: 'medium' })).toBe(false);
+        });
+
+        it('should reject broken card lists', () => {
+            const state = createTestGameState();
+            expect(isValidGameState({ ...state, cards: [] })).toBe(false);
+            expect(isValidGameState({ ...state, cards: state.cards.slice(0, 3) })).toBe(false);
+            expect(isValidGameState({
+                ...state,
+                cards: state.cards.map(card => card.id === 4 ? { ...card, imageId: 3 } : card)
+            })).toBe(false);
+            expect(isValidGameState({
+                ...state,
+                cards: state.cards.map(card => card.id === 4 ? { ...card, id: 1 } : card)
+            })).toBe(false);
+            expect(isValidGameState({
+                ...state,
+                cards: state.cards.map(card => card.id === 4 ? { ...card, isMatched: 'no' } : card)
+            })).toBe(false);
+        });
+
+        it('should validate time-attack settings when present', () => {
+            const timeAttack = { timeLimitMs: 40_000, matchBonusMs: 2_000 };
+            expect(isValidGameState({ ...createTestGameState(), timeAttack })).toBe(true);
+            expect(isValidGameState({ ...createTestGameState(), timeAttack: { timeLimitMs: -1, matchBonusMs: 0 } })).toBe(false);
+            expect(isValidGameState({ ...createTestGameState(), timeAttack: 'fast' })).toBe(false);
+        });
+
+        it('should validate lives when present', () => {
+            expect(isValidGameState({ ...createTestGameState(), lives: 2 })).toBe(true);
+            expect(isValidGameState({ ...createTestGameState(), lives: -1 })).toBe(false);
+            expect(isValidGameState({ ...createTestGameState(), lives: 'many' })).toBe(false);
+        });
+
+        it('should validate multiplayer state when present', () => {
+            const players = [{ name: 'A', score: 1 }, { name: 'B', score: 0 }];
+            expect(isValidGameState({ ...createTestGameState(), multiplayer: { players, activePlayerIndex: 1 } })).toBe(true);
+            expect(isValidGameState({ ...createTestGameState(), multiplayer: { players, activePlayerIndex: 2 } })).toBe(false);
+            expect(isValidGameState({ ...createTestGameState(), multiplayer: { players: players.slice(0, 1), activePlayerIndex: 0 } })).toBe(false);
+            expect(isValidGameState({ ...createTestGameState(), multiplayer: { players: [{ name: 'A' }, { name: 'B' }], activePlayerIndex: 0 } })).toBe(false);
+            const computerPlayers = [{ name: 'A', score: 0 }, { name: 'Computer', score: 0, aiDifficulty: 'perfect' }];
+            expect(isValidGameState({ ...createTestGameState(), multiplayer: { players: computerPlayers, activePlayerIndex: 0 } })).toBe(true);
+            const unknownDifficulty = [{ name: 'A', score: 0 }, { name: 'Computer', score: 0, aiDifficulty: 'godlike' }];
+            expect(isValidGameState({ ...createTestGameState(), multiplayer: { players: unknownDifficulty, activePlayerIndex: 0 } })).toBe(false);
+            const inheritedDifficulty = [{ name: 'A', score: 0 }, { name: 'Computer', score: 0, aiDifficulty: 'toString' }];
+            expect(isValidGameState({ ...createTestGameState(), multiplayer: { players: inheritedDifficulty, activePlayerIndex: 0 } })).toBe(false);
+        });
+
+        it('should validate the practice undo count when present', () => {
+            expect(isValidGameState({ ...createTestGameState(), practice: { undos: 3 } })).toBe(true);
+            expect(isValidGameState({ ...createTestGameState(), practice: { undos: -1 } })).toBe(false);
+            expect(isValidGameState({ ...createTestGameState(), practice: true })).toBe(false);
+        });
+
+        it('should validate non-identical pairs when present', () => {
+            const state = createTestGameState();
+            const paired = {
+                ...state,
+                pairing: 'artist',
+                cards: state.cards.map((card, index) => ({ ...card, face: index % 2 === 0 ? 'image' : 'artist', pairKey: `Artist ${card.imageId}` }))
+            };
+            expect(isValidGameState(paired)).toBe(true);
+            expect(isValidGameState({ ...paired, pairing: 'colour' })).toBe(false);
+            expect(isValidGameState({ ...paired, cards: paired.cards.map(card => ({ ...card, face: 'colour' })) })).toBe(false);
+            expect(isValidGameState({ ...paired, cards: paired.cards.map(card => ({ ...card, pairKey: 1 })) })).toBe(false);
+        });
+
+        it('should validate groups larger than pairs when present', () => {
+            const state = createTestGameState();
+            const triplets = {
+                ...state,
+                groupSize: 3,
+                cards: [1, 1, 1, 2, 2, 2].map((imageId, index) => ({ id: index + 1, imageId, isRevealed: false, isMatched: false }))
+            };
+            expect(isValidGameState(triplets)).toBe(true);
+            expect(isValidGameState({ ...triplets, selectedCardIds: [1, 2, 3] })).toBe(true);
+            expect(isValidGameState({ ...triplets, groupSize: 5 })).toBe(false);
+            expect(isValidGameState({ ...triplets, groupSize: 2 })).toBe(false);
+            expect(isValidGameState({ ...state, groupSize: 3 })).toBe(false);
+        });
+
+        it('should validate the deal seed when present', () => {
+            expect(isValidGameState({ ...createTestGameState(), seed: 'abc123' })).toBe(true);
+            expect(isValidGameState({ ...createTestGameState(), seed: 42 })).toBe(false);
+        });
+
+        it('should reject invalid moves and selections', () => {
+            expect(isValidGameState({ ...createTestGameState(), moves: -1 })).toBe(false);
+            expect(isValidGameState({ ...createTestGameState(), moves: 1.5 })).toBe(false);
+            expect(isValidGameState({ ...createTestGameState(), selectedCardIds: [99] })).toBe(false);
+            expect(isValidGameState({ ...createTestGameState(), selectedCardIds: [1, 2, 3] })).toBe(false);
+        });
+    });
+
+    describe('migrateSnapshot', () => {
+        it('should give version 1 snapshots a zero elapsed time', () => {
+            const migrated = migrateSnapshot({ version: 1, savedAt: now });
+            expect(migrated).toEqual({ version: GAME_SNAPSHOT_VERSION, savedAt: now, elapsedMs: 0 });
+        });
+
+        it('should return current snapshots unchanged', () => {
+            const snapshot = { version: GAME_SNAPSHOT_VERSION, savedAt: now };
+            expect(migrateSnapshot(snapshot)).toEqual(snapshot);
+        });
+
+        it('should apply migrations in order up to the current version', () => {
+            const migrations = {
+                [GAME_SNAPSHOT_VERSION - 1]: (snapshot: Record<string, unknown>) => ({ ...snapshot, migrated: true })
+            };
+
+            const migrated = migrateSnapshot({ version: GAME_SNAPSHOT_VERSION - 1 }, migrations);
+
+            expect(migrated).toEqual({ version: GAME_SNAPSHOT_VERSION, migrated: true });
+        });
+
+        it('should reject versions without a migration path', () => {
+            expect(migrateSnapshot({ version: GAME_SNAPSHOT_VERSION - 1 }, {})).toBeNull();
+            expect(migrateSnapshot({ version: GAME_SNAPSHOT_VERSION + 1 })).toBeNull();
+            expect(migrateSnapshot({ version: 'one' })).toBeNull();
+        });
+    });
+
+    describe('serializeGameState / deserializeGameSnapshot', () => {
+        it('should round-trip a game state and its elapsed time', () => {
+            const state = createTestGameState();
+            const raw = serializeGameState(state, 42_000, now);
+
+            expect(deserializeGameSnapshot(raw, now + 1000)).toEqual({
+                version: GAME_SNAPSHOT_VERSION,
+                savedAt: now,
+                elapsedMs: 42_000,
+                state
+            });
+        });
+
+        it('should restore version 1 snapshots', () => {
+            const state = createTestGameState();
+            const raw = JSON.stringify({ version: 1, savedAt: now, state });
+
+            expect(deserializeGameSnapshot(raw, now)?.elapsedMs).toBe(0);
+            expect(deserializeGameSnapshot(raw, now)?.state).toEqual(state);
+        });
+
+        it('should reject corrupt JSON', () => {
+            expect(deserializeGameSnapshot('{not json', now)).toBeNull();
+            expect(deserializeGameSnapshot('42', now)).toBeNull();
+        });
+
+        it('should reject snapshots with an invalid state', () => {
+            const raw = JSON.stringify({
+                version: GAME_SNAPSHOT_VERSION,
+                savedAt: now,
+                elapsedMs: 0,
+                state: { ...createTestGameState(), cards: 'none' }
+            });
+            expect(deserializeGameSnapshot(raw, now)).toBeNull();
+        });
+
+        it('should reject stale snapshots', () => {
+            const raw = serializeGameState(createTestGameState(), 0, now);
+            expect(deserializeGameSnapshot(raw, now + GAME_SNAPSHOT_MAX_AGE_MS + 1)).toBeNull();
+        });
+
+        it('should reject snapshots saved in the future', () => {
+            const raw = serializeGameState(createTestGameState(), 0, now);
+            expect(deserializeGameSnapshot(raw, now - 1)).toBeNull();
+        });
+    });
+
+    describe('isResumableGameState', () => {
+        it('should only offer games that are in progress', () => {
+            const state = createTestGameState();
+            expect(isResumableGameState(state)).toBe(true);
+            expect(isResumableGameState({ ...state, status: GameStatus.READY })).toBe(false);
+            expect(isResumableGameState({ ...state, status: GameStatus.COMPLETED })).toBe(false);
+        });
+    });
+
+    describe('storage helpers', () => {
+        let storage: InMemoryStorageService;
+
+        beforeEach(() => {
+            storage = new InMemoryStorageService();
+        });
+
+        it('should save and load a game state', () => {
+            const state = createTestGameState();
+            saveGameSnapshot(storage, state, 5000, now);
+
+            expect(loadGameSnapshot(storage, now)?.state).toEqual(state);
+            expect(loadGameSnapshot(storage, now)?.elapsedMs).toBe(5000);
+        });
+
+        it('should return null when nothing is saved', () => {
+            expect(loadGameSnapshot(storage, now)).toBeNull();
+        });
+
+        it('should remove corrupt snapshots when loading', () => {
+            storage.setItem(GAME_SNAPSHOT_KEY, 'garbage');
+
+            expect(loadGameSnapshot(storage, now)).toBeNull();
+            expect(storage.getItem(GAME_SNAPSHOT_KEY)).toBeNull();
+        });
+
+        it('should clear a saved snapshot', () => {
+            saveGameSnapshot(storage, createTestGameState(), 0, now);
+            clearGameSnapshot(storage);
+
+            expect(storage.getItem(GAME_SNAPSHOT_KEY)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,283 @@
+/**
+ * Game Snapshot Storage
+ *
+ * Pure functions for serializing, validating and migrating saved games,
+ * plus thin helpers that read and write them through a StorageService.
+ */
+
+import { Card, GameState, GameStatus, DEFAULT_GROUP_SIZE, MAX_GROUP_SIZE } from '../models/game-state';
+import { isDeckId } from '../functions/deck-manifest';
+import { StorageService } from '../services/storage-service';
+import { isAiDifficulty } from '../functions/ai-player';
+import { isPairingMode } from '../functions/pairing';
+import { isObject, isNonNegativeInteger } from './validation';
+
+// Key used to store the in-progress game
+export const GAME_SNAPSHOT_KEY = 'memory-game:snapshot';
+
+// Current snapshot format version - bump it and add a migration when GameState changes
+export const GAME_SNAPSHOT_VERSION = 2;
+
+// Snapshots older than this are considered stale and discarded (7 days)
+export const GAME_SNAPSHOT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Serialized form of a saved game
+export interface GameSnapshot {
+    version: number;
+    savedAt: number;
+    elapsedMs: number;
+    state: GameState;
+}
+
+// A migration upgrades a raw snapshot from version N to version N + 1
+export type SnapshotMigration = (snapshot: Record<string, unknown>) => Record<string, unknown>;
+
+// Migrations keyed by the version they upgrade from
+export const SNAPSHOT_MIGRATIONS: Record<number, SnapshotMigration> = {
+    // Version 1 predates the game clock
+    1: (snapshot) => ({ ...snapshot, elapsedMs: 0 })
+};
+
+const isGroupSize = (value: unknown): value is number =>
+    isNonNegativeInteger(value) && value >= DEFAULT_GROUP_SIZE && value <= MAX_GROUP_SIZE;
+
+const isValidCard = (value: unknown): value is Card =>
+    isObject(value) &&
+    isNonNegativeInteger(value.id) &&
+    isNonNegativeInteger(value.imageId) &&
+    typeof value.isRevealed === 'boolean' &&
+    typeof value.isMatched === 'boolean' &&
+    (value.face === undefined || value.face === 'image' || isPairingMode(value.face)) &&
+    (value.pairKey === undefined || typeof value.pairKey === 'string');
+
+const isValidMultiplayerState = (value: unknown): boolean =>
+    isObject(value) &&
+    Array.isArray(value.players) &&
+    value.players.length >= 2 &&
+    value.players.every(player =>
+        isObject(player) &&
+        typeof player.name === 'string' &&
+        isNonNegativeInteger(player.score) &&
+        (player.aiDifficulty === undefined || isAiDifficulty(player.aiDifficulty))) &&
+    isNonNegativeInteger(value.activePlayerIndex) &&
+    value.activePlayerIndex < value.players.length;
+
+/**
+ * Checks that an unknown value is a structurally sound game state
+ *
+ * @param value Value to check
+ * @returns True if the value can safely be used as a GameState
+ */
+export const isValidGameState = (value: unknown): value is GameState => {
+    if (!isObject(value)) {
+        return false;
+    }
+
+    const { cards, status, moves, selectedCardIds, isPreviewMode, cardStyle, gridSize } = value;
+
+    // Groups larger than pairs are only present in match-three (or larger) games
+    const { groupSize = DEFAULT_GROUP_SIZE } = value;
+    if (!isGroupSize(groupSize)) {
+        return false;
+    }
+
+    if (!Array.isArray(cards) || cards.length === 0 || cards.length % groupSize !== 0 || !cards.every(isValidCard)) {
+        return false;
+    }
+
+    // Card ids must be unique and every image must appear once per card of its group
+    const cardIds = new Set(cards.map(card => card.id));
+    if (cardIds.size !== cards.length) {
+        return false;
+    }
+    const imageCounts = new Map<number, number>();
+    cards.forEach(card => imageCounts.set(card.imageId, (imageCounts.get(card.imageId) ?? 0) + 1));
+    if (![...imageCounts.values()].every(count => count === groupSize)) {
+        return false;
+    }
+
+    if (!Object.values(GameStatus).includes(status as GameStatus)) {
+        return false;
+    }
+
+    if (!isNonNegativeInteger(moves)) {
+        return false;
+    }
+
+    if (!Array.isArray(selectedCardIds) ||
+        selectedCardIds.length > groupSize ||
+        !selectedCardIds.every(id => cardIds.has(id))) {
+        return false;
+    }
+
+    // Time-attack settings are only present in time-attack mode
+    const { timeAttack } = value;
+    if (timeAttack !== undefined &&
+        !(isObject(timeAttack) && isNonNegativeInteger(timeAttack.timeLimitMs) && isNonNegativeInteger(timeAttack.matchBonusMs))) {
+        return false;
+    }
+
+    // Lives are only present in limited-lives mode
+    if (value.lives !== undefined && !isNonNegativeInteger(value.lives)) {
+        return false;
+    }
+
+    // Players are only present in multiplayer games
+    const { multiplayer } = value;
+    if (multiplayer !== undefined && !isValidMultiplayerState(multiplayer)) {
+        return false;
+    }
+
+    // Undo counts are only present in practice mode
+    const { practice } = value;
+    if (practice !== undefined && !(isObject(practice) && isNonNegativeInteger(practice.undos))) {
+        return false;
+    }
+
+    // Only present when each painting pairs with a text card
+    if (value.pairing !== undefined && !isPairingMode(value.pairing)) {
+        return false;
+    }
+
+    // Deals made before seeded shuffling have no seed
+    if (value.seed !== undefined && typeof value.seed !== 'string') {
+        return false;
+    }
+
+    return typeof isPreviewMode === 'boolean' &&
+        isDeckId(cardStyle) &&
+        (gridSize === 'easy' || gridSize === 'hard');
+};
+
+/**
+ * Upgrades a raw snapshot to the current version by applying migrations in order
+ *
+ * @param snapshot Raw snapshot object
+ * @param migrations Migrations keyed by the version they upgrade from
+ * @returns The migrated snapshot, or null if no migration path exists
+ */
+export const migrateSnapshot = (
+    snapshot: Record<string, unknown>,
+    migrations: Record<number, SnapshotMigration> = SNAPSHOT_MIGRATIONS
+): Record<string, unknown> | null => {
+    let current = snapshot;
+
+    while (isNonNegativeInteger(current.version) && current.version < GAME_SNAPSHOT_VERSION) {
+        const migration = migrations[current.version];
+        if (!migration) {
+            return null;
+        }
+        current = { ...migration(current), version: current.version + 1 };
+    }
+
+    return current.version === GAME_SNAPSHOT_VERSION ? current : null;
+};
+
+/**
+ * Serializes a game state into a versioned snapshot string
+ *
+ * @param state Game state to serialize
+ * @param elapsedMs Time played so far in milliseconds
+ * @param now Current time in milliseconds
+ * @returns JSON string of the snapshot
+ */
+export const serializeGameState = (state: GameState, elapsedMs: number = 0, now: number = Date.now()): string => {
+    const snapshot: GameSnapshot = {
+        version: GAME_SNAPSHOT_VERSION,
+        savedAt: now,
+        elapsedMs: Math.max(0, Math.round(elapsedMs)),
+        state
+    };
+    return JSON.stringify(snapshot);
+};
+
+/**
+ * Parses, migrates and validates a serialized snapshot
+ *
+ * @param raw JSON string of the snapshot
+ * @param now Current time in milliseconds
+ * @param maxAge Maximum snapshot age in milliseconds
+ * @returns The restored snapshot, or null if it is corrupt or stale
+ */
+export const deserializeGameSnapshot = (
+    raw: string,
+    now: number = Date.now(),
+    maxAge: number = GAME_SNAPSHOT_MAX_AGE_MS
+): GameSnapshot | null => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+
+    if (!isObject(parsed)) {
+        return null;
+    }
+
+    const snapshot = migrateSnapshot(parsed);
+    if (!snapshot || !isNonNegativeInteger(snapshot.savedAt) || !isNonNegativeInteger(snapshot.elapsedMs)) {
+        return null;
+    }
+
+    // Reject stale snapshots and ones from the future
+    const age = now - snapshot.savedAt;
+    if (age < 0 || age > maxAge) {
+        return null;
+    }
+
+    if (!isValidGameState(snapshot.state)) {
+        return null;
+    }
+
+    return {
+        version: snapshot.version as number,
+        savedAt: snapshot.savedAt,
+        elapsedMs: snapshot.elapsedMs,
+        state: snapshot.state
+    };
+};
+
+/**
+ * Determines whether a restored game is worth offering to resume
+ *
+ * @param state Restored game state
+ * @returns True if the game was started but not finished
+ */
+export const isResumableGameState = (state: GameState): boolean =>
+    state.status === GameStatus.IN_PROGRESS;
+
+/**
+ * Saves a game state to storage
+ */
+export const saveGameSnapshot = (
+    storage: StorageService,
+    state: GameState,
+    elapsedMs: number = 0,
+    now: number = Date.now()
+): void => {
+    storage.setItem(GAME_SNAPSHOT_KEY, serializeGameState(state, elapsedMs, now));
+};
+
+/**
+ * Loads a saved game from storage, discarding corrupt or stale snapshots
+ */
+export const loadGameSnapshot = (storage: StorageService, now: number = Date.now()): GameSnapshot | null => {
+    const raw = storage.getItem(GAME_SNAPSHOT_KEY);
+    if (raw === null) {
+        return null;
+    }
+
+    const snapshot = deserializeGameSnapshot(raw, now);
+    if (!snapshot) {
+        storage.removeItem(GAME_SNAPSHOT_KEY);
+    }
+    return snapshot;
+};
+
+/**
+ * Removes any saved game from storage
+ */
+export const clearGameSnapshot = (storage: StorageService): void => {
+    storage.removeItem(GAME_SNAPSHOT_KEY);
+};
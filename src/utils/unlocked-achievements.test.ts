@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    UNLOCKED_ACHIEVEMENTS_KEY,
+    parseUnlockedAchievements,
+    loadUnlockedAchievements,
+    saveUnlockedAchievements
+} from './unlocked-achievements';
+import { InMemoryStorageService } from '../services/storage-service';
+
+describe('Unlocked Achievement Storage', () => {
+    describe('parseUnlockedAchievements', () => {
+        it('should return no unlocks for missing or corrupt data', () => {
+            expect(parseUnlockedAchievements(null)).toEqual({});
+            expect(parseUnlockedAchievements('not json')).toEqual({});
+            expect(parseUnlockedAchievements(JSON.stringify({ version: 99, unlocked: { first_win: 1 } }))).toEqual({});
+        });
+
+        it('should drop malformed unlocks', () => {
+            const raw = JSON.stringify({ version: 1, unlocked: { first_win: 1, perfect_game: 'yesterday', both_decks: -5 } });
+
+            expect(parseUnlockedAchievements(raw)).toEqual({ first_win: 1 });
+        });
+    });
+
+    describe('storage', () => {
+        let storage: InMemoryStorageService;
+
+        beforeEach(() => {
+            storage = new InMemoryStorageService();
+        });
+
+        it('should start with nothing unlocked', () => {
+            expect(loadUnlockedAchievements(storage)).toEqual({});
+        });
+
+        it('should save unlocks with their time', () => {
+            saveUnlockedAchievements(storage, ['first_win', 'perfect_game'], 100);
+
+            expect(loadUnlockedAchievements(storage)).toEqual({ first_win: 100, perfect_game: 100 });
+            expect(storage.getItem(UNLOCKED_ACHIEVEMENTS_KEY)).not.toBeNull();
+        });
+
+        it('should keep the time of earlier unlocks', () => {
+            saveUnlockedAchievements(storage, ['first_win'], 100);
+            saveUnlockedAchievements(storage, ['first_win', 'both_decks'], 200);
+
+            expect(loadUnlockedAchievements(storage)).toEqual({ first_win: 100, both_decks: 200 });
+        });
+    });
+});
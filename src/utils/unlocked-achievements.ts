@@ -0,0 +1,67 @@
+/**
+ * Unlocked Achievement Storage
+ *
+ * Thin helpers that keep track of which achievements the player has unlocked,
+ * and when, through a StorageService.
+ */
+
+import { StorageService } from '../services/storage-service';
+import { isObject, isNonNegativeInteger } from './validation';
+
+// Key used to store unlocked achievements
+export const UNLOCKED_ACHIEVEMENTS_KEY = 'memory-game:achievements';
+
+// Current storage format version
+export const UNLOCKED_ACHIEVEMENTS_VERSION = 1;
+
+// When each unlocked achievement was unlocked in milliseconds, keyed by achievement ID
+export type UnlockedAchievements = Record<string, number>;
+
+/**
+ * Parses stored unlocked achievements, dropping anything malformed
+ *
+ * @param raw JSON string of the stored achievements
+ * @returns The valid unlocks, or none if the data is corrupt
+ */
+export const parseUnlockedAchievements = (raw: string | null): UnlockedAchievements => {
+    if (raw === null) {
+        return {};
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        return {};
+    }
+
+    if (!isObject(parsed) || parsed.version !== UNLOCKED_ACHIEVEMENTS_VERSION || !isObject(parsed.unlocked)) {
+        return {};
+    }
+
+    return Object.fromEntries(
+        Object.entries(parsed.unlocked).filter((entry): entry is [string, number] => isNonNegativeInteger(entry[1]))
+    );
+};
+
+/**
+ * Loads all unlocked achievements
+ */
+export const loadUnlockedAchievements = (storage: StorageService): UnlockedAchievements =>
+    parseUnlockedAchievements(storage.getItem(UNLOCKED_ACHIEVEMENTS_KEY));
+
+/**
+ * Marks achievements as unlocked, keeping the original time of earlier unlocks
+ */
+export const saveUnlockedAchievements = (
+    storage: StorageService,
+    ids: string[],
+    now: number = Date.now()
+): void => {
+    const unlocked = loadUnlockedAchievements(storage);
+    const newlyUnlocked = Object.fromEntries(ids.filter(id => !(id in unlocked)).map(id => [id, now]));
+    storage.setItem(UNLOCKED_ACHIEVEMENTS_KEY, JSON.stringify({
+        version: UNLOCKED_ACHIEVEMENTS_VERSION,
+        unlocked: { ...unlocked, ...newlyUnlocked }
+    }));
+};
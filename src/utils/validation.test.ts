@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { isObject, isNonNegativeInteger } from './validation';
+
+describe('Validation Helpers', () => {
+    it('isObject accepts only plain objects', () => {
+        expect(isObject({ a: 1 })).toBe(true);
+        expect(isObject(null)).toBe(false);
+        expect(isObject([])).toBe(false);
+        expect(isObject('text')).toBe(false);
+    });
+
+    it('isNonNegativeInteger accepts only whole numbers of 0 or more', () => {
+        expect(isNonNegativeInteger(0)).toBe(true);
+        expect(isNonNegativeInteger(12)).toBe(true);
+        expect(isNonNegativeInteger(-1)).toBe(false);
+        expect(isNonNegativeInteger(1.5)).toBe(false);
+        expect(isNonNegativeInteger('3')).toBe(false);
+    });
+});
@@ -0,0 +1,24 @@
+/**
+ * Validation Helpers
+ *
+ * Type guards shared by the modules that read data back from storage or
+ * imported files, where any value may have been edited or corrupted.
+ */
+
+/**
+ * Checks for a plain object
+ *
+ * @param value Value to check
+ * @returns True for objects other than null and arrays
+ */
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks for a count or an index
+ *
+ * @param value Value to check
+ * @returns True for whole numbers of 0 or more
+ */
+export const isNonNegativeInteger = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0;